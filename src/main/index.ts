@@ -1,10 +1,14 @@
-import { app, BrowserWindow, session, desktopCapturer } from "electron";
+import { app, BrowserWindow, session } from "electron";
 import path from "path";
 import log from "electron-log";
 import { registerIpcHandlers } from "./ipc/index";
+import { PROTOCOL_SCHEME, dispatchProtocolUrl, findProtocolUrl } from "./ipc/protocol";
+import { handleDisplayMediaRequest } from "./ipc/display-source";
 
 log.initialize();
 
+let mainWindow: BrowserWindow | null = null;
+
 function createWindow() {
   const win = new BrowserWindow({
     width: 1200,
@@ -17,17 +21,17 @@ function createWindow() {
       preload: path.join(__dirname, "preload.js")
     }
   });
+  mainWindow = win;
+
+  win.on("closed", () => {
+    if (mainWindow === win) {
+      mainWindow = null;
+    }
+  });
 
-  // Allow renderer to use getDisplayMedia for screen capture
-  session.defaultSession.setDisplayMediaRequestHandler((_request, callback) => {
-    desktopCapturer.getSources({ types: ["screen", "window"] }).then((sources) => {
-      // Grant the first screen source automatically, or let Chromium show its picker
-      if (sources.length > 0) {
-        callback({ video: sources[0] });
-      } else {
-        callback({});
-      }
-    });
+  // Allow renderer to use getDisplayMedia for screen capture, with the source picked in the app
+  session.defaultSession.setDisplayMediaRequestHandler((request, callback) => {
+    handleDisplayMediaRequest(callback, request.audioRequested);
   });
 
   if (process.env.VITE_DEV_SERVER_URL) {
@@ -38,19 +42,55 @@ function createWindow() {
   }
 }
 
-app.whenReady().then(() => {
-  registerIpcHandlers();
-  createWindow();
-});
-
-app.on("window-all-closed", () => {
-  if (process.platform !== "darwin") {
-    app.quit();
+// Keep a single running instance so deep links reach the existing session,
+// a second instance only hands its link over and quits
+if (!app.requestSingleInstanceLock()) {
+  app.quit();
+} else {
+  // Register lynxscreen:// so links clicked in chat open the app.
+  // In development the Electron binary needs the app path as an extra argument.
+  if (process.defaultApp && process.argv.length >= 2) {
+    app.setAsDefaultProtocolClient(PROTOCOL_SCHEME, process.execPath, [path.resolve(process.argv[1])]);
+  } else {
+    app.setAsDefaultProtocolClient(PROTOCOL_SCHEME);
   }
-});
 
-app.on("activate", () => {
-  if (BrowserWindow.getAllWindows().length === 0) {
+  // Windows/Linux: a deep link opened while running starts a second instance
+  app.on("second-instance", (_event, argv) => {
+    const url = findProtocolUrl(argv);
+    if (url) {
+      dispatchProtocolUrl(mainWindow, url);
+    } else if (mainWindow) {
+      mainWindow.focus();
+    }
+  });
+
+  // macOS: deep links are delivered as open-url events, also on cold start
+  app.on("open-url", (event, url) => {
+    event.preventDefault();
+    dispatchProtocolUrl(mainWindow, url);
+  });
+
+  app.whenReady().then(() => {
+    registerIpcHandlers();
     createWindow();
-  }
-});
\ No newline at end of file
+
+    // Windows/Linux: the link that launched the app is in argv
+    const launchUrl = findProtocolUrl(process.argv);
+    if (launchUrl) {
+      dispatchProtocolUrl(mainWindow, launchUrl);
+    }
+  });
+
+  app.on("window-all-closed", () => {
+    if (process.platform !== "darwin") {
+      app.quit();
+    }
+  });
+
+  app.on("activate", () => {
+    if (BrowserWindow.getAllWindows().length === 0) {
+      createWindow();
+    }
+  });
+}
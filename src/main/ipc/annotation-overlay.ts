@@ -0,0 +1,134 @@
+import { ipcMain, BrowserWindow } from "electron";
+import path from "path";
+import log from "electron-log";
+import { getSharedDisplay } from "./display-source";
+
+// Transparent window above the shared screen showing the watcher's strokes and cursor
+let overlayWindow: BrowserWindow | null = null;
+// Messages sent while the overlay page was still loading
+let pendingMessages: Array<{ channel: string; payload?: unknown }> = [];
+
+function createOverlayWindow(): BrowserWindow {
+  const { bounds } = getSharedDisplay();
+
+  const win = new BrowserWindow({
+    ...bounds,
+    show: false,
+    transparent: true,
+    frame: false,
+    hasShadow: false,
+    resizable: false,
+    movable: false,
+    minimizable: false,
+    maximizable: false,
+    fullscreenable: false,
+    focusable: false,
+    skipTaskbar: true,
+    alwaysOnTop: true,
+    webPreferences: {
+      nodeIntegration: false,
+      contextIsolation: true,
+      backgroundThrottling: false,
+      preload: path.join(__dirname, "preload.js")
+    }
+  });
+
+  win.setAlwaysOnTop(true, "screen-saver");
+  win.setVisibleOnAllWorkspaces(true, { visibleOnFullScreen: true });
+  // Clicks and typing go to the applications below
+  win.setIgnoreMouseEvents(true);
+  // Keep the strokes out of the captured screen, the watcher already sees its own drawing
+  win.setContentProtection(true);
+
+  win.webContents.once("did-finish-load", () => {
+    for (const { channel, payload } of pendingMessages) {
+      win.webContents.send(channel, payload);
+    }
+    pendingMessages = [];
+    win.showInactive();
+  });
+
+  win.on("closed", () => {
+    if (overlayWindow === win) {
+      overlayWindow = null;
+      pendingMessages = [];
+    }
+  });
+
+  if (process.env.VITE_DEV_SERVER_URL) {
+    win.loadURL(new URL("overlay.html", process.env.VITE_DEV_SERVER_URL).toString());
+  } else {
+    win.loadFile("dist/overlay.html");
+  }
+
+  log.info("[AnnotationOverlay] Opened overlay window");
+  return win;
+}
+
+function sendToOverlay(win: BrowserWindow, channel: string, payload?: unknown): void {
+  if (win.webContents.isLoading()) {
+    pendingMessages.push({ channel, payload });
+  } else {
+    win.webContents.send(channel, payload);
+  }
+}
+
+function isOverlayOpen(win: BrowserWindow | null): win is BrowserWindow {
+  return win !== null && !win.isDestroyed();
+}
+
+/**
+ * Overlay above the shared screen, moved there when the sharer switched to another screen.
+ */
+function getOrCreateOverlayWindow(): BrowserWindow {
+  if (!isOverlayOpen(overlayWindow)) {
+    overlayWindow = createOverlayWindow();
+    return overlayWindow;
+  }
+
+  const { bounds } = getSharedDisplay();
+  const current = overlayWindow.getBounds();
+  if (current.x !== bounds.x || current.y !== bounds.y ||
+    current.width !== bounds.width || current.height !== bounds.height) {
+    overlayWindow.setBounds(bounds);
+  }
+  return overlayWindow;
+}
+
+export function registerAnnotationOverlayHandlers(): void {
+  ipcMain.handle("annotationOverlay:drawStroke", (_event, update: unknown) => {
+    sendToOverlay(getOrCreateOverlayWindow(), "annotationOverlay:stroke", update);
+  });
+
+  // Watcher cursors follow the same path as the strokes
+  ipcMain.handle("annotationOverlay:drawCursor", (_event, cursor: unknown) => {
+    sendToOverlay(getOrCreateOverlayWindow(), "annotationOverlay:cursor", cursor);
+  });
+
+  ipcMain.handle("annotationOverlay:drawCursorEvent", (_event, cursorEvent: unknown) => {
+    if (isOverlayOpen(overlayWindow)) {
+      sendToOverlay(overlayWindow, "annotationOverlay:cursorEvent", cursorEvent);
+    }
+  });
+
+  ipcMain.handle("annotationOverlay:removeCursor", (_event, cursorId: unknown) => {
+    if (isOverlayOpen(overlayWindow)) {
+      sendToOverlay(overlayWindow, "annotationOverlay:removeCursor", cursorId);
+    }
+  });
+
+  ipcMain.handle("annotationOverlay:clear", () => {
+    if (isOverlayOpen(overlayWindow)) {
+      sendToOverlay(overlayWindow, "annotationOverlay:clear");
+    }
+  });
+
+  ipcMain.handle("annotationOverlay:close", () => {
+    if (isOverlayOpen(overlayWindow)) {
+      overlayWindow.close();
+      log.info("[AnnotationOverlay] Closed overlay window");
+    }
+    overlayWindow = null;
+    pendingMessages = [];
+  });
+}
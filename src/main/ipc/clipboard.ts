@@ -1,4 +1,4 @@
-import { ipcMain, clipboard } from "electron";
+import { ipcMain, clipboard, nativeImage } from "electron";
 
 export function registerClipboardHandlers(): void {
   ipcMain.handle("clipboard:writeText", (_event, text: string) => {
@@ -8,4 +8,18 @@ export function registerClipboardHandlers(): void {
   ipcMain.handle("clipboard:readText", () => {
     return clipboard.readText();
   });
+
+  // Images cross IPC as PNG data URLs
+  ipcMain.handle("clipboard:writeImage", (_event, dataUrl: string) => {
+    const image = nativeImage.createFromDataURL(dataUrl);
+    if (image.isEmpty()) {
+      throw new Error("Invalid image data");
+    }
+    clipboard.writeImage(image);
+  });
+
+  ipcMain.handle("clipboard:readImage", () => {
+    const image = clipboard.readImage();
+    return image.isEmpty() ? null : image.toDataURL();
+  });
 }
\ No newline at end of file
@@ -0,0 +1,129 @@
+import { ipcMain, desktopCapturer, screen, BrowserWindow, DesktopCapturerSource, Display, Streams } from "electron";
+import log from "electron-log";
+
+const THUMBNAIL_SIZE = { width: 320, height: 180 };
+// How long a pick waits for its capture, a pick never captured must not leak into a later request
+const SELECTION_TTL_MS = 60 * 1000;
+
+// Source the sharer picked, granted to the next capture request only and until it expires
+let selectedSource: { id: string; expiresAt: number } | null = null;
+// Display of the screen being shared, null while a window or nothing is shared
+let sharedDisplayId: string | null = null;
+// Whether the sharer picked a window, its place on the screen is not known
+let isWindowPicked = false;
+
+interface DisplaySourceInfo {
+  id: string;
+  name: string;
+  kind: "screen" | "window";
+  thumbnail: string;
+  appIcon: string | null;
+}
+
+function toSourceInfo(source: DesktopCapturerSource): DisplaySourceInfo {
+  return {
+    id: source.id,
+    name: source.name,
+    kind: source.id.startsWith("screen:") ? "screen" : "window",
+    thumbnail: source.thumbnail.isEmpty() ? "" : source.thumbnail.toDataURL(),
+    appIcon: source.appIcon && !source.appIcon.isEmpty() ? source.appIcon.toDataURL() : null
+  };
+}
+
+/**
+ * Display the shared screen is on, for everything drawn on or mapped to it.
+ * A shared window has no display of its own, the primary display stands in for it.
+ */
+export function getSharedDisplay(): Display {
+  return screen.getAllDisplays().find((display) => String(display.id) === sharedDisplayId) ??
+    screen.getPrimaryDisplay();
+}
+
+/**
+ * Whether a window is shared. Nothing can be mapped onto it, the primary display
+ * getSharedDisplay() falls back to is not what the watcher sees.
+ */
+export function isWindowShared(): boolean {
+  return isWindowPicked;
+}
+
+/**
+ * Whether system audio can be captured next to the screen.
+ * Electron only captures loopback audio on Windows, elsewhere the screen is shared without sound.
+ */
+function isSystemAudioSupported(): boolean {
+  return process.platform === "win32";
+}
+
+/**
+ * Takes the pick made for this capture request, null when there is none or it expired.
+ */
+function takeSelectedSourceId(): string | null {
+  const selection = selectedSource;
+  selectedSource = null;
+  if (!selection) return null;
+
+  if (Date.now() > selection.expiresAt) {
+    log.warn(`[DisplaySource] Ignoring expired pick of ${selection.id}`);
+    return null;
+  }
+  return selection.id;
+}
+
+/**
+ * Answers a getDisplayMedia request with the source the sharer picked.
+ * Requests without a pick, such as scanning a QR code off the screen, get the first screen.
+ * Requests asking for audio also get the system audio where it can be captured.
+ */
+export async function handleDisplayMediaRequest(
+  callback: (streams: Streams) => void,
+  isAudioRequested: boolean = false
+): Promise<void> {
+  const requestedId = takeSelectedSourceId();
+
+  try {
+    const sources = await desktopCapturer.getSources({ types: ["screen", "window"], thumbnailSize: { width: 0, height: 0 } });
+    const source = requestedId === null ? sources[0] : sources.find((candidate) => candidate.id === requestedId);
+    if (!source) {
+      // The picked window closed in the meantime, sharing something else would be a surprise
+      log.warn(`[DisplaySource] Source ${requestedId ?? "(first)"} is not available`);
+      callback({});
+      return;
+    }
+
+    if (requestedId !== null) {
+      sharedDisplayId = source.display_id || null;
+      isWindowPicked = !source.id.startsWith("screen:");
+      log.info(`[DisplaySource] Sharing ${source.name}`);
+    }
+    // Loopback records the default output, the renderer plays the watcher's voice elsewhere while it is shared
+    callback(isAudioRequested && isSystemAudioSupported() ? { video: source, audio: "loopback" } : { video: source });
+  } catch (error) {
+    log.error("[DisplaySource] Failed to get capture sources:", error);
+    callback({});
+  }
+}
+
+export function registerDisplaySourceHandlers(): void {
+  // Screens and windows with thumbnails, without the app's own windows
+  ipcMain.handle("displaySource:list", async () => {
+    const ownWindowIds = BrowserWindow.getAllWindows().map((win) => win.getMediaSourceId());
+    const sources = await desktopCapturer.getSources({
+      types: ["screen", "window"],
+      thumbnailSize: THUMBNAIL_SIZE,
+      fetchWindowIcons: true
+    });
+    return sources.filter((source) => !ownWindowIds.includes(source.id)).map(toSourceInfo);
+  });
+
+  ipcMain.handle("displaySource:select", (_event, id: unknown) => {
+    selectedSource = typeof id === "string" ? { id, expiresAt: Date.now() + SELECTION_TTL_MS } : null;
+  });
+
+  ipcMain.handle("displaySource:isSystemAudioSupported", () => isSystemAudioSupported());
+
+  // Picker cancelled, the next capture is not the sharer's choice
+  ipcMain.handle("displaySource:clear", () => {
+    selectedSource = null;
+  });
+}
@@ -0,0 +1,25 @@
+import { ipcMain, dialog, BrowserWindow } from "electron";
+import { writeFile } from "fs/promises";
+import { basename } from "path";
+import log from "electron-log";
+
+export function registerFileTransferHandlers(): void {
+  ipcMain.handle("fileTransfer:save", async (event, data: Uint8Array, defaultName: string): Promise<string | null> => {
+    if (!(data instanceof Uint8Array)) {
+      throw new Error("Invalid file data");
+    }
+
+    // The name comes from the remote peer, never let it pick the directory
+    const win = BrowserWindow.fromWebContents(event.sender);
+    const options = { defaultPath: basename(String(defaultName)) || "received-file" };
+    const result = win ? await dialog.showSaveDialog(win, options) : await dialog.showSaveDialog(options);
+
+    if (result.canceled || !result.filePath) {
+      return null;
+    }
+
+    await writeFile(result.filePath, data);
+    log.info(`[FileTransfer] Saved ${data.byteLength} bytes to ${result.filePath}`);
+    return result.filePath;
+  });
+}
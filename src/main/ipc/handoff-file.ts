@@ -0,0 +1,43 @@
+import { ipcMain, dialog, BrowserWindow, OpenDialogOptions } from "electron";
+import { readFile, stat, writeFile } from "fs/promises";
+import log from "electron-log";
+
+const HANDOFF_FILE_FILTERS = [{ name: "LynxScreen handoff", extensions: ["lynx"] }];
+
+// Handoff files only carry one connection URL, anything bigger is not ours
+const MAX_HANDOFF_FILE_BYTES = 64 * 1024;
+
+export function registerHandoffFileHandlers(): void {
+  ipcMain.handle("handoffFile:save", async (event, contents: string, defaultName: string): Promise<string | null> => {
+    const win = BrowserWindow.fromWebContents(event.sender);
+    const options = { defaultPath: defaultName, filters: HANDOFF_FILE_FILTERS };
+    const result = win ? await dialog.showSaveDialog(win, options) : await dialog.showSaveDialog(options);
+
+    if (result.canceled || !result.filePath) {
+      return null;
+    }
+
+    await writeFile(result.filePath, contents, "utf8");
+    log.info(`[HandoffFile] Saved ${result.filePath}`);
+    return result.filePath;
+  });
+
+  ipcMain.handle("handoffFile:open", async (event): Promise<string | null> => {
+    const win = BrowserWindow.fromWebContents(event.sender);
+    const options: OpenDialogOptions = { properties: ["openFile"], filters: HANDOFF_FILE_FILTERS };
+    const result = win ? await dialog.showOpenDialog(win, options) : await dialog.showOpenDialog(options);
+
+    const filePath = result.filePaths[0];
+    if (result.canceled || !filePath) {
+      return null;
+    }
+
+    const { size } = await stat(filePath);
+    if (size > MAX_HANDOFF_FILE_BYTES) {
+      throw new Error("File is too large to be a handoff file");
+    }
+
+    log.info(`[HandoffFile] Opened ${filePath}`);
+    return readFile(filePath, "utf8");
+  });
+}
@@ -2,10 +2,26 @@ import { registerLoggerHandlers } from "./logger";
 import { registerClipboardHandlers } from "./clipboard";
 import { registerPowerHandlers } from "./power";
 import { registerMediaPermissionHandlers } from "./media-permission";
+import { registerProtocolHandlers } from "./protocol";
+import { registerSignalingHandlers } from "./signaling";
+import { registerHandoffFileHandlers } from "./handoff-file";
+import { registerFileTransferHandlers } from "./file-transfer";
+import { registerAnnotationOverlayHandlers } from "./annotation-overlay";
+import { registerRemoteControlHandlers } from "./remote-control";
+import { registerPointerHandlers } from "./pointer";
+import { registerDisplaySourceHandlers } from "./display-source";
 
 export function registerIpcHandlers(): void {
   registerLoggerHandlers();
   registerClipboardHandlers();
   registerPowerHandlers();
   registerMediaPermissionHandlers();
+  registerProtocolHandlers();
+  registerSignalingHandlers();
+  registerHandoffFileHandlers();
+  registerFileTransferHandlers();
+  registerAnnotationOverlayHandlers();
+  registerRemoteControlHandlers();
+  registerPointerHandlers();
+  registerDisplaySourceHandlers();
 }
\ No newline at end of file
@@ -0,0 +1,18 @@
+import { ipcMain, screen } from "electron";
+import { getSharedDisplay, isWindowShared } from "./display-source";
+
+export function registerPointerHandlers(): void {
+  // Normalized to the shared display; null while the pointer is on another display or a window is shared
+  ipcMain.handle("pointer:getPosition", () => {
+    if (isWindowShared()) {
+      return null;
+    }
+
+    const point = screen.getCursorScreenPoint();
+    const { x, y, width, height } = getSharedDisplay().bounds;
+    if (point.x < x || point.x >= x + width || point.y < y || point.y >= y + height) {
+      return null;
+    }
+    return { x: (point.x - x) / width, y: (point.y - y) / height };
+  });
+}
\ No newline at end of file
@@ -0,0 +1,55 @@
+import { ipcMain, BrowserWindow, WebContents } from "electron";
+import log from "electron-log";
+
+export const PROTOCOL_SCHEME = "lynxscreen";
+
+// Latest deep link not delivered yet, kept until the renderer confirms it listens
+let pendingUrl: string | null = null;
+// Renderer listening for deep links, cleared whenever it reloads
+let readyContents: WebContents | null = null;
+
+/**
+ * Extracts a lynxscreen:// URL from process arguments (Windows/Linux deep links).
+ */
+export function findProtocolUrl(argv: string[]): string | null {
+  return argv.find(arg => arg.startsWith(`${PROTOCOL_SCHEME}://`)) ?? null;
+}
+
+/**
+ * Sends the pending deep link once the window's renderer confirmed it listens.
+ */
+function deliverPendingUrl(win: BrowserWindow | null): void {
+  if (!pendingUrl || !win || win.isDestroyed() || win.webContents !== readyContents) return;
+
+  win.webContents.send("protocol:openUrl", pendingUrl);
+  pendingUrl = null;
+}
+
+/**
+ * Focuses the window and forwards a deep link URL to the renderer.
+ * The URL is kept until the renderer confirmed it listens, on cold start or while it reloads.
+ */
+export function dispatchProtocolUrl(win: BrowserWindow | null, url: string): void {
+  log.info(`[Protocol] Received deep link (${url.length} characters)`);
+  pendingUrl = url;
+
+  if (win && !win.isDestroyed()) {
+    if (win.isMinimized()) {
+      win.restore();
+    }
+    win.focus();
+  }
+  deliverPendingUrl(win);
+}
+
+export function registerProtocolHandlers(): void {
+  // Renderer subscribed to deep links, once it is mounted and again after every reload
+  ipcMain.on("protocol:rendererReady", (event) => {
+    const contents = event.sender;
+    readyContents = contents;
+    contents.once("did-start-loading", () => {
+      if (readyContents === contents) readyContents = null;
+    });
+    deliverPendingUrl(BrowserWindow.fromWebContents(contents));
+  });
+}
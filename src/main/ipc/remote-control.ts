@@ -0,0 +1,172 @@
+import { app, ipcMain, globalShortcut, BrowserWindow, WebContents } from "electron";
+import log from "electron-log";
+import { RemoteInputController, createInputInjector } from "../remote-input";
+import { getSharedDisplay, isWindowShared } from "./display-source";
+
+// Emergency stop, works whichever application has the focus
+const STOP_ACCELERATOR = "CommandOrControl+Alt+Shift+X";
+const STOP_SHORTCUT_LABEL = process.platform === "darwin" ? "Cmd+Option+Shift+X" : "Ctrl+Alt+Shift+X";
+const BANNER_WIDTH = 460;
+const BANNER_HEIGHT = 48;
+
+// Input is mapped to the shared display, read again for every event in case it moved.
+// A shared window's place on the screen is not known, its input is dropped.
+const controller = new RemoteInputController(
+  createInputInjector(),
+  () => isWindowShared() ? null : getSharedDisplay().bounds
+);
+
+// Banner on the shared screen while it is being controlled
+let bannerWindow: BrowserWindow | null = null;
+// Window that granted control, told when control is stopped from outside the app
+let ownerContents: WebContents | null = null;
+
+function getBannerHtml(): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'unsafe-inline'">
+<style>
+  html, body { margin: 0; height: 100%; overflow: hidden; background: #b91c1c; color: #fff;
+    font: 13px -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; user-select: none; }
+  body { display: flex; align-items: center; justify-content: space-between; gap: 12px; padding: 0 12px;
+    box-sizing: border-box; -webkit-app-region: drag; }
+  strong { display: block; font-size: 14px; }
+  button { -webkit-app-region: no-drag; padding: 6px 14px; border: 1px solid #fff; border-radius: 4px;
+    background: transparent; color: #fff; font: inherit; font-weight: 600; cursor: pointer; }
+</style>
+</head>
+<body>
+  <div>
+    <strong>Your screen is being controlled</strong>
+    Press ${STOP_SHORTCUT_LABEL} to stop at any time
+  </div>
+  <button onclick="window.close()">Stop</button>
+</body>
+</html>`;
+}
+
+function openBanner(): void {
+  const { workArea } = getSharedDisplay();
+
+  const win = new BrowserWindow({
+    x: Math.round(workArea.x + (workArea.width - BANNER_WIDTH) / 2),
+    y: workArea.y,
+    width: BANNER_WIDTH,
+    height: BANNER_HEIGHT,
+    show: false,
+    frame: false,
+    resizable: false,
+    minimizable: false,
+    maximizable: false,
+    fullscreenable: false,
+    focusable: false,
+    skipTaskbar: true,
+    alwaysOnTop: true,
+    webPreferences: {
+      nodeIntegration: false,
+      contextIsolation: true,
+      sandbox: true
+    }
+  });
+
+  win.setAlwaysOnTop(true, "screen-saver");
+  win.setVisibleOnAllWorkspaces(true, { visibleOnFullScreen: true });
+  // The watcher knows it is in control, keep the banner off the shared video
+  win.setContentProtection(true);
+  win.once("ready-to-show", () => win.showInactive());
+
+  // Closed with its Stop button
+  win.on("closed", () => {
+    if (bannerWindow === win) {
+      bannerWindow = null;
+      stopControl(true);
+    }
+  });
+
+  win.loadURL(`data:text/html;charset=utf-8,${encodeURIComponent(getBannerHtml())}`);
+  bannerWindow = win;
+}
+
+function closeBanner(): void {
+  const win = bannerWindow;
+  bannerWindow = null;
+  if (win && !win.isDestroyed()) {
+    win.close();
+  }
+}
+
+/**
+ * Ends the session, notifying the renderer when the sharer stopped it from the banner or the hotkey
+ */
+function stopControl(notifyOwner: boolean): void {
+  if (!controller.isActive()) return;
+
+  controller.stop();
+  globalShortcut.unregister(STOP_ACCELERATOR);
+  closeBanner();
+
+  const owner = ownerContents;
+  ownerContents = null;
+  if (notifyOwner && owner && !owner.isDestroyed()) {
+    owner.send("remoteControl:stopped");
+  }
+}
+
+export function registerRemoteControlHandlers(): void {
+  // Lets the renderer hide remote control where input cannot be replayed
+  ipcMain.handle("remoteControl:isAvailable", (): boolean => controller.isAvailable());
+
+  ipcMain.handle("remoteControl:start", (event): string | null => {
+    if (controller.isActive()) {
+      return STOP_SHORTCUT_LABEL;
+    }
+    // Banner and shortcut would suggest control works while no input reaches the system
+    if (!controller.isAvailable()) {
+      log.warn("[RemoteControl] Remote control refused, no input injector available");
+      return null;
+    }
+    // Input from the watcher could not be placed on the window they see
+    if (isWindowShared()) {
+      log.warn("[RemoteControl] Remote control refused, a window is shared");
+      return null;
+    }
+
+    // Never hand over control without a way to take it back
+    const registered = globalShortcut.register(STOP_ACCELERATOR, () => {
+      log.info("[RemoteControl] Stopped with the emergency shortcut");
+      stopControl(true);
+    });
+    if (!registered) {
+      log.error(`[RemoteControl] Emergency stop shortcut ${STOP_ACCELERATOR} is not available`);
+      return null;
+    }
+
+    ownerContents = event.sender;
+    controller.start();
+    openBanner();
+    return STOP_SHORTCUT_LABEL;
+  });
+
+  ipcMain.handle("remoteControl:stop", () => {
+    stopControl(false);
+  });
+
+  // Fire and forget, input events arrive at pointer rate
+  ipcMain.on("remoteControl:input", (event, input: unknown) => {
+    if (event.sender !== ownerContents) return;
+    // The sharer moved on to a window, which input cannot be placed on
+    if (isWindowShared()) {
+      log.warn("[RemoteControl] Remote control stopped, a window is shared now");
+      stopControl(true);
+      return;
+    }
+    controller.handle(input);
+  });
+
+  app.on("will-quit", () => {
+    stopControl(false);
+    controller.dispose();
+  });
+}
@@ -0,0 +1,25 @@
+import { app, ipcMain } from "electron";
+import log from "electron-log";
+import { SignalingServer, SignalingServerInfo } from "../signaling-server";
+
+// LAN rendezvous server hosted by this app instance
+const signalingServer = new SignalingServer();
+const DEFAULT_SIGNALING_PORT = 8787;
+
+export function registerSignalingHandlers(): void {
+  ipcMain.handle("signaling:startServer", async (_event, port?: number): Promise<SignalingServerInfo> => {
+    return signalingServer.start(port ?? DEFAULT_SIGNALING_PORT);
+  });
+
+  ipcMain.handle("signaling:stopServer", async () => {
+    await signalingServer.stop();
+  });
+
+  ipcMain.handle("signaling:getServerInfo", () => {
+    return signalingServer.getInfo();
+  });
+
+  app.on("before-quit", () => {
+    signalingServer.stop().catch((error) => log.error("[Signaling] Failed to stop server:", error));
+  });
+}
@@ -0,0 +1,242 @@
+import log from "electron-log";
+import { WindowsInputInjector } from "./windows-input-injector";
+
+const MAX_KEY_LENGTH = 32;
+const MAX_WHEEL_DELTA = 10000;
+
+export type RemoteMouseButton = "left" | "middle" | "right";
+
+export interface RemoteKeyModifiers {
+  alt: boolean;
+  ctrl: boolean;
+  meta: boolean;
+  shift: boolean;
+}
+
+/**
+ * Input event sent by the watcher while it controls this screen.
+ * Pointer coordinates are normalized (0 to 1) to the shared screen when received,
+ * and in screen pixels once handed to an injector.
+ */
+export type RemoteInputEvent =
+  | { type: "mouse.move"; x: number; y: number }
+  | { type: "mouse.down" | "mouse.up"; x: number; y: number; button: RemoteMouseButton }
+  | { type: "wheel"; x: number; y: number; deltaX: number; deltaY: number }
+  | { type: "key.down" | "key.up"; key: string; code: string; modifiers: RemoteKeyModifiers };
+
+export interface ScreenBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Replays input events on the operating system.
+ * Implementations talk to the platform's input API, the session logic stays in RemoteInputController.
+ */
+export interface InputInjector {
+  readonly name: string;
+  // False when events never reach the operating system, control is then refused
+  readonly canInject: boolean;
+  inject(event: RemoteInputEvent): void;
+  // Releases what the injector holds on to, called when the app quits
+  dispose(): void;
+}
+
+/**
+ * Injector for platforms input cannot be replayed on, events are only logged
+ */
+export class NoopInputInjector implements InputInjector {
+  public readonly name = "noop";
+  public readonly canInject = false;
+
+  public inject(event: RemoteInputEvent): void {
+    log.debug(`[RemoteInput] Ignored ${event.type}`);
+  }
+
+  public dispose(): void {}
+}
+
+/**
+ * Picks the input injector of this platform, only Windows can be controlled for now
+ */
+export function createInputInjector(): InputInjector {
+  if (process.platform === "win32") {
+    return new WindowsInputInjector();
+  }
+  log.warn(`[RemoteInput] No input injector available on ${process.platform}, remote control is unavailable`);
+  return new NoopInputInjector();
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNormalized(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0 && value <= 1;
+}
+
+function isWheelDelta(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && Math.abs(value) <= MAX_WHEEL_DELTA;
+}
+
+function isKeyName(value: unknown): value is string {
+  return typeof value === "string" && value.length > 0 && value.length <= MAX_KEY_LENGTH;
+}
+
+/**
+ * Checks an event coming from the renderer before anything is injected
+ */
+export function isRemoteInputEvent(value: unknown): value is RemoteInputEvent {
+  if (!isObject(value)) return false;
+
+  switch (value.type) {
+    case "mouse.move":
+      return isNormalized(value.x) && isNormalized(value.y);
+    case "mouse.down":
+    case "mouse.up":
+      return isNormalized(value.x) && isNormalized(value.y) &&
+        (value.button === "left" || value.button === "middle" || value.button === "right");
+    case "wheel":
+      return isNormalized(value.x) && isNormalized(value.y) &&
+        isWheelDelta(value.deltaX) && isWheelDelta(value.deltaY);
+    case "key.down":
+    case "key.up": {
+      const modifiers = value.modifiers;
+      return isKeyName(value.key) && isKeyName(value.code) && isObject(modifiers) &&
+        typeof modifiers.alt === "boolean" &&
+        typeof modifiers.ctrl === "boolean" &&
+        typeof modifiers.meta === "boolean" &&
+        typeof modifiers.shift === "boolean";
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Gates remote input on the sharer's consent and replays it on the shared screen.
+ * Buttons and keys still held down are released when control stops, so an interrupted
+ * session never leaves a stuck modifier or a drag in progress behind.
+ */
+export class RemoteInputController {
+  private active = false;
+  private heldButtons = new Set<RemoteMouseButton>();
+  private heldKeys = new Map<string, Extract<RemoteInputEvent, { type: "key.down" | "key.up" }>>();
+  private lastPointer = { x: 0, y: 0 };
+
+  constructor(
+    private readonly injector: InputInjector,
+    // Null while input cannot be mapped to what the watcher sees
+    private readonly getScreenBounds: () => ScreenBounds | null
+  ) {}
+
+  private injectSafely(event: RemoteInputEvent): void {
+    try {
+      this.injector.inject(event);
+    } catch (error) {
+      log.error(`[RemoteInput] Failed to inject ${event.type}:`, error);
+    }
+  }
+
+  /**
+   * Converts normalized pointer coordinates to screen pixels
+   *
+   * @returns The event in screen pixels, null when there is no screen to map it to
+   */
+  private toScreen(event: RemoteInputEvent): RemoteInputEvent | null {
+    if (!("x" in event)) return event;
+
+    const bounds = this.getScreenBounds();
+    if (!bounds) return null;
+    const x = Math.round(bounds.x + event.x * (bounds.width - 1));
+    const y = Math.round(bounds.y + event.y * (bounds.height - 1));
+    this.lastPointer = { x, y };
+    return { ...event, x, y };
+  }
+
+  private track(event: RemoteInputEvent): void {
+    switch (event.type) {
+      case "mouse.down":
+        this.heldButtons.add(event.button);
+        break;
+      case "mouse.up":
+        this.heldButtons.delete(event.button);
+        break;
+      case "key.down":
+        this.heldKeys.set(event.code, event);
+        break;
+      case "key.up":
+        this.heldKeys.delete(event.code);
+        break;
+    }
+  }
+
+  public isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Stops whatever the injector runs, the controller is not used afterwards
+   */
+  public dispose(): void {
+    this.stop();
+    this.injector.dispose();
+  }
+
+  /**
+   * Whether input can be replayed on this system at all
+   */
+  public isAvailable(): boolean {
+    return this.injector.canInject;
+  }
+
+  /**
+   * Starts accepting input, called once the sharer granted control
+   */
+  public start(): void {
+    this.active = true;
+    log.info(`[RemoteInput] Remote control started (${this.injector.name} injector)`);
+  }
+
+  /**
+   * Stops accepting input and releases everything still held down
+   */
+  public stop(): void {
+    if (!this.active) return;
+    this.active = false;
+
+    for (const button of this.heldButtons) {
+      this.injectSafely({ type: "mouse.up", ...this.lastPointer, button });
+    }
+    for (const keyDown of this.heldKeys.values()) {
+      this.injectSafely({ ...keyDown, type: "key.up" });
+    }
+    this.heldButtons.clear();
+    this.heldKeys.clear();
+    log.info("[RemoteInput] Remote control stopped");
+  }
+
+  /**
+   * Replays one event from the watcher
+   *
+   * @returns False when the event was dropped
+   */
+  public handle(value: unknown): boolean {
+    if (!this.active) return false;
+    if (!isRemoteInputEvent(value)) {
+      log.warn("[RemoteInput] Dropped invalid input event");
+      return false;
+    }
+
+    const event = this.toScreen(value);
+    if (!event) {
+      log.warn(`[RemoteInput] Dropped ${value.type}, no shared screen to map it to`);
+      return false;
+    }
+    this.track(event);
+    this.injectSafely(event);
+    return true;
+  }
+}
@@ -0,0 +1,267 @@
+import { randomInt } from "crypto";
+import { AddressInfo } from "net";
+import { networkInterfaces } from "os";
+import log from "electron-log";
+import { WebSocketServer, WebSocket, RawData } from "ws";
+
+// Unambiguous characters only, room codes are read aloud or typed by hand
+const ROOM_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const ROOM_CODE_LENGTH = 6;
+const MAX_MESSAGE_BYTES = 256 * 1024;
+// Joins allowed per remote address within the window, reconnecting does not reset them
+const MAX_JOIN_ATTEMPTS = 5;
+const JOIN_ATTEMPT_WINDOW_MS = 60 * 1000;
+// Close code for clients breaking the rules (RFC 6455 policy violation)
+const POLICY_VIOLATION_CLOSE_CODE = 1008;
+
+/**
+ * Messages accepted from clients
+ */
+type ClientMessage =
+  | { type: "create" }
+  | { type: "join"; room: string }
+  | { type: "signal"; payload: unknown };
+
+/**
+ * Messages sent to clients
+ */
+type ServerMessage =
+  | { type: "created"; room: string }
+  | { type: "joined"; room: string }
+  | { type: "peer-joined" }
+  | { type: "peer-left" }
+  | { type: "signal"; payload: unknown }
+  | { type: "error"; message: string };
+
+interface Room {
+  host: WebSocket;
+  guest: WebSocket | null;
+}
+
+export interface SignalingServerInfo {
+  port: number;
+  addresses: string[];
+}
+
+/**
+ * Minimal rendezvous server pairing one sharer and one watcher per room code.
+ * It only relays session descriptions, media never goes through it.
+ */
+export class SignalingServer {
+  private server: WebSocketServer | null = null;
+  private rooms = new Map<string, Room>();
+  private roomBySocket = new Map<WebSocket, string>();
+  private joinAttempts = new Map<string, { count: number; resetAt: number }>();
+
+  /**
+   * Starts listening, port 0 picks a free port
+   */
+  public async start(port = 0, host = "0.0.0.0"): Promise<SignalingServerInfo> {
+    if (this.server) {
+      return this.getInfo()!;
+    }
+
+    const server = new WebSocketServer({ port, host, maxPayload: MAX_MESSAGE_BYTES });
+    try {
+      await new Promise<void>((resolve, reject) => {
+        server.once("listening", resolve);
+        server.once("error", reject);
+      });
+    } catch (error) {
+      server.close();
+      throw error;
+    }
+
+    // An unhandled error event would take the main process down
+    server.removeAllListeners("error");
+    server.on("error", (error) => log.error("[SignalingServer] Server error:", error));
+    server.on("connection", (socket, request) => this.handleConnection(socket, request.socket.remoteAddress ?? ""));
+    this.server = server;
+
+    const info = this.getInfo()!;
+    log.info(`[SignalingServer] Listening on port ${info.port}`);
+    return info;
+  }
+
+  /**
+   * Closes every client connection and stops listening
+   */
+  public async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+
+    this.server = null;
+    for (const client of server.clients) {
+      client.terminate();
+    }
+    this.rooms.clear();
+    this.roomBySocket.clear();
+    this.joinAttempts.clear();
+
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    log.info("[SignalingServer] Stopped");
+  }
+
+  /**
+   * Gets the listening port and LAN addresses, or null when stopped
+   */
+  public getInfo(): SignalingServerInfo | null {
+    if (!this.server) return null;
+
+    const { port } = this.server.address() as AddressInfo;
+    const addresses = Object.values(networkInterfaces())
+      .flat()
+      .filter((net) => net && net.family === "IPv4" && !net.internal)
+      .map((net) => `ws://${net!.address}:${port}`);
+
+    return { port, addresses };
+  }
+
+  /**
+   * Gets the number of open rooms
+   */
+  public getRoomCount(): number {
+    return this.rooms.size;
+  }
+
+  private handleConnection(socket: WebSocket, address: string): void {
+    socket.on("message", (data) => this.handleMessage(socket, address, data));
+    socket.on("close", () => this.leaveRoom(socket));
+    socket.on("error", (error) => log.warn("[SignalingServer] Client error:", error));
+  }
+
+  private handleMessage(socket: WebSocket, address: string, data: RawData): void {
+    let message: ClientMessage;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      this.send(socket, { type: "error", message: "Malformed message" });
+      return;
+    }
+
+    switch (message?.type) {
+      case "create":
+        this.createRoom(socket);
+        break;
+      case "join":
+        this.joinRoom(socket, address, message.room);
+        break;
+      case "signal":
+        this.relaySignal(socket, message.payload);
+        break;
+      default:
+        this.send(socket, { type: "error", message: "Unknown message type" });
+    }
+  }
+
+  private createRoom(socket: WebSocket): void {
+    if (this.roomBySocket.has(socket)) {
+      this.send(socket, { type: "error", message: "Already in a room" });
+      return;
+    }
+
+    let room: string;
+    do {
+      room = Array.from(
+        { length: ROOM_CODE_LENGTH },
+        () => ROOM_CODE_ALPHABET[randomInt(ROOM_CODE_ALPHABET.length)]
+      ).join("");
+    } while (this.rooms.has(room));
+
+    this.rooms.set(room, { host: socket, guest: null });
+    this.roomBySocket.set(socket, room);
+    this.send(socket, { type: "created", room });
+    log.info(`[SignalingServer] Room ${room} created`);
+  }
+
+  private joinRoom(socket: WebSocket, address: string, code: unknown): void {
+    if (this.roomBySocket.has(socket)) {
+      this.send(socket, { type: "error", message: "Already in a room" });
+      return;
+    }
+
+    if (!this.countJoinAttempt(address)) {
+      log.warn("[SignalingServer] Too many join attempts, closing the connection");
+      this.send(socket, { type: "error", message: "Too many join attempts" });
+      socket.close(POLICY_VIOLATION_CLOSE_CODE, "Too many join attempts");
+      return;
+    }
+
+    const roomCode = typeof code === "string" ? code.trim().toUpperCase() : "";
+    const room = this.rooms.get(roomCode);
+
+    if (!room) {
+      this.send(socket, { type: "error", message: "Room not found" });
+      return;
+    }
+    if (room.guest) {
+      this.send(socket, { type: "error", message: "Room is full" });
+      return;
+    }
+
+    room.guest = socket;
+    this.roomBySocket.set(socket, roomCode);
+    this.send(socket, { type: "joined", room: roomCode });
+    this.send(room.host, { type: "peer-joined" });
+    log.info(`[SignalingServer] Peer joined room ${roomCode}`);
+  }
+
+  /**
+   * Counts a join from an address, false once it made too many within the window
+   */
+  private countJoinAttempt(address: string): boolean {
+    const now = Date.now();
+    for (const [key, entry] of this.joinAttempts) {
+      if (entry.resetAt <= now) this.joinAttempts.delete(key);
+    }
+
+    const entry = this.joinAttempts.get(address) ?? { count: 0, resetAt: now + JOIN_ATTEMPT_WINDOW_MS };
+    entry.count++;
+    this.joinAttempts.set(address, entry);
+    return entry.count <= MAX_JOIN_ATTEMPTS;
+  }
+
+  private relaySignal(socket: WebSocket, payload: unknown): void {
+    const peer = this.getPeer(socket);
+    if (!peer) {
+      this.send(socket, { type: "error", message: "No peer in room" });
+      return;
+    }
+    this.send(peer, { type: "signal", payload });
+  }
+
+  private leaveRoom(socket: WebSocket): void {
+    const roomCode = this.roomBySocket.get(socket);
+    if (!roomCode) return;
+
+    const room = this.rooms.get(roomCode);
+    this.roomBySocket.delete(socket);
+    if (!room) return;
+
+    if (room.host === socket) {
+      // Host gone: the code is no longer valid
+      if (room.guest) {
+        this.send(room.guest, { type: "peer-left" });
+        this.roomBySocket.delete(room.guest);
+      }
+      this.rooms.delete(roomCode);
+      log.info(`[SignalingServer] Room ${roomCode} closed`);
+    } else {
+      room.guest = null;
+      this.send(room.host, { type: "peer-left" });
+    }
+  }
+
+  private getPeer(socket: WebSocket): WebSocket | null {
+    const roomCode = this.roomBySocket.get(socket);
+    const room = roomCode ? this.rooms.get(roomCode) : undefined;
+    if (!room) return null;
+    return room.host === socket ? room.guest : room.host;
+  }
+
+  private send(socket: WebSocket, message: ServerMessage): void {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  }
+}
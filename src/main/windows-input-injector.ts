@@ -0,0 +1,224 @@
+import { ChildProcess, spawn } from "child_process";
+import { screen } from "electron";
+import log from "electron-log";
+import type { InputInjector, RemoteInputEvent, RemoteMouseButton } from "./remote-input";
+
+// mouse_event flags
+const MOUSE_BUTTON_FLAGS: Record<RemoteMouseButton, { down: number; up: number }> = {
+  left: { down: 0x0002, up: 0x0004 },
+  right: { down: 0x0008, up: 0x0010 },
+  middle: { down: 0x0020, up: 0x0040 }
+};
+const MOUSEEVENTF_WHEEL = 0x0800;
+const MOUSEEVENTF_HWHEEL = 0x1000;
+
+// keybd_event flags
+const KEYEVENTF_EXTENDEDKEY = 0x0001;
+const KEYEVENTF_KEYUP = 0x0002;
+
+/**
+ * Virtual-key codes by KeyboardEvent.code, keys on the extended part of the keyboard are flagged.
+ * Letters and digits are mapped separately.
+ */
+const VIRTUAL_KEYS: Record<string, { vk: number; extended?: boolean }> = {
+  Backspace: { vk: 0x08 },
+  Tab: { vk: 0x09 },
+  Enter: { vk: 0x0d },
+  NumpadEnter: { vk: 0x0d, extended: true },
+  Pause: { vk: 0x13 },
+  CapsLock: { vk: 0x14 },
+  Escape: { vk: 0x1b },
+  Space: { vk: 0x20 },
+  PageUp: { vk: 0x21, extended: true },
+  PageDown: { vk: 0x22, extended: true },
+  End: { vk: 0x23, extended: true },
+  Home: { vk: 0x24, extended: true },
+  ArrowLeft: { vk: 0x25, extended: true },
+  ArrowUp: { vk: 0x26, extended: true },
+  ArrowRight: { vk: 0x27, extended: true },
+  ArrowDown: { vk: 0x28, extended: true },
+  PrintScreen: { vk: 0x2c, extended: true },
+  Insert: { vk: 0x2d, extended: true },
+  Delete: { vk: 0x2e, extended: true },
+  MetaLeft: { vk: 0x5b, extended: true },
+  MetaRight: { vk: 0x5c, extended: true },
+  ContextMenu: { vk: 0x5d, extended: true },
+  NumpadMultiply: { vk: 0x6a },
+  NumpadAdd: { vk: 0x6b },
+  NumpadSubtract: { vk: 0x6d },
+  NumpadDecimal: { vk: 0x6e },
+  NumpadDivide: { vk: 0x6f, extended: true },
+  NumLock: { vk: 0x90, extended: true },
+  ScrollLock: { vk: 0x91 },
+  ShiftLeft: { vk: 0xa0 },
+  ShiftRight: { vk: 0xa1 },
+  ControlLeft: { vk: 0xa2 },
+  ControlRight: { vk: 0xa3, extended: true },
+  AltLeft: { vk: 0xa4 },
+  AltRight: { vk: 0xa5, extended: true },
+  Semicolon: { vk: 0xba },
+  Equal: { vk: 0xbb },
+  Comma: { vk: 0xbc },
+  Minus: { vk: 0xbd },
+  Period: { vk: 0xbe },
+  Slash: { vk: 0xbf },
+  Backquote: { vk: 0xc0 },
+  BracketLeft: { vk: 0xdb },
+  Backslash: { vk: 0xdc },
+  BracketRight: { vk: 0xdd },
+  Quote: { vk: 0xde },
+  IntlBackslash: { vk: 0xe2 }
+};
+
+/**
+ * Replays commands read line by line from stdin through user32.
+ * The process is made DPI aware so cursor positions are physical pixels on every display.
+ */
+const INJECTOR_SCRIPT = `
+$ErrorActionPreference = "Stop"
+Add-Type -TypeDefinition @"
+using System;
+using System.Runtime.InteropServices;
+public static class RemoteInput {
+  [DllImport("user32.dll")] static extern bool SetProcessDpiAwarenessContext(IntPtr value);
+  [DllImport("user32.dll")] static extern bool SetCursorPos(int x, int y);
+  [DllImport("user32.dll")] static extern void mouse_event(uint flags, int dx, int dy, int data, UIntPtr extra);
+  [DllImport("user32.dll")] static extern void keybd_event(byte vk, byte scan, uint flags, UIntPtr extra);
+  public static void Init() { SetProcessDpiAwarenessContext(new IntPtr(-4)); }
+  public static void Move(int x, int y) { SetCursorPos(x, y); }
+  public static void Mouse(uint flags, int data) { mouse_event(flags, 0, 0, data, UIntPtr.Zero); }
+  public static void Key(byte vk, uint flags) { keybd_event(vk, 0, flags, UIntPtr.Zero); }
+}
+"@
+[RemoteInput]::Init()
+while ($null -ne ($line = [Console]::In.ReadLine())) {
+  $parts = $line.Split(" ")
+  switch ($parts[0]) {
+    "move" { [RemoteInput]::Move([int]$parts[1], [int]$parts[2]) }
+    "mouse" { [RemoteInput]::Mouse([uint32]$parts[1], [int]$parts[2]) }
+    "key" { [RemoteInput]::Key([byte]$parts[1], [uint32]$parts[2]) }
+  }
+}
+`;
+
+function launchPowerShell(): ChildProcess {
+  return spawn("powershell.exe", [
+    "-NoLogo",
+    "-NoProfile",
+    "-NonInteractive",
+    "-ExecutionPolicy", "Bypass",
+    "-EncodedCommand", Buffer.from(INJECTOR_SCRIPT, "utf16le").toString("base64")
+  ], { stdio: ["pipe", "ignore", "pipe"], windowsHide: true });
+}
+
+/**
+ * Virtual key of a KeyboardEvent.code, null for keys that cannot be replayed
+ */
+export function toVirtualKey(code: string): { vk: number; extended?: boolean } | null {
+  const letter = /^Key([A-Z])$/.exec(code);
+  if (letter) return { vk: letter[1].charCodeAt(0) };
+
+  const digit = /^(Digit|Numpad)([0-9])$/.exec(code);
+  if (digit) return { vk: (digit[1] === "Digit" ? 0x30 : 0x60) + Number(digit[2]) };
+
+  const functionKey = /^F([1-9]|1[0-9]|2[0-4])$/.exec(code);
+  if (functionKey) return { vk: 0x6f + Number(functionKey[1]) };
+
+  return VIRTUAL_KEYS[code] ?? null;
+}
+
+/**
+ * Injects input on Windows through a PowerShell process calling user32, started on first use.
+ * Windows of elevated applications do not accept input from it.
+ */
+export class WindowsInputInjector implements InputInjector {
+  public readonly name = "windows";
+  private process: ChildProcess | null = null;
+  // PowerShell could not be started, input cannot reach the system
+  private failed = false;
+
+  constructor(
+    private readonly launch: () => ChildProcess = launchPowerShell,
+    // Electron works in DIPs, the cursor is placed in physical pixels
+    private readonly toPhysical: (point: { x: number; y: number }) => { x: number; y: number } =
+      (point) => screen.dipToScreenPoint(point)
+  ) {}
+
+  public get canInject(): boolean {
+    return !this.failed;
+  }
+
+  private getProcess(): ChildProcess | null {
+    if (this.process || this.failed) return this.process;
+
+    const child = this.launch();
+    child.on("error", (error) => {
+      log.error("[RemoteInput] Failed to start the input process:", error);
+      this.failed = true;
+      this.process = null;
+    });
+    child.on("exit", (code) => {
+      log.info(`[RemoteInput] Input process exited with code ${code}`);
+      if (this.process === child) {
+        this.process = null;
+      }
+    });
+    child.stderr?.on("data", (data: Buffer) => {
+      log.warn(`[RemoteInput] Input process: ${data.toString().trim()}`);
+    });
+    this.process = child;
+    return child;
+  }
+
+  private toCommands(event: RemoteInputEvent): string[] {
+    switch (event.type) {
+      case "mouse.move":
+      case "mouse.down":
+      case "mouse.up":
+      case "wheel": {
+        const point = this.toPhysical({ x: event.x, y: event.y });
+        const move = `move ${Math.round(point.x)} ${Math.round(point.y)}`;
+        if (event.type === "mouse.move") return [move];
+        if (event.type === "wheel") {
+          // Browsers scroll down on a positive delta, Windows on a negative one
+          return [
+            move,
+            ...(event.deltaY ? [`mouse ${MOUSEEVENTF_WHEEL} ${-Math.round(event.deltaY)}`] : []),
+            ...(event.deltaX ? [`mouse ${MOUSEEVENTF_HWHEEL} ${Math.round(event.deltaX)}`] : [])
+          ];
+        }
+        const flags = MOUSE_BUTTON_FLAGS[event.button];
+        return [move, `mouse ${event.type === "mouse.down" ? flags.down : flags.up} 0`];
+      }
+      case "key.down":
+      case "key.up": {
+        const key = toVirtualKey(event.code);
+        if (!key) {
+          log.debug(`[RemoteInput] No virtual key for ${event.code}`);
+          return [];
+        }
+        const flags = (key.extended ? KEYEVENTF_EXTENDEDKEY : 0) | (event.type === "key.up" ? KEYEVENTF_KEYUP : 0);
+        return [`key ${key.vk} ${flags}`];
+      }
+    }
+  }
+
+  public inject(event: RemoteInputEvent): void {
+    const commands = this.toCommands(event);
+    if (commands.length === 0) return;
+
+    const child = this.getProcess();
+    if (!child?.stdin?.writable) {
+      log.warn(`[RemoteInput] Dropped ${event.type}, the input process is not running`);
+      return;
+    }
+    child.stdin.write(`${commands.join("\n")}\n`);
+  }
+
+  public dispose(): void {
+    const child = this.process;
+    this.process = null;
+    // The script ends once its input closes
+    child?.stdin?.end();
+  }
+}
@@ -0,0 +1,59 @@
+import { ipcRenderer, IpcRendererEvent } from "electron";
+
+export const annotationOverlayApi = {
+  // Main window: forwards strokes and cursor moves received from the watcher
+  drawStroke: (update: unknown): Promise<void> => {
+    return ipcRenderer.invoke("annotationOverlay:drawStroke", update);
+  },
+  clear: (): Promise<void> => {
+    return ipcRenderer.invoke("annotationOverlay:clear");
+  },
+  drawCursor: (cursor: unknown): Promise<void> => {
+    return ipcRenderer.invoke("annotationOverlay:drawCursor", cursor);
+  },
+  drawCursorEvent: (event: unknown): Promise<void> => {
+    return ipcRenderer.invoke("annotationOverlay:drawCursorEvent", event);
+  },
+  removeCursor: (cursorId: string): Promise<void> => {
+    return ipcRenderer.invoke("annotationOverlay:removeCursor", cursorId);
+  },
+  close: (): Promise<void> => {
+    return ipcRenderer.invoke("annotationOverlay:close");
+  },
+  // Overlay window: renders them
+  onStroke: (callback: (update: unknown) => void): (() => void) => {
+    const listener = (_event: IpcRendererEvent, update: unknown) => callback(update);
+    ipcRenderer.on("annotationOverlay:stroke", listener);
+    return () => {
+      ipcRenderer.removeListener("annotationOverlay:stroke", listener);
+    };
+  },
+  onCursor: (callback: (cursor: unknown) => void): (() => void) => {
+    const listener = (_event: IpcRendererEvent, cursor: unknown) => callback(cursor);
+    ipcRenderer.on("annotationOverlay:cursor", listener);
+    return () => {
+      ipcRenderer.removeListener("annotationOverlay:cursor", listener);
+    };
+  },
+  onCursorEvent: (callback: (event: unknown) => void): (() => void) => {
+    const listener = (_event: IpcRendererEvent, cursorEvent: unknown) => callback(cursorEvent);
+    ipcRenderer.on("annotationOverlay:cursorEvent", listener);
+    return () => {
+      ipcRenderer.removeListener("annotationOverlay:cursorEvent", listener);
+    };
+  },
+  onRemoveCursor: (callback: (cursorId: string) => void): (() => void) => {
+    const listener = (_event: IpcRendererEvent, cursorId: string) => callback(cursorId);
+    ipcRenderer.on("annotationOverlay:removeCursor", listener);
+    return () => {
+      ipcRenderer.removeListener("annotationOverlay:removeCursor", listener);
+    };
+  },
+  onClear: (callback: () => void): (() => void) => {
+    const listener = () => callback();
+    ipcRenderer.on("annotationOverlay:clear", listener);
+    return () => {
+      ipcRenderer.removeListener("annotationOverlay:clear", listener);
+    };
+  }
+};
\ No newline at end of file
@@ -6,5 +6,11 @@ export const clipboardApi = {
   },
   readText: (): Promise<string> => {
     return ipcRenderer.invoke("clipboard:readText");
+  },
+  writeImage: (dataUrl: string): Promise<void> => {
+    return ipcRenderer.invoke("clipboard:writeImage", dataUrl);
+  },
+  readImage: (): Promise<string | null> => {
+    return ipcRenderer.invoke("clipboard:readImage");
   }
 };
\ No newline at end of file
@@ -0,0 +1,20 @@
+import { ipcRenderer } from "electron";
+
+export const displaySourceApi = {
+  // Screens and windows that can be shared, thumbnails and icons as data URLs
+  list: (): Promise<Array<{ id: string; name: string; kind: string; thumbnail: string; appIcon: string | null }>> => {
+    return ipcRenderer.invoke("displaySource:list");
+  },
+  // Source granted to the next capture request
+  select: (id: string): Promise<void> => {
+    return ipcRenderer.invoke("displaySource:select", id);
+  },
+  // Whether system audio can be captured on this platform
+  isSystemAudioSupported: (): Promise<boolean> => {
+    return ipcRenderer.invoke("displaySource:isSystemAudioSupported");
+  },
+  // Withdraws a pick no capture used
+  clear: (): Promise<void> => {
+    return ipcRenderer.invoke("displaySource:clear");
+  }
+};
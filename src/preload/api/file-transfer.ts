@@ -0,0 +1,7 @@
+import { ipcRenderer } from "electron";
+
+export const fileTransferApi = {
+  save: (data: Uint8Array, defaultName: string): Promise<string | null> => {
+    return ipcRenderer.invoke("fileTransfer:save", data, defaultName);
+  }
+};
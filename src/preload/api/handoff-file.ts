@@ -0,0 +1,10 @@
+import { ipcRenderer } from "electron";
+
+export const handoffFileApi = {
+  save: (contents: string, defaultName: string): Promise<string | null> => {
+    return ipcRenderer.invoke("handoffFile:save", contents, defaultName);
+  },
+  open: (): Promise<string | null> => {
+    return ipcRenderer.invoke("handoffFile:open");
+  }
+};
@@ -1,4 +1,12 @@
 export { clipboardApi } from "./clipboard";
 export { loggerApi } from "./logger";
 export { powerApi } from "./power";
-export { mediaPermissionApi } from "./media-permission";
\ No newline at end of file
+export { mediaPermissionApi } from "./media-permission";
+export { protocolApi } from "./protocol";
+export { signalingApi } from "./signaling";
+export { handoffFileApi } from "./handoff-file";
+export { fileTransferApi } from "./file-transfer";
+export { annotationOverlayApi } from "./annotation-overlay";
+export { remoteControlApi } from "./remote-control";
+export { pointerApi } from "./pointer";
+export { displaySourceApi } from "./display-source";
\ No newline at end of file
@@ -0,0 +1,7 @@
+import { ipcRenderer } from "electron";
+
+export const pointerApi = {
+  getPosition: (): Promise<{ x: number; y: number } | null> => {
+    return ipcRenderer.invoke("pointer:getPosition");
+  }
+};
\ No newline at end of file
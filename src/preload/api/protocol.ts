@@ -0,0 +1,15 @@
+import { ipcRenderer, IpcRendererEvent } from "electron";
+
+export const protocolApi = {
+  onOpenUrl: (callback: (url: string) => void): (() => void) => {
+    const listener = (_event: IpcRendererEvent, url: string) => callback(url);
+    ipcRenderer.on("protocol:openUrl", listener);
+    return () => {
+      ipcRenderer.removeListener("protocol:openUrl", listener);
+    };
+  },
+  // Tells the main process deep links can be delivered, including the one that launched the app
+  ready: (): void => {
+    ipcRenderer.send("protocol:rendererReady");
+  }
+};
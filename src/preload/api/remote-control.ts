@@ -0,0 +1,26 @@
+import { ipcRenderer } from "electron";
+
+export const remoteControlApi = {
+  // Whether input can be replayed on this system, control is refused otherwise
+  isAvailable: (): Promise<boolean> => {
+    return ipcRenderer.invoke("remoteControl:isAvailable");
+  },
+  // Resolves to the emergency stop shortcut, null when control could not start
+  start: (): Promise<string | null> => {
+    return ipcRenderer.invoke("remoteControl:start");
+  },
+  stop: (): Promise<void> => {
+    return ipcRenderer.invoke("remoteControl:stop");
+  },
+  injectInput: (event: unknown): void => {
+    ipcRenderer.send("remoteControl:input", event);
+  },
+  // Control stopped from the banner or with the emergency shortcut
+  onStopped: (callback: () => void): (() => void) => {
+    const listener = () => callback();
+    ipcRenderer.on("remoteControl:stopped", listener);
+    return () => {
+      ipcRenderer.removeListener("remoteControl:stopped", listener);
+    };
+  }
+};
\ No newline at end of file
@@ -0,0 +1,18 @@
+import { ipcRenderer } from "electron";
+
+export interface SignalingServerInfo {
+  port: number;
+  addresses: string[];
+}
+
+export const signalingApi = {
+  startServer: (port?: number): Promise<SignalingServerInfo> => {
+    return ipcRenderer.invoke("signaling:startServer", port);
+  },
+  stopServer: (): Promise<void> => {
+    return ipcRenderer.invoke("signaling:stopServer");
+  },
+  getServerInfo: (): Promise<SignalingServerInfo | null> => {
+    return ipcRenderer.invoke("signaling:getServerInfo");
+  }
+};
@@ -3,13 +3,29 @@ import { clipboardApi } from "./api/clipboard";
 import { loggerApi } from "./api/logger";
 import { powerApi } from "./api/power";
 import { mediaPermissionApi } from "./api/media-permission";
+import { protocolApi } from "./api/protocol";
+import { signalingApi } from "./api/signaling";
+import { handoffFileApi } from "./api/handoff-file";
+import { fileTransferApi } from "./api/file-transfer";
+import { annotationOverlayApi } from "./api/annotation-overlay";
+import { remoteControlApi } from "./api/remote-control";
+import { pointerApi } from "./api/pointer";
+import { displaySourceApi } from "./api/display-source";
 
 try {
   contextBridge.exposeInMainWorld("electron", {
     clipboard: clipboardApi,
     logger: loggerApi,
     power: powerApi,
-    mediaPermission: mediaPermissionApi
+    mediaPermission: mediaPermissionApi,
+    protocol: protocolApi,
+    signaling: signalingApi,
+    handoffFile: handoffFileApi,
+    fileTransfer: fileTransferApi,
+    annotationOverlay: annotationOverlayApi,
+    remoteControl: remoteControlApi,
+    pointer: pointerApi,
+    displaySource: displaySourceApi
   });
 } catch (error) {
   console.error("[preload] Failed to expose API", error);
@@ -1,31 +1,45 @@
 import log from "electron-log/renderer";
 import { WebRTCService } from "../webrtc/index";
-import { 
-  encodeConnectionUrl, 
-  decodeConnectionUrl, 
-  isValidConnectionUrl,
-  getRoleFromUrl
-} from "../../shared/utils/index";
+import { UrlSignalingTransport } from "../signaling/index";
 import { 
   PeerRole, 
+  AnnotationStrokeUpdate,
+  ChatMessage,
+  ClipboardSyncState,
   ConnectionPhase,
   ConnectionManagerCallbacks,
+  ConnectionUrlError,
+  PeerInfo,
+  ReconnectPolicy,
+  RemoteControlState,
+  RemoteCursorEvent,
   RemoteCursorState,
+  RemoteInputEvent,
+  SharerPointerState,
+  SignalingPayload,
+  SignalingTransport,
   WebRTCServiceConfig
 } from "../../shared/types/index";
+import { CHAT_MESSAGE_MAX_LENGTH, DEFAULT_RECONNECT_POLICY } from "../../shared/constants/index";
 
 /**
  * Manages the complete P2P connection flow for screen sharing.
- * Handle WebRTC service, URL encoding/decoding, and clipboard operations.
+ * Handle WebRTC service, offer/answer signaling, and clipboard operations.
  */
 export class ConnectionManager {
   private webrtcService: WebRTCService | null = null;
+  private signalingTransport: SignalingTransport = new UrlSignalingTransport();
   private currentPhase: ConnectionPhase = ConnectionPhase.IDLE;
   private role: PeerRole | null = null;
   private username: string = "";
   private callbacks: ConnectionManagerCallbacks = {};
   private isOperationInProgress = false;
 
+  // ICE restart retries after a network change
+  private reconnectPolicy: ReconnectPolicy = DEFAULT_RECONNECT_POLICY;
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
   /**
    * Sets callback handlers for connection events
    */
@@ -37,6 +51,30 @@ export class ConnectionManager {
     this.callbacks = {};
   }
 
+  /**
+   * Sets how offer and answer reach the other peer, URLs by default.
+   * Takes effect for the next session.
+   */
+  public setSignalingTransport(transport: SignalingTransport): void {
+    if (transport === this.signalingTransport) return;
+    this.signalingTransport.close();
+    this.signalingTransport = transport;
+  }
+
+  /**
+   * Gets the active signaling transport
+   */
+  public getSignalingTransport(): SignalingTransport {
+    return this.signalingTransport;
+  }
+
+  /**
+   * Overrides the retry policy used to recover a dropped connection
+   */
+  public setReconnectPolicy(policy: Partial<ReconnectPolicy>): void {
+    this.reconnectPolicy = { ...this.reconnectPolicy, ...policy };
+  }
+
   /**
    * Updates and notifies connection phase change
    */
@@ -88,8 +126,10 @@ export class ConnectionManager {
       switch (state) {
         case "checking":
           // Don't override offerCreated / answerCreated to avoid 
+          // nor RECONNECTING, an ICE restart goes through checking again
           if (this.currentPhase !== ConnectionPhase.OFFER_CREATED &&
-              this.currentPhase !== ConnectionPhase.ANSWER_CREATED) {
+              this.currentPhase !== ConnectionPhase.ANSWER_CREATED &&
+              this.currentPhase !== ConnectionPhase.RECONNECTING) {
             this.setConnectionPhase(ConnectionPhase.CONNECTING);
           }
           break;
@@ -98,13 +138,26 @@ export class ConnectionManager {
           // ICE "connected" is a STUN-level signal only. It can fire before the remote
           // peer has accepted the SDP answer (DTLS not yet complete). Do not advance to
           // CONNECTED here — the connectionState callback (DTLS) is the authoritative signal.
+          // After an ICE restart DTLS may have stayed up, so the peer connection decides.
+          if (this.currentPhase === ConnectionPhase.RECONNECTING && this.webrtcService?.isConnected()) {
+            this.finishReconnect();
+          }
           break;
         case "disconnected":
         case "failed":
+          if (this.currentPhase === ConnectionPhase.CONNECTED) {
+            this.beginReconnect(state);
+          } else if (this.currentPhase === ConnectionPhase.CONNECTING ||
+            this.currentPhase === ConnectionPhase.ANSWER_CREATED) {
+            this.setConnectionPhase(ConnectionPhase.DISCONNECTED);
+          }
+          break;
         case "closed":
           if (this.currentPhase === ConnectionPhase.CONNECTED ||
             this.currentPhase === ConnectionPhase.CONNECTING ||
-            this.currentPhase === ConnectionPhase.ANSWER_CREATED) {
+            this.currentPhase === ConnectionPhase.ANSWER_CREATED ||
+            this.currentPhase === ConnectionPhase.RECONNECTING) {
+            this.stopReconnect();
             this.setConnectionPhase(ConnectionPhase.DISCONNECTED);
           }
           break;
@@ -115,13 +168,25 @@ export class ConnectionManager {
       this.callbacks.onConnectionStateChange?.(state);
       switch (state) {
         case "connected":
-          this.setConnectionPhase(ConnectionPhase.CONNECTED);
+          if (this.currentPhase === ConnectionPhase.RECONNECTING) {
+            this.finishReconnect();
+          } else {
+            this.setConnectionPhase(ConnectionPhase.CONNECTED);
+          }
           break;
         case "disconnected":
         case "failed":
+          if (this.currentPhase === ConnectionPhase.CONNECTED) {
+            this.beginReconnect(state);
+          } else if (this.currentPhase === ConnectionPhase.CONNECTING) {
+            this.setConnectionPhase(ConnectionPhase.DISCONNECTED);
+          }
+          break;
         case "closed":
           if (this.currentPhase === ConnectionPhase.CONNECTED ||
-              this.currentPhase === ConnectionPhase.CONNECTING) {
+              this.currentPhase === ConnectionPhase.CONNECTING ||
+              this.currentPhase === ConnectionPhase.RECONNECTING) {
+            this.stopReconnect();
             this.setConnectionPhase(ConnectionPhase.DISCONNECTED);
           }
           break;
@@ -141,6 +206,58 @@ export class ConnectionManager {
       this.callbacks.onCursorUpdate?.(data);
     });
 
+    this.webrtcService.onCursorEvent((event) => {
+      this.callbacks.onCursorEvent?.(event);
+    });
+
+    this.webrtcService.onChatMessage((message) => {
+      this.callbacks.onChatMessage?.(message);
+    });
+
+    this.webrtcService.onAnnotationStroke((update) => {
+      this.callbacks.onAnnotationStroke?.(update);
+    });
+
+    this.webrtcService.onAnnotationClear(() => {
+      this.callbacks.onAnnotationClear?.();
+    });
+
+    this.webrtcService.onFileTransferUpdate((progress) => {
+      this.callbacks.onFileTransferUpdate?.(progress);
+    });
+
+    this.webrtcService.onFileReceived((file) => {
+      this.callbacks.onFileReceived?.(file);
+    });
+
+    this.webrtcService.onClipboardSyncStateChange((state) => {
+      this.callbacks.onClipboardSyncStateChange?.(state);
+    });
+
+    this.webrtcService.onRemoteClipboard((entry) => {
+      this.callbacks.onRemoteClipboard?.(entry);
+    });
+
+    this.webrtcService.onClipboardContentTooLarge((kind, size) => {
+      this.callbacks.onClipboardContentTooLarge?.(kind, size);
+    });
+
+    this.webrtcService.onRemoteControlStateChange((state) => {
+      this.callbacks.onRemoteControlStateChange?.(state);
+    });
+
+    this.webrtcService.onSharerPointerStateChange((state) => {
+      this.callbacks.onSharerPointerStateChange?.(state);
+    });
+
+    this.webrtcService.onLatencySample((sample) => {
+      this.callbacks.onLatencySample?.(sample);
+    });
+
+    this.webrtcService.onPeerInfo((info) => {
+      this.callbacks.onPeerInfo?.(info);
+    });
+
     this.webrtcService.onChannelOpen((channelName) => {
       this.callbacks.onChannelOpen?.(channelName);
     });
@@ -150,6 +267,101 @@ export class ConnectionManager {
     });
   }
 
+  // ============== RECONNECTION ==============
+
+  /**
+   * Enters RECONNECTING after the network dropped, keeping the media and data channels.
+   * Without an open signaling channel there is no way to restart ICE, the session ends.
+   */
+  private beginReconnect(reason: string): void {
+    if (!this.webrtcService?.canRestartIce()) {
+      log.warn(`[ConnectionManager] Connection ${reason}, no channel left to restart ICE`);
+      this.setConnectionPhase(ConnectionPhase.DISCONNECTED);
+      return;
+    }
+
+    log.warn(`[ConnectionManager] Connection ${reason}, reconnecting...`);
+    this.stopReconnect();
+    this.setConnectionPhase(ConnectionPhase.RECONNECTING);
+    this.scheduleReconnectAttempt();
+  }
+
+  /**
+   * Waits before the next ICE restart, doubling the delay each time
+   */
+  private scheduleReconnectAttempt(): void {
+    const { maxAttempts, initialDelayMs, maxDelayMs } = this.reconnectPolicy;
+    const delay = Math.min(initialDelayMs * 2 ** this.reconnectAttempt, maxDelayMs);
+
+    this.callbacks.onReconnectStateChange?.({
+      attempt: this.reconnectAttempt,
+      maxAttempts,
+      nextRetryAt: Date.now() + delay
+    });
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.runReconnectAttempt();
+    }, delay);
+  }
+
+  /**
+   * Restarts ICE once, or gives up when the policy is exhausted
+   */
+  private runReconnectAttempt(): void {
+    if (!this.webrtcService || this.currentPhase !== ConnectionPhase.RECONNECTING) return;
+
+    if (this.reconnectAttempt >= this.reconnectPolicy.maxAttempts) {
+      log.warn(`[ConnectionManager] Reconnect failed after ${this.reconnectAttempt} attempts`);
+      this.stopReconnect();
+      this.setConnectionPhase(ConnectionPhase.DISCONNECTED);
+      return;
+    }
+
+    this.reconnectAttempt += 1;
+    log.info(`[ConnectionManager] Reconnect attempt ${this.reconnectAttempt}/${this.reconnectPolicy.maxAttempts}`);
+
+    // The sharer sends the restart offers, the watcher answers them in-band
+    const canContinue = this.role === PeerRole.SCREEN_SHARER
+      ? this.webrtcService.restartIce()
+      : this.webrtcService.canRestartIce();
+
+    if (!canContinue) {
+      log.warn("[ConnectionManager] Signaling channel closed, giving up reconnect");
+      this.stopReconnect();
+      this.setConnectionPhase(ConnectionPhase.DISCONNECTED);
+      return;
+    }
+
+    this.scheduleReconnectAttempt();
+  }
+
+  /**
+   * Back to CONNECTED once the restarted ICE transport carries traffic again
+   */
+  private finishReconnect(): void {
+    log.info(`[ConnectionManager] Reconnected after ${this.reconnectAttempt} ICE restart(s)`);
+    this.stopReconnect();
+    this.setConnectionPhase(ConnectionPhase.CONNECTED);
+  }
+
+  /**
+   * Cancels pending retries and clears reconnection progress
+   */
+  private stopReconnect(): void {
+    const wasReconnecting = this.reconnectTimer !== null || this.reconnectAttempt > 0;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnectAttempt = 0;
+
+    if (wasReconnecting) {
+      this.callbacks.onReconnectStateChange?.(null);
+    }
+  }
+
   // ============== SHARER FLOW ==============
 
   /**
@@ -173,6 +385,8 @@ export class ConnectionManager {
         userConfig: {
           username,
           isMicrophoneEnabledOnConnect: config?.userConfig?.isMicrophoneEnabledOnConnect ?? false,
+          microphoneDeviceId: config?.userConfig?.microphoneDeviceId ?? null,
+          speakerDeviceId: config?.userConfig?.speakerDeviceId ?? null,
         },
         connectionConfig: config?.connectionConfig
       };
@@ -188,8 +402,13 @@ export class ConnectionManager {
       // Create offer
       const offer = await this.webrtcService.createSharerOffer();
 
-      // Encode a WebRTC SessionDescription to URL
-      const offerUrl = await encodeConnectionUrl(PeerRole.SCREEN_SHARER, username, offer);
+      // Answers pushed by the transport skip the manual paste step
+      this.signalingTransport.onRemoteAnswer((payload) => {
+        void this.acceptRemoteAnswer(payload);
+      });
+
+      // Publish the offer, URL or room code depending on transport
+      const offerUrl = await this.signalingTransport.publishOffer(username, offer);
 
       if (this.currentPhase !== ConnectionPhase.CONNECTING &&
           this.currentPhase !== ConnectionPhase.CONNECTED) {
@@ -219,38 +438,51 @@ export class ConnectionManager {
         throw new Error("Not initialized as sharer");
       }
 
+      // Validate and decode the answer
+      const decoded = await this.signalingTransport.receiveAnswer(offerUrl);
+
       this.setConnectionPhase(ConnectionPhase.CONNECTING);
 
-      // Check Url exitsts
-      if (!offerUrl) {
-        throw new Error("No URL in clipboard");
-      }
+      // Accept teh answer
+      await this.webrtcService.acceptAnswer(decoded.sdp);
 
-      // Validate URL
-      if (!isValidConnectionUrl(offerUrl)) {
-        throw new Error("Invalid connection URL");
+      log.info(`[ConnectionManager] Accepted answer from: ${decoded.username}`);
+      return true;
+    } catch (error) {
+      // An unusable answer URL leaves the offer open for another one
+      if (error instanceof ConnectionUrlError) {
+        log.warn(`[ConnectionManager] Rejected answer URL (${error.code}): ${error.message}`);
+        this.callbacks.onError?.(error);
+        return false;
       }
+      this.handleError("Failed to accept answer", error);
+      return false;
+    } finally {
+      this.releaseOperationLock();
+    }
+  }
 
-      // Check it's an answer (from watcher)
-      const urlRole = getRoleFromUrl(offerUrl);
-      if (urlRole !== PeerRole.SCREEN_WATCHER) {
-        throw new Error("Expected answer URL from watcher, got offer URL");
+  /**
+   * Accept answer delivered by the signaling transport
+   */
+  private async acceptRemoteAnswer(payload: SignalingPayload): Promise<void> {
+    if (!this.acquireOperationLock()) return;
+    try {
+      if (!this.webrtcService || this.role !== PeerRole.SCREEN_SHARER) {
+        log.warn("[ConnectionManager] Ignoring answer: not sharing");
+        return;
       }
 
-      // Decode URL
-      const decoded = await decodeConnectionUrl(offerUrl);
-      if (!decoded) {
-        throw new Error("Failed to decode answer URL");
+      if (this.currentPhase !== ConnectionPhase.OFFER_CREATED) {
+        log.warn("[ConnectionManager] Ignoring answer: not waiting for one");
+        return;
       }
 
-      // Accept teh answer
-      await this.webrtcService.acceptAnswer(decoded.sdp);
-
-      log.info(`[ConnectionManager] Accepted answer from: ${decoded.username}`);
-      return true;
+      this.setConnectionPhase(ConnectionPhase.CONNECTING);
+      await this.webrtcService.acceptAnswer(payload.sdp);
+      log.info(`[ConnectionManager] Accepted answer from: ${payload.username}`);
     } catch (error) {
       this.handleError("Failed to accept answer", error);
-      return false;
     } finally {
       this.releaseOperationLock();
     }
@@ -274,27 +506,8 @@ export class ConnectionManager {
       this.role = PeerRole.SCREEN_WATCHER;
       this.username = username;
 
-      // Use provided URL
-      if (!offerUrl) {
-        throw new Error("No session URL provided");
-      }
-
-      // Validate URL
-      if (!isValidConnectionUrl(offerUrl)) {
-        throw new Error("Invalid connection URL");
-      }
-
-      // Check it's an offer (from sharer)
-      const urlRole = getRoleFromUrl(offerUrl);
-      if (urlRole !== PeerRole.SCREEN_SHARER) {
-        throw new Error("Expected offer URL from sharer, got answer URL");
-      }
-
-      // Decode URL
-      const decoded = await decodeConnectionUrl(offerUrl);
-      if (!decoded) {
-        throw new Error("Failed to decode offer URL");
-      }
+      // Resolve the offer from URL or room code
+      const decoded = await this.signalingTransport.receiveOffer(offerUrl);
 
       log.info(`[ConnectionManager] Joining session from: ${decoded.username}`);
 
@@ -305,6 +518,8 @@ export class ConnectionManager {
         userConfig: {
           username,
           isMicrophoneEnabledOnConnect: config?.userConfig?.isMicrophoneEnabledOnConnect || false,
+          microphoneDeviceId: config?.userConfig?.microphoneDeviceId ?? null,
+          speakerDeviceId: config?.userConfig?.speakerDeviceId ?? null,
         },
         connectionConfig: config?.connectionConfig
       };
@@ -320,8 +535,8 @@ export class ConnectionManager {
       // Create answer from offer
       const answer = await this.webrtcService.createWatcherAnswer(decoded.sdp);
 
-      // Encode answer URL
-      const answerUrl = await encodeConnectionUrl(PeerRole.SCREEN_WATCHER, username, answer);
+      // Publish answer, only URL answers need to be sent back by hand
+      const answerUrl = await this.signalingTransport.publishAnswer(username, answer);
 
       // Don't regress phase if ICE or DTLS already advanced it
       // during the async createWatcherAnswer/encodeConnectionUrl calls.
@@ -329,12 +544,15 @@ export class ConnectionManager {
           this.currentPhase !== ConnectionPhase.CONNECTED) {
         this.setConnectionPhase(ConnectionPhase.ANSWER_CREATED);
       }
-      this.callbacks.onUrlGenerated?.(answerUrl);
+      if (!this.signalingTransport.deliversAnswer) {
+        this.callbacks.onUrlGenerated?.(answerUrl);
+      }
 
-      log.info("[ConnectionManager] Answer URL created");
+      log.info("[ConnectionManager] Answer published");
       return answerUrl;
     } catch (error) {
       this.handleError("Failed to join session", error);
+      this.signalingTransport.close();
       return null;
     } finally {
       this.releaseOperationLock();
@@ -386,6 +604,259 @@ export class ConnectionManager {
     return this.webrtcService.updateRemoteCursor(cursorData);
   }
 
+  /**
+   * Sends a button press, release or double-click of the local cursor
+   */
+  public sendCursorEvent(event: RemoteCursorEvent): boolean {
+    if (!this.webrtcService) {
+      log.warn("[ConnectionManager] Cannot send cursor event: not connected");
+      return false;
+    }
+    return this.webrtcService.sendCursorEvent(event);
+  }
+
+  // ============== CHAT ==============
+
+  /**
+   * Checks if chat channel is ready
+   */
+  public isChatChannelReady(): boolean {
+    return this.webrtcService?.isChatChannelReady() ?? false;
+  }
+
+  /**
+   * Sends a chat message signed with the local username
+   * Returns the sent message, or null when it is empty, too long or the channel is not ready
+   */
+  public sendChatMessage(text: string): ChatMessage | null {
+    if (!this.webrtcService) {
+      log.warn("[ConnectionManager] Cannot send chat message: not connected");
+      return null;
+    }
+    if (!text.trim() || text.length > CHAT_MESSAGE_MAX_LENGTH) {
+      return null;
+    }
+
+    const message: ChatMessage = {
+      id: crypto.randomUUID(),
+      author: this.username,
+      text,
+      sentAt: Date.now()
+    };
+    return this.webrtcService.sendChatMessage(message) ? message : null;
+  }
+
+  // ============== ANNOTATIONS ==============
+
+  /**
+   * Checks if annotations channel is ready
+   */
+  public isAnnotationChannelReady(): boolean {
+    return this.webrtcService?.isAnnotationChannelReady() ?? false;
+  }
+
+  /**
+   * Streams part of a drawing stroke to the sharer (watcher only)
+   */
+  public sendAnnotationStroke(update: AnnotationStrokeUpdate): boolean {
+    if (!this.webrtcService) {
+      log.warn("[ConnectionManager] Cannot send annotation: not connected");
+      return false;
+    }
+    if (this.role !== PeerRole.SCREEN_WATCHER) {
+      log.warn("[ConnectionManager] Only the watcher can draw annotations");
+      return false;
+    }
+    return this.webrtcService.sendAnnotationStroke(update);
+  }
+
+  /**
+   * Asks the peer to remove all strokes
+   */
+  public clearAnnotations(): boolean {
+    return this.webrtcService?.sendAnnotationClear() ?? false;
+  }
+
+  // ============== FILE TRANSFER ==============
+
+  /**
+   * Checks if file transfer channel is ready
+   */
+  public isFileTransferChannelReady(): boolean {
+    return this.webrtcService?.isFileTransferChannelReady() ?? false;
+  }
+
+  /**
+   * Queues a file for sending to the peer
+   * Returns the transfer id, or null when the channel is not ready or the file is too large
+   */
+  public sendFile(file: File): string | null {
+    if (!this.webrtcService) {
+      log.warn("[ConnectionManager] Cannot send file: not connected");
+      return null;
+    }
+    return this.webrtcService.sendFile(file);
+  }
+
+  /**
+   * Cancels an outgoing or incoming file transfer
+   */
+  public cancelFileTransfer(id: string): boolean {
+    return this.webrtcService?.cancelFileTransfer(id) ?? false;
+  }
+
+  // ============== CLIPBOARD SYNC ==============
+
+  /**
+   * Checks if clipboard sync channel is ready
+   */
+  public isClipboardChannelReady(): boolean {
+    return this.webrtcService?.isClipboardChannelReady() ?? false;
+  }
+
+  /**
+   * Starts or stops sharing the local clipboard with the peer for this session
+   * Returns false when sharing cannot start
+   */
+  public async setClipboardSharing(enabled: boolean): Promise<boolean> {
+    if (!this.webrtcService) {
+      log.warn("[ConnectionManager] Cannot change clipboard sharing: not connected");
+      return false;
+    }
+    return this.webrtcService.setClipboardSharing(enabled);
+  }
+
+  /**
+   * Includes copied images in clipboard sharing
+   */
+  public async setClipboardIncludeImages(enabled: boolean): Promise<void> {
+    await this.webrtcService?.setClipboardIncludeImages(enabled);
+  }
+
+  /**
+   * Writes clipboard content from the peer to the local clipboard on arrival
+   */
+  public setClipboardAutoApply(enabled: boolean): void {
+    this.webrtcService?.setClipboardAutoApply(enabled);
+  }
+
+  /**
+   * Copies the latest clipboard content received from the peer
+   */
+  public async copyRemoteClipboard(): Promise<boolean> {
+    return this.webrtcService?.copyRemoteClipboard() ?? false;
+  }
+
+  /**
+   * Gets clipboard sync consent of both peers
+   */
+  public getClipboardSyncState(): ClipboardSyncState | null {
+    return this.webrtcService?.getClipboardSyncState() ?? null;
+  }
+
+  // ============== REMOTE CONTROL ==============
+
+  /**
+   * Checks if remote control channel is ready
+   */
+  public isRemoteControlChannelReady(): boolean {
+    return this.webrtcService?.isRemoteControlChannelReady() ?? false;
+  }
+
+  /**
+   * Asks the sharer for control of its screen (watcher only)
+   */
+  public requestRemoteControl(): boolean {
+    if (!this.webrtcService) {
+      log.warn("[ConnectionManager] Cannot request remote control: not connected");
+      return false;
+    }
+    if (this.role !== PeerRole.SCREEN_WATCHER) {
+      log.warn("[ConnectionManager] Only the watcher can request remote control");
+      return false;
+    }
+    return this.webrtcService.requestRemoteControl();
+  }
+
+  /**
+   * Withdraws a control request or gives control back (watcher only)
+   */
+  public releaseRemoteControl(): void {
+    this.webrtcService?.releaseRemoteControl();
+  }
+
+  /**
+   * Grants or denies a pending control request (sharer only)
+   * Returns true when control was granted
+   */
+  public async respondToRemoteControlRequest(allow: boolean): Promise<boolean> {
+    if (!this.webrtcService) {
+      log.warn("[ConnectionManager] Cannot answer remote control request: not connected");
+      return false;
+    }
+    return this.webrtcService.respondToRemoteControlRequest(allow);
+  }
+
+  /**
+   * Takes control back from the watcher (sharer only)
+   */
+  public async revokeRemoteControl(): Promise<void> {
+    await this.webrtcService?.revokeRemoteControl();
+  }
+
+  /**
+   * Sends a click, scroll or keystroke to the sharer while in control
+   */
+  public sendRemoteInput(event: RemoteInputEvent): boolean {
+    return this.webrtcService?.sendRemoteInput(event) ?? false;
+  }
+
+  /**
+   * Gets the remote control consent state
+   */
+  public getRemoteControlState(): RemoteControlState | null {
+    return this.webrtcService?.getRemoteControlState() ?? null;
+  }
+
+  // ============== SHARER POINTER ==============
+
+  /**
+   * Starts or stops broadcasting the local pointer to the watcher (sharer only)
+   */
+  public setSharerPointerBroadcasting(enabled: boolean, name?: string): boolean {
+    if (!this.webrtcService) {
+      log.warn("[ConnectionManager] Cannot broadcast pointer: not connected");
+      return false;
+    }
+    if (enabled && this.role !== PeerRole.SCREEN_SHARER) {
+      log.warn("[ConnectionManager] Only the sharer can broadcast its pointer");
+      return false;
+    }
+    this.webrtcService.setSharerPointerBroadcasting(enabled, name);
+    return true;
+  }
+
+  /**
+   * Shows a highlight ring around the broadcast pointer
+   */
+  public setSharerPointerHighlight(enabled: boolean): void {
+    this.webrtcService?.setSharerPointerHighlight(enabled);
+  }
+
+  /**
+   * Sends clicks along with the broadcast pointer for the ripple
+   */
+  public setSharerPointerClickRipple(enabled: boolean): void {
+    this.webrtcService?.setSharerPointerClickRipple(enabled);
+  }
+
+  /**
+   * Gets the pointer broadcast state
+   */
+  public getSharerPointerState(): SharerPointerState | null {
+    return this.webrtcService?.getSharerPointerState() ?? null;
+  }
+
   // ============== MEDIA CONTROL ==============
 
   /**
@@ -417,6 +888,28 @@ export class ConnectionManager {
     return this.webrtcService.toggleDisplayStream();
   }
 
+  /**
+   * Shares another screen or window without reconnecting
+   */
+  public async switchDisplaySource(): Promise<boolean> {
+    if (!this.webrtcService) {
+      log.warn("[ConnectionManager] Cannot switch display source: not connected");
+      return false;
+    }
+    return this.webrtcService.switchDisplaySource();
+  }
+
+  /**
+   * Toggles the system audio shared with the screen
+   */
+  public async toggleSystemAudio(): Promise<boolean> {
+    if (!this.webrtcService) {
+      log.warn("[ConnectionManager] Cannot toggle system audio: not connected");
+      return false;
+    }
+    return this.webrtcService.toggleSystemAudio();
+  }
+
   /**
    * Sets display stream enabled state
    */
@@ -431,6 +924,20 @@ export class ConnectionManager {
     return this.webrtcService?.isMicrophoneEnabled() ?? false;
   }
 
+  /**
+   * Checks if system audio is shared
+   */
+  public isSystemAudioEnabled(): boolean {
+    return this.webrtcService?.isSystemAudioEnabled() ?? false;
+  }
+
+  /**
+   * Checks if system audio can be shared with the screen
+   */
+  public hasSystemAudio(): boolean {
+    return this.webrtcService?.hasSystemAudio() ?? false;
+  }
+
   /**
    * Checks if audio input is available
    */
@@ -468,6 +975,13 @@ export class ConnectionManager {
 
   // ============== COMMON METHODS ==============
 
+  /**
+   * Gets the remote peer, null until the peer hello handshake completed
+   */
+  public getPeerInfo(): PeerInfo | null {
+    return this.webrtcService?.getPeerInfo() ?? null;
+  }
+
   /**
    * Checks if connected
    */
@@ -481,10 +995,13 @@ export class ConnectionManager {
   public disconnect(): void {
     log.info("[ConnectionManager] Disconnecting...");
 
+    this.stopReconnect();
+
     if (this.webrtcService) {
       this.webrtcService.disconnect();
       this.webrtcService = null;
     }
+    this.signalingTransport.close();
 
     this.role = null;
     this.username = "";
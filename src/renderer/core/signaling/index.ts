@@ -0,0 +1,2 @@
+export * from "./url-signaling-transport";
+export * from "./websocket-signaling-transport";
@@ -0,0 +1,111 @@
+import {
+  encodeConnectionUrl,
+  decodeConnectionUrl,
+  isValidConnectionUrl,
+  getRoleFromUrl,
+  createSessionId
+} from "../../shared/utils/index";
+import {
+  ConnectionUrlDecodeOptions,
+  DecodedConnectionUrl,
+  PeerRole,
+  SignalingMode,
+  SignalingPayload,
+  SignalingTransport
+} from "../../shared/types/index";
+
+/**
+ * Serverless signaling: offer and answer travel as lynxscreen:// URLs
+ * that the users exchange themselves.
+ * With a session passphrase both URLs carry an encrypted SDP.
+ */
+export class UrlSignalingTransport implements SignalingTransport {
+  public readonly mode = SignalingMode.URL;
+  public readonly deliversAnswer = false;
+
+  // Session the offer was published for or received from, answers must match it
+  private sessionId: string | null = null;
+  // Capabilities of the sharer, the answer only uses encodings it understands
+  private peerCapabilities: string[] | undefined;
+
+  constructor(private passphrase?: string) {}
+
+  /**
+   * Sets the passphrase used for URLs published or received from now on
+   */
+  public setPassphrase(passphrase: string): void {
+    this.passphrase = passphrase;
+  }
+
+  public async publishOffer(username: string, offer: RTCSessionDescriptionInit): Promise<string> {
+    this.sessionId = createSessionId();
+    return encodeConnectionUrl(PeerRole.SCREEN_SHARER, username, offer, {
+      passphrase: this.passphrase,
+      sessionId: this.sessionId
+    });
+  }
+
+  public async receiveOffer(offerUrl: string): Promise<SignalingPayload> {
+    if (!offerUrl) {
+      throw new Error("No session URL provided");
+    }
+
+    if (!isValidConnectionUrl(offerUrl)) {
+      throw new Error("Invalid connection URL");
+    }
+
+    // Check it's an offer (from sharer)
+    if (getRoleFromUrl(offerUrl) !== PeerRole.SCREEN_SHARER) {
+      throw new Error("Expected offer URL from sharer, got answer URL");
+    }
+
+    const decoded = await this.decode(offerUrl, { passphrase: this.passphrase });
+    this.sessionId = decoded.sessionId;
+    this.peerCapabilities = decoded.capabilities;
+    return decoded;
+  }
+
+  public async publishAnswer(username: string, answer: RTCSessionDescriptionInit): Promise<string> {
+    return encodeConnectionUrl(PeerRole.SCREEN_WATCHER, username, answer, {
+      passphrase: this.passphrase,
+      sessionId: this.sessionId ?? undefined,
+      peerCapabilities: this.peerCapabilities
+    });
+  }
+
+  public async receiveAnswer(answerUrl: string): Promise<SignalingPayload> {
+    if (!answerUrl) {
+      throw new Error("No URL in clipboard");
+    }
+
+    if (!isValidConnectionUrl(answerUrl)) {
+      throw new Error("Invalid connection URL");
+    }
+
+    // Check it's an answer (from watcher)
+    if (getRoleFromUrl(answerUrl) !== PeerRole.SCREEN_WATCHER) {
+      throw new Error("Expected answer URL from watcher, got offer URL");
+    }
+
+    return this.decode(answerUrl, {
+      passphrase: this.passphrase,
+      expectedSessionId: this.sessionId ?? undefined
+    });
+  }
+
+  // Answers only arrive through receiveAnswer
+  public onRemoteAnswer(): void {}
+
+  public close(): void {}
+
+  /**
+   * Decodes a URL, rejecting it with the typed ConnectionUrlError
+   */
+  private async decode(url: string, options: ConnectionUrlDecodeOptions): Promise<DecodedConnectionUrl> {
+    const result = await decodeConnectionUrl(url, options);
+    if (!result.ok) {
+      throw result.error;
+    }
+    return result.payload;
+  }
+}
@@ -0,0 +1,332 @@
+import log from "electron-log/renderer";
+import {
+  PeerRole,
+  SignalingMode,
+  SignalingPayload,
+  SignalingTransport
+} from "../../shared/types/index";
+
+type WebSocketConstructor = new (url: string) => WebSocket;
+
+/**
+ * Messages exchanged with the rendezvous server
+ */
+type ServerMessage =
+  | { type: "created"; room: string }
+  | { type: "joined"; room: string }
+  | { type: "peer-joined" }
+  | { type: "peer-left" }
+  | { type: "signal"; payload: unknown }
+  | { type: "error"; message: string };
+
+interface PendingReply {
+  expected: ServerMessage["type"];
+  resolve: (message: ServerMessage) => void;
+  reject: (error: Error) => void;
+}
+
+interface PendingOffer {
+  resolve: (payload: SignalingPayload) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Options for the WebSocket signaling transport
+ *
+ * @property {WebSocketConstructor} [WebSocketImpl] - WebSocket implementation, defaults to the global one.
+ * @property {number} [timeoutMs] - How long to wait for the server or the remote peer.
+ */
+export interface WebSocketSignalingOptions {
+  WebSocketImpl?: WebSocketConstructor;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const SOCKET_OPEN = 1;
+const ROOM_CODE_PATTERN = /^[A-Z0-9]{6}$/;
+
+/**
+ * Checks that a relayed payload looks like a session description
+ */
+function isSignalingPayload(value: unknown): value is SignalingPayload {
+  const payload = value as SignalingPayload | null;
+  return !!payload &&
+         typeof payload.username === "string" &&
+         (payload.role === PeerRole.SCREEN_SHARER || payload.role === PeerRole.SCREEN_WATCHER) &&
+         typeof payload.sdp?.sdp === "string" &&
+         (payload.sdp.type === "offer" || payload.sdp.type === "answer");
+}
+
+/**
+ * Rendezvous signaling: peers meet in a room on a WebSocket server and
+ * the server relays the offer and answer, users only share the room code.
+ */
+export class WebSocketSignalingTransport implements SignalingTransport {
+  public readonly mode = SignalingMode.SERVER;
+  public readonly deliversAnswer = true;
+
+  private readonly WebSocketImpl: WebSocketConstructor;
+  private readonly timeoutMs: number;
+  private socket: WebSocket | null = null;
+  private roomCode: string | null = null;
+  private localOffer: SignalingPayload | null = null;
+  private pendingReply: PendingReply | null = null;
+  private pendingOffer: PendingOffer | null = null;
+  private onRemoteAnswerCallback?: (payload: SignalingPayload) => void;
+
+  constructor(private readonly serverUrl: string, options: WebSocketSignalingOptions = {}) {
+    this.WebSocketImpl = options.WebSocketImpl ?? WebSocket;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  /**
+   * Gets the room this transport joined or created
+   */
+  public getRoomCode(): string | null {
+    return this.roomCode;
+  }
+
+  public async publishOffer(username: string, offer: RTCSessionDescriptionInit): Promise<string> {
+    await this.connect();
+    const reply = await this.request({ type: "create" }, "created");
+    if (reply.type !== "created") {
+      throw new Error("Unexpected reply from signaling server");
+    }
+
+    this.roomCode = reply.room;
+    this.localOffer = {
+      role: PeerRole.SCREEN_SHARER,
+      username,
+      sdp: { type: offer.type, sdp: offer.sdp }
+    };
+
+    log.info(`[WebSocketSignaling] Created room ${reply.room}`);
+    return reply.room;
+  }
+
+  public async receiveOffer(token: string): Promise<SignalingPayload> {
+    const roomCode = (token ?? "").trim().toUpperCase();
+    if (!ROOM_CODE_PATTERN.test(roomCode)) {
+      throw new Error("Invalid room code");
+    }
+
+    await this.connect();
+
+    // Register before joining: the sharer sends its offer as soon as we join
+    const offerPromise = this.waitForOffer();
+    try {
+      await this.request({ type: "join", room: roomCode }, "joined");
+    } catch (error) {
+      offerPromise.catch(() => undefined);
+      this.pendingOffer?.reject(error as Error);
+      this.pendingOffer = null;
+      throw error;
+    }
+
+    this.roomCode = roomCode;
+    log.info(`[WebSocketSignaling] Joined room ${roomCode}`);
+    return offerPromise;
+  }
+
+  public async publishAnswer(username: string, answer: RTCSessionDescriptionInit): Promise<string> {
+    if (!this.roomCode) {
+      throw new Error("Not in a signaling room");
+    }
+
+    this.send({
+      type: "signal",
+      payload: {
+        role: PeerRole.SCREEN_WATCHER,
+        username,
+        sdp: { type: answer.type, sdp: answer.sdp }
+      }
+    });
+    return this.roomCode;
+  }
+
+  public async receiveAnswer(): Promise<SignalingPayload> {
+    throw new Error("Answers are delivered by the signaling server");
+  }
+
+  public onRemoteAnswer(callback: (payload: SignalingPayload) => void): void {
+    this.onRemoteAnswerCallback = callback;
+  }
+
+  public close(): void {
+    const error = new Error("Signaling transport closed");
+    this.pendingReply?.reject(error);
+    this.pendingOffer?.reject(error);
+    this.pendingReply = null;
+    this.pendingOffer = null;
+
+    if (this.socket) {
+      this.socket.onmessage = null;
+      this.socket.onclose = null;
+      this.socket.onerror = null;
+      this.socket.close();
+      this.socket = null;
+    }
+
+    this.roomCode = null;
+    this.localOffer = null;
+    this.onRemoteAnswerCallback = undefined;
+  }
+
+  /**
+   * Opens the server connection if not already open
+   */
+  private connect(): Promise<void> {
+    if (this.socket?.readyState === SOCKET_OPEN) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const socket = new this.WebSocketImpl(this.serverUrl);
+
+      const timer = setTimeout(() => {
+        socket.close();
+        reject(new Error("Signaling server connection timed out"));
+      }, this.timeoutMs);
+
+      socket.onopen = () => {
+        clearTimeout(timer);
+        this.socket = socket;
+        socket.onmessage = (event) => this.handleMessage(event.data);
+        socket.onclose = () => this.handleClose();
+        socket.onerror = (event) => log.warn("[WebSocketSignaling] Socket error:", event);
+        resolve();
+      };
+
+      socket.onerror = () => {
+        clearTimeout(timer);
+        reject(new Error(`Could not reach signaling server at ${this.serverUrl}`));
+      };
+    });
+  }
+
+  /**
+   * Sends a message and waits for the matching reply
+   */
+  private request(message: object, expected: ServerMessage["type"]): Promise<ServerMessage> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingReply = null;
+        reject(new Error("Signaling server did not respond"));
+      }, this.timeoutMs);
+
+      this.pendingReply = {
+        expected,
+        resolve: (reply) => {
+          clearTimeout(timer);
+          resolve(reply);
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      };
+      this.send(message);
+    });
+  }
+
+  /**
+   * Waits until the sharer offer is relayed
+   */
+  private waitForOffer(): Promise<SignalingPayload> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingOffer = null;
+        reject(new Error("Sharer did not send an offer"));
+      }, this.timeoutMs);
+
+      this.pendingOffer = {
+        resolve: (payload) => {
+          clearTimeout(timer);
+          resolve(payload);
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      };
+    });
+  }
+
+  private send(message: object): void {
+    if (!this.socket || this.socket.readyState !== SOCKET_OPEN) {
+      throw new Error("Not connected to signaling server");
+    }
+    this.socket.send(JSON.stringify(message));
+  }
+
+  private handleMessage(data: unknown): void {
+    let message: ServerMessage;
+    try {
+      message = JSON.parse(String(data));
+    } catch (error) {
+      log.error("[WebSocketSignaling] Failed to parse server message:", error);
+      return;
+    }
+
+    switch (message.type) {
+      case "created":
+      case "joined":
+        if (this.pendingReply?.expected === message.type) {
+          this.pendingReply.resolve(message);
+          this.pendingReply = null;
+        }
+        break;
+
+      case "error":
+        if (this.pendingReply) {
+          this.pendingReply.reject(new Error(message.message));
+          this.pendingReply = null;
+        } else {
+          log.warn(`[WebSocketSignaling] Server error: ${message.message}`);
+        }
+        break;
+
+      case "peer-joined":
+        if (this.localOffer) {
+          this.send({ type: "signal", payload: this.localOffer });
+        }
+        break;
+
+      case "peer-left":
+        log.info("[WebSocketSignaling] Remote peer left the room");
+        this.pendingOffer?.reject(new Error("Sharer left the room"));
+        this.pendingOffer = null;
+        break;
+
+      case "signal":
+        this.handleSignal(message.payload);
+        break;
+    }
+  }
+
+  private handleSignal(payload: unknown): void {
+    if (!isSignalingPayload(payload)) {
+      log.warn("[WebSocketSignaling] Dropping invalid signaling payload");
+      return;
+    }
+
+    if (payload.sdp.type === "offer" && payload.role === PeerRole.SCREEN_SHARER) {
+      this.pendingOffer?.resolve(payload);
+      this.pendingOffer = null;
+      return;
+    }
+
+    if (payload.sdp.type === "answer" && payload.role === PeerRole.SCREEN_WATCHER) {
+      this.onRemoteAnswerCallback?.(payload);
+    }
+  }
+
+  private handleClose(): void {
+    const error = new Error("Signaling server connection closed");
+    this.pendingReply?.reject(error);
+    this.pendingOffer?.reject(error);
+    this.pendingReply = null;
+    this.pendingOffer = null;
+    this.socket = null;
+  }
+}
@@ -1,5 +1,5 @@
 import log from "electron-log/renderer";
-import { WebRTCConnectionConfig } from "../../../shared/types/index";
+import { SignalingMessage, WebRTCConnectionConfig } from "../../../shared/types/index";
 import { DataChannelService } from "../data/index";
 
 /**
@@ -7,11 +7,23 @@ import { DataChannelService } from "../data/index";
  *
  * Handles RTCPeerConnection creation, offer/answer exchange, track management,
  * and connection state monitoring for peer-to-peer communication.
+ *
+ * The first offer/answer travels through URLs. Any later negotiation is carried
+ * in-band over the signaling data channel using the "perfect negotiation" pattern:
+ * the polite peer (watcher) rolls back on offer collision, the impolite peer (sharer)
+ * ignores the colliding offer.
  */
 export class PeerConnectionService {
   private pc: RTCPeerConnection | null = null;
   private config: WebRTCConnectionConfig;
   private dataChannelService: DataChannelService;
+  private isPolite: boolean;
+
+  // Perfect negotiation state
+  private makingOffer: boolean = false;
+  private ignoreOffer: boolean = false;
+  // Set when negotiation is needed before the signaling channel is open
+  private pendingNegotiation: boolean = false;
 
   private onIceConnectionStateChangeCallback?: (state: RTCIceConnectionState) => void;
   private onConnectionStateChangeCallback?: (state: RTCPeerConnectionState) => void;
@@ -20,9 +32,14 @@ export class PeerConnectionService {
   // Track pending ICE gathering so we can abort on cleanup
   private iceGatheringAbortController: AbortController | null = null;
 
-  constructor(config: WebRTCConnectionConfig, dataChannelService: DataChannelService) {
+  constructor(
+    config: WebRTCConnectionConfig, 
+    dataChannelService: DataChannelService, 
+    isPolite: boolean = false
+  ) {
     this.config = config;
     this.dataChannelService = dataChannelService;
+    this.isPolite = isPolite;
   }
 
   private ensureConnection(): void {
@@ -56,8 +73,17 @@ export class PeerConnectionService {
     this.pc.onicecandidate = (event: RTCPeerConnectionIceEvent): void => {
       if (!event.candidate) {
         log.info("ICE candidate gathering complete");
-      } else {
-        log.debug("New ICE candidate discovered");
+        return;
+      }
+
+      log.debug("New ICE candidate discovered");
+      // Candidates of the initial handshake are bundled in the URL SDP.
+      // Later ones (e.g. after an ICE restart) are trickled in-band.
+      if (this.dataChannelService.isSignalingChannelReady()) {
+        this.dataChannelService.sendSignalingMessage({
+          kind: "candidate",
+          candidate: event.candidate.toJSON()
+        });
       }
     };
 
@@ -85,16 +111,107 @@ export class PeerConnectionService {
       }
     };
 
-    // Renegotiation is not supported in current architecture (static URL signaling).
-    // Tracks added after connection establishment will NOT reach the remote peer.
+    // Renegotiation is carried over the signaling data channel. Before that channel
+    // is open (i.e. during the initial URL handshake) it is deferred.
     this.pc.onnegotiationneeded = (): void => {
-      log.warn(
-        "onnegotiationneeded fired but renegotiation is not supported (static URL signaling). " +
-          "Tracks added after initial offer/answer will not be transmitted to the remote peer."
-      );
+      if (!this.dataChannelService.isSignalingChannelReady()) {
+        log.info("onnegotiationneeded fired before signaling channel is open, deferring renegotiation");
+        this.pendingNegotiation = true;
+        return;
+      }
+      void this.renegotiate();
     };
   }
 
+  /**
+   * Registers in-band signaling handlers on the data channel service.
+   */
+  private setupSignalingHandlers(): void {
+    this.dataChannelService.onSignalingMessage((message) => {
+      void this.handleSignalingMessage(message);
+    });
+
+    this.dataChannelService.onSignalingChannelOpen(() => {
+      if (this.pendingNegotiation && this.pc?.signalingState === "stable") {
+        void this.renegotiate();
+      }
+    });
+  }
+
+  /**
+   * Sends the current local description over the signaling channel.
+   */
+  private sendLocalDescription(pc: RTCPeerConnection): void {
+    if (!pc.localDescription) return;
+    this.dataChannelService.sendSignalingMessage({
+      kind: "description",
+      description: { type: pc.localDescription.type, sdp: pc.localDescription.sdp }
+    });
+  }
+
+  /**
+   * Creates a new local offer and sends it over the signaling channel.
+   */
+  private async renegotiate(): Promise<void> {
+    const pc = this.pc;
+    if (!pc) return;
+
+    this.pendingNegotiation = false;
+
+    try {
+      log.info("Renegotiating over signaling channel...");
+      this.makingOffer = true;
+      await pc.setLocalDescription();
+
+      this.sendLocalDescription(pc);
+    } catch (error) {
+      log.error("Failed to renegotiate:", error);
+    } finally {
+      this.makingOffer = false;
+    }
+  }
+
+  /**
+   * Applies a remote renegotiation description or ICE candidate.
+   */
+  private async handleSignalingMessage(message: SignalingMessage): Promise<void> {
+    const pc = this.pc;
+    if (!pc) return;
+
+    try {
+      if (message.kind === "description") {
+        const description = message.description;
+        const offerCollision = description.type === "offer" &&
+          (this.makingOffer || pc.signalingState !== "stable");
+
+        this.ignoreOffer = !this.isPolite && offerCollision;
+        if (this.ignoreOffer) {
+          log.warn("Ignoring colliding renegotiation offer (impolite peer)");
+          return;
+        }
+
+        // Polite peer implicitly rolls back its own pending offer here
+        await pc.setRemoteDescription(new RTCSessionDescription(description));
+
+        if (description.type === "offer") {
+          await pc.setLocalDescription();
+          this.sendLocalDescription(pc);
+        }
+        log.info(`Applied in-band ${description.type}`);
+        return;
+      }
+
+      try {
+        await pc.addIceCandidate(message.candidate);
+      } catch (error) {
+        // Candidates belonging to an ignored offer are expected to fail
+        if (!this.ignoreOffer) throw error;
+      }
+    } catch (error) {
+      log.error("Failed to handle signaling message:", error);
+    }
+  }
+
   /**
    * Waits for ICE candidate gathering to complete.
    * Uses an AbortController so cleanup/close can cancel a pending wait.
@@ -196,6 +313,7 @@ export class PeerConnectionService {
     });
 
     this.setupPeerConnectionHandlers();
+    this.setupSignalingHandlers();
 
     log.info("Peer connection initialized successfully");
   }
@@ -208,6 +326,8 @@ export class PeerConnectionService {
     this.ensureConnection();
 
     log.info("Creating offer...");
+    // The initial offer covers everything negotiated so far
+    this.pendingNegotiation = false;
 
     const offer = await this.pc!.createOffer();
     await this.pc!.setLocalDescription(offer);
@@ -231,6 +351,7 @@ export class PeerConnectionService {
     this.ensureConnection();
 
     log.info("Creating answer...");
+    this.pendingNegotiation = false;
 
     await this.pc!.setRemoteDescription(new RTCSessionDescription(offer));
 
@@ -271,6 +392,25 @@ export class PeerConnectionService {
     return this.pc!.addTrack(track, stream);
   }
 
+  /**
+   * Swaps the track sent by the sender of the same kind, without renegotiation.
+   *
+   * @returns Whether a sender took the new track
+   */
+  public async replaceTrack(track: MediaStreamTrack): Promise<boolean> {
+    this.ensureConnection();
+
+    const sender = this.pc!.getSenders().find(candidate => candidate.track?.kind === track.kind);
+    if (!sender) {
+      log.warn(`No ${track.kind} sender to replace the track of`);
+      return false;
+    }
+
+    await sender.replaceTrack(track);
+    log.info(`Replaced ${track.kind} track on peer connection`);
+    return true;
+  }
+
   /**
    * Creates data channels for cursor synchronization.
    */
@@ -281,6 +421,36 @@ export class PeerConnectionService {
     this.dataChannelService.createChannels(this.pc!);
   }
 
+  /**
+   * Checks if an ICE restart can be negotiated, which needs the signaling channel.
+   */
+  public canRestartIce(): boolean {
+    return this.pc !== null && this.dataChannelService.isSignalingChannelReady();
+  }
+
+  /**
+   * Restarts ICE without touching media: the restart offer and the new
+   * candidates travel over the already-open signaling channel.
+   *
+   * @returns false when there is no channel to carry the restart offer
+   */
+  public restartIce(): boolean {
+    if (!this.pc || !this.canRestartIce()) {
+      log.warn("Cannot restart ICE: signaling channel not open");
+      return false;
+    }
+
+    log.info("Restarting ICE...");
+    this.pc.restartIce();
+
+    // negotiationneeded only fires once stable, so an earlier restart offer
+    // still waiting for its answer is replaced by a fresh one
+    if (this.pc.signalingState === "have-local-offer" && !this.makingOffer) {
+      void this.renegotiate();
+    }
+    return true;
+  }
+
   public onIceConnectionStateChange(callback: (state: RTCIceConnectionState) => void): void {
     this.onIceConnectionStateChangeCallback = callback;
   }
@@ -325,6 +495,10 @@ export class PeerConnectionService {
       this.pc.close();
       this.pc = null;
     }
+
+    this.makingOffer = false;
+    this.ignoreOffer = false;
+    this.pendingNegotiation = false;
   }
 
   /**
@@ -0,0 +1,263 @@
+import log from "electron-log/renderer";
+import {
+  ClipboardContent,
+  ClipboardContentKind,
+  ClipboardData,
+  ClipboardSyncState,
+  DataChannelMessageType,
+  RemoteClipboardEntry
+} from "../../../shared/types/index";
+import { CLIPBOARD_SYNC_MAX_BYTES, CLIPBOARD_SYNC_POLL_INTERVAL_MS } from "../../../shared/constants/index";
+import { getClipboardDataSize, readClipboardData, writeClipboardData } from "../../../shared/utils/clipboard";
+import { DataChannelService } from "./data-channel";
+
+/**
+ * Service syncing the clipboard with the remote peer over the clipboard data channel.
+ *
+ * Nothing leaves the machine until the local user opts in for the session. While sharing,
+ * the local clipboard is polled and every new text (and image, when enabled) is pushed as
+ * one CLIPBOARD_UPDATE envelope; what was copied before opting in is never sent.
+ * Received content is kept as the latest remote entry and only written to the local
+ * clipboard when auto-apply is enabled or the user copies it explicitly.
+ */
+export class ClipboardSyncService {
+  private dataChannelService: DataChannelService;
+  private state: ClipboardSyncState = {
+    isSharing: false,
+    includeImages: false,
+    autoApply: false,
+    isPeerSharing: false
+  };
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private isPolling = false;
+  // Content last seen on or written to the local clipboard, only changes against it are pushed
+  private lastLocalData: string | null = null;
+  private latestRemote: RemoteClipboardEntry | null = null;
+
+  private onStateChangeCallback?: (state: ClipboardSyncState) => void;
+  private onRemoteClipboardCallback?: (entry: RemoteClipboardEntry) => void;
+  private onContentTooLargeCallback?: (kind: ClipboardContentKind, size: number) => void;
+
+  constructor(dataChannelService: DataChannelService) {
+    this.dataChannelService = dataChannelService;
+
+    this.dataChannelService.onMessage(DataChannelMessageType.CLIPBOARD_STATE, ({ sharing }) => {
+      this.state.isPeerSharing = sharing;
+      this.emitState();
+    });
+    this.dataChannelService.onMessage(DataChannelMessageType.CLIPBOARD_UPDATE, (content) => {
+      void this.handleRemoteContent(content);
+    });
+  }
+
+  // ============== Private Helpers ==============
+
+  private emitState(): void {
+    this.onStateChangeCallback?.({ ...this.state });
+  }
+
+  private emitRemote(entry: RemoteClipboardEntry): void {
+    this.onRemoteClipboardCallback?.({ ...entry });
+  }
+
+  /**
+   * Remembers the current clipboard so content copied before opting in is not pushed.
+   */
+  private async captureBaseline(): Promise<void> {
+    const current = await readClipboardData(this.state.includeImages);
+    this.lastLocalData = current?.data ?? null;
+  }
+
+  private startPolling(): void {
+    this.stopPolling();
+    this.pollTimer = setInterval(() => {
+      void this.poll();
+    }, CLIPBOARD_SYNC_POLL_INTERVAL_MS);
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  private async poll(): Promise<void> {
+    // Clipboard reads go through IPC, skip a tick rather than overlap
+    if (this.isPolling) return;
+    this.isPolling = true;
+    try {
+      const content = await readClipboardData(this.state.includeImages);
+      if (!this.state.isSharing || !content || content.data === this.lastLocalData) return;
+
+      this.lastLocalData = content.data;
+      this.pushContent(content);
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  private pushContent(content: ClipboardData): void {
+    const size = getClipboardDataSize(content);
+    if (size > CLIPBOARD_SYNC_MAX_BYTES) {
+      log.warn(`[ClipboardSync] Copied ${content.kind} is too large to sync (${size} bytes)`);
+      this.onContentTooLargeCallback?.(content.kind, size);
+      return;
+    }
+
+    const update: ClipboardContent = {
+      id: crypto.randomUUID(),
+      kind: content.kind,
+      data: content.data,
+      copiedAt: Date.now()
+    };
+    if (this.dataChannelService.sendMessage(DataChannelMessageType.CLIPBOARD_UPDATE, update)) {
+      log.info(`[ClipboardSync] Sent ${content.kind} (${size} bytes)`);
+    }
+  }
+
+  /**
+   * Writes a remote entry to the local clipboard without pushing it back to the peer.
+   */
+  private async applyEntry(entry: RemoteClipboardEntry): Promise<boolean> {
+    const previousData = this.lastLocalData;
+    // Set before writing so a poll during the write does not see a local change
+    this.lastLocalData = entry.data;
+    try {
+      await writeClipboardData(entry);
+    } catch (error) {
+      log.warn("[ClipboardSync] Failed to write to the clipboard:", error);
+      this.lastLocalData = previousData;
+      return false;
+    }
+    entry.applied = true;
+    return true;
+  }
+
+  private async handleRemoteContent(content: ClipboardContent): Promise<void> {
+    const entry: RemoteClipboardEntry = { ...content, receivedAt: Date.now(), applied: false };
+    this.latestRemote = entry;
+    log.info(`[ClipboardSync] Received ${content.kind} from peer`);
+
+    if (this.state.autoApply) {
+      await this.applyEntry(entry);
+    }
+    this.emitRemote(entry);
+  }
+
+  // ============== Public API ==============
+
+  /**
+   * Starts or stops pushing local clipboard changes to the peer and tells the peer.
+   *
+   * @returns False when sharing cannot start because the clipboard channel is not open
+   */
+  public async setSharing(enabled: boolean): Promise<boolean> {
+    if (enabled === this.state.isSharing) return true;
+
+    if (!enabled) {
+      this.stopPolling();
+      this.state.isSharing = false;
+      this.dataChannelService.sendMessage(DataChannelMessageType.CLIPBOARD_STATE, { sharing: false });
+      this.emitState();
+      log.info("[ClipboardSync] Stopped sharing clipboard");
+      return true;
+    }
+
+    if (!this.dataChannelService.isClipboardChannelReady()) {
+      log.warn("[ClipboardSync] Clipboard channel not ready");
+      return false;
+    }
+
+    this.state.isSharing = true;
+    await this.captureBaseline();
+    // Stopped again while the baseline was read
+    if (!this.state.isSharing) return true;
+
+    this.startPolling();
+    this.dataChannelService.sendMessage(DataChannelMessageType.CLIPBOARD_STATE, { sharing: true });
+    this.emitState();
+    log.info("[ClipboardSync] Started sharing clipboard");
+    return true;
+  }
+
+  /**
+   * Includes copied images when sharing, not only text.
+   */
+  public async setIncludeImages(enabled: boolean): Promise<void> {
+    if (enabled === this.state.includeImages) return;
+
+    this.state.includeImages = enabled;
+    // An image already on the clipboard was copied before images were allowed
+    if (this.state.isSharing) {
+      await this.captureBaseline();
+    }
+    this.emitState();
+  }
+
+  /**
+   * Writes content from the peer to the local clipboard as soon as it arrives.
+   */
+  public setAutoApply(enabled: boolean): void {
+    if (enabled === this.state.autoApply) return;
+
+    this.state.autoApply = enabled;
+    this.emitState();
+  }
+
+  /**
+   * Writes the latest content received from the peer to the local clipboard.
+   */
+  public async copyRemoteClipboard(): Promise<boolean> {
+    const entry = this.latestRemote;
+    if (!entry) return false;
+
+    const applied = await this.applyEntry(entry);
+    if (applied) {
+      this.emitRemote(entry);
+    }
+    return applied;
+  }
+
+  public getState(): ClipboardSyncState {
+    return { ...this.state };
+  }
+
+  public getLatestRemoteClipboard(): RemoteClipboardEntry | null {
+    return this.latestRemote ? { ...this.latestRemote } : null;
+  }
+
+  /**
+   * Registers a callback for consent changes of either peer.
+   */
+  public onStateChange(callback: (state: ClipboardSyncState) => void): void {
+    this.onStateChangeCallback = callback;
+  }
+
+  /**
+   * Registers a callback for content received from the peer, and for it being applied later.
+   */
+  public onRemoteClipboard(callback: (entry: RemoteClipboardEntry) => void): void {
+    this.onRemoteClipboardCallback = callback;
+  }
+
+  /**
+   * Registers a callback for copied content skipped because it exceeds the size cap.
+   */
+  public onContentTooLarge(callback: (kind: ClipboardContentKind, size: number) => void): void {
+    this.onContentTooLargeCallback = callback;
+  }
+
+  /**
+   * Stops polling, forgets all consent and clears callbacks.
+   */
+  public cleanup(): void {
+    this.stopPolling();
+    this.state = { isSharing: false, includeImages: false, autoApply: false, isPeerSharing: false };
+    this.lastLocalData = null;
+    this.latestRemote = null;
+    this.onStateChangeCallback = undefined;
+    this.onRemoteClipboardCallback = undefined;
+    this.onContentTooLargeCallback = undefined;
+  }
+}
@@ -0,0 +1,114 @@
+import { CursorFrame, CursorTrailPoint } from "../../../shared/types/index";
+import { CURSOR_LASER_MAX_TRAIL_POINTS } from "../../../shared/constants/index";
+
+// First byte of every frame, a new layout gets a new number so older peers drop it cleanly
+const CURSOR_FRAME_FORMAT = 1;
+
+// format (u8), streamId (u16), seq (u16), point count (u8)
+const HEADER_SIZE = 6;
+// First point as absolute coordinates: x (u16), y (u16)
+const ORIGIN_SIZE = 4;
+// Every following point relative to the previous one: dx (i16), dy (i16)
+const DELTA_SIZE = 4;
+
+const COORDINATE_MAX = 0xffff;
+const DELTA_MIN = -0x8000;
+const DELTA_MAX = 0x7fff;
+
+/**
+ * Most points in one frame: the current position and a full laser trail.
+ */
+export const CURSOR_FRAME_MAX_POINTS = CURSOR_LASER_MAX_TRAIL_POINTS + 1;
+
+/**
+ * Quantizes a normalized coordinate to 16 bits, about a thousandth of a pixel on a 4K screen.
+ */
+export function quantizeCursorCoordinate(value: number): number {
+  return Math.round(Math.min(1, Math.max(0, value)) * COORDINATE_MAX);
+}
+
+export function dequantizeCursorCoordinate(value: number): number {
+  return value / COORDINATE_MAX;
+}
+
+/**
+ * Encodes a cursor frame: the oldest point in absolute coordinates, the next ones as deltas.
+ * Points before a jump too large for a delta are left out, only the trail loses them.
+ */
+export function encodeCursorFrame(frame: CursorFrame): ArrayBuffer {
+  const quantized = frame.points.slice(-CURSOR_FRAME_MAX_POINTS).map((point) => ({
+    x: quantizeCursorCoordinate(point.x),
+    y: quantizeCursorCoordinate(point.y)
+  }));
+
+  let first = 0;
+  for (let i = 1; i < quantized.length; i++) {
+    const dx = quantized[i].x - quantized[i - 1].x;
+    const dy = quantized[i].y - quantized[i - 1].y;
+    if (dx < DELTA_MIN || dx > DELTA_MAX || dy < DELTA_MIN || dy > DELTA_MAX) {
+      first = i;
+    }
+  }
+  const points = quantized.slice(first);
+
+  const buffer = new ArrayBuffer(HEADER_SIZE + ORIGIN_SIZE + (points.length - 1) * DELTA_SIZE);
+  const view = new DataView(buffer);
+  view.setUint8(0, CURSOR_FRAME_FORMAT);
+  view.setUint16(1, frame.streamId, true);
+  view.setUint16(3, frame.seq, true);
+  view.setUint8(5, points.length);
+  view.setUint16(HEADER_SIZE, points[0].x, true);
+  view.setUint16(HEADER_SIZE + 2, points[0].y, true);
+
+  let offset = HEADER_SIZE + ORIGIN_SIZE;
+  for (let i = 1; i < points.length; i++) {
+    view.setInt16(offset, points[i].x - points[i - 1].x, true);
+    view.setInt16(offset + 2, points[i].y - points[i - 1].y, true);
+    offset += DELTA_SIZE;
+  }
+  return buffer;
+}
+
+/**
+ * Decodes a cursor frame.
+ *
+ * @returns The frame, or null when the data is not a well-formed frame of a known format
+ */
+export function decodeCursorFrame(data: ArrayBuffer): CursorFrame | null {
+  if (data.byteLength < HEADER_SIZE + ORIGIN_SIZE) return null;
+
+  const view = new DataView(data);
+  const count = view.getUint8(5);
+  if (
+    view.getUint8(0) !== CURSOR_FRAME_FORMAT ||
+    count < 1 ||
+    count > CURSOR_FRAME_MAX_POINTS ||
+    data.byteLength !== HEADER_SIZE + ORIGIN_SIZE + (count - 1) * DELTA_SIZE
+  ) {
+    return null;
+  }
+
+  let x = view.getUint16(HEADER_SIZE, true);
+  let y = view.getUint16(HEADER_SIZE + 2, true);
+  const points: CursorTrailPoint[] = [{ x: dequantizeCursorCoordinate(x), y: dequantizeCursorCoordinate(y) }];
+
+  let offset = HEADER_SIZE + ORIGIN_SIZE;
+  for (let i = 1; i < count; i++) {
+    x += view.getInt16(offset, true);
+    y += view.getInt16(offset + 2, true);
+    if (x < 0 || x > COORDINATE_MAX || y < 0 || y > COORDINATE_MAX) return null;
+    points.push({ x: dequantizeCursorCoordinate(x), y: dequantizeCursorCoordinate(y) });
+    offset += DELTA_SIZE;
+  }
+
+  return { streamId: view.getUint16(1, true), seq: view.getUint16(3, true), points };
+}
+
+/**
+ * Whether a frame number comes after the last one received, across the 16-bit wrap-around.
+ * The stream is unordered, a frame overtaken by a newer one is dropped.
+ */
+export function isNewerCursorFrame(seq: number, lastSeq: number): boolean {
+  const distance = (seq - lastSeq) & 0xffff;
+  return distance !== 0 && distance < 0x8000;
+}
@@ -1,35 +1,185 @@
 import log from "electron-log/renderer";
-import { DataChannelName, RemoteCursorState } from "../../../shared/types/index";
+import { 
+  AnnotationStrokeUpdate,
+  ChatMessage,
+  CursorHello,
+  DataChannelDropReason,
+  DataChannelEnvelope,
+  DataChannelMessageDefinition,
+  DataChannelMessagePayloads,
+  DataChannelMessageStats,
+  DataChannelMessageType,
+  DataChannelName, 
+  RemoteCursorEvent,
+  RemoteCursorState, 
+  SignalingMessage 
+} from "../../../shared/types/index";
+import {
+  FILE_TRANSFER_BUFFER_HIGH_WATERMARK,
+  FILE_TRANSFER_BUFFER_LOW_THRESHOLD
+} from "../../../shared/constants/index";
+import { BUILTIN_MESSAGE_DEFINITIONS, createEnvelope, parseEnvelope } from "./message-protocol";
+import { decodeCursorFrame, encodeCursorFrame, isNewerCursorFrame } from "./cursor-stream";
+
+type MessageHandler<T extends DataChannelMessageType> = (
+  payload: DataChannelMessagePayloads[T],
+  envelope: DataChannelEnvelope<T>
+) => void;
+
+const CHANNEL_NAMES = Object.values(DataChannelName) as string[];
+
+// Channels that trade reliability for latency, every other channel is reliable and ordered
+const CHANNEL_OPTIONS: Partial<Record<string, RTCDataChannelInit>> = {
+  [DataChannelName.CURSOR_STREAM]: { ordered: false, maxRetransmits: 0 }
+};
+
+// Channels receiving binary messages
+const BINARY_CHANNELS: string[] = [DataChannelName.FILE_TRANSFER, DataChannelName.CURSOR_STREAM];
 
 /**
- * Service for managing WebRTC data channels used for cursor synchronization.
- * Handles cursor position updates and ping messages between screen sharer and watcher.
+ * Local cursor introduced on the cursor stream.
+ */
+interface LocalCursorStream {
+  hello: CursorHello;
+  seq: number;
+  isIntroduced: boolean;
+}
+
+/**
+ * Remote cursor introduced by a hello, with the last frame received.
+ */
+interface RemoteCursorStream {
+  hello: CursorHello;
+  lastSeq: number | null;
+}
+
+function isSameCursorLook(a: CursorHello, b: CursorHello): boolean {
+  return a.name === b.name && a.color === b.color && a.highlight === b.highlight && a.mode === b.mode;
+}
+
+function createEmptyStats(): DataChannelMessageStats {
+  const droppedByReason = Object.fromEntries(
+    Object.values(DataChannelDropReason).map((reason) => [reason, 0])
+  ) as Record<DataChannelDropReason, number>;
+  return { sent: 0, received: 0, dropped: 0, droppedByReason };
+}
+
+/**
+ * Service for managing WebRTC data channels used for cursor synchronization,
+ * text chat, clipboard sync, annotations, remote control and in-band signaling.
+ * Handles cursor position updates, ping messages and drawing strokes between screen sharer and watcher,
+ * chat messages, file chunks and clipboard updates in both directions, and carries renegotiation messages
+ * once the initial URL handshake is complete.
+ *
+ * Every message travels in a typed envelope (type, version, sequence number, timestamp).
+ * Received messages are validated against the registered type definition and dispatched
+ * to the handlers of their type; anything else is counted and dropped.
+ * Binary messages are only accepted on the file transfer channel, as raw file chunks,
+ * and on the cursor stream, as cursor frames.
+ *
+ * Cursor positions travel on the unordered cursor stream without retransmits once it is open
+ * and the peer announced support for it in its hello:
+ * each cursor is introduced once by a CURSOR_HELLO on the reliable cursor channel (identity
+ * and look), its positions then follow as small binary frames tagged with the stream id.
+ * A frame arriving before its hello is dropped, the next one goes through.
  */
 export class DataChannelService {
-  private cursorPositionsChannel: RTCDataChannel | null = null;
-  private cursorPingChannel: RTCDataChannel | null = null;
+  private channels = new Map<string, RTCDataChannel>();
   private isScreenSharer: boolean = false;
 
+  // Message protocol state
+  private definitions = new Map<string, DataChannelMessageDefinition>();
+  private handlers = new Map<string, Set<MessageHandler<any>>>();
+  private sendSequences = new Map<string, number>();
+  private receiveSequences = new Map<string, number>();
+  private stats: DataChannelMessageStats = createEmptyStats();
+
+  // Cursor stream state
+  private localCursorStreams = new Map<string, LocalCursorStream>();
+  private remoteCursorStreams = new Map<number, RemoteCursorStream>();
+  private nextCursorStreamId = 0;
+  private isCursorStreamEnabled = false;
+
   private onCursorUpdateCallback?: (data: RemoteCursorState) => void;
+  private onCursorEventCallback?: (event: RemoteCursorEvent) => void;
   private onCursorPingCallback?: (cursorId: string) => void;
+  private onSignalingMessageCallback?: (message: SignalingMessage) => void;
+  private onChatMessageCallback?: (message: ChatMessage) => void;
+  private onAnnotationStrokeCallback?: (update: AnnotationStrokeUpdate) => void;
+  private onAnnotationClearCallback?: () => void;
+  private onFileChunkCallback?: (chunk: ArrayBuffer) => void;
+  private onSignalingChannelOpenCallback?: () => void;
   private onChannelOpenCallback?: (channelName: string) => void;
   private onChannelCloseCallback?: (channelName: string) => void;
 
   constructor(isScreenSharer: boolean = false) {
     this.isScreenSharer = isScreenSharer;
+
+    for (const [type, definition] of Object.entries(BUILTIN_MESSAGE_DEFINITIONS)) {
+      this.definitions.set(type, definition);
+    }
+    this.registerBuiltinHandlers();
+  }
+
+  /**
+   * Routes built-in message types to the feature callbacks.
+   */
+  private registerBuiltinHandlers(): void {
+    this.onMessage(DataChannelMessageType.CURSOR_POSITION, (cursor) => {
+      // P2P cursor flow is bidirectional:
+      // Watcher sends its cursor → Sharer receives and renders
+      // Sharer broadcasts its own pointer → Watcher receives and renders over the video
+      this.onCursorUpdateCallback?.(cursor);
+    });
+
+    this.onMessage(DataChannelMessageType.CURSOR_HELLO, (hello) => {
+      // A new look keeps the stream going, a new cursor on the same id starts over
+      const existing = this.remoteCursorStreams.get(hello.streamId);
+      const lastSeq = existing?.hello.cursorId === hello.cursorId ? existing.lastSeq : null;
+      this.remoteCursorStreams.set(hello.streamId, { hello, lastSeq });
+    });
+
+    this.onMessage(DataChannelMessageType.CURSOR_EVENT, (event) => {
+      // Button events follow the cursor positions, in both directions
+      this.onCursorEventCallback?.(event);
+    });
+
+    this.onMessage(DataChannelMessageType.CURSOR_PING, ({ cursorId }) => {
+      // Ping is bidirectional
+      this.onCursorPingCallback?.(cursorId);
+    });
+
+    this.onMessage(DataChannelMessageType.SIGNALING, (message) => {
+      this.onSignalingMessageCallback?.(message);
+    });
+
+    this.onMessage(DataChannelMessageType.CHAT_MESSAGE, (message) => {
+      this.onChatMessageCallback?.(message);
+    });
+
+    this.onMessage(DataChannelMessageType.ANNOTATION_STROKE, (update) => {
+      // Watcher draws on the shared video → Sharer renders the strokes on its screen
+      if (!this.isScreenSharer) return;
+      this.onAnnotationStrokeCallback?.(update);
+    });
+
+    this.onMessage(DataChannelMessageType.ANNOTATION_CLEAR, () => {
+      // Clear is bidirectional
+      this.onAnnotationClearCallback?.();
+    });
   }
 
   /**
    * Checks if a data channel is ready for communication.
    */
-  private isChannelReady(channel: RTCDataChannel | null): boolean {
-    return channel !== null && channel.readyState === "open";
+  private isChannelReady(channel: RTCDataChannel | undefined): boolean {
+    return channel !== undefined && channel.readyState === "open";
   }
 
   /**
    * Safely closes a data channel and removes all event handlers.
    */
-  private closeChannelSilently(channel: RTCDataChannel | null): void {
+  private closeChannelSilently(channel: RTCDataChannel | undefined): void {
     if (!channel) return;
     channel.onopen = null;
     channel.onclose = null;
@@ -42,31 +192,204 @@ export class DataChannelService {
     }
   }
 
+  /**
+   * Counts a dropped message.
+   */
+  private dropMessage(channel: RTCDataChannel, reason: DataChannelDropReason, type?: string): void {
+    this.stats.dropped += 1;
+    this.stats.droppedByReason[reason] += 1;
+    log.debug(`Dropped data channel message on ${channel.label} (${reason}${type ? `, ${type}` : ""})`);
+  }
+
+  /**
+   * Validates a received message and dispatches it to the handlers of its type.
+   */
+  private receiveMessage(channel: RTCDataChannel, data: unknown): void {
+    if (data instanceof ArrayBuffer) {
+      this.receiveBinaryMessage(channel, data);
+      return;
+    }
+
+    const envelope = parseEnvelope(data);
+    if (typeof envelope === "string") {
+      this.dropMessage(channel, envelope);
+      return;
+    }
+
+    const definition = this.definitions.get(envelope.type);
+    if (!definition) {
+      this.dropMessage(channel, DataChannelDropReason.UNKNOWN_TYPE, envelope.type);
+      return;
+    }
+    if (definition.channel !== channel.label) {
+      this.dropMessage(channel, DataChannelDropReason.WRONG_CHANNEL, envelope.type);
+      return;
+    }
+    if (!definition.validate(envelope.payload)) {
+      this.dropMessage(channel, DataChannelDropReason.INVALID_PAYLOAD, envelope.type);
+      return;
+    }
+
+    const lastSeq = this.receiveSequences.get(channel.label) ?? -1;
+    if (envelope.seq <= lastSeq) {
+      this.dropMessage(channel, DataChannelDropReason.STALE, envelope.type);
+      return;
+    }
+    this.receiveSequences.set(channel.label, envelope.seq);
+    this.stats.received += 1;
+
+    for (const handler of this.handlers.get(envelope.type) ?? []) {
+      try {
+        handler(envelope.payload, envelope as DataChannelEnvelope);
+      } catch (error) {
+        log.error(`Data channel handler failed (${envelope.type}):`, error);
+      }
+    }
+  }
+
+  /**
+   * Hands a file chunk to the file transfer handler, or a cursor frame to the cursor handler.
+   */
+  private receiveBinaryMessage(channel: RTCDataChannel, data: ArrayBuffer): void {
+    if (channel.label === DataChannelName.CURSOR_STREAM) {
+      this.receiveCursorFrame(channel, data);
+      return;
+    }
+    if (channel.label !== DataChannelName.FILE_TRANSFER || !this.onFileChunkCallback) {
+      this.dropMessage(channel, DataChannelDropReason.WRONG_CHANNEL, "binary");
+      return;
+    }
+
+    this.stats.received += 1;
+    try {
+      this.onFileChunkCallback(data);
+    } catch (error) {
+      log.error("File chunk handler failed:", error);
+    }
+  }
+
+  /**
+   * Decodes a cursor frame and reports it as a cursor update of the cursor its hello introduced.
+   */
+  private receiveCursorFrame(channel: RTCDataChannel, data: ArrayBuffer): void {
+    const frame = decodeCursorFrame(data);
+    if (!frame) {
+      this.dropMessage(channel, DataChannelDropReason.MALFORMED, "cursor frame");
+      return;
+    }
+
+    const stream = this.remoteCursorStreams.get(frame.streamId);
+    if (!stream) {
+      this.dropMessage(channel, DataChannelDropReason.UNKNOWN_STREAM, "cursor frame");
+      return;
+    }
+    if (stream.lastSeq !== null && !isNewerCursorFrame(frame.seq, stream.lastSeq)) {
+      this.dropMessage(channel, DataChannelDropReason.STALE, "cursor frame");
+      return;
+    }
+    stream.lastSeq = frame.seq;
+    this.stats.received += 1;
+
+    const { hello } = stream;
+    const current = frame.points[frame.points.length - 1];
+    const trail = frame.points.slice(0, -1);
+    try {
+      this.onCursorUpdateCallback?.({
+        id: hello.cursorId,
+        name: hello.name,
+        color: hello.color,
+        x: current.x,
+        y: current.y,
+        ...(hello.highlight !== undefined && { highlight: hello.highlight }),
+        ...(hello.mode !== undefined && { mode: hello.mode }),
+        ...(trail.length > 0 && { trail })
+      });
+    } catch (error) {
+      log.error("Cursor frame handler failed:", error);
+    }
+  }
+
+  /**
+   * Introduces a local cursor to the peer, again whenever its look changed.
+   *
+   * @returns The stream of the cursor, or null when the hello could not be sent
+   */
+  private introduceCursor(data: RemoteCursorState): LocalCursorStream | null {
+    let stream = this.localCursorStreams.get(data.id);
+    const hello: CursorHello = {
+      streamId: stream?.hello.streamId ?? this.nextCursorStreamId,
+      cursorId: data.id,
+      name: data.name,
+      color: data.color,
+      ...(data.highlight !== undefined && { highlight: data.highlight }),
+      ...(data.mode !== undefined && { mode: data.mode })
+    };
+    if (!stream) {
+      stream = { hello, seq: 0, isIntroduced: false };
+      this.localCursorStreams.set(data.id, stream);
+      this.nextCursorStreamId = (this.nextCursorStreamId + 1) & 0xffff;
+    }
+
+    if (!stream.isIntroduced || !isSameCursorLook(stream.hello, hello)) {
+      stream.isIntroduced = this.sendMessage(DataChannelMessageType.CURSOR_HELLO, hello);
+      stream.hello = hello;
+    }
+    return stream.isIntroduced ? stream : null;
+  }
+
+  /**
+   * Resolves once the channel buffer drained below its low threshold, or the channel closed.
+   */
+  private waitForBufferedAmountLow(channel: RTCDataChannel): Promise<void> {
+    return new Promise((resolve) => {
+      const done = () => {
+        channel.removeEventListener("bufferedamountlow", done);
+        channel.removeEventListener("close", done);
+        resolve();
+      };
+      channel.addEventListener("bufferedamountlow", done);
+      channel.addEventListener("close", done);
+    });
+  }
+
   /**
    * Sets up event handlers for a data channel.
    */
   private setupDataChannel(channel: RTCDataChannel): void {
+    this.channels.set(channel.label, channel);
+
+    if (BINARY_CHANNELS.includes(channel.label)) {
+      channel.binaryType = "arraybuffer";
+    }
+    if (channel.label === DataChannelName.FILE_TRANSFER) {
+      channel.bufferedAmountLowThreshold = FILE_TRANSFER_BUFFER_LOW_THRESHOLD;
+    }
+    // Hellos are sent again on a new cursor channel, the peer starts over with it
+    if (channel.label === DataChannelName.CURSOR_POSITIONS) {
+      for (const stream of this.localCursorStreams.values()) {
+        stream.isIntroduced = false;
+      }
+      this.remoteCursorStreams.clear();
+    }
+    // Sequence numbers restart with every channel
+    this.sendSequences.set(channel.label, 0);
+    this.receiveSequences.delete(channel.label);
+
     channel.onopen = () => {
       log.info(`Data channel opened: ${channel.label}`);
+      if (channel.label === DataChannelName.SIGNALING) {
+        this.onSignalingChannelOpenCallback?.();
+      }
       this.onChannelOpenCallback?.(channel.label);
     };
 
     channel.onclose = () => {
       log.info(`Data channel closed: ${channel.label}`);
 
-      // Reset channels and cursor state when closed
-      if (
-        channel.label === DataChannelName.CURSOR_POSITIONS && 
-        this.cursorPositionsChannel === channel
-      ) {
-        this.cursorPositionsChannel = null;
+      // Forget the channel when closed
+      if (this.channels.get(channel.label) === channel) {
+        this.channels.delete(channel.label);
       }
-      if (
-        channel.label === DataChannelName.CURSOR_PING && 
-        this.cursorPingChannel === channel
-      ) {
-        this.cursorPingChannel = null;
-      } 
 
       this.onChannelCloseCallback?.(channel.label);
     };
@@ -89,68 +412,106 @@ export class DataChannelService {
       log.error(`Data channel error (${channel.label}):`, event);
     };
 
-    if (channel.label === DataChannelName.CURSOR_POSITIONS) {
-      this.cursorPositionsChannel = channel;
-      channel.onmessage = (msg: MessageEvent): void => {
-        // P2P cursor flow:
-        // Watcher sends cursor positions → Sharer receives and renders
-        // Therefore only Sharer (isScreenSharer=true) should process incoming cursor data
-        if (!this.isScreenSharer) return;
-        if (!this.onCursorUpdateCallback) return;
-
-        try {
-          const data = JSON.parse(msg.data) as RemoteCursorState;
-          this.onCursorUpdateCallback(data);
-        } catch (error) {
-          log.error("Failed to parse cursor data: ", error);
-        }
-      };
-    }
-
-    if (channel.label === DataChannelName.CURSOR_PING) {
-      this.cursorPingChannel = channel;
-      channel.onmessage = (msg: MessageEvent): void => {
-        // Ping is bidirectional
-        this.onCursorPingCallback?.(msg.data);
-      };
-    }
+    channel.onmessage = (msg: MessageEvent): void => {
+      this.receiveMessage(channel, msg.data);
+    };
   }
 
   /**
    * Creates data channels on the given RTCPeerConnection.
    */
   public createChannels(pc: RTCPeerConnection): void {
-    this.closeChannelSilently(this.cursorPositionsChannel);
-    this.closeChannelSilently(this.cursorPingChannel);
-    this.cursorPositionsChannel = null;
-    this.cursorPingChannel = null;
-
-    this.cursorPositionsChannel = pc.createDataChannel(DataChannelName.CURSOR_POSITIONS);
-    this.cursorPingChannel = pc.createDataChannel(DataChannelName.CURSOR_PING);
+    for (const channel of this.channels.values()) {
+      this.closeChannelSilently(channel);
+    }
+    this.channels.clear();
 
-    this.setupDataChannel(this.cursorPositionsChannel);
-    this.setupDataChannel(this.cursorPingChannel);
+    for (const name of CHANNEL_NAMES) {
+      this.setupDataChannel(pc.createDataChannel(name, CHANNEL_OPTIONS[name]));
+    }
   }
 
   /**
    * Handles an incoming data channel from the remote peer.
    */
   public handleIncomingChannel(channel: RTCDataChannel): void {
-    if (
-      channel.label === DataChannelName.CURSOR_POSITIONS ||
-      channel.label === DataChannelName.CURSOR_PING
-    ) {
-      // Clean up old channel with same label if it exists
-      if (channel.label === DataChannelName.CURSOR_POSITIONS) {
-        this.closeChannelSilently(this.cursorPositionsChannel);
-      } else {
-        this.closeChannelSilently(this.cursorPingChannel);
-      }
+    if (!CHANNEL_NAMES.includes(channel.label)) return;
+
+    // Clean up old channel with same label if it exists
+    this.closeChannelSilently(this.channels.get(channel.label));
+    this.setupDataChannel(channel);
+  }
+
+  // ============== Message Protocol ==============
+
+  /**
+   * Registers a message type so it can be sent and received.
+   * Replaces the definition of an already registered type.
+   */
+  public registerMessageType<T extends DataChannelMessageType>(
+    type: T,
+    definition: DataChannelMessageDefinition<T>
+  ): void {
+    this.definitions.set(type, definition as DataChannelMessageDefinition);
+  }
 
-      this.setupDataChannel(channel);
+  /**
+   * Registers a handler for validated messages of one type.
+   *
+   * @returns Function removing the handler
+   */
+  public onMessage<T extends DataChannelMessageType>(type: T, handler: MessageHandler<T>): () => void {
+    let typeHandlers = this.handlers.get(type);
+    if (!typeHandlers) {
+      typeHandlers = new Set();
+      this.handlers.set(type, typeHandlers);
     }
+    typeHandlers.add(handler);
+    return () => {
+      typeHandlers.delete(handler);
+    };
   }
 
+  /**
+   * Sends a message on the channel registered for its type.
+   */
+  public sendMessage<T extends DataChannelMessageType>(type: T, payload: DataChannelMessagePayloads[T]): boolean {
+    const definition = this.definitions.get(type);
+    if (!definition) {
+      log.warn(`Cannot send unregistered message type: ${type}`);
+      return false;
+    }
+
+    const channel = this.channels.get(definition.channel);
+    if (!channel || !this.isChannelReady(channel)) {
+      log.warn(`Data channel not ready: ${definition.channel}`);
+      return false;
+    }
+
+    const seq = this.sendSequences.get(channel.label) ?? 0;
+    try {
+      channel.send(JSON.stringify(createEnvelope(type, payload, seq)));
+      this.sendSequences.set(channel.label, seq + 1);
+      this.stats.sent += 1;
+      return true;
+    } catch (error) {
+      log.error(`Failed to send ${type} message:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Gets message counters, including dropped messages per reason.
+   */
+  public getMessageStats(): DataChannelMessageStats {
+    return {
+      ...this.stats,
+      droppedByReason: { ...this.stats.droppedByReason }
+    };
+  }
+
+  // ============== Callbacks ==============
+
   /**
    * Registers a callback for cursor position updates.
    */
@@ -158,6 +519,13 @@ export class DataChannelService {
     this.onCursorUpdateCallback = callback;
   }
 
+  /**
+   * Registers a callback for cursor button events.
+   */
+  public onCursorEvent(callback: (event: RemoteCursorEvent) => void): void {
+    this.onCursorEventCallback = callback;
+  }
+
   /**
    * Registers a callback for cursor ping messages.
    */
@@ -165,6 +533,48 @@ export class DataChannelService {
     this.onCursorPingCallback = callback;
   }
 
+  /**
+   * Registers a callback for in-band signaling messages (renegotiation).
+   */
+  public onSignalingMessage(callback: (message: SignalingMessage) => void): void {
+    this.onSignalingMessageCallback = callback;
+  }
+
+  /**
+   * Registers a callback for chat messages from the remote peer.
+   */
+  public onChatMessage(callback: (message: ChatMessage) => void): void {
+    this.onChatMessageCallback = callback;
+  }
+
+  /**
+   * Registers a callback for watcher drawing strokes (sharer only).
+   */
+  public onAnnotationStroke(callback: (update: AnnotationStrokeUpdate) => void): void {
+    this.onAnnotationStrokeCallback = callback;
+  }
+
+  /**
+   * Registers a callback for the remote peer clearing all strokes.
+   */
+  public onAnnotationClear(callback: () => void): void {
+    this.onAnnotationClearCallback = callback;
+  }
+
+  /**
+   * Registers a callback for binary file chunks from the remote peer.
+   */
+  public onFileChunk(callback: (chunk: ArrayBuffer) => void): void {
+    this.onFileChunkCallback = callback;
+  }
+
+  /**
+   * Registers a callback for when the signaling channel opens.
+   */
+  public onSignalingChannelOpen(callback: () => void): void {
+    this.onSignalingChannelOpenCallback = callback;
+  }
+
   /**
    * Registers a callback for when a channel opens.
    */
@@ -179,47 +589,169 @@ export class DataChannelService {
     this.onChannelCloseCallback = callback;
   }
 
+  // ============== Sending ==============
+
+  /**
+   * Turns the binary cursor stream on once the peer announced it supports it.
+   */
+  public setCursorStreamEnabled(enabled: boolean): void {
+    this.isCursorStreamEnabled = enabled;
+  }
+
   /**
    * Sends cursor position update to the remote peer.
+   * Goes out as a binary frame on the cursor stream, as a full JSON update until the stream is usable.
    */
   public updateRemoteCursor(data: RemoteCursorState): boolean {
-    if (!this.isChannelReady(this.cursorPositionsChannel)) {
-      log.warn("Cursor positions channel not ready");
-      return false;
+    const channel = this.channels.get(DataChannelName.CURSOR_STREAM);
+    if (!this.isCursorStreamEnabled || !channel || !this.isChannelReady(channel)) {
+      return this.sendMessage(DataChannelMessageType.CURSOR_POSITION, data);
     }
 
+    const stream = this.introduceCursor(data);
+    if (!stream) return false;
+
     try {
-      this.cursorPositionsChannel!.send(JSON.stringify(data));
+      channel.send(encodeCursorFrame({
+        streamId: stream.hello.streamId,
+        seq: stream.seq,
+        points: [...(data.trail ?? []), { x: data.x, y: data.y }]
+      }));
+      stream.seq = (stream.seq + 1) & 0xffff;
+      this.stats.sent += 1;
       return true;
     } catch (error) {
-      log.error("Failed to send cursor update:", error);
+      log.error("Failed to send cursor frame:", error);
       return false;
     }
   }
 
+  /**
+   * Sends a cursor button event to the remote peer.
+   */
+  public sendCursorEvent(event: RemoteCursorEvent): boolean {
+    return this.sendMessage(DataChannelMessageType.CURSOR_EVENT, event);
+  }
+
   /**
    * Sends cursor ping to the remote peer.
    */
   public pingRemoteCursor(cursorId: string): boolean {
-    if (!this.isChannelReady(this.cursorPingChannel)) {
-      log.warn("Cursor ping channel not ready");
+    return this.sendMessage(DataChannelMessageType.CURSOR_PING, { cursorId });
+  }
+
+  /**
+   * Sends an in-band signaling message to the remote peer.
+   */
+  public sendSignalingMessage(message: SignalingMessage): boolean {
+    return this.sendMessage(DataChannelMessageType.SIGNALING, message);
+  }
+
+  /**
+   * Sends a chat message to the remote peer.
+   */
+  public sendChatMessage(message: ChatMessage): boolean {
+    return this.sendMessage(DataChannelMessageType.CHAT_MESSAGE, message);
+  }
+
+  /**
+   * Sends part of a drawing stroke to the sharer.
+   */
+  public sendAnnotationStroke(update: AnnotationStrokeUpdate): boolean {
+    return this.sendMessage(DataChannelMessageType.ANNOTATION_STROKE, update);
+  }
+
+  /**
+   * Tells the remote peer to remove all strokes.
+   */
+  public sendAnnotationClear(): boolean {
+    return this.sendMessage(DataChannelMessageType.ANNOTATION_CLEAR, {});
+  }
+
+  /**
+   * Waits while more than the high watermark is buffered on the file transfer channel.
+   * Resolves false when the channel is not open (anymore).
+   */
+  public async waitForFileChannelCapacity(): Promise<boolean> {
+    const channel = this.channels.get(DataChannelName.FILE_TRANSFER);
+    if (!channel || !this.isChannelReady(channel)) {
+      return false;
+    }
+
+    if (channel.bufferedAmount > FILE_TRANSFER_BUFFER_HIGH_WATERMARK) {
+      await this.waitForBufferedAmountLow(channel);
+    }
+    return this.isChannelReady(channel);
+  }
+
+  /**
+   * Sends a binary file chunk, callers wait for capacity first.
+   */
+  public sendFileChunk(chunk: ArrayBuffer): boolean {
+    const channel = this.channels.get(DataChannelName.FILE_TRANSFER);
+    if (!channel || !this.isChannelReady(channel)) {
       return false;
     }
 
     try {
-      this.cursorPingChannel!.send(cursorId);
+      channel.send(chunk);
+      this.stats.sent += 1;
       return true;
     } catch (error) {
-      log.error("Failed to send cursor ping:", error);
+      log.error("Failed to send file chunk:", error);
       return false;
     }
   }
 
+  // ============== Channel State ==============
+
+  /**
+   * Checks if the signaling channel is ready for renegotiation.
+   */
+  public isSignalingChannelReady(): boolean {
+    return this.isChannelReady(this.channels.get(DataChannelName.SIGNALING));
+  }
+
+  /**
+   * Checks if the chat channel is ready.
+   */
+  public isChatChannelReady(): boolean {
+    return this.isChannelReady(this.channels.get(DataChannelName.CHAT));
+  }
+
+  /**
+   * Checks if the file transfer channel is ready.
+   */
+  public isFileTransferChannelReady(): boolean {
+    return this.isChannelReady(this.channels.get(DataChannelName.FILE_TRANSFER));
+  }
+
+  /**
+   * Checks if the clipboard sync channel is ready.
+   */
+  public isClipboardChannelReady(): boolean {
+    return this.isChannelReady(this.channels.get(DataChannelName.CLIPBOARD));
+  }
+
+  /**
+   * Checks if the annotations channel is ready.
+   */
+  public isAnnotationChannelReady(): boolean {
+    return this.isChannelReady(this.channels.get(DataChannelName.ANNOTATIONS));
+  }
+
+  /**
+   * Checks if the remote control channel is ready.
+   */
+  public isRemoteControlChannelReady(): boolean {
+    return this.isChannelReady(this.channels.get(DataChannelName.REMOTE_CONTROL));
+  }
+
   /**
    * Checks if the cursor positions channel is ready.
    */
   public isCursorPositionsChannelReady(): boolean {
-    return this.isChannelReady(this.cursorPositionsChannel);
+    return this.isChannelReady(this.channels.get(DataChannelName.CURSOR_POSITIONS));
   }
 
   /**
@@ -227,7 +759,7 @@ export class DataChannelService {
    * Currently not used in frontend - kept for future enhancements.
    */
   public isCursorPingChannelReady(): boolean {
-    return this.isChannelReady(this.cursorPingChannel);
+    return this.isChannelReady(this.channels.get(DataChannelName.CURSOR_PING));
   }
 
   /**
@@ -241,16 +773,33 @@ export class DataChannelService {
    * Closes all data channels and cleans up resources.
    */
   public cleanup(): void {
-    this.closeChannelSilently(this.cursorPositionsChannel);
-    this.closeChannelSilently(this.cursorPingChannel);
-    
-    this.cursorPositionsChannel = null;
-    this.cursorPingChannel = null;
+    for (const channel of this.channels.values()) {
+      this.closeChannelSilently(channel);
+    }
+    this.channels.clear();
+    this.sendSequences.clear();
+    this.receiveSequences.clear();
+    this.localCursorStreams.clear();
+    this.remoteCursorStreams.clear();
+    this.nextCursorStreamId = 0;
+    this.isCursorStreamEnabled = false;
+
+    // Handlers added by features go away with the session
+    this.handlers.clear();
+    this.registerBuiltinHandlers();
+    this.stats = createEmptyStats();
 
     this.onCursorUpdateCallback = undefined;
+    this.onCursorEventCallback = undefined;
     this.onCursorPingCallback = undefined;
+    this.onSignalingMessageCallback = undefined;
+    this.onChatMessageCallback = undefined;
+    this.onAnnotationStrokeCallback = undefined;
+    this.onAnnotationClearCallback = undefined;
+    this.onFileChunkCallback = undefined;
+    this.onSignalingChannelOpenCallback = undefined;
     this.onChannelOpenCallback = undefined;
     this.onChannelCloseCallback = undefined;
   }
 
-}
\ No newline at end of file
+}
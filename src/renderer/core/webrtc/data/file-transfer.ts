@@ -0,0 +1,339 @@
+import log from "electron-log/renderer";
+import {
+  DataChannelMessageType,
+  FileTransferDirection,
+  FileTransferOffer,
+  FileTransferProgress,
+  FileTransferStatus,
+  ReceivedFile
+} from "../../../shared/types/index";
+import { FILE_TRANSFER_CHUNK_SIZE, FILE_TRANSFER_MAX_SIZE } from "../../../shared/constants/index";
+import { sha256Hex } from "../../../shared/utils/file-transfer";
+import { DataChannelService } from "./data-channel";
+
+// Progress is reported at most this often while chunks flow
+const PROGRESS_UPDATE_INTERVAL_MS = 100;
+
+interface OutgoingTransfer {
+  progress: FileTransferProgress;
+  file: File;
+  cancelled: boolean;
+  lastUpdateAt: number;
+}
+
+interface IncomingTransfer {
+  offer: FileTransferOffer;
+  progress: FileTransferProgress;
+  chunks: Uint8Array[];
+  lastUpdateAt: number;
+}
+
+/**
+ * Service sending files to the remote peer over the file transfer data channel.
+ *
+ * A transfer is a FILE_OFFER envelope (name, size, SHA-256), the file content as binary chunks
+ * and a FILE_COMPLETE envelope, all in order on one reliable channel. Outgoing files are sent
+ * one after the other so the receiver only ever assembles a single file. Either peer can stop
+ * a transfer with FILE_CANCEL, the receiver also uses it to report a failed integrity check.
+ */
+export class FileTransferService {
+  private dataChannelService: DataChannelService;
+  private outgoing = new Map<string, OutgoingTransfer>();
+  private incoming: IncomingTransfer | null = null;
+  private sendQueue: Promise<void> = Promise.resolve();
+
+  private onTransferUpdateCallback?: (progress: FileTransferProgress) => void;
+  private onFileReceivedCallback?: (file: ReceivedFile) => void;
+
+  constructor(dataChannelService: DataChannelService) {
+    this.dataChannelService = dataChannelService;
+
+    this.dataChannelService.onMessage(DataChannelMessageType.FILE_OFFER, (offer) => this.handleOffer(offer));
+    this.dataChannelService.onMessage(DataChannelMessageType.FILE_COMPLETE, ({ id }) => {
+      void this.handleComplete(id);
+    });
+    this.dataChannelService.onMessage(DataChannelMessageType.FILE_CANCEL, ({ id, reason }) => {
+      this.handleRemoteCancel(id, reason);
+    });
+    this.dataChannelService.onFileChunk((chunk) => this.handleChunk(chunk));
+  }
+
+  // ============== Private Helpers ==============
+
+  private emitUpdate(progress: FileTransferProgress): void {
+    this.onTransferUpdateCallback?.({ ...progress });
+  }
+
+  /**
+   * Reports byte progress, throttled except for the last chunk.
+   */
+  private emitProgress(transfer: OutgoingTransfer | IncomingTransfer): void {
+    const now = Date.now();
+    const isDone = transfer.progress.transferredBytes >= transfer.progress.size;
+    if (isDone || now - transfer.lastUpdateAt >= PROGRESS_UPDATE_INTERVAL_MS) {
+      transfer.lastUpdateAt = now;
+      this.emitUpdate(transfer.progress);
+    }
+  }
+
+  private finish(progress: FileTransferProgress, status: FileTransferStatus, error?: string): void {
+    progress.status = status;
+    progress.error = error;
+    this.emitUpdate(progress);
+  }
+
+  private isActive(progress: FileTransferProgress): boolean {
+    return progress.status === FileTransferStatus.PREPARING ||
+      progress.status === FileTransferStatus.TRANSFERRING;
+  }
+
+  private sendCancel(id: string, reason?: string): void {
+    this.dataChannelService.sendMessage(DataChannelMessageType.FILE_CANCEL, reason ? { id, reason } : { id });
+  }
+
+  /**
+   * Reads, hashes and streams one queued file.
+   */
+  private async runOutgoing(transfer: OutgoingTransfer): Promise<void> {
+    const { progress } = transfer;
+    if (transfer.cancelled) return;
+
+    let data: Uint8Array;
+    let sha256: string;
+    try {
+      data = new Uint8Array(await transfer.file.arrayBuffer());
+      sha256 = await sha256Hex(data);
+    } catch (error) {
+      log.error(`[FileTransfer] Failed to read ${progress.name}:`, error);
+      this.finish(progress, FileTransferStatus.FAILED, "Could not read the file");
+      return;
+    }
+    if (transfer.cancelled) return;
+
+    const offer: FileTransferOffer = {
+      id: progress.id,
+      name: progress.name,
+      size: data.byteLength,
+      mimeType: transfer.file.type,
+      sha256
+    };
+    if (!this.dataChannelService.sendMessage(DataChannelMessageType.FILE_OFFER, offer)) {
+      this.finish(progress, FileTransferStatus.FAILED, "File channel is not open");
+      return;
+    }
+
+    progress.size = data.byteLength;
+    progress.status = FileTransferStatus.TRANSFERRING;
+    this.emitUpdate(progress);
+
+    for (let offset = 0; offset < data.byteLength; offset += FILE_TRANSFER_CHUNK_SIZE) {
+      // Backpressure: let the channel buffer drain before queuing more chunks
+      const hasCapacity = await this.dataChannelService.waitForFileChannelCapacity();
+      if (transfer.cancelled) return;
+
+      const chunk = data.slice(offset, offset + FILE_TRANSFER_CHUNK_SIZE);
+      if (!hasCapacity || !this.dataChannelService.sendFileChunk(chunk.buffer)) {
+        this.finish(progress, FileTransferStatus.FAILED, "Connection to the peer was lost");
+        return;
+      }
+
+      progress.transferredBytes += chunk.byteLength;
+      this.emitProgress(transfer);
+    }
+    if (transfer.cancelled) return;
+
+    this.dataChannelService.sendMessage(DataChannelMessageType.FILE_COMPLETE, { id: progress.id });
+    log.info(`[FileTransfer] Sent ${progress.name} (${progress.size} bytes)`);
+    this.finish(progress, FileTransferStatus.COMPLETED);
+  }
+
+  private handleOffer(offer: FileTransferOffer): void {
+    // Files are sent one at a time, a new offer means the previous one was abandoned
+    if (this.incoming && this.isActive(this.incoming.progress)) {
+      this.finish(this.incoming.progress, FileTransferStatus.FAILED, "Transfer was interrupted");
+    }
+
+    this.incoming = {
+      offer,
+      chunks: [],
+      lastUpdateAt: 0,
+      progress: {
+        id: offer.id,
+        direction: FileTransferDirection.INCOMING,
+        name: offer.name,
+        size: offer.size,
+        transferredBytes: 0,
+        status: FileTransferStatus.TRANSFERRING
+      }
+    };
+    log.info(`[FileTransfer] Receiving ${offer.name} (${offer.size} bytes)`);
+    this.emitUpdate(this.incoming.progress);
+  }
+
+  private handleChunk(chunk: ArrayBuffer): void {
+    const transfer = this.incoming;
+    // Chunks still in flight after a cancel
+    if (!transfer || !this.isActive(transfer.progress)) return;
+
+    transfer.progress.transferredBytes += chunk.byteLength;
+    if (transfer.progress.transferredBytes > transfer.offer.size) {
+      this.incoming = null;
+      this.sendCancel(transfer.offer.id, "Received more data than announced");
+      this.finish(transfer.progress, FileTransferStatus.FAILED, "Received more data than announced");
+      return;
+    }
+
+    transfer.chunks.push(new Uint8Array(chunk));
+    this.emitProgress(transfer);
+  }
+
+  private async handleComplete(id: string): Promise<void> {
+    const transfer = this.incoming;
+    if (!transfer || transfer.offer.id !== id || !this.isActive(transfer.progress)) return;
+    this.incoming = null;
+
+    const { offer, progress } = transfer;
+    if (progress.transferredBytes !== offer.size) {
+      this.sendCancel(id, "File is incomplete");
+      this.finish(progress, FileTransferStatus.FAILED, "File is incomplete");
+      return;
+    }
+
+    const data = new Uint8Array(offer.size);
+    let offset = 0;
+    for (const chunk of transfer.chunks) {
+      data.set(chunk, offset);
+      offset += chunk.byteLength;
+    }
+
+    if (await sha256Hex(data) !== offer.sha256) {
+      log.warn(`[FileTransfer] Integrity check failed for ${offer.name}`);
+      this.sendCancel(id, "Integrity check failed");
+      this.finish(progress, FileTransferStatus.FAILED, "Integrity check failed");
+      return;
+    }
+
+    log.info(`[FileTransfer] Received ${offer.name} (${offer.size} bytes)`);
+    this.finish(progress, FileTransferStatus.COMPLETED);
+    this.onFileReceivedCallback?.({ id, name: offer.name, mimeType: offer.mimeType, data });
+  }
+
+  private handleRemoteCancel(id: string, reason?: string): void {
+    const outgoing = this.outgoing.get(id);
+    if (outgoing) {
+      const wasCompleted = outgoing.progress.status === FileTransferStatus.COMPLETED;
+      if (!this.isActive(outgoing.progress) && !wasCompleted) return;
+
+      outgoing.cancelled = true;
+      // The receiver rejects a fully sent file when its hash or size did not match
+      if (wasCompleted) {
+        this.finish(outgoing.progress, FileTransferStatus.FAILED, reason ?? "Rejected by peer");
+      } else {
+        this.finish(outgoing.progress, FileTransferStatus.CANCELLED, reason ?? "Cancelled by peer");
+      }
+      return;
+    }
+
+    if (this.incoming?.offer.id === id && this.isActive(this.incoming.progress)) {
+      const { progress } = this.incoming;
+      this.incoming = null;
+      this.finish(progress, FileTransferStatus.CANCELLED, reason ?? "Cancelled by peer");
+    }
+  }
+
+  // ============== Public API ==============
+
+  /**
+   * Queues a file for sending, files are sent one after the other.
+   *
+   * @returns Transfer id, or null when the file cannot be sent
+   */
+  public sendFile(file: File): string | null {
+    if (!this.dataChannelService.isFileTransferChannelReady()) {
+      log.warn("[FileTransfer] File channel not ready");
+      return null;
+    }
+    if (file.size > FILE_TRANSFER_MAX_SIZE) {
+      log.warn(`[FileTransfer] ${file.name} is too large (${file.size} bytes)`);
+      return null;
+    }
+
+    const transfer: OutgoingTransfer = {
+      file,
+      cancelled: false,
+      lastUpdateAt: 0,
+      progress: {
+        id: crypto.randomUUID(),
+        direction: FileTransferDirection.OUTGOING,
+        name: file.name,
+        size: file.size,
+        transferredBytes: 0,
+        status: FileTransferStatus.PREPARING
+      }
+    };
+    this.outgoing.set(transfer.progress.id, transfer);
+    this.emitUpdate(transfer.progress);
+
+    this.sendQueue = this.sendQueue
+      .then(() => this.runOutgoing(transfer))
+      .catch((error) => {
+        log.error(`[FileTransfer] Sending ${file.name} failed:`, error);
+        this.finish(transfer.progress, FileTransferStatus.FAILED, "Sending failed");
+      });
+
+    return transfer.progress.id;
+  }
+
+  /**
+   * Cancels an outgoing or incoming transfer and tells the peer.
+   */
+  public cancelTransfer(id: string): boolean {
+    const outgoing = this.outgoing.get(id);
+    if (outgoing && this.isActive(outgoing.progress)) {
+      outgoing.cancelled = true;
+      // Nothing was announced to the peer before the offer went out
+      if (outgoing.progress.status === FileTransferStatus.TRANSFERRING) {
+        this.sendCancel(id);
+      }
+      this.finish(outgoing.progress, FileTransferStatus.CANCELLED);
+      return true;
+    }
+
+    if (this.incoming?.offer.id === id && this.isActive(this.incoming.progress)) {
+      const { progress } = this.incoming;
+      this.incoming = null;
+      this.sendCancel(id);
+      this.finish(progress, FileTransferStatus.CANCELLED);
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Registers a callback for transfer progress and state changes.
+   */
+  public onTransferUpdate(callback: (progress: FileTransferProgress) => void): void {
+    this.onTransferUpdateCallback = callback;
+  }
+
+  /**
+   * Registers a callback for completely received files with a verified hash.
+   */
+  public onFileReceived(callback: (file: ReceivedFile) => void): void {
+    this.onFileReceivedCallback = callback;
+  }
+
+  /**
+   * Stops all transfers and clears callbacks.
+   */
+  public cleanup(): void {
+    for (const transfer of this.outgoing.values()) {
+      transfer.cancelled = true;
+    }
+    this.outgoing.clear();
+    this.incoming = null;
+    this.onTransferUpdateCallback = undefined;
+    this.onFileReceivedCallback = undefined;
+  }
+}
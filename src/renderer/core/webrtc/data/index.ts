@@ -1 +1,9 @@
-export * from "./data-channel";
\ No newline at end of file
+export * from "./data-channel";
+export * from "./message-protocol";
+export * from "./cursor-stream";
+export * from "./file-transfer";
+export * from "./clipboard-sync";
+export * from "./remote-control";
+export * from "./sharer-pointer";
+export * from "./latency-monitor";
+export * from "./peer-info";
\ No newline at end of file
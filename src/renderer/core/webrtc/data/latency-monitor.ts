@@ -0,0 +1,111 @@
+import log from "electron-log/renderer";
+import { DataChannelMessageType, LatencyProbe, LatencySample } from "../../../shared/types/index";
+import {
+  LATENCY_JITTER_WINDOW,
+  LATENCY_PING_INTERVAL_MS,
+  LATENCY_PONG_TIMEOUT_MS
+} from "../../../shared/constants/index";
+import { DataChannelService } from "./data-channel";
+
+/**
+ * Service measuring the application-level round-trip time over the cursor ping channel.
+ *
+ * Both peers probe on their own: a timestamped LATENCY_PING is sent every interval and the
+ * remote peer echoes it back as a LATENCY_PONG. Only the prober's clock is read, so clock
+ * differences between the peers do not matter. The round trip includes the data channel
+ * and both event loops but not the video encoder, which tells network lag apart from
+ * encoding lag. Jitter is the mean difference between consecutive round trips.
+ */
+export class LatencyMonitorService {
+  private dataChannelService: DataChannelService;
+  private probeTimer: ReturnType<typeof setInterval> | null = null;
+  private nextProbeId = 0;
+  private recentRtts: number[] = [];
+
+  private onSampleCallback?: (sample: LatencySample) => void;
+
+  constructor(dataChannelService: DataChannelService) {
+    this.dataChannelService = dataChannelService;
+
+    this.dataChannelService.onMessage(DataChannelMessageType.LATENCY_PING, (probe) => {
+      this.dataChannelService.sendMessage(DataChannelMessageType.LATENCY_PONG, probe);
+    });
+    this.dataChannelService.onMessage(DataChannelMessageType.LATENCY_PONG, (probe) => {
+      this.handlePong(probe);
+    });
+  }
+
+  // ============== Private Helpers ==============
+
+  private sendProbe(): void {
+    // Probes only start once the ping channel is open, before that there is nothing to measure
+    if (!this.dataChannelService.isCursorPingChannelReady()) return;
+
+    this.dataChannelService.sendMessage(DataChannelMessageType.LATENCY_PING, {
+      id: this.nextProbeId++,
+      sentAt: performance.now()
+    });
+  }
+
+  private handlePong(probe: LatencyProbe): void {
+    const rttMs = performance.now() - probe.sentAt;
+    // Echoes of someone else's clock, or of a probe given up on, are not measurements
+    if (probe.id >= this.nextProbeId || rttMs < 0 || rttMs > LATENCY_PONG_TIMEOUT_MS) {
+      log.debug(`[LatencyMonitor] Ignored pong ${probe.id}`);
+      return;
+    }
+
+    this.recentRtts.push(rttMs);
+    if (this.recentRtts.length > LATENCY_JITTER_WINDOW) {
+      this.recentRtts.shift();
+    }
+
+    this.onSampleCallback?.({ rttMs, jitterMs: this.getJitter(), at: Date.now() });
+  }
+
+  private getJitter(): number {
+    if (this.recentRtts.length < 2) return 0;
+
+    let total = 0;
+    for (let i = 1; i < this.recentRtts.length; i++) {
+      total += Math.abs(this.recentRtts[i] - this.recentRtts[i - 1]);
+    }
+    return total / (this.recentRtts.length - 1);
+  }
+
+  // ============== Public API ==============
+
+  /**
+   * Starts probing, probes are skipped while the ping channel is not open.
+   */
+  public start(): void {
+    this.stop();
+    this.probeTimer = setInterval(() => {
+      this.sendProbe();
+    }, LATENCY_PING_INTERVAL_MS);
+  }
+
+  public stop(): void {
+    if (this.probeTimer) {
+      clearInterval(this.probeTimer);
+      this.probeTimer = null;
+    }
+  }
+
+  /**
+   * Registers a callback for every measured round trip.
+   */
+  public onSample(callback: (sample: LatencySample) => void): void {
+    this.onSampleCallback = callback;
+  }
+
+  /**
+   * Stops probing at the end of the session and clears callbacks.
+   */
+  public cleanup(): void {
+    this.stop();
+    this.nextProbeId = 0;
+    this.recentRtts = [];
+    this.onSampleCallback = undefined;
+  }
+}
@@ -0,0 +1,407 @@
+import {
+  AnnotationStrokeUpdate,
+  AnnotationTool,
+  ChatMessage,
+  ClipboardContent,
+  ClipboardContentKind,
+  CursorEventType,
+  CursorHello,
+  CursorMode,
+  DataChannelDropReason,
+  DataChannelEnvelope,
+  DataChannelMessageDefinition,
+  DataChannelMessagePayloads,
+  DataChannelMessageType,
+  DataChannelName,
+  FileTransferOffer,
+  LatencyProbe,
+  PeerHello,
+  RemoteCursorEvent,
+  RemoteCursorState,
+  RemoteInputEvent,
+  RemoteInputEventType,
+  RemoteMouseButton,
+  SignalingMessage
+} from "../../../shared/types/index";
+import {
+  ANNOTATION_MAX_POINTS_PER_UPDATE,
+  CHAT_MESSAGE_MAX_LENGTH,
+  CLIPBOARD_SYNC_MAX_BYTES,
+  CURSOR_LASER_MAX_TRAIL_POINTS,
+  DATA_CHANNEL_PROTOCOL_VERSION,
+  FILE_TRANSFER_MAX_SIZE,
+  REMOTE_CONTROL_MAX_KEY_LENGTH,
+  REMOTE_CONTROL_MAX_WHEEL_DELTA
+} from "../../../shared/constants/index";
+import { getClipboardDataSize } from "../../../shared/utils/clipboard";
+
+/**
+ * Envelope as received, before its payload was validated against the type definition
+ */
+export type UncheckedEnvelope = Omit<DataChannelEnvelope, "type" | "payload"> & {
+  type: string;
+  payload: unknown;
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+const CURSOR_MODES = Object.values(CursorMode) as string[];
+const CURSOR_EVENT_TYPES = Object.values(CursorEventType) as string[];
+
+function isRemoteCursorState(payload: unknown): payload is RemoteCursorState {
+  return isObject(payload) &&
+    typeof payload.id === "string" &&
+    typeof payload.name === "string" &&
+    typeof payload.color === "string" &&
+    isFiniteNumber(payload.x) &&
+    isFiniteNumber(payload.y) &&
+    (payload.highlight === undefined || typeof payload.highlight === "boolean") &&
+    (payload.mode === undefined || (typeof payload.mode === "string" && CURSOR_MODES.includes(payload.mode))) &&
+    (payload.trail === undefined || isCursorTrail(payload.trail));
+}
+
+function isCursorTrail(trail: unknown): boolean {
+  return Array.isArray(trail) &&
+    trail.length <= CURSOR_LASER_MAX_TRAIL_POINTS &&
+    trail.every((point) => isObject(point) && isNormalized(point.x) && isNormalized(point.y));
+}
+
+function isCursorHello(payload: unknown): payload is CursorHello {
+  return isObject(payload) &&
+    Number.isInteger(payload.streamId) &&
+    (payload.streamId as number) >= 0 &&
+    (payload.streamId as number) <= 0xffff &&
+    typeof payload.cursorId === "string" &&
+    typeof payload.name === "string" &&
+    typeof payload.color === "string" &&
+    (payload.highlight === undefined || typeof payload.highlight === "boolean") &&
+    (payload.mode === undefined || (typeof payload.mode === "string" && CURSOR_MODES.includes(payload.mode)));
+}
+
+function isRemoteCursorEvent(payload: unknown): payload is RemoteCursorEvent {
+  return isObject(payload) &&
+    typeof payload.cursorId === "string" &&
+    typeof payload.type === "string" &&
+    CURSOR_EVENT_TYPES.includes(payload.type) &&
+    isNormalized(payload.x) &&
+    isNormalized(payload.y);
+}
+
+function isCursorPing(payload: unknown): payload is { cursorId: string } {
+  return isObject(payload) && typeof payload.cursorId === "string";
+}
+
+function isLatencyProbe(payload: unknown): payload is LatencyProbe {
+  return isObject(payload) &&
+    Number.isSafeInteger(payload.id) &&
+    isFiniteNumber(payload.sentAt);
+}
+
+function isPeerHello(payload: unknown): payload is PeerHello {
+  return isObject(payload) &&
+    typeof payload.appVersion === "string" &&
+    typeof payload.name === "string" &&
+    typeof payload.cursorColor === "string" &&
+    Array.isArray(payload.features) &&
+    payload.features.every((feature) => typeof feature === "string");
+}
+
+function isPeerHelloAck(payload: unknown): payload is Record<string, never> {
+  return isObject(payload);
+}
+
+function isSignalingMessage(payload: unknown): payload is SignalingMessage {
+  if (!isObject(payload)) return false;
+
+  if (payload.kind === "description") {
+    const description = payload.description;
+    return isObject(description) &&
+      typeof description.type === "string" &&
+      (description.sdp === undefined || typeof description.sdp === "string");
+  }
+  if (payload.kind === "candidate") {
+    return isObject(payload.candidate);
+  }
+  return false;
+}
+
+function isChatMessage(payload: unknown): payload is ChatMessage {
+  return isObject(payload) &&
+    typeof payload.id === "string" &&
+    typeof payload.author === "string" &&
+    typeof payload.text === "string" &&
+    payload.text.trim().length > 0 &&
+    payload.text.length <= CHAT_MESSAGE_MAX_LENGTH &&
+    isFiniteNumber(payload.sentAt);
+}
+
+function isFileTransferOffer(payload: unknown): payload is FileTransferOffer {
+  return isObject(payload) &&
+    typeof payload.id === "string" &&
+    typeof payload.name === "string" &&
+    payload.name.length > 0 &&
+    Number.isSafeInteger(payload.size) &&
+    (payload.size as number) >= 0 &&
+    (payload.size as number) <= FILE_TRANSFER_MAX_SIZE &&
+    typeof payload.mimeType === "string" &&
+    typeof payload.sha256 === "string" &&
+    /^[0-9a-f]{64}$/.test(payload.sha256);
+}
+
+function isFileTransferReference(payload: unknown): payload is { id: string } {
+  return isObject(payload) && typeof payload.id === "string";
+}
+
+function isFileTransferCancel(payload: unknown): payload is { id: string; reason?: string } {
+  return isObject(payload) &&
+    typeof payload.id === "string" &&
+    (payload.reason === undefined || typeof payload.reason === "string");
+}
+
+function isClipboardState(payload: unknown): payload is { sharing: boolean } {
+  return isObject(payload) && typeof payload.sharing === "boolean";
+}
+
+function isClipboardContent(payload: unknown): payload is ClipboardContent {
+  if (!isObject(payload) ||
+      typeof payload.id !== "string" ||
+      !isFiniteNumber(payload.copiedAt) ||
+      typeof payload.data !== "string" ||
+      payload.data.length === 0) {
+    return false;
+  }
+
+  const kind = payload.kind;
+  const data = payload.data;
+  if (kind === ClipboardContentKind.TEXT) {
+    return getClipboardDataSize({ kind, data }) <= CLIPBOARD_SYNC_MAX_BYTES;
+  }
+  if (kind === ClipboardContentKind.IMAGE) {
+    return data.startsWith("data:image/png;base64,") &&
+      getClipboardDataSize({ kind, data }) <= CLIPBOARD_SYNC_MAX_BYTES;
+  }
+  return false;
+}
+
+const ANNOTATION_TOOLS = Object.values(AnnotationTool) as string[];
+
+function isNormalized(value: unknown): value is number {
+  return isFiniteNumber(value) && value >= 0 && value <= 1;
+}
+
+function isAnnotationStrokeUpdate(payload: unknown): payload is AnnotationStrokeUpdate {
+  return isObject(payload) &&
+    typeof payload.id === "string" &&
+    typeof payload.tool === "string" &&
+    ANNOTATION_TOOLS.includes(payload.tool) &&
+    typeof payload.color === "string" &&
+    /^#[0-9a-f]{6}$/i.test(payload.color) &&
+    typeof payload.done === "boolean" &&
+    Array.isArray(payload.points) &&
+    payload.points.length <= ANNOTATION_MAX_POINTS_PER_UPDATE &&
+    payload.points.every((point) => isObject(point) && isNormalized(point.x) && isNormalized(point.y));
+}
+
+function isAnnotationClear(payload: unknown): payload is Record<string, never> {
+  return isObject(payload);
+}
+
+function isControlRequest(payload: unknown): payload is { requesting: boolean } {
+  return isObject(payload) && typeof payload.requesting === "boolean";
+}
+
+function isControlState(payload: unknown): payload is { active: boolean } {
+  return isObject(payload) && typeof payload.active === "boolean";
+}
+
+const MOUSE_BUTTONS = Object.values(RemoteMouseButton) as string[];
+
+function isWheelDelta(value: unknown): value is number {
+  return isFiniteNumber(value) && Math.abs(value) <= REMOTE_CONTROL_MAX_WHEEL_DELTA;
+}
+
+function isKeyName(value: unknown): value is string {
+  return typeof value === "string" && value.length > 0 && value.length <= REMOTE_CONTROL_MAX_KEY_LENGTH;
+}
+
+function isRemoteInputEvent(payload: unknown): payload is RemoteInputEvent {
+  if (!isObject(payload)) return false;
+
+  switch (payload.type) {
+    case RemoteInputEventType.MOUSE_MOVE:
+      return isNormalized(payload.x) && isNormalized(payload.y);
+    case RemoteInputEventType.MOUSE_DOWN:
+    case RemoteInputEventType.MOUSE_UP:
+      return isNormalized(payload.x) && isNormalized(payload.y) &&
+        typeof payload.button === "string" &&
+        MOUSE_BUTTONS.includes(payload.button);
+    case RemoteInputEventType.WHEEL:
+      return isNormalized(payload.x) && isNormalized(payload.y) &&
+        isWheelDelta(payload.deltaX) &&
+        isWheelDelta(payload.deltaY);
+    case RemoteInputEventType.KEY_DOWN:
+    case RemoteInputEventType.KEY_UP: {
+      const modifiers = payload.modifiers;
+      return isKeyName(payload.key) &&
+        isKeyName(payload.code) &&
+        isObject(modifiers) &&
+        typeof modifiers.alt === "boolean" &&
+        typeof modifiers.ctrl === "boolean" &&
+        typeof modifiers.meta === "boolean" &&
+        typeof modifiers.shift === "boolean";
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Message types known to every build, with the channel each one uses
+ */
+export const BUILTIN_MESSAGE_DEFINITIONS: {
+  [T in DataChannelMessageType]: DataChannelMessageDefinition<T>
+} = {
+  [DataChannelMessageType.CURSOR_POSITION]: {
+    channel: DataChannelName.CURSOR_POSITIONS,
+    validate: isRemoteCursorState
+  },
+  [DataChannelMessageType.CURSOR_HELLO]: {
+    channel: DataChannelName.CURSOR_POSITIONS,
+    validate: isCursorHello
+  },
+  [DataChannelMessageType.CURSOR_EVENT]: {
+    channel: DataChannelName.CURSOR_POSITIONS,
+    validate: isRemoteCursorEvent
+  },
+  [DataChannelMessageType.CURSOR_PING]: {
+    channel: DataChannelName.CURSOR_PING,
+    validate: isCursorPing
+  },
+  [DataChannelMessageType.LATENCY_PING]: {
+    channel: DataChannelName.CURSOR_PING,
+    validate: isLatencyProbe
+  },
+  [DataChannelMessageType.LATENCY_PONG]: {
+    channel: DataChannelName.CURSOR_PING,
+    validate: isLatencyProbe
+  },
+  [DataChannelMessageType.PEER_HELLO]: {
+    channel: DataChannelName.SIGNALING,
+    validate: isPeerHello
+  },
+  [DataChannelMessageType.PEER_HELLO_ACK]: {
+    channel: DataChannelName.SIGNALING,
+    validate: isPeerHelloAck
+  },
+  [DataChannelMessageType.SIGNALING]: {
+    channel: DataChannelName.SIGNALING,
+    validate: isSignalingMessage
+  },
+  [DataChannelMessageType.CHAT_MESSAGE]: {
+    channel: DataChannelName.CHAT,
+    validate: isChatMessage
+  },
+  [DataChannelMessageType.FILE_OFFER]: {
+    channel: DataChannelName.FILE_TRANSFER,
+    validate: isFileTransferOffer
+  },
+  [DataChannelMessageType.FILE_COMPLETE]: {
+    channel: DataChannelName.FILE_TRANSFER,
+    validate: isFileTransferReference
+  },
+  [DataChannelMessageType.FILE_CANCEL]: {
+    channel: DataChannelName.FILE_TRANSFER,
+    validate: isFileTransferCancel
+  },
+  [DataChannelMessageType.CLIPBOARD_STATE]: {
+    channel: DataChannelName.CLIPBOARD,
+    validate: isClipboardState
+  },
+  [DataChannelMessageType.CLIPBOARD_UPDATE]: {
+    channel: DataChannelName.CLIPBOARD,
+    validate: isClipboardContent
+  },
+  [DataChannelMessageType.ANNOTATION_STROKE]: {
+    channel: DataChannelName.ANNOTATIONS,
+    validate: isAnnotationStrokeUpdate
+  },
+  [DataChannelMessageType.ANNOTATION_CLEAR]: {
+    channel: DataChannelName.ANNOTATIONS,
+    validate: isAnnotationClear
+  },
+  [DataChannelMessageType.CONTROL_REQUEST]: {
+    channel: DataChannelName.REMOTE_CONTROL,
+    validate: isControlRequest
+  },
+  [DataChannelMessageType.CONTROL_STATE]: {
+    channel: DataChannelName.REMOTE_CONTROL,
+    validate: isControlState
+  },
+  [DataChannelMessageType.CONTROL_INPUT]: {
+    channel: DataChannelName.REMOTE_CONTROL,
+    validate: isRemoteInputEvent
+  }
+};
+
+/**
+ * Wraps a payload in the message envelope
+ *
+ * @param type - Message type
+ * @param payload - Type specific content
+ * @param seq - Sequence number on the sending channel
+ */
+export function createEnvelope<T extends DataChannelMessageType>(
+  type: T,
+  payload: DataChannelMessagePayloads[T],
+  seq: number
+): DataChannelEnvelope<T> {
+  return {
+    type,
+    version: DATA_CHANNEL_PROTOCOL_VERSION,
+    seq,
+    ts: Date.now(),
+    payload
+  };
+}
+
+/**
+ * Parses raw channel data into an envelope.
+ * Only the envelope fields are checked here, the payload is validated per type.
+ *
+ * @param data - MessageEvent data
+ * @returns The envelope, or why the message must be dropped
+ */
+export function parseEnvelope(data: unknown): UncheckedEnvelope | DataChannelDropReason {
+  if (typeof data !== "string") {
+    return DataChannelDropReason.MALFORMED;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(data);
+  } catch {
+    return DataChannelDropReason.MALFORMED;
+  }
+
+  if (!isObject(parsed) ||
+      typeof parsed.type !== "string" ||
+      !Number.isInteger(parsed.version) ||
+      !Number.isInteger(parsed.seq) ||
+      (parsed.seq as number) < 0 ||
+      !isFiniteNumber(parsed.ts) ||
+      !("payload" in parsed)) {
+    return DataChannelDropReason.MALFORMED;
+  }
+
+  if ((parsed.version as number) > DATA_CHANNEL_PROTOCOL_VERSION) {
+    return DataChannelDropReason.UNSUPPORTED_VERSION;
+  }
+
+  return parsed as UncheckedEnvelope;
+}
@@ -0,0 +1,133 @@
+import log from "electron-log/renderer";
+import { DataChannelMessageType, PeerFeature, PeerHello, PeerInfo } from "../../../shared/types/index";
+import { DataChannelService } from "./data-channel";
+
+/**
+ * Features this build supports, announced in every hello
+ */
+const LOCAL_FEATURES: string[] = Object.values(PeerFeature);
+
+/**
+ * Service exchanging version, identity and features with the remote peer.
+ *
+ * Both peers send a PEER_HELLO once the signaling channel opens and answer the other's
+ * hello with a PEER_HELLO_ACK. The handshake is complete once this side received the
+ * peer's hello and the ack of its own: the peer is then known, and the features both
+ * sides announced are the ones the session uses, such as the binary cursor stream.
+ * A peer that never says hello, an older build, only gets what every build understands.
+ */
+export class PeerInfoService {
+  private dataChannelService: DataChannelService;
+  private localHello: PeerHello | null = null;
+  private remoteHello: PeerHello | null = null;
+  private isAcknowledged = false;
+  private peerInfo: PeerInfo | null = null;
+
+  private onPeerInfoCallback?: (info: PeerInfo) => void;
+
+  constructor(dataChannelService: DataChannelService) {
+    this.dataChannelService = dataChannelService;
+
+    this.dataChannelService.onMessage(DataChannelMessageType.PEER_HELLO, (hello) => {
+      this.handleHello(hello);
+    });
+    this.dataChannelService.onMessage(DataChannelMessageType.PEER_HELLO_ACK, () => {
+      this.isAcknowledged = true;
+      this.completeHandshake();
+    });
+  }
+
+  // ============== Private Helpers ==============
+
+  private handleHello(hello: PeerHello): void {
+    this.remoteHello = hello;
+    this.dataChannelService.sendMessage(DataChannelMessageType.PEER_HELLO_ACK, {});
+    this.completeHandshake();
+  }
+
+  private completeHandshake(): void {
+    if (!this.remoteHello || !this.isAcknowledged) return;
+
+    // Features unknown to this build or withdrawn by this side are left out
+    const localFeatures = this.localHello?.features ?? LOCAL_FEATURES;
+    const features = Object.values(PeerFeature).filter((feature) =>
+      localFeatures.includes(feature) && this.remoteHello!.features.includes(feature)
+    );
+    this.peerInfo = {
+      appVersion: this.remoteHello.appVersion,
+      name: this.remoteHello.name,
+      cursorColor: this.remoteHello.cursorColor,
+      features
+    };
+    log.info(`[PeerInfo] Connected to ${this.peerInfo.name} (v${this.peerInfo.appVersion}), features: ${features.join(", ")}`);
+
+    this.dataChannelService.setCursorStreamEnabled(features.includes(PeerFeature.CURSOR_STREAM));
+    this.onPeerInfoCallback?.(this.peerInfo);
+  }
+
+  // ============== Public API ==============
+
+  /**
+   * Sets what the hello tells about this side, before the channels open.
+   */
+  public setLocalIdentity(name: string, cursorColor: string, appVersion: string): void {
+    this.localHello = { appVersion, name, cursorColor, features: LOCAL_FEATURES };
+  }
+
+  /**
+   * Stops announcing a feature this side cannot offer, before the hello is sent.
+   */
+  public withdrawFeature(feature: PeerFeature): void {
+    if (!this.localHello) return;
+    this.localHello = {
+      ...this.localHello,
+      features: this.localHello.features.filter((announced) => announced !== feature)
+    };
+  }
+
+  /**
+   * Introduces this side to the peer, again whenever a new signaling channel opened.
+   *
+   * @returns Whether the hello was sent
+   */
+  public sendHello(): boolean {
+    if (!this.localHello) {
+      log.warn("[PeerInfo] Hello skipped, no local identity set");
+      return false;
+    }
+    this.isAcknowledged = false;
+    return this.dataChannelService.sendMessage(DataChannelMessageType.PEER_HELLO, this.localHello);
+  }
+
+  /**
+   * The remote peer, or null until the handshake completed.
+   */
+  public getPeerInfo(): PeerInfo | null {
+    return this.peerInfo;
+  }
+
+  /**
+   * Whether both peers support a feature, false until the handshake completed.
+   */
+  public isFeatureSupported(feature: PeerFeature): boolean {
+    return this.peerInfo?.features.includes(feature) ?? false;
+  }
+
+  /**
+   * Registers a callback for every completed handshake.
+   */
+  public onPeerInfo(callback: (info: PeerInfo) => void): void {
+    this.onPeerInfoCallback = callback;
+  }
+
+  /**
+   * Forgets the peer at the end of the session and clears callbacks.
+   */
+  public cleanup(): void {
+    this.localHello = null;
+    this.remoteHello = null;
+    this.isAcknowledged = false;
+    this.peerInfo = null;
+    this.onPeerInfoCallback = undefined;
+  }
+}
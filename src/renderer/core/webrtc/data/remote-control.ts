@@ -0,0 +1,239 @@
+import log from "electron-log/renderer";
+import {
+  DataChannelMessageType,
+  RemoteControlState,
+  RemoteControlStatus,
+  RemoteInputEvent
+} from "../../../shared/types/index";
+import {
+  injectRemoteInput,
+  isRemoteControlAvailable,
+  onRemoteControlSessionStopped,
+  startRemoteControlSession,
+  stopRemoteControlSession
+} from "../../../shared/utils/remote-control";
+import { DataChannelService } from "./data-channel";
+
+/**
+ * Service for the consent-gated remote control mode over the remote control data channel.
+ *
+ * The watcher asks for control, and the sharer has to grant it explicitly for this session.
+ * Only while control is granted are the watcher's clicks, scrolls and keystrokes sent and
+ * replayed by the sharer's main process. Either peer can end control at any time; the sharer
+ * also through the emergency stop shortcut or the on-screen banner, which work whichever
+ * application has the focus.
+ */
+export class RemoteControlService {
+  private dataChannelService: DataChannelService;
+  private isScreenSharer: boolean;
+  private state: RemoteControlState = { status: RemoteControlStatus.IDLE, stopShortcut: null };
+  private removeStoppedListener: (() => void) | null = null;
+
+  private onStateChangeCallback?: (state: RemoteControlState) => void;
+
+  constructor(dataChannelService: DataChannelService, isScreenSharer: boolean) {
+    this.dataChannelService = dataChannelService;
+    this.isScreenSharer = isScreenSharer;
+
+    this.dataChannelService.onMessage(DataChannelMessageType.CONTROL_REQUEST, ({ requesting }) => {
+      if (!this.isScreenSharer) return;
+      this.handleRequest(requesting);
+    });
+    this.dataChannelService.onMessage(DataChannelMessageType.CONTROL_STATE, ({ active }) => {
+      if (this.isScreenSharer) return;
+      this.handleControlState(active);
+    });
+    this.dataChannelService.onMessage(DataChannelMessageType.CONTROL_INPUT, (event) => {
+      // Input is only replayed on the sharer, and only after it granted control
+      if (!this.isScreenSharer || this.state.status !== RemoteControlStatus.ACTIVE) return;
+      injectRemoteInput(event);
+    });
+  }
+
+  // ============== Private Helpers ==============
+
+  private setState(status: RemoteControlStatus, stopShortcut: string | null = null): void {
+    this.state = { status, stopShortcut };
+    this.onStateChangeCallback?.({ ...this.state });
+  }
+
+  private sendControlState(active: boolean): void {
+    this.dataChannelService.sendMessage(DataChannelMessageType.CONTROL_STATE, { active });
+  }
+
+  private handleRequest(requesting: boolean): void {
+    if (requesting) {
+      // Nothing to consent to, the watcher is told right away
+      if (this.state.status === RemoteControlStatus.UNAVAILABLE) {
+        log.info("[RemoteControl] Control request denied, remote control is unavailable");
+        this.sendControlState(false);
+        return;
+      }
+      if (this.state.status !== RemoteControlStatus.IDLE) return;
+      log.info("[RemoteControl] Watcher requested control");
+      this.setState(RemoteControlStatus.REQUESTED);
+      return;
+    }
+
+    if (this.state.status === RemoteControlStatus.ACTIVE) {
+      log.info("[RemoteControl] Watcher released control");
+      void this.endSession();
+    } else if (this.state.status === RemoteControlStatus.REQUESTED) {
+      log.info("[RemoteControl] Watcher withdrew its request");
+      this.setState(RemoteControlStatus.IDLE);
+    }
+  }
+
+  private handleControlState(active: boolean): void {
+    if (active) {
+      // Granted after the request was withdrawn, the withdrawal is on its way
+      if (this.state.status !== RemoteControlStatus.REQUESTED) return;
+      log.info("[RemoteControl] Control granted");
+      this.setState(RemoteControlStatus.ACTIVE);
+    } else if (this.state.status !== RemoteControlStatus.IDLE) {
+      log.info("[RemoteControl] Control denied or revoked");
+      this.setState(RemoteControlStatus.IDLE);
+    }
+  }
+
+  /**
+   * Stops replaying input on the sharer and tells the watcher.
+   */
+  private async endSession(): Promise<void> {
+    this.removeStoppedListener?.();
+    this.removeStoppedListener = null;
+    this.setState(RemoteControlStatus.IDLE);
+    this.sendControlState(false);
+    await stopRemoteControlSession();
+  }
+
+  // ============== Sharer ==============
+
+  /**
+   * Checks whether input can be replayed on this system, and denies every request from
+   * then on when it cannot. Called once before the peer is told which features are offered.
+   *
+   * @returns Whether remote control can be offered
+   */
+  public async checkAvailability(): Promise<boolean> {
+    if (!this.isScreenSharer) return false;
+
+    const available = await isRemoteControlAvailable();
+    if (!available) {
+      log.warn("[RemoteControl] Remote control is unavailable on this system");
+      this.setState(RemoteControlStatus.UNAVAILABLE);
+    }
+    return available;
+  }
+
+  /**
+   * Answers a pending control request.
+   * Granting only succeeds once the emergency stop shortcut and the banner are in place.
+   *
+   * @returns True when control was granted
+   */
+  public async respondToRequest(allow: boolean): Promise<boolean> {
+    if (!this.isScreenSharer || this.state.status !== RemoteControlStatus.REQUESTED) return false;
+
+    if (!allow) {
+      log.info("[RemoteControl] Control request denied");
+      this.setState(RemoteControlStatus.IDLE);
+      this.sendControlState(false);
+      return false;
+    }
+
+    const stopShortcut = await startRemoteControlSession();
+    if (!stopShortcut) {
+      this.setState(RemoteControlStatus.IDLE);
+      this.sendControlState(false);
+      return false;
+    }
+
+    // Withdrawn while the session was starting
+    if (this.state.status !== RemoteControlStatus.REQUESTED) {
+      await stopRemoteControlSession();
+      return false;
+    }
+
+    this.removeStoppedListener = onRemoteControlSessionStopped(() => {
+      log.info("[RemoteControl] Control stopped by the sharer outside the app");
+      void this.endSession();
+    });
+    this.setState(RemoteControlStatus.ACTIVE, stopShortcut);
+    this.sendControlState(true);
+    log.info("[RemoteControl] Control granted");
+    return true;
+  }
+
+  /**
+   * Takes control back from the watcher.
+   */
+  public async revoke(): Promise<void> {
+    if (!this.isScreenSharer || this.state.status !== RemoteControlStatus.ACTIVE) return;
+    log.info("[RemoteControl] Control revoked");
+    await this.endSession();
+  }
+
+  // ============== Watcher ==============
+
+  /**
+   * Asks the sharer for control of its screen.
+   *
+   * @returns False when the request could not be sent
+   */
+  public requestControl(): boolean {
+    if (this.isScreenSharer || this.state.status !== RemoteControlStatus.IDLE) return false;
+
+    if (!this.dataChannelService.sendMessage(DataChannelMessageType.CONTROL_REQUEST, { requesting: true })) {
+      return false;
+    }
+    this.setState(RemoteControlStatus.REQUESTED);
+    log.info("[RemoteControl] Requested control");
+    return true;
+  }
+
+  /**
+   * Withdraws a pending request or gives control back.
+   */
+  public releaseControl(): void {
+    if (this.isScreenSharer || this.state.status === RemoteControlStatus.IDLE) return;
+
+    this.dataChannelService.sendMessage(DataChannelMessageType.CONTROL_REQUEST, { requesting: false });
+    this.setState(RemoteControlStatus.IDLE);
+    log.info("[RemoteControl] Released control");
+  }
+
+  /**
+   * Sends an input event to the sharer while in control.
+   */
+  public sendInput(event: RemoteInputEvent): boolean {
+    if (this.isScreenSharer || this.state.status !== RemoteControlStatus.ACTIVE) return false;
+    return this.dataChannelService.sendMessage(DataChannelMessageType.CONTROL_INPUT, event);
+  }
+
+  // ============== Common ==============
+
+  public getState(): RemoteControlState {
+    return { ...this.state };
+  }
+
+  /**
+   * Registers a callback for every step of the consent flow.
+   */
+  public onStateChange(callback: (state: RemoteControlState) => void): void {
+    this.onStateChangeCallback = callback;
+  }
+
+  /**
+   * Ends control at the end of the session and clears callbacks.
+   */
+  public cleanup(): void {
+    if (this.isScreenSharer && this.state.status === RemoteControlStatus.ACTIVE) {
+      void stopRemoteControlSession();
+    }
+    this.removeStoppedListener?.();
+    this.removeStoppedListener = null;
+    this.state = { status: RemoteControlStatus.IDLE, stopShortcut: null };
+    this.onStateChangeCallback = undefined;
+  }
+}
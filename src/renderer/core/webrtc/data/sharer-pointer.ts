@@ -0,0 +1,181 @@
+import log from "electron-log/renderer";
+import { CursorEventType, RemoteCursorState, SharerPointerState } from "../../../shared/types/index";
+import {
+  SHARER_POINTER_COLOR,
+  SHARER_POINTER_PING_INTERVAL_MS,
+  SHARER_POINTER_POLL_INTERVAL_MS
+} from "../../../shared/constants/index";
+import { readSharerPointerPosition } from "../../../shared/utils/sharer-pointer";
+import { DataChannelService } from "./data-channel";
+
+// Button events of this window, sent along with the pointer
+const BUTTON_EVENTS: Record<string, CursorEventType> = {
+  pointerdown: CursorEventType.BUTTON_DOWN,
+  pointerup: CursorEventType.BUTTON_UP,
+  dblclick: CursorEventType.DOUBLE_CLICK
+};
+
+/**
+ * Service broadcasting the sharer's own pointer to the watcher over the cursor channels.
+ *
+ * The capture does not always contain the OS cursor, so while broadcasting the pointer is
+ * sampled from the main process and sent as a regular cursor position, and pinged while it
+ * rests so the watcher keeps showing it. A pointer on another display is not sent and
+ * disappears on the watcher once stale. Button presses are sent as cursor events for the
+ * ripple; only those in this app's window can be seen, other applications do not report
+ * theirs to Electron.
+ */
+export class SharerPointerService {
+  private dataChannelService: DataChannelService;
+  private state: SharerPointerState = { isBroadcasting: false, highlight: true, clickRipple: true };
+  private readonly pointerId = crypto.randomUUID();
+  private name = "Sharer";
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private isPolling = false;
+  private lastSent: RemoteCursorState | null = null;
+  private lastSentAt = 0;
+
+  private onStateChangeCallback?: (state: SharerPointerState) => void;
+
+  private readonly handleButtonEvent = (event: Event): void => {
+    if (!this.state.clickRipple || !this.lastSent) return;
+
+    // The press happened where the pointer was last sampled
+    this.dataChannelService.sendCursorEvent({
+      cursorId: this.pointerId,
+      type: BUTTON_EVENTS[event.type],
+      x: this.lastSent.x,
+      y: this.lastSent.y
+    });
+  };
+
+  constructor(dataChannelService: DataChannelService) {
+    this.dataChannelService = dataChannelService;
+  }
+
+  // ============== Private Helpers ==============
+
+  private emitState(): void {
+    this.onStateChangeCallback?.({ ...this.state });
+  }
+
+  private startPolling(): void {
+    this.stopPolling();
+    this.pollTimer = setInterval(() => {
+      void this.poll();
+    }, SHARER_POINTER_POLL_INTERVAL_MS);
+    for (const type of Object.keys(BUTTON_EVENTS)) {
+      window.addEventListener(type, this.handleButtonEvent, true);
+    }
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    for (const type of Object.keys(BUTTON_EVENTS)) {
+      window.removeEventListener(type, this.handleButtonEvent, true);
+    }
+  }
+
+  /**
+   * Sends the pointer when it moved or its look changed, and pings it otherwise.
+   */
+  private async poll(): Promise<void> {
+    // Skip ticks while the main process is still answering
+    if (this.isPolling) return;
+    this.isPolling = true;
+
+    try {
+      const position = await readSharerPointerPosition();
+      if (!this.state.isBroadcasting || !position) return;
+
+      const cursor: RemoteCursorState = {
+        id: this.pointerId,
+        name: this.name,
+        color: SHARER_POINTER_COLOR,
+        ...position,
+        highlight: this.state.highlight
+      };
+      const now = Date.now();
+      const last = this.lastSent;
+      const hasChanged = !last ||
+        last.x !== cursor.x ||
+        last.y !== cursor.y ||
+        last.highlight !== cursor.highlight;
+
+      if (hasChanged) {
+        if (this.dataChannelService.updateRemoteCursor(cursor)) {
+          this.lastSent = cursor;
+          this.lastSentAt = now;
+        }
+      } else if (now - this.lastSentAt >= SHARER_POINTER_PING_INTERVAL_MS) {
+        this.dataChannelService.pingRemoteCursor(this.pointerId);
+        this.lastSentAt = now;
+      }
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  // ============== Public API ==============
+
+  /**
+   * Starts or stops broadcasting the pointer, under the given display name.
+   */
+  public setBroadcasting(enabled: boolean, name?: string): void {
+    if (name) {
+      this.name = name;
+    }
+    if (enabled === this.state.isBroadcasting) return;
+
+    this.state.isBroadcasting = enabled;
+    this.lastSent = null;
+    if (enabled) {
+      this.startPolling();
+      log.info("[SharerPointer] Broadcasting the pointer");
+    } else {
+      this.stopPolling();
+      log.info("[SharerPointer] Stopped broadcasting the pointer");
+    }
+    this.emitState();
+  }
+
+  /**
+   * Shows or hides the highlight ring around the pointer on the watcher.
+   */
+  public setHighlight(enabled: boolean): void {
+    this.state.highlight = enabled;
+    this.emitState();
+  }
+
+  /**
+   * Shares button presses so the watcher draws a ripple for each click.
+   */
+  public setClickRipple(enabled: boolean): void {
+    this.state.clickRipple = enabled;
+    this.emitState();
+  }
+
+  public getState(): SharerPointerState {
+    return { ...this.state };
+  }
+
+  /**
+   * Registers a callback for broadcast and option changes.
+   */
+  public onStateChange(callback: (state: SharerPointerState) => void): void {
+    this.onStateChangeCallback = callback;
+  }
+
+  /**
+   * Stops broadcasting at the end of the session and clears callbacks.
+   */
+  public cleanup(): void {
+    this.stopPolling();
+    this.state = { isBroadcasting: false, highlight: true, clickRipple: true };
+    this.lastSent = null;
+    this.onStateChangeCallback = undefined;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,72 @@
+import log from "electron-log/renderer";
+
+/**
+ * Mixes several audio tracks, such as the microphone and the system audio, into one
+ * outgoing track through a WebAudio graph.
+ * The peer receives a single audio track whatever is mixed in, so inputs can be added
+ * and removed during the session without renegotiation. A disabled input track is
+ * mixed in as silence, muting an input is done on its track.
+ */
+export class AudioMixer {
+  private context: AudioContext;
+  private destination: MediaStreamAudioDestinationNode;
+  // Mixed inputs by their track
+  private inputs = new Map<MediaStreamTrack, MediaStreamAudioSourceNode>();
+
+  constructor() {
+    this.context = new AudioContext();
+    this.destination = this.context.createMediaStreamDestination();
+  }
+
+  /**
+   * Mixes a track into the output, a track already mixed in is ignored.
+   */
+  public addTrack(track: MediaStreamTrack): void {
+    if (this.inputs.has(track)) return;
+
+    const input = this.context.createMediaStreamSource(new MediaStream([track]));
+    input.connect(this.destination);
+    this.inputs.set(track, input);
+    log.info(`[AudioMixer] Mixing in ${track.label || track.id}`);
+  }
+
+  /**
+   * Takes a track out of the mix.
+   */
+  public removeTrack(track: MediaStreamTrack): void {
+    const input = this.inputs.get(track);
+    if (!input) return;
+
+    input.disconnect();
+    this.inputs.delete(track);
+  }
+
+  /**
+   * The mixed track sent to the peer.
+   */
+  public getOutputTrack(): MediaStreamTrack {
+    return this.destination.stream.getAudioTracks()[0];
+  }
+
+  /**
+   * The stream holding the mixed track.
+   */
+  public getOutputStream(): MediaStream {
+    return this.destination.stream;
+  }
+
+  /**
+   * Disconnects every input and closes the audio context.
+   * The input tracks are left running, they belong to their own streams.
+   */
+  public close(): void {
+    for (const input of this.inputs.values()) {
+      input.disconnect();
+    }
+    this.inputs.clear();
+    this.destination.stream.getTracks().forEach(track => track.stop());
+    this.context.close().catch((error) => {
+      log.warn("[AudioMixer] Failed to close the audio context:", error);
+    });
+  }
+}
@@ -1 +1,2 @@
-export * from "./media-stream";
\ No newline at end of file
+export * from "./media-stream";
+export * from "./audio-mixer";
\ No newline at end of file
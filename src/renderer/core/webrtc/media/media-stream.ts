@@ -8,9 +8,11 @@ import log from "electron-log/renderer";
 export class MediaStreamService {
   private audioStream: MediaStream | null = null;
   private displayStream: MediaStream | null = null;
+  private systemAudioStream: MediaStream | null = null;
   // Sequence counters
   private audioAcquireSeq: number = 0;
   private displayAcquireSeq: number = 0;
+  private systemAudioAcquireSeq: number = 0;
   // Callback binding to the display stream
   private displayEndEventListener?: () => void;
   private onDisplayEndCallback?: () => void;
@@ -24,12 +26,8 @@ export class MediaStreamService {
     if (!stream) return;
     
     // If stop the current display stream, remove all registered listener
-    if (stream === this.displayStream && this.displayEndEventListener) {
-      stream.removeEventListener("inactive", this.displayEndEventListener);
-      stream.getTracks().forEach(track => {
-        track.removeEventListener("ended", this.displayEndEventListener!);
-      });
-      this.displayEndEventListener = undefined;
+    if (stream === this.displayStream) {
+      this.detachDisplayEndListeners(stream);
     }
 
     stream.getTracks().forEach(track => {
@@ -45,6 +43,57 @@ export class MediaStreamService {
     });
   }
 
+  /**
+   * Microphone constraints, the picked device when it is still plugged in.
+   */
+  private getAudioConstraints(deviceId: string | null): MediaStreamConstraints {
+    return {
+      audio: deviceId ? { deviceId: { ideal: deviceId } } : true,
+      video: false,
+    };
+  }
+
+  /**
+   * Enables or disables all live audio tracks of a stream.
+   */
+  private toggleStreamAudio(stream: MediaStream | null, enabled: boolean): void {
+    if (!stream) return;
+    stream.getAudioTracks().forEach(track => {
+      if (track.readyState === "live") {
+        track.enabled = enabled;
+      }
+    });
+  }
+
+  /**
+   * Binds the end handler to a display stream, both stream-level and track-level.
+   */
+  private attachDisplayEndListeners(stream: MediaStream): void {
+    // Bind the end handler via arrow function to preserve `this` context
+    this.displayEndEventListener = () => this.handleDisplayEnd();
+
+    // Listen for both stream-level and track-level end events:
+    // - inactive: stream has no more active tracks
+    // - ended: individual track stopped (e.g. user clicked "Stop sharing")
+    stream.addEventListener("inactive", this.displayEndEventListener);
+    stream.getTracks().forEach(track => {
+      track.addEventListener("ended", this.displayEndEventListener!);
+    });
+  }
+
+  /**
+   * Unbinds the end handler, stopping the stream afterwards no longer ends the session.
+   */
+  private detachDisplayEndListeners(stream: MediaStream): void {
+    if (!this.displayEndEventListener) return;
+
+    stream.removeEventListener("inactive", this.displayEndEventListener);
+    stream.getTracks().forEach(track => {
+      track.removeEventListener("ended", this.displayEndEventListener!);
+    });
+    this.displayEndEventListener = undefined;
+  }
+
   /**
    * Handles display stream ending from any source (track ended, stream inactive, etc).
    */
@@ -69,8 +118,10 @@ export class MediaStreamService {
   /**
    * Requests user permission to access the microphone and retrieves the audio stream.
    * Concurrent calls are safe: only the latest result is retained; stale streams are stopped.
+   *
+   * @param deviceId - Microphone to record from, the system default when null or unplugged
    */
-  public async getUserAudio(): Promise<MediaStream | null> {
+  public async getUserAudio(deviceId: string | null = null): Promise<MediaStream | null> {
     const acquireSeq = ++this.audioAcquireSeq;
 
     try {
@@ -78,10 +129,7 @@ export class MediaStreamService {
       this.stopTracks(this.audioStream);
       this.audioStream = null;
 
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: true,
-        video: false,
-      });
+      const stream = await navigator.mediaDevices.getUserMedia(this.getAudioConstraints(deviceId));
 
       // A newer request superseded this one while it was pending — drop this stale stream.
       if (acquireSeq !== this.audioAcquireSeq) {
@@ -103,6 +151,46 @@ export class MediaStreamService {
     }
   }
 
+  /**
+   * Opens another microphone while the current audio stream keeps running, so the
+   * peer hears the previous one until the new one is swapped in.
+   * The new stream is not in use until it is handed to replaceAudioStream().
+   *
+   * @returns The new stream, or null when the microphone failed or the request was superseded
+   */
+  public async acquireReplacementUserAudio(deviceId: string | null): Promise<MediaStream | null> {
+    const acquireSeq = ++this.audioAcquireSeq;
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia(this.getAudioConstraints(deviceId));
+
+      // Superseded, or the session was cleaned up while the request was pending
+      if (acquireSeq !== this.audioAcquireSeq) {
+        this.stopTracks(stream);
+        return null;
+      }
+
+      return stream;
+    } catch (error) {
+      log.warn("Failed to get replacement audio:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Makes a replacement stream the audio stream and stops the previous one.
+   * A muted microphone stays muted.
+   */
+  public replaceAudioStream(stream: MediaStream): void {
+    // An unplugged microphone's track has ended but still tells whether it was muted
+    const enabled = this.audioStream ? this.audioStream.getAudioTracks().some(track => track.enabled) : true;
+
+    this.stopTracks(this.audioStream);
+    this.toggleStreamAudio(stream, enabled);
+    this.audioStream = stream;
+    log.info("Audio stream replaced");
+  }
+
   /**
    * Requests user permission to capture the screen/display.
    * Concurrent calls are safe: only the latest result is retained; stale streams are stopped.
@@ -128,17 +216,7 @@ export class MediaStreamService {
       }
 
       this.displayStream = stream;
-
-      // Bind the end handler via arrow function to preserve `this` context
-      this.displayEndEventListener = () => this.handleDisplayEnd();
-
-      // Listen for both stream-level and track-level end events:
-      // - inactive: stream has no more active tracks
-      // - ended: individual track stopped (e.g. user clicked "Stop sharing")
-      this.displayStream.addEventListener("inactive", this.displayEndEventListener);
-      this.displayStream.getTracks().forEach(track => {
-        track.addEventListener("ended", this.displayEndEventListener!);
-      });
+      this.attachDisplayEndListeners(stream);
 
       return this.displayStream;
     } catch (error) {
@@ -152,6 +230,104 @@ export class MediaStreamService {
     }
   }
 
+  /**
+   * Captures another screen or window while the current display stream keeps running,
+   * so a declined or failed capture leaves the session as it was.
+   * The new stream is not in use until it is handed to replaceDisplayStream().
+   *
+   * @returns The new stream, or null when the capture failed or was superseded
+   */
+  public async acquireReplacementDisplayMedia(): Promise<MediaStream | null> {
+    const acquireSeq = ++this.displayAcquireSeq;
+
+    try {
+      const stream = await navigator.mediaDevices.getDisplayMedia({
+        audio: false,
+        video: true,
+      });
+
+      // Superseded, or the session was cleaned up while the capture was pending
+      if (acquireSeq !== this.displayAcquireSeq) {
+        this.stopTracks(stream);
+        return null;
+      }
+
+      return stream;
+    } catch (error) {
+      log.warn("Failed to get replacement display media:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Makes a replacement stream the display stream and stops the previous one.
+   * The previous stream is stopped without ending the session, the end listeners move
+   * to the new stream, and a paused display stays paused.
+   */
+  public replaceDisplayStream(stream: MediaStream): void {
+    const previous = this.displayStream;
+    const enabled = previous ? previous.getVideoTracks().some(track => track.enabled) : true;
+
+    // Still the display stream here, so its end listeners are removed before it stops
+    this.stopTracks(previous);
+
+    stream.getVideoTracks().forEach(track => {
+      track.enabled = enabled;
+    });
+    this.displayStream = stream;
+    this.isHandlingDisplayEnd = false;
+    this.attachDisplayEndListeners(stream);
+    log.info("Display stream replaced");
+  }
+
+  /**
+   * Captures the system audio on its own, only once the sharer turns it on.
+   * A display capture always comes with a screen, which is stopped right away.
+   * Platforms that cannot capture system audio answer without an audio track.
+   *
+   * @returns The system audio track, or null when none was captured or the request was superseded
+   */
+  public async acquireSystemAudio(): Promise<MediaStreamTrack | null> {
+    const acquireSeq = ++this.systemAudioAcquireSeq;
+
+    try {
+      const stream = await navigator.mediaDevices.getDisplayMedia({
+        audio: true,
+        video: true,
+      });
+      stream.getVideoTracks().forEach(track => {
+        track.stop();
+        stream.removeTrack(track);
+      });
+
+      const track = stream.getAudioTracks()[0];
+      // Superseded, turned off or cleaned up while the capture was pending
+      if (acquireSeq !== this.systemAudioAcquireSeq || !track) {
+        this.stopTracks(stream);
+        return null;
+      }
+
+      this.stopTracks(this.systemAudioStream);
+      this.systemAudioStream = stream;
+      log.info("System audio captured");
+      return track;
+    } catch (error) {
+      if (acquireSeq === this.systemAudioAcquireSeq) {
+        log.warn("Failed to capture system audio:", error);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Stops the system audio capture, a pending capture is dropped when it arrives.
+   */
+  public stopSystemAudio(): void {
+    this.systemAudioAcquireSeq += 1;
+    this.stopTracks(this.systemAudioStream);
+    this.systemAudioStream = null;
+  }
+
   /**
    * Registers a callback function to be invoked when the display media stream ends.
    */
@@ -188,12 +364,7 @@ export class MediaStreamService {
    * Enables or disables all live audio tracks.
    */
   public toggleAudioTrack(enabled: boolean): void {
-    if (!this.audioStream) return;
-    this.audioStream.getAudioTracks().forEach(track => {
-      if (track.readyState === "live") {
-        track.enabled = enabled;
-      }
-    });
+    this.toggleStreamAudio(this.audioStream, enabled);
   }
 
   /**
@@ -228,6 +399,20 @@ export class MediaStreamService {
       .some(track => track.readyState === "live" && track.enabled);
   }
 
+  /**
+   * Gets the system audio track while it is captured.
+   */
+  public getSystemAudioTrack(): MediaStreamTrack | null {
+    return this.systemAudioStream?.getAudioTracks()[0] ?? null;
+  }
+
+  /**
+   * Returns true if the system audio is captured and still live.
+   */
+  public isSystemAudioTrackActive(): boolean {
+    return !!this.systemAudioStream?.getAudioTracks().some(track => track.readyState === "live");
+  }
+
   /**
    * Checks if the OS-level display capture is alive.
    * Returns true when the underlying stream is active and has at least one live, enabled track.
@@ -248,8 +433,10 @@ export class MediaStreamService {
   public stopAllTracks(): void {
     this.stopTracks(this.audioStream);
     this.stopTracks(this.displayStream);
+    this.stopTracks(this.systemAudioStream);
     this.audioStream = null;
     this.displayStream = null;
+    this.systemAudioStream = null;
   }
 
   /**
@@ -259,6 +446,7 @@ export class MediaStreamService {
     // Invalidate any in-flight acquire calls so their results are discarded.
     this.audioAcquireSeq += 1;
     this.displayAcquireSeq += 1;
+    this.systemAudioAcquireSeq += 1;
     this.stopAllTracks();
     this.onDisplayEndCallback = undefined;
     this.displayEndEventListener = undefined;
@@ -1,13 +1,47 @@
 import log from "electron-log/renderer";
 import {
+  AnnotationStrokeUpdate,
+  ChatMessage,
+  ClipboardContentKind,
+  AudioDeviceKind,
+  ClipboardSyncState,
+  DataChannelEnvelope,
+  DataChannelMessagePayloads,
+  DataChannelMessageStats,
+  DataChannelMessageType,
+  DataChannelName,
+  FileTransferProgress,
+  LatencySample,
+  PeerFeature,
+  PeerInfo,
+  ReceivedFile,
+  RemoteClipboardEntry,
+  RemoteControlState,
+  RemoteCursorEvent,
   RemoteCursorState,
+  RemoteInputEvent,
+  SharerPointerState,
   WebRTCSharerConfig,
   WebRTCWatcherConfig,
   WebRTCServiceConfig
 } from "../../shared/types/index";
-import { getDefaultWebRTCConnectionConfig } from "../../shared/utils/index";
-import { MediaStreamService } from "./media/index";
-import { DataChannelService } from "./data/index";
+import { APP_VERSION, SHARER_POINTER_COLOR, WATCHER_CURSOR_COLOR } from "../../shared/constants/index";
+import {
+  findAudioDevice,
+  findUncapturedSpeaker,
+  getDefaultWebRTCConnectionConfig,
+  isSystemAudioSupported
+} from "../../shared/utils/index";
+import { AudioMixer, MediaStreamService } from "./media/index";
+import {
+  ClipboardSyncService,
+  DataChannelService,
+  FileTransferService,
+  LatencyMonitorService,
+  PeerInfoService,
+  RemoteControlService,
+  SharerPointerService
+} from "./data/index";
 import { PeerConnectionService } from "./connection/index";
 
 /**
@@ -17,24 +51,48 @@ import { PeerConnectionService } from "./connection/index";
 export class WebRTCService {
   private mediaService: MediaStreamService;
   private dataChannelService: DataChannelService;
+  private fileTransferService: FileTransferService;
+  private clipboardSyncService: ClipboardSyncService;
+  private remoteControlService: RemoteControlService;
+  private sharerPointerService: SharerPointerService;
+  private latencyMonitorService: LatencyMonitorService;
+  private peerInfoService: PeerInfoService;
   private connectionService: PeerConnectionService;
   private config: WebRTCServiceConfig;
   private audioElement: HTMLAudioElement | null = null;
+  // Mixes the microphone with the system audio, only while system audio is captured
+  private audioMixer: AudioMixer | null = null;
+  // Follows microphones and speakers being plugged in or out during the session
+  private deviceChangeListener?: () => void;
   private isInitialized: boolean = false;
   private combinedRemoteStream: MediaStream | null = null;
 
   // Allow external consumers to layer their own stream callback on top
   private externalRemoteStreamCallback?: (stream: MediaStream) => void;
+  private externalChannelOpenCallback?: (channelName: string) => void;
 
   constructor(config: WebRTCServiceConfig) {
     this.config = config;
     this.mediaService = new MediaStreamService();
     this.dataChannelService = new DataChannelService(config.isScreenSharer);
+    this.fileTransferService = new FileTransferService(this.dataChannelService);
+    this.clipboardSyncService = new ClipboardSyncService(this.dataChannelService);
+    this.remoteControlService = new RemoteControlService(this.dataChannelService, config.isScreenSharer);
+    this.sharerPointerService = new SharerPointerService(this.dataChannelService);
+    this.latencyMonitorService = new LatencyMonitorService(this.dataChannelService);
+    this.peerInfoService = new PeerInfoService(this.dataChannelService);
+    this.peerInfoService.setLocalIdentity(
+      config.userConfig.username,
+      config.isScreenSharer ? SHARER_POINTER_COLOR : WATCHER_CURSOR_COLOR,
+      APP_VERSION
+    );
 
     const connectionConfig = config.connectionConfig || getDefaultWebRTCConnectionConfig();
+    // Watcher is the polite peer: it yields on renegotiation offer collisions
     this.connectionService = new PeerConnectionService(
       connectionConfig,
-      this.dataChannelService
+      this.dataChannelService,
+      !config.isScreenSharer
     );
   }
 
@@ -60,6 +118,105 @@ export class WebRTCService {
     return audio;
   }
 
+  /**
+   * Element playing the peer's audio: the hidden audio element, or the watcher's video.
+   */
+  private getPlaybackElement(): HTMLMediaElement | null {
+    if (this.isWatcherConfig(this.config)) {
+      return this.config.remoteVideo;
+    }
+    return this.audioElement;
+  }
+
+  /**
+   * Plays the peer's audio on the picked speaker while it is plugged in, otherwise on the default one.
+   * While system audio is shared the peer's audio stays off the default output the capture
+   * records, otherwise the peer would hear themselves back.
+   */
+  private async routeToSpeaker(devices: MediaDeviceInfo[]): Promise<void> {
+    const element = this.getPlaybackElement();
+    const preferredId = this.config.userConfig.speakerDeviceId ?? null;
+    const isSystemAudioShared = this.isSystemAudioEnabled();
+    // Nothing to move while the default output plays and nothing is captured
+    if (!element || (!preferredId && !isSystemAudioShared && !element.sinkId)) return;
+    if (typeof element.setSinkId !== "function") {
+      log.warn("[WebRTCService] Speaker selection is not supported, using the default output");
+      return;
+    }
+
+    let speaker = isSystemAudioShared ? findUncapturedSpeaker(devices, preferredId) : null;
+    if (isSystemAudioShared && !speaker) {
+      log.warn("[WebRTCService] No speaker besides the captured default output, the peer may hear themselves");
+    }
+    speaker ??= findAudioDevice(devices, AudioDeviceKind.OUTPUT, preferredId);
+    if (!speaker || element.sinkId === speaker.deviceId) return;
+    try {
+      await element.setSinkId(speaker.deviceId);
+      log.info(`[WebRTCService] Playing audio on ${speaker.label || speaker.deviceId}`);
+    } catch (error) {
+      log.warn("[WebRTCService] Failed to route audio to the selected speaker:", error);
+    }
+  }
+
+  /**
+   * Swaps the microphone the peer hears without renegotiation: in the mix when system
+   * audio is shared, otherwise on the existing audio sender.
+   */
+  private async switchMicrophone(deviceId: string): Promise<boolean> {
+    const previousTracks = this.mediaService.getAudioStream()?.getAudioTracks() ?? [];
+    const stream = await this.mediaService.acquireReplacementUserAudio(deviceId);
+    if (!stream) return false;
+
+    let isReplaced = false;
+    const track = stream.getAudioTracks()[0];
+    try {
+      if (this.audioMixer && track) {
+        previousTracks.forEach(candidate => this.audioMixer!.removeTrack(candidate));
+        this.audioMixer.addTrack(track);
+        isReplaced = true;
+      } else {
+        isReplaced = !!track && await this.connectionService.replaceTrack(track);
+      }
+    } catch (error) {
+      log.error("[WebRTCService] Failed to switch the microphone:", error);
+    }
+
+    if (!isReplaced) {
+      stream.getTracks().forEach(candidate => candidate.stop());
+      return false;
+    }
+
+    this.mediaService.replaceAudioStream(stream);
+    log.info(`[WebRTCService] Switched to microphone ${track.label || deviceId}`);
+    return true;
+  }
+
+  /**
+   * Moves to the right devices after a device was plugged in or out: the picked ones
+   * when they are back, otherwise the system defaults, which follow a plugged-in headset.
+   */
+  private async handleDeviceChange(): Promise<void> {
+    let devices: MediaDeviceInfo[];
+    try {
+      devices = await navigator.mediaDevices.enumerateDevices();
+    } catch (error) {
+      log.warn("[WebRTCService] Failed to list devices after a device change:", error);
+      return;
+    }
+
+    await this.routeToSpeaker(devices);
+
+    // Only a microphone already in use is swapped, none is opened here
+    const track = this.mediaService.getAudioStream()?.getAudioTracks()[0];
+    if (!track) return;
+
+    const microphone = findAudioDevice(devices, AudioDeviceKind.INPUT, this.config.userConfig.microphoneDeviceId ?? null);
+    if (!microphone) return;
+    if (track.readyState === "live" && track.getSettings().groupId === microphone.groupId) return;
+
+    await this.switchMicrophone(microphone.deviceId);
+  }
+
   /**
    * Safely removes the audio element from DOM.
    */
@@ -85,22 +242,57 @@ export class WebRTCService {
     }
 
     // Add display tracks
-    for (const track of displayStream.getTracks()) {
+    for (const track of displayStream.getVideoTracks()) {
       this.connectionService.addTrack(track, displayStream);
     }
 
+    // System audio and mic go out as one mixed track, watchers play a single audio track.
+    // The system audio joins the mix only once the sharer turns it on.
+    if (await isSystemAudioSupported()) {
+      this.audioMixer = new AudioMixer();
+      this.connectionService.addTrack(this.audioMixer.getOutputTrack(), this.audioMixer.getOutputStream());
+    }
+
     // Add audio tracks (optional — mic may not be available)
     if (this.config.userConfig.isMicrophoneEnabledOnConnect) {
       const audioStream = this.mediaService.getAudioStream();
       if (audioStream) {
         for (const track of audioStream.getTracks()) {
           track.enabled = this.config.userConfig.isMicrophoneEnabledOnConnect;
-          this.connectionService.addTrack(track, audioStream);
+          this.sendAudioTrack(track, audioStream);
         }
       }
     }
   }
 
+  /**
+   * Sends a microphone track to the peer, through the mixer when system audio is shared.
+   */
+  private sendAudioTrack(track: MediaStreamTrack, stream: MediaStream): void {
+    if (this.audioMixer) {
+      this.audioMixer.addTrack(track);
+    } else {
+      this.connectionService.addTrack(track, stream);
+    }
+  }
+
+  /**
+   * Stops following devices plugged in or out.
+   */
+  private removeDeviceChangeListener(): void {
+    if (!this.deviceChangeListener) return;
+    navigator.mediaDevices.removeEventListener?.("devicechange", this.deviceChangeListener);
+    this.deviceChangeListener = undefined;
+  }
+
+  /**
+   * Stops mixing audio and releases the audio context.
+   */
+  private closeAudioMixer(): void {
+    this.audioMixer?.close();
+    this.audioMixer = null;
+  }
+
   /**
    * Sets up screen watcher media tracks (audio only).
    */
@@ -155,6 +347,14 @@ export class WebRTCService {
       // Forward combined stream to outer layer
       this.externalRemoteStreamCallback?.(this.combinedRemoteStream);
     });
+
+    // Introduce this side as soon as the peers can talk
+    this.dataChannelService.onChannelOpen((channelName: string) => {
+      if (channelName === DataChannelName.SIGNALING) {
+        this.peerInfoService.sendHello();
+      }
+      this.externalChannelOpenCallback?.(channelName);
+    });
   }
 
   /**
@@ -203,8 +403,13 @@ export class WebRTCService {
     const permitted = await this.ensureMicrophonePermission();
     if (!permitted) return false;
 
+    // A microphone that stopped working leaves the mix before its replacement joins
+    this.mediaService.getAudioStream()?.getAudioTracks().forEach(track => {
+      this.audioMixer?.removeTrack(track);
+    });
+
     // Must actively request user audio here.
-    const audioStream = await this.mediaService.getUserAudio();
+    const audioStream = await this.mediaService.getUserAudio(this.config.userConfig.microphoneDeviceId ?? null);
     if (!audioStream) {
       log.warn("[WebRTCService] Failed to acquire audio stream");
       return false;
@@ -213,7 +418,7 @@ export class WebRTCService {
     // Add all audio tracks to peer connection so remote peer can hear us.
     for (const track of audioStream.getAudioTracks()) {
       track.enabled = true;
-      this.connectionService.addTrack(track, audioStream);
+      this.sendAudioTrack(track, audioStream);
     }
 
     log.info("[WebRTCService] Audio track added to peer connection dynamically");
@@ -240,18 +445,34 @@ export class WebRTCService {
       // Register internal callbacks
       this.setupInternalCallbacks();
 
+      // Probe the round trip as soon as the ping channel opens
+      this.latencyMonitorService.start();
+
+      // Route the peer's audio to the picked speaker, and follow devices plugged in later
+      if (this.config.userConfig.speakerDeviceId) {
+        void navigator.mediaDevices.enumerateDevices()
+          .then(devices => this.routeToSpeaker(devices))
+          .catch(error => log.warn("[WebRTCService] Failed to list speakers:", error));
+      }
+      this.deviceChangeListener = () => void this.handleDeviceChange();
+      navigator.mediaDevices.addEventListener?.("devicechange", this.deviceChangeListener);
+
       // Optional: get audio stream
       // Only request microphone permission when user explicitly enables it.
       if (this.config.userConfig.isMicrophoneEnabledOnConnect) {
         const permitted = await this.ensureMicrophonePermission();
         if (permitted) {
-          await this.mediaService.getUserAudio();
+          await this.mediaService.getUserAudio(this.config.userConfig.microphoneDeviceId ?? null);
         }
       }
       
       if (this.isSharerConfig(this.config)) {
         // Sharer: capture screen — will throw if user denies
         await this.setupSharerMediaTracks();
+        // The watcher is not offered control that could never reach the screen
+        if (!(await this.remoteControlService.checkAvailability())) {
+          this.peerInfoService.withdrawFeature(PeerFeature.REMOTE_CONTROL);
+        }
       } else {
         // Watcher: only audio
         await this.setupWatcherMediaTracks();
@@ -261,9 +482,12 @@ export class WebRTCService {
       log.info("WebRTC service initialized successfully");
     } catch (error) {
       // Cleanup partial initialization
+      this.latencyMonitorService.stop();
       this.removeAudioElement();
       this.connectionService.close();
       this.mediaService.cleanup();
+      this.closeAudioMixer();
+      this.removeDeviceChangeListener();
 
       log.error("Failed to initialize WebRTC service:", error);
       throw error;
@@ -335,6 +559,80 @@ export class WebRTCService {
     return this.mediaService.isDisplayTrackActive();
   }
 
+  /**
+   * Shares another screen or window in the running session.
+   * The new capture replaces the video track on the existing sender, so the peer keeps
+   * its stream and no renegotiation happens. The previous capture keeps running until
+   * the swap succeeded and is then stopped without ending the session.
+   *
+   * @returns Whether the shared source changed
+   */
+  public async switchDisplaySource(): Promise<boolean> {
+    if (!this.isInitialized || !this.isSharerConfig(this.config)) return false;
+
+    const stream = await this.mediaService.acquireReplacementDisplayMedia();
+    if (!stream) return false;
+
+    let isReplaced = false;
+    const track = stream.getVideoTracks()[0];
+    try {
+      isReplaced = !!track && await this.connectionService.replaceTrack(track);
+    } catch (error) {
+      log.error("Failed to switch the shared source:", error);
+    }
+
+    if (!isReplaced) {
+      stream.getTracks().forEach(candidate => candidate.stop());
+      return false;
+    }
+
+    this.mediaService.replaceDisplayStream(stream);
+    return true;
+  }
+
+  /**
+   * Turns the system audio shared with the screen on or off.
+   * It is only captured while shared, and the peer's audio moves off the captured output meanwhile.
+   *
+   * @returns Whether system audio is now shared
+   */
+  public async toggleSystemAudio(): Promise<boolean> {
+    if (!this.audioMixer) return false;
+
+    const previous = this.mediaService.getSystemAudioTrack();
+    if (previous && this.mediaService.isSystemAudioTrackActive()) {
+      this.audioMixer.removeTrack(previous);
+      this.mediaService.stopSystemAudio();
+    } else {
+      if (previous) this.audioMixer.removeTrack(previous);
+      const track = await this.mediaService.acquireSystemAudio();
+      // The session may have ended while the capture was pending
+      if (track && this.audioMixer) {
+        this.audioMixer.addTrack(track);
+      } else {
+        this.mediaService.stopSystemAudio();
+      }
+    }
+
+    try {
+      await this.routeToSpeaker(await navigator.mediaDevices.enumerateDevices());
+    } catch (error) {
+      log.warn("[WebRTCService] Failed to list speakers after toggling system audio:", error);
+    }
+    return this.isSystemAudioEnabled();
+  }
+
+  /**
+   * Whether system audio can be shared with the screen in this session.
+   */
+  public hasSystemAudio(): boolean {
+    return !!this.audioMixer;
+  }
+
+  public isSystemAudioEnabled(): boolean {
+    return this.hasSystemAudio() && this.mediaService.isSystemAudioTrackActive();
+  }
+
   public setDisplayStreamEnabled(enabled: boolean): void {
     this.mediaService.toggleVideoTrack(enabled);
   }
@@ -369,6 +667,10 @@ export class WebRTCService {
     return this.dataChannelService.updateRemoteCursor(cursorData);
   }
 
+  public sendCursorEvent(event: RemoteCursorEvent): boolean {
+    return this.dataChannelService.sendCursorEvent(event);
+  }
+
   public pingRemoteCursor(cursorId: string): boolean {
     return this.dataChannelService.pingRemoteCursor(cursorId);
   }
@@ -389,18 +691,212 @@ export class WebRTCService {
     this.dataChannelService.onCursorUpdate(callback);
   }
 
+  public onCursorEvent(callback: (event: RemoteCursorEvent) => void): void {
+    this.dataChannelService.onCursorEvent(callback);
+  }
+
   public onCursorPing(callback: (cursorId: string) => void): void {
     this.dataChannelService.onCursorPing(callback);
   }
 
+  public setSharerPointerBroadcasting(enabled: boolean, name?: string): void {
+    this.sharerPointerService.setBroadcasting(enabled, name);
+  }
+
+  public setSharerPointerHighlight(enabled: boolean): void {
+    this.sharerPointerService.setHighlight(enabled);
+  }
+
+  public setSharerPointerClickRipple(enabled: boolean): void {
+    this.sharerPointerService.setClickRipple(enabled);
+  }
+
+  public getSharerPointerState(): SharerPointerState {
+    return this.sharerPointerService.getState();
+  }
+
+  public onSharerPointerStateChange(callback: (state: SharerPointerState) => void): void {
+    this.sharerPointerService.onStateChange(callback);
+  }
+
+  /**
+   * Registers a channel open callback, on top of the internal peer hello.
+   */
   public onChannelOpen(callback: (channelName: string) => void): void {
-    this.dataChannelService.onChannelOpen(callback);
+    this.externalChannelOpenCallback = callback;
   }
 
   public onChannelClose(callback: (channelName: string) => void): void {
     this.dataChannelService.onChannelClose(callback);
   }
 
+  // ============== Chat ==============
+
+  public sendChatMessage(message: ChatMessage): boolean {
+    return this.dataChannelService.sendChatMessage(message);
+  }
+
+  public isChatChannelReady(): boolean {
+    return this.dataChannelService.isChatChannelReady();
+  }
+
+  public onChatMessage(callback: (message: ChatMessage) => void): void {
+    this.dataChannelService.onChatMessage(callback);
+  }
+
+  // ============== Annotations ==============
+
+  public sendAnnotationStroke(update: AnnotationStrokeUpdate): boolean {
+    return this.dataChannelService.sendAnnotationStroke(update);
+  }
+
+  public sendAnnotationClear(): boolean {
+    return this.dataChannelService.sendAnnotationClear();
+  }
+
+  public isAnnotationChannelReady(): boolean {
+    return this.dataChannelService.isAnnotationChannelReady();
+  }
+
+  public onAnnotationStroke(callback: (update: AnnotationStrokeUpdate) => void): void {
+    this.dataChannelService.onAnnotationStroke(callback);
+  }
+
+  public onAnnotationClear(callback: () => void): void {
+    this.dataChannelService.onAnnotationClear(callback);
+  }
+
+  // ============== File Transfer ==============
+
+  public sendFile(file: File): string | null {
+    return this.fileTransferService.sendFile(file);
+  }
+
+  public cancelFileTransfer(id: string): boolean {
+    return this.fileTransferService.cancelTransfer(id);
+  }
+
+  public isFileTransferChannelReady(): boolean {
+    return this.dataChannelService.isFileTransferChannelReady();
+  }
+
+  public onFileTransferUpdate(callback: (progress: FileTransferProgress) => void): void {
+    this.fileTransferService.onTransferUpdate(callback);
+  }
+
+  public onFileReceived(callback: (file: ReceivedFile) => void): void {
+    this.fileTransferService.onFileReceived(callback);
+  }
+
+  // ============== Clipboard Sync ==============
+
+  public setClipboardSharing(enabled: boolean): Promise<boolean> {
+    return this.clipboardSyncService.setSharing(enabled);
+  }
+
+  public setClipboardIncludeImages(enabled: boolean): Promise<void> {
+    return this.clipboardSyncService.setIncludeImages(enabled);
+  }
+
+  public setClipboardAutoApply(enabled: boolean): void {
+    this.clipboardSyncService.setAutoApply(enabled);
+  }
+
+  public copyRemoteClipboard(): Promise<boolean> {
+    return this.clipboardSyncService.copyRemoteClipboard();
+  }
+
+  public isClipboardChannelReady(): boolean {
+    return this.dataChannelService.isClipboardChannelReady();
+  }
+
+  public getClipboardSyncState(): ClipboardSyncState {
+    return this.clipboardSyncService.getState();
+  }
+
+  public onClipboardSyncStateChange(callback: (state: ClipboardSyncState) => void): void {
+    this.clipboardSyncService.onStateChange(callback);
+  }
+
+  public onRemoteClipboard(callback: (entry: RemoteClipboardEntry) => void): void {
+    this.clipboardSyncService.onRemoteClipboard(callback);
+  }
+
+  public onClipboardContentTooLarge(callback: (kind: ClipboardContentKind, size: number) => void): void {
+    this.clipboardSyncService.onContentTooLarge(callback);
+  }
+
+  // ============== Remote Control ==============
+
+  public requestRemoteControl(): boolean {
+    return this.remoteControlService.requestControl();
+  }
+
+  public releaseRemoteControl(): void {
+    this.remoteControlService.releaseControl();
+  }
+
+  public respondToRemoteControlRequest(allow: boolean): Promise<boolean> {
+    return this.remoteControlService.respondToRequest(allow);
+  }
+
+  public revokeRemoteControl(): Promise<void> {
+    return this.remoteControlService.revoke();
+  }
+
+  public sendRemoteInput(event: RemoteInputEvent): boolean {
+    return this.remoteControlService.sendInput(event);
+  }
+
+  public isRemoteControlChannelReady(): boolean {
+    return this.dataChannelService.isRemoteControlChannelReady();
+  }
+
+  public getRemoteControlState(): RemoteControlState {
+    return this.remoteControlService.getState();
+  }
+
+  public onRemoteControlStateChange(callback: (state: RemoteControlState) => void): void {
+    this.remoteControlService.onStateChange(callback);
+  }
+
+  // ============== Data Channel Messages ==============
+
+  public sendMessage<T extends DataChannelMessageType>(type: T, payload: DataChannelMessagePayloads[T]): boolean {
+    return this.dataChannelService.sendMessage(type, payload);
+  }
+
+  public onMessage<T extends DataChannelMessageType>(
+    type: T,
+    handler: (payload: DataChannelMessagePayloads[T], envelope: DataChannelEnvelope<T>) => void
+  ): () => void {
+    return this.dataChannelService.onMessage(type, handler);
+  }
+
+  public getMessageStats(): DataChannelMessageStats {
+    return this.dataChannelService.getMessageStats();
+  }
+
+  // ============== Latency ==============
+
+  public onLatencySample(callback: (sample: LatencySample) => void): void {
+    this.latencyMonitorService.onSample(callback);
+  }
+
+  // ============== Peer Info ==============
+
+  public getPeerInfo(): PeerInfo | null {
+    return this.peerInfoService.getPeerInfo();
+  }
+
+  public isPeerFeatureSupported(feature: PeerFeature): boolean {
+    return this.peerInfoService.isFeatureSupported(feature);
+  }
+
+  public onPeerInfo(callback: (info: PeerInfo) => void): void {
+    this.peerInfoService.onPeerInfo(callback);
+  }
+
   // ============== Connection State ==============
 
   /**
@@ -423,6 +919,17 @@ export class WebRTCService {
     return this.connectionService.isConnected();
   }
 
+  public canRestartIce(): boolean {
+    return this.connectionService.canRestartIce();
+  }
+
+  /**
+   * Restarts ICE to recover from a network change, keeping the current media.
+   */
+  public restartIce(): boolean {
+    return this.connectionService.restartIce();
+  }
+
   // ============== Disconnect ==============
 
   /**
@@ -432,7 +939,15 @@ export class WebRTCService {
     log.info("Disconnecting WebRTC service...");
 
     this.mediaService.cleanup();
+    this.fileTransferService.cleanup();
+    this.clipboardSyncService.cleanup();
+    this.remoteControlService.cleanup();
+    this.sharerPointerService.cleanup();
+    this.latencyMonitorService.cleanup();
+    this.peerInfoService.cleanup();
     this.connectionService.cleanup();
+    this.closeAudioMixer();
+    this.removeDeviceChangeListener();
     this.removeAudioElement();
     this.combinedRemoteStream = null;
 
@@ -441,6 +956,7 @@ export class WebRTCService {
     }
 
     this.externalRemoteStreamCallback = undefined;
+    this.externalChannelOpenCallback = undefined;
     this.isInitialized = false;
 
     log.info("WebRTC service disconnected");
@@ -1,10 +1,23 @@
 // Connection Components
 export { default as ConnectionStatus } from "./ConnectionStatus.svelte";
+export { default as LatencyIndicator } from "./LatencyIndicator.svelte";
+export { default as PeerInfoBadge } from "./PeerInfoBadge.svelte";
 export { default as ConnectionUrl } from "./ConnectionUrl.svelte";
 export { default as MediaControls } from "./MediaControls.svelte";
 export { default as RemoteVideoInteract } from "./RemoteVideo.svelte";
 export { default as RemoteCursorDisplay } from "./RemoteCursor.svelte";
 export { default as SessionTimer } from "./SessionTimer.svelte";
+export { default as QrCode } from "./QrCode.svelte";
+export { default as QrImport } from "./QrImport.svelte";
+export { default as HandoffFileImport } from "./HandoffFileImport.svelte";
+export { default as ChatPanel } from "./ChatPanel.svelte";
+export { default as FileTransferPanel } from "./FileTransferPanel.svelte";
+export { default as ClipboardSyncPanel } from "./ClipboardSyncPanel.svelte";
+export { default as AnnotationToolbar } from "./AnnotationToolbar.svelte";
+export { default as RemoteControlPanel } from "./RemoteControlPanel.svelte";
+export { default as SharerPointerPanel } from "./SharerPointerPanel.svelte";
+export { default as CursorModePanel } from "./CursorModePanel.svelte";
+export { default as DisplaySourcePicker } from "./DisplaySourcePicker.svelte";
 
 // Re-export connection store for convenience
 export * from "../../stores/connection";
\ No newline at end of file
@@ -1,10 +1,10 @@
-import { writable } from "svelte/store";
+import { get, writable } from "svelte/store";
 import type { 
   PageType, 
   SessionState, 
   ToastMessage, 
 } from "../../shared/types/app-settings";
-import type { AppSettings } from "../../shared/types/index";
+import type { AppSettings, DisplaySourcePreference } from "../../shared/types/index";
 import { DEFAULT_APP_SETTINGS } from "../../shared/constants/index";
 
 // Current page store
@@ -51,18 +51,23 @@ function loadSettings(): AppSettings {
   return DEFAULT_APP_SETTINGS;
 }
 
-// Save settings to localStorage
-export function saveSettings(settings: AppSettings): void {
+// Save settings to localStorage, quietly for choices made outside the settings page
+export function saveSettings(settings: AppSettings, isQuiet = false): void {
   try {
     localStorage.setItem("lynxscreen-settings", JSON.stringify(settings));
     appSettings.set(settings);
-    showToast("Settings saved successfully", "success");
+    if (!isQuiet) showToast("Settings saved successfully", "success");
   } catch (error) {
     console.error("Failed to save settings:", error);
     showToast("Failed to save settings", "error");
   }
 }
 
+// Remember the shared screen or window
+export function rememberDisplaySource(preference: DisplaySourcePreference): void {
+  saveSettings({ ...get(appSettings), preferredDisplaySource: preference }, true);
+}
+
 // Reset settings to default
 export function resetSettings(): void {
   localStorage.removeItem("lynxscreen-settings");
@@ -1,11 +1,66 @@
 import { writable, derived, get } from "svelte/store";
 import { ConnectionManager } from "../../core/session/connection-manager";
+import { UrlSignalingTransport, WebSocketSignalingTransport } from "../../core/signaling/index";
 import {
+  AnnotationPoint,
+  AnnotationStroke,
+  AnnotationStrokeUpdate,
+  AnnotationTool,
+  AppSettings,
+  ChatHistoryEntry,
+  ChatMessage,
+  ClipboardContentKind,
+  ClipboardSyncState,
   ConnectionPhase,
+  CursorMode,
+  FileTransferProgress,
+  FileTransferStatus,
+  LatencySample,
+  PeerInfo,
   PeerRole,
-  RemoteCursorState
+  ReceivedFile,
+  ReconnectState,
+  RemoteClipboardEntry,
+  RemoteControlState,
+  RemoteControlStatus,
+  RemoteCursorEffects,
+  RemoteCursorEvent,
+  RemoteCursorState,
+  RemoteInputEvent,
+  SharerPointerState,
+  SignalingMode,
+  SignalingTransport
 } from "../../shared/types/index";
 import { WebRTCServiceConfig } from "../../shared/types/index";
+import {
+  ANNOTATION_COLORS,
+  ANNOTATION_MAX_POINTS_PER_UPDATE,
+  ANNOTATION_SEND_INTERVAL_MS,
+  CHAT_HISTORY_LIMIT,
+  CLIPBOARD_SYNC_MAX_BYTES,
+  FILE_TRANSFER_MAX_SIZE,
+  LATENCY_HISTORY_LIMIT,
+  SHARER_POINTER_COLOR
+} from "../../shared/constants/index";
+import {
+  applyAnnotationStrokeUpdate,
+  applyRemoteCursorEvent,
+  applyRemoteCursorUpdate,
+  clampAnnotationPoint,
+  clearAnnotationOverlay,
+  closeAnnotationOverlay,
+  createRemoteCursorEffects,
+  formatFileSize,
+  isShapeTool,
+  pruneExpiredAnnotationStrokes,
+  pruneRemoteCursorEffects,
+  removeOverlayCursor,
+  removeRemoteCursorEffects,
+  saveReceivedFile,
+  showAnnotationStroke,
+  showOverlayCursor,
+  showOverlayCursorEvent
+} from "../../shared/utils/index";
 import { showToast, appSettings } from "./app-settings";
 
 // ============== Connection Manager Singleton ==============
@@ -20,6 +75,13 @@ function getConnectionManager(): ConnectionManager {
   return connectionManagerInstance;
 }
 
+function createSignalingTransport(settings: AppSettings, passphrase: string): SignalingTransport {
+  if (settings.signalingMode === SignalingMode.SERVER) {
+    return new WebSocketSignalingTransport(settings.signalingServerUrl);
+  }
+  return new UrlSignalingTransport(passphrase || undefined);
+}
+
 // ============== Connection State Stores ==============
 
 export const connectionPhase = writable<ConnectionPhase>(ConnectionPhase.IDLE);
@@ -27,11 +89,16 @@ export const currentRole = writable<PeerRole | null>(null);
 export const generatedUrl = writable<string>("");
 export const errorMessage = writable<string | null>(null);
 export const isLoading = writable<boolean>(false);
+export const signalingMode = writable<SignalingMode>(SignalingMode.URL);
+// Passphrase protecting the connection URLs of the current session
+export const sessionPassphrase = writable<string>("");
 
 // Media state stores
 export const isMicrophoneEnabled = writable<boolean>(false);
 export const isDisplayEnabled = writable<boolean>(false);
 export const hasAudioInput = writable<boolean>(false);
+export const isSystemAudioEnabled = writable<boolean>(false);
+export const hasSystemAudio = writable<boolean>(false);
 export const remoteStream = writable<MediaStream | null>(null);
 
 // Cursor state stores
@@ -40,6 +107,60 @@ export const cursorPingChannelReady = writable<boolean>(false);
 export const cursorChannelsReady = writable<boolean>(false);
 export const lastCursorPingAt = writable<number | null>(null);
 export const remoteCursors = writable<Map<string, RemoteCursorState>>(new Map());
+// Laser trails, click ripples and held buttons of the remote cursors
+export const remoteCursorEffects = writable<RemoteCursorEffects>(createRemoteCursorEffects());
+// How the local cursor shows up for the peer
+export const cursorMode = writable<CursorMode>(CursorMode.POINTER);
+
+// Chat state stores
+export const chatChannelReady = writable<boolean>(false);
+export const chatMessages = writable<ChatHistoryEntry[]>([]);
+export const chatUnreadCount = writable<number>(0);
+export const isChatOpen = writable<boolean>(false);
+
+// File transfer state stores
+export const fileTransferChannelReady = writable<boolean>(false);
+export const fileTransfers = writable<FileTransferProgress[]>([]);
+
+// Clipboard sync stores, consent is never carried over to the next session
+const INITIAL_CLIPBOARD_SYNC_STATE: ClipboardSyncState = {
+  isSharing: false,
+  includeImages: false,
+  autoApply: false,
+  isPeerSharing: false
+};
+export const clipboardChannelReady = writable<boolean>(false);
+export const clipboardSyncState = writable<ClipboardSyncState>({ ...INITIAL_CLIPBOARD_SYNC_STATE });
+export const remoteClipboard = writable<RemoteClipboardEntry | null>(null);
+
+// Annotation stores, strokes are the watcher's own drawing shown over the video
+export const annotationChannelReady = writable<boolean>(false);
+export const isAnnotating = writable<boolean>(false);
+export const annotationTool = writable<AnnotationTool>(AnnotationTool.PEN);
+export const annotationColor = writable<string>(ANNOTATION_COLORS[0]);
+export const annotationStrokes = writable<Map<string, AnnotationStroke>>(new Map());
+
+// Remote control stores, control is granted for one session at most
+const INITIAL_REMOTE_CONTROL_STATE: RemoteControlState = {
+  status: RemoteControlStatus.IDLE,
+  stopShortcut: null
+};
+export const remoteControlChannelReady = writable<boolean>(false);
+export const remoteControlState = writable<RemoteControlState>({ ...INITIAL_REMOTE_CONTROL_STATE });
+
+// Sharer pointer broadcast, off until the sharer turns it on for the session
+const INITIAL_SHARER_POINTER_STATE: SharerPointerState = {
+  isBroadcasting: false,
+  highlight: true,
+  clickRipple: true
+};
+export const sharerPointerState = writable<SharerPointerState>({ ...INITIAL_SHARER_POINTER_STATE });
+
+// Round trips measured on the cursor ping channel, oldest first
+export const latencyHistory = writable<LatencySample[]>([]);
+
+// Remote peer from the hello handshake, null until it completed or with a build without it
+export const peerInfo = writable<PeerInfo | null>(null);
 
 // ICE connection state
 export const iceConnectionState = writable<RTCIceConnectionState | null>(null);
@@ -47,6 +168,9 @@ export const iceConnectionState = writable<RTCIceConnectionState | null>(null);
 // Connection state
 export const connectionState = writable<RTCPeerConnectionState | null>(null);
 
+// ICE restart progress while the connection recovers, null otherwise
+export const reconnectState = writable<ReconnectState | null>(null);
+
 // ============== Derived Stores ==============
 
 export const isConnected = derived(connectionPhase, $phase => $phase === ConnectionPhase.CONNECTED);
@@ -54,9 +178,13 @@ export const isConnecting = derived(
   connectionPhase,
   $phase => [
     ConnectionPhase.INITIALIZING,
-    ConnectionPhase.CONNECTING
+    ConnectionPhase.CONNECTING,
+    ConnectionPhase.RECONNECTING
   ].includes($phase)
 );
+export const isReconnecting = derived(connectionPhase, $phase => $phase === ConnectionPhase.RECONNECTING);
+
+export const latestLatency = derived(latencyHistory, $history => $history[$history.length - 1] ?? null);
 
 export const isSharer = derived(currentRole, $role => $role === PeerRole.SCREEN_SHARER);
 export const isWatcher = derived(currentRole, $role => $role === PeerRole.SCREEN_WATCHER);
@@ -86,6 +214,7 @@ export const phaseDisplayConfig: Record<ConnectionPhase, {
   [ConnectionPhase.ANSWER_CREATED]: { text: "Answer created", status: "ready", icon: "📥" },
   [ConnectionPhase.CONNECTING]: { text: "Connecting...", status: "warning", icon: "🔗" },
   [ConnectionPhase.CONNECTED]: { text: "Connected", status: "active", icon: "✅" },
+  [ConnectionPhase.RECONNECTING]: { text: "Reconnecting...", status: "warning", icon: "🔁" },
   [ConnectionPhase.DISCONNECTED]: { text: "Disconnected", status: "ready", icon: "🔌" },
   [ConnectionPhase.ERROR]: { text: "Error", status: "warning", icon: "❌" }
 };
@@ -111,7 +240,13 @@ function setupConnectionCallbacks(): void {
         preventAppSuspension();
         updateMediaStates();
         syncCursorChannelStates();
+        syncChatChannelState();
+        syncFileTransferChannelState();
+        syncClipboardChannelState();
+        syncAnnotationChannelState();
+        syncRemoteControlChannelState();
         startStaleCursorCheck();
+        startAnnotationPruning();
         startCursorChannelTimeout();
       }
 
@@ -148,6 +283,10 @@ function setupConnectionCallbacks(): void {
       connectionState.set(state);
     },
 
+    onReconnectStateChange: (state: ReconnectState | null) => {
+      reconnectState.set(state);
+    },
+
     onCursorUpdate: (data: RemoteCursorState) => {
       const now = Date.now();
       remoteCursors.update(cursors => {
@@ -156,24 +295,110 @@ function setupConnectionCallbacks(): void {
         return newCursors;
       });
 
+      remoteCursorEffects.update(effects => applyRemoteCursorUpdate(effects, data, now));
+      // The watcher's cursor is drawn above the shared screen, out of the capture
+      if (get(isSharer)) {
+        showOverlayCursor(data);
+      }
+
       cursorLastSeen.set(data.id, now);
       lastCursorPingAt.set(now);
     },
 
+    onCursorEvent: (event: RemoteCursorEvent) => {
+      const color = get(remoteCursors).get(event.cursorId)?.color ?? SHARER_POINTER_COLOR;
+      remoteCursorEffects.update(effects => applyRemoteCursorEvent(effects, event, color));
+      if (get(isSharer)) {
+        showOverlayCursorEvent(event);
+      }
+    },
+
     onCursorPing: (cursorId: string) => {
       const now = Date.now();
       cursorLastSeen.set(cursorId, now);
       lastCursorPingAt.set(now);
     },
 
+    onChatMessage: (message: ChatMessage) => {
+      const isNew = appendChatMessage({ ...message, isOwn: false });
+      if (isNew && !get(isChatOpen)) {
+        chatUnreadCount.update(count => count + 1);
+      }
+    },
+
+    onFileTransferUpdate: (progress: FileTransferProgress) => {
+      upsertFileTransfer(progress);
+
+      if (progress.status === FileTransferStatus.FAILED) {
+        showToast(`${progress.name}: ${progress.error ?? "transfer failed"}`, "error");
+      }
+    },
+
+    onFileReceived: (file: ReceivedFile) => {
+      void handleFileReceived(file);
+    },
+
+    onAnnotationStroke: (update: AnnotationStrokeUpdate) => {
+      showAnnotationStroke(update);
+    },
+
+    onAnnotationClear: () => {
+      clearLocalAnnotations();
+    },
+
+    onClipboardSyncStateChange: (state: ClipboardSyncState) => {
+      clipboardSyncState.set(state);
+    },
+
+    onRemoteClipboard: (entry: RemoteClipboardEntry) => {
+      const isNew = get(remoteClipboard)?.id !== entry.id;
+      remoteClipboard.set(entry);
+      if (isNew && entry.applied) {
+        showToast(`Clipboard updated with ${entry.kind === ClipboardContentKind.IMAGE ? "an image" : "text"} from the peer`, "info");
+      }
+    },
+
+    onClipboardContentTooLarge: (kind: ClipboardContentKind, size: number) => {
+      showToast(
+        `Copied ${kind} not shared: ${formatFileSize(size)} exceeds ${formatFileSize(CLIPBOARD_SYNC_MAX_BYTES)}`,
+        "error"
+      );
+    },
+
+    onRemoteControlStateChange: (state: RemoteControlState) => {
+      handleRemoteControlStateChange(state);
+    },
+
+    onSharerPointerStateChange: (state: SharerPointerState) => {
+      sharerPointerState.set(state);
+    },
+
+    onLatencySample: (sample: LatencySample) => {
+      latencyHistory.update(history => [...history, sample].slice(-LATENCY_HISTORY_LIMIT));
+    },
+
+    onPeerInfo: (info: PeerInfo) => {
+      peerInfo.set(info);
+    },
+
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     onChannelOpen: (_channelName: string) => {
       syncCursorChannelStates();
+      syncChatChannelState();
+      syncFileTransferChannelState();
+      syncClipboardChannelState();
+      syncAnnotationChannelState();
+      syncRemoteControlChannelState();
     },
 
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     onChannelClose: (_channelName: string) => {
       syncCursorChannelStates();
+      syncChatChannelState();
+      syncFileTransferChannelState();
+      syncClipboardChannelState();
+      syncAnnotationChannelState();
+      syncRemoteControlChannelState();
 
       if (!connectionManagerInstance?.isConnected()) {
         cursorLastSeen.clear();
@@ -202,6 +427,8 @@ function updateMediaStates(): void {
   isMicrophoneEnabled.set(connectionManagerInstance.isMicrophoneEnabled());
   isDisplayEnabled.set(connectionManagerInstance.isDisplayTrackEnabled());
   hasAudioInput.set(connectionManagerInstance.hasAudioInput());
+  isSystemAudioEnabled.set(connectionManagerInstance.isSystemAudioEnabled());
+  hasSystemAudio.set(connectionManagerInstance.hasSystemAudio());
 }
 
 function syncCursorChannelStates(): void {
@@ -226,6 +453,149 @@ function syncCursorChannelStates(): void {
   }
 }
 
+function syncChatChannelState(): void {
+  chatChannelReady.set(connectionManagerInstance?.isChatChannelReady() ?? false);
+}
+
+/**
+ * Adds a message to the chat history, keeping the newest CHAT_HISTORY_LIMIT entries
+ * Returns false for a message already in the history
+ */
+function appendChatMessage(entry: ChatHistoryEntry): boolean {
+  let added = false;
+  chatMessages.update(messages => {
+    if (messages.some(message => message.id === entry.id)) {
+      return messages;
+    }
+    added = true;
+    return [...messages, entry].slice(-CHAT_HISTORY_LIMIT);
+  });
+  return added;
+}
+
+function syncFileTransferChannelState(): void {
+  fileTransferChannelReady.set(connectionManagerInstance?.isFileTransferChannelReady() ?? false);
+}
+
+function upsertFileTransfer(progress: FileTransferProgress): void {
+  fileTransfers.update(transfers => {
+    const index = transfers.findIndex(transfer => transfer.id === progress.id);
+    if (index === -1) {
+      return [...transfers, progress];
+    }
+    const updated = [...transfers];
+    updated[index] = progress;
+    return updated;
+  });
+}
+
+async function handleFileReceived(file: ReceivedFile): Promise<void> {
+  try {
+    const savedPath = await saveReceivedFile(file);
+    if (savedPath) {
+      showToast(`Saved ${file.name}`, "success");
+    }
+  } catch (error) {
+    showToast(error instanceof Error ? error.message : `Failed to save ${file.name}`, "error");
+  }
+}
+
+function syncClipboardChannelState(): void {
+  clipboardChannelReady.set(connectionManagerInstance?.isClipboardChannelReady() ?? false);
+}
+
+function syncAnnotationChannelState(): void {
+  annotationChannelReady.set(connectionManagerInstance?.isAnnotationChannelReady() ?? false);
+}
+
+// Stroke being drawn by the watcher, streamed to the sharer in batches
+interface ActiveAnnotationStroke {
+  id: string;
+  tool: AnnotationTool;
+  color: string;
+  start: AnnotationPoint;
+  end: AnnotationPoint;
+  pendingPoints: AnnotationPoint[];
+  lastSentAt: number;
+}
+
+let activeAnnotationStroke: ActiveAnnotationStroke | null = null;
+let annotationPruneInterval: ReturnType<typeof setInterval> | null = null;
+const ANNOTATION_PRUNE_INTERVAL_MS = 500;
+
+/**
+ * Sends the points drawn since the last update, shapes always send start and end
+ */
+function flushAnnotationStroke(done: boolean): void {
+  const stroke = activeAnnotationStroke;
+  if (!stroke) return;
+
+  const points = isShapeTool(stroke.tool) ? [stroke.start, stroke.end] : stroke.pendingPoints;
+  stroke.pendingPoints = [];
+  stroke.lastSentAt = Date.now();
+  connectionManagerInstance?.sendAnnotationStroke({
+    id: stroke.id,
+    tool: stroke.tool,
+    color: stroke.color,
+    points,
+    done
+  });
+}
+
+/**
+ * Removes all strokes on this side: the watcher preview, or the sharer's overlay window
+ */
+function clearLocalAnnotations(): void {
+  activeAnnotationStroke = null;
+  annotationStrokes.set(new Map());
+  if (get(isSharer)) {
+    clearAnnotationOverlay();
+  }
+}
+
+function startAnnotationPruning(): void {
+  stopAnnotationPruning();
+  annotationPruneInterval = setInterval(() => {
+    annotationStrokes.update(strokes => pruneExpiredAnnotationStrokes(strokes));
+  }, ANNOTATION_PRUNE_INTERVAL_MS);
+}
+
+function stopAnnotationPruning(): void {
+  if (annotationPruneInterval) {
+    clearInterval(annotationPruneInterval);
+    annotationPruneInterval = null;
+  }
+}
+
+function syncRemoteControlChannelState(): void {
+  remoteControlChannelReady.set(connectionManagerInstance?.isRemoteControlChannelReady() ?? false);
+}
+
+// Set while the watcher gives control back itself, so it is not told the sharer ended it
+let isReleasingRemoteControl = false;
+
+function handleRemoteControlStateChange(state: RemoteControlState): void {
+  const previous = get(remoteControlState).status;
+  remoteControlState.set(state);
+  if (state.status === previous) return;
+
+  if (get(isSharer)) {
+    if (state.status === RemoteControlStatus.REQUESTED) {
+      showToast("The watcher asks to control your screen", "info");
+    }
+    return;
+  }
+
+  if (state.status === RemoteControlStatus.ACTIVE) {
+    showToast("You are now controlling the shared screen", "success");
+  } else if (state.status === RemoteControlStatus.IDLE && !isReleasingRemoteControl) {
+    showToast(
+      previous === RemoteControlStatus.REQUESTED ? "The sharer declined remote control" : "The sharer ended remote control",
+      "info"
+    );
+  }
+}
+
 const CURSOR_CHANNEL_TIMEOUT_MS = 10000;
 const CURSOR_STALE_TIMEOUT_MS = 5000;
 const CURSOR_STALE_CHECK_INTERVAL_MS = 1000;
@@ -271,11 +641,17 @@ function startStaleCursorCheck(): void {
         if (now - lastSeen > CURSOR_STALE_TIMEOUT_MS) {
           newCursors.delete(id);
           cursorLastSeen.delete(id);
+          remoteCursorEffects.update(effects => removeRemoteCursorEffects(effects, id));
+          if (get(isSharer)) {
+            removeOverlayCursor(id);
+          }
           changed = true;
         }
       }
       return changed ? newCursors : cursors;
     });
+    // Trails and ripples fade out on their own, only their elements are left to remove
+    remoteCursorEffects.update(effects => pruneRemoteCursorEffects(effects, now));
   }, CURSOR_STALE_CHECK_INTERVAL_MS);
 }
 
@@ -292,18 +668,44 @@ function resetConnectionStores(options: { clearError?: boolean } = {}): void {
   remoteStream.set(null);
   iceConnectionState.set(null);
   connectionState.set(null);
+  reconnectState.set(null);
   cursorPositionsChannelReady.set(false);
   cursorPingChannelReady.set(false);
   cursorChannelsReady.set(false);
   lastCursorPingAt.set(null);
   remoteCursors.set(new Map());
+  remoteCursorEffects.set(createRemoteCursorEffects());
+  cursorMode.set(CursorMode.POINTER);
+  chatChannelReady.set(false);
+  chatMessages.set([]);
+  chatUnreadCount.set(0);
+  isChatOpen.set(false);
+  fileTransferChannelReady.set(false);
+  fileTransfers.set([]);
+  clipboardChannelReady.set(false);
+  clipboardSyncState.set({ ...INITIAL_CLIPBOARD_SYNC_STATE });
+  remoteClipboard.set(null);
+  annotationChannelReady.set(false);
+  isAnnotating.set(false);
+  annotationStrokes.set(new Map());
+  activeAnnotationStroke = null;
+  stopAnnotationPruning();
+  closeAnnotationOverlay();
+  remoteControlChannelReady.set(false);
+  remoteControlState.set({ ...INITIAL_REMOTE_CONTROL_STATE });
+  sharerPointerState.set({ ...INITIAL_SHARER_POINTER_STATE });
+  latencyHistory.set([]);
+  peerInfo.set(null);
   isMicrophoneEnabled.set(false);
   isDisplayEnabled.set(false);
   hasAudioInput.set(false);
+  isSystemAudioEnabled.set(false);
+  hasSystemAudio.set(false);
   isLoading.set(false);
   stopCursorChannelTimeout();
   stopStaleCursorCheck();
   currentRole.set(null);
+  sessionPassphrase.set("");
 
   if (options.clearError) {
     errorMessage.set(null);
@@ -314,8 +716,9 @@ function resetConnectionStores(options: { clearError?: boolean } = {}): void {
 
 /**
  * Starts screen sharing session as sharer
+ * A passphrase encrypts the offer and answer URLs
  */
-export async function startSharing(username: string): Promise<string | null> {
+export async function startSharing(username: string, passphrase = ""): Promise<string | null> {
   isLoading.set(true);
   errorMessage.set(null);
   
@@ -326,13 +729,19 @@ export async function startSharing(username: string): Promise<string | null> {
     const config: Partial<WebRTCServiceConfig> = {
       userConfig: {
         username,
-        isMicrophoneEnabledOnConnect: settings.isMicrophoneEnabledOnConnect
+        isMicrophoneEnabledOnConnect: settings.isMicrophoneEnabledOnConnect,
+        microphoneDeviceId: settings.microphoneDeviceId,
+        speakerDeviceId: settings.speakerDeviceId
       },
       connectionConfig: {
         iceServers: settings.iceServers
       }
     };
     
+    manager.setSignalingTransport(createSignalingTransport(settings, passphrase));
+    signalingMode.set(settings.signalingMode);
+    sessionPassphrase.set(passphrase);
+
     currentRole.set(PeerRole.SCREEN_SHARER);
     const url = await manager.startSharing(username, config);
     
@@ -355,13 +764,19 @@ export async function startSharing(username: string): Promise<string | null> {
 
 /**
  * Accepts answer URL from watcher (for sharer)
+ * The passphrase, when given, replaces the one the session started with
  */
-export async function acceptAnswer(offerUrl: string): Promise<boolean> {
+export async function acceptAnswer(offerUrl: string, passphrase?: string): Promise<boolean> {
   isLoading.set(true);
   errorMessage.set(null);
   
   try {
     const manager = getConnectionManager();
+    const transport = manager.getSignalingTransport();
+    if (passphrase !== undefined && transport instanceof UrlSignalingTransport) {
+      transport.setPassphrase(passphrase);
+      sessionPassphrase.set(passphrase);
+    }
     return await manager.acceptAnswerUrl(offerUrl);
   } catch (error) {
     const message = error instanceof Error ? error.message : "Failed to accept answer";
@@ -375,11 +790,13 @@ export async function acceptAnswer(offerUrl: string): Promise<boolean> {
 
 /**
  * Joins a sharing session as watcher
+ * The passphrase is needed for encrypted offer URLs and also encrypts the answer
  */
 export async function joinSession(
   username: string, 
   offerUrl: string,
   videoElement: HTMLVideoElement,
+  passphrase = ""
 ): Promise<string | null> {
   isLoading.set(true);
   errorMessage.set(null);
@@ -391,13 +808,19 @@ export async function joinSession(
     const config: Partial<WebRTCServiceConfig> = {
       userConfig: {
         username,
-        isMicrophoneEnabledOnConnect: settings.isMicrophoneEnabledOnConnect
+        isMicrophoneEnabledOnConnect: settings.isMicrophoneEnabledOnConnect,
+        microphoneDeviceId: settings.microphoneDeviceId,
+        speakerDeviceId: settings.speakerDeviceId
       },
       connectionConfig: {
         iceServers: settings.iceServers
       }
     };
     
+    manager.setSignalingTransport(createSignalingTransport(settings, passphrase));
+    signalingMode.set(settings.signalingMode);
+    sessionPassphrase.set(passphrase);
+
     currentRole.set(PeerRole.SCREEN_WATCHER);
     const url = await manager.joinSession(username, offerUrl, videoElement, config);
     
@@ -477,6 +900,20 @@ export function toggleDisplayStream(): boolean {
   return result;
 }
 
+export async function switchDisplaySource(): Promise<boolean> {
+  if (!connectionManagerInstance) return false;
+  const result = await connectionManagerInstance.switchDisplaySource();
+  updateMediaStates();
+  return result;
+}
+
+export async function toggleSystemAudio(): Promise<boolean> {
+  if (!connectionManagerInstance) return false;
+  const result = await connectionManagerInstance.toggleSystemAudio();
+  isSystemAudioEnabled.set(connectionManagerInstance.isSystemAudioEnabled());
+  return result;
+}
+
 export function setDisplayStreamEnabled(enabled: boolean): void {
   if (!connectionManagerInstance) return;
   connectionManagerInstance.setDisplayStreamEnabled(enabled);
@@ -495,3 +932,283 @@ export function updateRemoteCursor(cursorData: RemoteCursorState): boolean {
   return connectionManagerInstance.updateRemoteCursor(cursorData);
 }
 
+export function sendCursorEvent(event: RemoteCursorEvent): boolean {
+  if (!connectionManagerInstance) return false;
+  return connectionManagerInstance.sendCursorEvent(event);
+}
+
+// ============== Chat Actions ==============
+
+/**
+ * Sends a chat message to the peer and adds it to the history
+ */
+export function sendChatMessage(text: string): boolean {
+  if (!connectionManagerInstance) return false;
+
+  const message = connectionManagerInstance.sendChatMessage(text);
+  if (!message) return false;
+
+  appendChatMessage({ ...message, isOwn: true });
+  return true;
+}
+
+/**
+ * Opens or closes the chat panel, opening it marks all messages as read
+ */
+export function setChatOpen(open: boolean): void {
+  isChatOpen.set(open);
+  if (open) {
+    chatUnreadCount.set(0);
+  }
+}
+
+// ============== File Transfer Actions ==============
+
+/**
+ * Sends a file to the peer, progress is tracked in fileTransfers
+ */
+export function sendFile(file: File): boolean {
+  if (!connectionManagerInstance) return false;
+
+  if (file.size > FILE_TRANSFER_MAX_SIZE) {
+    showToast(`${file.name} is too large (max ${formatFileSize(FILE_TRANSFER_MAX_SIZE)})`, "error");
+    return false;
+  }
+
+  if (!connectionManagerInstance.sendFile(file)) {
+    showToast(`Could not send ${file.name}, file transfer is not available`, "error");
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Cancels an outgoing or incoming file transfer
+ */
+export function cancelFileTransfer(id: string): boolean {
+  if (!connectionManagerInstance) return false;
+  return connectionManagerInstance.cancelFileTransfer(id);
+}
+
+/**
+ * Removes a finished transfer from the list
+ */
+export function dismissFileTransfer(id: string): void {
+  fileTransfers.update(transfers => transfers.filter(transfer => transfer.id !== id));
+}
+
+// ============== Clipboard Sync Actions ==============
+
+/**
+ * Starts or stops sharing the local clipboard with the peer, for this session only
+ */
+export async function setClipboardSharing(enabled: boolean): Promise<boolean> {
+  if (!connectionManagerInstance) return false;
+
+  const success = await connectionManagerInstance.setClipboardSharing(enabled);
+  if (!success) {
+    showToast("Clipboard sync is not available yet", "error");
+  }
+  return success;
+}
+
+/**
+ * Includes copied images when sharing the clipboard
+ */
+export async function setClipboardIncludeImages(enabled: boolean): Promise<void> {
+  await connectionManagerInstance?.setClipboardIncludeImages(enabled);
+}
+
+/**
+ * Writes clipboard content from the peer to the local clipboard as soon as it arrives
+ */
+export function setClipboardAutoApply(enabled: boolean): void {
+  connectionManagerInstance?.setClipboardAutoApply(enabled);
+}
+
+/**
+ * Copies the latest clipboard content received from the peer to the local clipboard
+ */
+export async function copyRemoteClipboard(): Promise<boolean> {
+  if (!connectionManagerInstance) return false;
+
+  const success = await connectionManagerInstance.copyRemoteClipboard();
+  showToast(success ? "Copied to clipboard" : "Failed to copy to clipboard", success ? "success" : "error");
+  return success;
+}
+
+// ============== Annotation Actions ==============
+
+/**
+ * Turns drawing on the shared video on or off (watcher only)
+ */
+export function setAnnotating(enabled: boolean): void {
+  if (!enabled && activeAnnotationStroke) {
+    endAnnotationStroke();
+  }
+  isAnnotating.set(enabled);
+}
+
+/**
+ * Starts a stroke at a point normalized to the shared screen
+ */
+export function beginAnnotationStroke(point: AnnotationPoint): void {
+  if (!get(isAnnotating) || !connectionManagerInstance) return;
+
+  const start = clampAnnotationPoint(point);
+  activeAnnotationStroke = {
+    id: crypto.randomUUID(),
+    tool: get(annotationTool),
+    color: get(annotationColor),
+    start,
+    end: start,
+    pendingPoints: [start],
+    lastSentAt: 0
+  };
+
+  const { id, tool, color } = activeAnnotationStroke;
+  annotationStrokes.update(strokes => applyAnnotationStrokeUpdate(strokes, {
+    id, tool, color, points: [start], done: false
+  }));
+  flushAnnotationStroke(false);
+}
+
+/**
+ * Extends the current stroke, points are sent to the sharer in throttled batches
+ */
+export function extendAnnotationStroke(point: AnnotationPoint): void {
+  const stroke = activeAnnotationStroke;
+  if (!stroke) return;
+
+  const next = clampAnnotationPoint(point);
+  stroke.end = next;
+  const isShape = isShapeTool(stroke.tool);
+  if (!isShape) {
+    stroke.pendingPoints.push(next);
+  }
+
+  annotationStrokes.update(strokes => applyAnnotationStrokeUpdate(strokes, {
+    id: stroke.id,
+    tool: stroke.tool,
+    color: stroke.color,
+    points: isShape ? [stroke.start, next] : [next],
+    done: false
+  }));
+
+  if (Date.now() - stroke.lastSentAt >= ANNOTATION_SEND_INTERVAL_MS ||
+      stroke.pendingPoints.length >= ANNOTATION_MAX_POINTS_PER_UPDATE) {
+    flushAnnotationStroke(false);
+  }
+}
+
+/**
+ * Finishes the current stroke, it fades out on both sides from now on
+ */
+export function endAnnotationStroke(): void {
+  const stroke = activeAnnotationStroke;
+  if (!stroke) return;
+
+  flushAnnotationStroke(true);
+  annotationStrokes.update(strokes => applyAnnotationStrokeUpdate(strokes, {
+    id: stroke.id,
+    tool: stroke.tool,
+    color: stroke.color,
+    points: isShapeTool(stroke.tool) ? [stroke.start, stroke.end] : [],
+    done: true
+  }));
+  activeAnnotationStroke = null;
+}
+
+/**
+ * Removes all strokes on both sides
+ */
+export function clearAnnotations(): void {
+  clearLocalAnnotations();
+  connectionManagerInstance?.clearAnnotations();
+}
+
+// ============== Remote Control Actions ==============
+
+/**
+ * Asks the sharer for control of its screen (watcher only)
+ */
+export function requestRemoteControl(): boolean {
+  if (!connectionManagerInstance) return false;
+
+  const success = connectionManagerInstance.requestRemoteControl();
+  if (!success) {
+    showToast("Remote control is not available yet", "error");
+  }
+  return success;
+}
+
+/**
+ * Withdraws a control request or gives control back (watcher only)
+ */
+export function releaseRemoteControl(): void {
+  isReleasingRemoteControl = true;
+  try {
+    connectionManagerInstance?.releaseRemoteControl();
+  } finally {
+    isReleasingRemoteControl = false;
+  }
+}
+
+/**
+ * Grants or denies the watcher's control request (sharer only)
+ */
+export async function respondToRemoteControlRequest(allow: boolean): Promise<boolean> {
+  if (!connectionManagerInstance) return false;
+
+  const granted = await connectionManagerInstance.respondToRemoteControlRequest(allow);
+  if (allow && !granted && get(remoteControlState).status === RemoteControlStatus.IDLE) {
+    showToast("Remote control could not start, share a whole screen and free the emergency stop shortcut", "error");
+  }
+  return granted;
+}
+
+/**
+ * Takes control back from the watcher (sharer only)
+ */
+export async function revokeRemoteControl(): Promise<void> {
+  await connectionManagerInstance?.revokeRemoteControl();
+}
+
+/**
+ * Sends a click, scroll or keystroke to the sharer while in control
+ */
+export function sendRemoteInput(event: RemoteInputEvent): boolean {
+  if (!connectionManagerInstance) return false;
+  return connectionManagerInstance.sendRemoteInput(event);
+}
+
+// ============== Sharer Pointer Actions ==============
+
+/**
+ * Starts or stops showing the local pointer to the watcher (sharer only)
+ */
+export function setSharerPointerBroadcasting(enabled: boolean): boolean {
+  if (!connectionManagerInstance) return false;
+
+  const name = get(appSettings).username || "Sharer";
+  const success = connectionManagerInstance.setSharerPointerBroadcasting(enabled, name);
+  if (!success && enabled) {
+    showToast("Pointer sharing is not available yet", "error");
+  }
+  return success;
+}
+
+/**
+ * Shows a highlight ring around the shared pointer
+ */
+export function setSharerPointerHighlight(enabled: boolean): void {
+  connectionManagerInstance?.setSharerPointerHighlight(enabled);
+}
+
+/**
+ * Shows a ripple on the watcher for every click
+ */
+export function setSharerPointerClickRipple(enabled: boolean): void {
+  connectionManagerInstance?.setSharerPointerClickRipple(enabled);
+}
+
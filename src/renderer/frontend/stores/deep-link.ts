@@ -0,0 +1,68 @@
+import { writable, get } from "svelte/store";
+import { ConnectionPhase, PeerRole } from "../../shared/types/index";
+import { getRoleFromUrl, isValidConnectionUrl } from "../../shared/utils/index";
+import { connectionPhase, currentRole, acceptAnswer } from "./connection";
+import { navigateTo, showToast } from "./app-settings";
+
+// Offer URL received from a lynxscreen:// link, consumed by the watch page
+export const pendingSessionUrl = writable<string>("");
+
+/**
+ * Routes a lynxscreen:// link opened outside the app.
+ * Offers go to the watch page pre-filled, answers complete the waiting share session.
+ */
+export async function openConnectionUrl(url: string): Promise<void> {
+  if (!isValidConnectionUrl(url)) {
+    showToast("Invalid LynxScreen link", "error");
+    return;
+  }
+
+  const phase = get(connectionPhase);
+  const role = getRoleFromUrl(url);
+
+  if (role === PeerRole.SCREEN_SHARER) {
+    const isBusy = phase !== ConnectionPhase.IDLE &&
+                   phase !== ConnectionPhase.DISCONNECTED &&
+                   phase !== ConnectionPhase.ERROR;
+    if (isBusy) {
+      showToast("Finish the current session before joining another one", "error");
+      return;
+    }
+
+    pendingSessionUrl.set(url);
+    navigateTo("watch");
+    showToast("Session link received", "info");
+    return;
+  }
+
+  if (role === PeerRole.SCREEN_WATCHER) {
+    if (get(currentRole) !== PeerRole.SCREEN_SHARER || phase !== ConnectionPhase.OFFER_CREATED) {
+      showToast("No sharing session is waiting for an answer", "error");
+      return;
+    }
+
+    navigateTo("active-sharing");
+    const success = await acceptAnswer(url);
+    if (success) {
+      showToast("Answer accepted, connecting...", "success");
+    }
+  }
+}
+
+/**
+ * Subscribes to deep links forwarded by the main process.
+ * Returns an unsubscribe function.
+ */
+export function initDeepLinks(): () => void {
+  const api = (window as any).electron?.protocol;
+  if (!api) return () => {}; // preload not available
+
+  const unsubscribe = api.onOpenUrl((url: string) => {
+    void openConnectionUrl(url);
+  });
+
+  // Links received before now, such as the one that launched the app, are sent once ready
+  api.ready();
+
+  return unsubscribe;
+}
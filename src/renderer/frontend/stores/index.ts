@@ -1,2 +1,3 @@
 export * from "./connection";
-export * from "./app-settings";
\ No newline at end of file
+export * from "./app-settings";
+export * from "./deep-link";
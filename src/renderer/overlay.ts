@@ -0,0 +1,9 @@
+import { mount } from "svelte";
+import Overlay from "./Overlay.svelte";
+
+// Entry of the transparent annotation window shown above the shared screen
+const overlay = mount(Overlay, {
+  target: document.body
+});
+
+export default overlay;
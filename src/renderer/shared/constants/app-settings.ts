@@ -1,11 +1,16 @@
-import { AppSettings } from "../types/index";
+import { AppSettings, SignalingMode } from "../types/index";
 
 // Default app settings
 export const DEFAULT_APP_SETTINGS: AppSettings = {
   username: "User",
   isMicrophoneEnabledOnConnect: true,
+  microphoneDeviceId: null,
+  speakerDeviceId: null,
   iceServers: [
     { urls: "stun:stun.l.google.com:19302" },
     { urls: "stun:stun1.l.google.com:19302" }
-  ]
+  ],
+  signalingMode: SignalingMode.URL,
+  signalingServerUrl: "ws://localhost:8787",
+  preferredDisplaySource: null
 };
\ No newline at end of file
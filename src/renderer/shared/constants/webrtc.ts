@@ -1,4 +1,5 @@
-import { IceServerConfig } from "../types/index";
+import { version } from "../../../../package.json";
+import { IceServerConfig, ReconnectPolicy } from "../types/index";
 
 /**
  * Default WebRTC ICE server configurations.
@@ -11,9 +12,237 @@ export const DEFAULT_ICE_SERVERS: IceServerConfig[] = [
   { urls: "stun:stun2.l.google.com:19302" }
 ];
 
+/**
+ * Retry policy for recovering a dropped connection with ICE restarts.
+ * Delays double from 1s up to 8s, about half a minute before giving up.
+ * @constant
+ */
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  maxAttempts: 5,
+  initialDelayMs: 1000,
+  maxDelayMs: 8000
+};
+
+/**
+ * Version written in every data channel message envelope.
+ * Messages from a newer version are dropped, older ones are still read.
+ * @constant
+ */
+export const DATA_CHANNEL_PROTOCOL_VERSION = 1;
+
+/**
+ * Version of this build, announced to the peer in the hello.
+ * @constant
+ */
+export const APP_VERSION: string = version;
+
+/**
+ * Longest chat message accepted, in characters.
+ * Leaves room for pasted snippets while staying well below the SCTP message size limit.
+ * @constant
+ */
+export const CHAT_MESSAGE_MAX_LENGTH = 8000;
+
+/**
+ * Chat messages kept in the session history, older ones are discarded.
+ * @constant
+ */
+export const CHAT_HISTORY_LIMIT = 200;
+
+/**
+ * Size of one binary file transfer chunk.
+ * 16 KiB is the largest message every WebRTC implementation accepts without fragmentation issues.
+ * @constant
+ */
+export const FILE_TRANSFER_CHUNK_SIZE = 16 * 1024;
+
+/**
+ * Sending pauses while more than this many bytes wait in the file channel buffer.
+ * @constant
+ */
+export const FILE_TRANSFER_BUFFER_HIGH_WATERMARK = 1024 * 1024;
+
+/**
+ * Sending resumes once the file channel buffer drained below this (bufferedAmountLowThreshold).
+ * @constant
+ */
+export const FILE_TRANSFER_BUFFER_LOW_THRESHOLD = 256 * 1024;
+
+/**
+ * Largest file accepted, received files are kept in memory until saved.
+ * @constant
+ */
+export const FILE_TRANSFER_MAX_SIZE = 512 * 1024 * 1024;
+
+/**
+ * Largest clipboard content synced, in bytes (UTF-8 text or PNG data URL).
+ * A clipboard update is a single message, so this stays below the 256 KiB SCTP message limit.
+ * @constant
+ */
+export const CLIPBOARD_SYNC_MAX_BYTES = 192 * 1024;
+
+/**
+ * How often the local clipboard is checked for changes while it is shared.
+ * @constant
+ */
+export const CLIPBOARD_SYNC_POLL_INTERVAL_MS = 1000;
+
+/**
+ * Most points in one annotation stroke update, longer batches are split.
+ * @constant
+ */
+export const ANNOTATION_MAX_POINTS_PER_UPDATE = 256;
+
+/**
+ * Freehand points are batched and sent at most this often while drawing.
+ * @constant
+ */
+export const ANNOTATION_SEND_INTERVAL_MS = 30;
+
+/**
+ * How long a finished stroke stays fully visible before it starts fading.
+ * @constant
+ */
+export const ANNOTATION_FADE_DELAY_MS = 4000;
+
+/**
+ * How long a finished stroke takes to fade out.
+ * @constant
+ */
+export const ANNOTATION_FADE_DURATION_MS = 1000;
+
+/**
+ * Stroke colors offered to the watcher, the first one is the default.
+ * @constant
+ */
+export const ANNOTATION_COLORS = ["#ef4444", "#facc15", "#22c55e", "#3b82f6", "#ffffff"];
+
+/**
+ * Pointer moves of the watcher in control are sent at most this often.
+ * Presses, releases, scrolls and keys are always sent right away.
+ * @constant
+ */
+export const REMOTE_CONTROL_MOVE_INTERVAL_MS = 16;
+
+/**
+ * Longest key name accepted in a remote key event (KeyboardEvent key and code).
+ * @constant
+ */
+export const REMOTE_CONTROL_MAX_KEY_LENGTH = 32;
+
+/**
+ * Largest scroll delta accepted in a remote wheel event, in pixels.
+ * @constant
+ */
+export const REMOTE_CONTROL_MAX_WHEEL_DELTA = 10000;
+
+/**
+ * How often the sharer's pointer is sampled while it is broadcast to the watcher.
+ * @constant
+ */
+export const SHARER_POINTER_POLL_INTERVAL_MS = 50;
+
+/**
+ * How often a resting sharer pointer is pinged so the watcher keeps showing it.
+ * @constant
+ */
+export const SHARER_POINTER_PING_INTERVAL_MS = 1500;
+
+/**
+ * Color of the sharer's pointer on the watcher side, distinct from the watcher's own cursor.
+ * @constant
+ */
+export const SHARER_POINTER_COLOR = "#F97316";
+
+/**
+ * Color of the watcher's cursor on the sharer side.
+ * @constant
+ */
+export const WATCHER_CURSOR_COLOR = "#3B82F6";
+
+/**
+ * Most trail points a laser cursor update may carry.
+ * @constant
+ */
+export const CURSOR_LASER_MAX_TRAIL_POINTS = 32;
+
+/**
+ * Cursor positions are sent on the binary stream at most this often, about once per display frame.
+ * Positions in between travel in the next frame, so nothing is skipped.
+ * @constant
+ */
+export const CURSOR_STREAM_SEND_INTERVAL_MS = 16;
+
+/**
+ * How far behind received cursor positions are played back, so the cursor moves smoothly between frames.
+ * A few frame intervals absorb jitter and the odd lost frame.
+ * @constant
+ */
+export const CURSOR_INTERPOLATION_DELAY_MS = 60;
+
+/**
+ * How long a laser trail point takes to fade out.
+ * @constant
+ */
+export const CURSOR_LASER_TRAIL_MS = 700;
+
+/**
+ * How long a click ripple animates.
+ * @constant
+ */
+export const CURSOR_RIPPLE_DURATION_MS = 600;
+
+/**
+ * How often each peer probes the round-trip latency on the cursor ping channel.
+ * @constant
+ */
+export const LATENCY_PING_INTERVAL_MS = 1000;
+
+/**
+ * Pongs arriving later than this are ignored, their ping is treated as lost.
+ * @constant
+ */
+export const LATENCY_PONG_TIMEOUT_MS = 10000;
+
+/**
+ * Consecutive round trips the jitter is averaged over.
+ * @constant
+ */
+export const LATENCY_JITTER_WINDOW = 16;
+
+/**
+ * Latency samples kept in the rolling history, two minutes at the probe interval.
+ * @constant
+ */
+export const LATENCY_HISTORY_LIMIT = 120;
 
 /**
  * URL-based signaling service for serverless P2P WebRTC connection.
  * Encodes/decodes SDP offer and answer into shareable URLs.
  */
-export const URL_PROTOCOL = "lynxscreen://";
\ No newline at end of file
+export const URL_PROTOCOL = "lynxscreen://";
+/**
+ * How long a connection URL stays valid after it was created.
+ * @constant
+ */
+export const CONNECTION_URL_TTL_MS = 15 * 60 * 1000;
+
+/**
+ * Clock difference tolerated between peers when checking URL times.
+ * @constant
+ */
+export const CONNECTION_URL_CLOCK_SKEW_MS = 2 * 60 * 1000;
+
+/**
+ * Connection URL schema version written by this build (the `v` param).
+ * Only bumped for changes older decoders cannot read, additions go in the capability list.
+ * @constant
+ */
+export const CONNECTION_URL_VERSION = 3;
+
+/**
+ * Oldest connection URL schema version this build still decodes.
+ * URLs without a `v` param are version 1.
+ * @constant
+ */
+export const CONNECTION_URL_MIN_VERSION = 1;
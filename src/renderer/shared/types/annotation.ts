@@ -0,0 +1,65 @@
+/**
+ * Enum of the drawing tools available to the watcher.
+ *
+ * @enum {string}
+ * @property {string} PEN - Freehand line.
+ * @property {string} ARROW - Straight arrow from the first to the last point.
+ * @property {string} RECTANGLE - Rectangle spanned by the first and the last point.
+ * @property {string} HIGHLIGHTER - Wide, translucent freehand line.
+ */
+export enum AnnotationTool {
+  PEN = "pen",
+  ARROW = "arrow",
+  RECTANGLE = "rectangle",
+  HIGHLIGHTER = "highlighter"
+}
+
+/**
+ * Point of a stroke, normalized to the shared screen (0-1 on both axes).
+ *
+ * @interface AnnotationPoint
+ * @property {number} x - Horizontal position, 0 is the left edge of the shared screen.
+ * @property {number} y - Vertical position, 0 is the top edge of the shared screen.
+ */
+export interface AnnotationPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Part of a stroke streamed to the sharer while it is being drawn.
+ * Freehand tools send the points added since the previous update, shapes send their
+ * start and current end point every time.
+ *
+ * @interface AnnotationStrokeUpdate
+ * @property {string} id - Unique stroke id, generated by the watcher.
+ * @property {AnnotationTool} tool - Tool the stroke is drawn with.
+ * @property {string} color - Stroke color as a #rrggbb hex string.
+ * @property {AnnotationPoint[]} points - New points, or start and end point for shapes.
+ * @property {boolean} done - True for the last update of the stroke.
+ */
+export interface AnnotationStrokeUpdate {
+  id: string;
+  tool: AnnotationTool;
+  color: string;
+  points: AnnotationPoint[];
+  done: boolean;
+}
+
+/**
+ * Stroke as rendered on either side.
+ *
+ * @interface AnnotationStroke
+ * @property {string} id - Unique stroke id.
+ * @property {AnnotationTool} tool - Tool the stroke is drawn with.
+ * @property {string} color - Stroke color as a #rrggbb hex string.
+ * @property {AnnotationPoint[]} points - All points received so far.
+ * @property {number | null} finishedAt - Local time the stroke was completed, it fades out from there.
+ */
+export interface AnnotationStroke {
+  id: string;
+  tool: AnnotationTool;
+  color: string;
+  points: AnnotationPoint[];
+  finishedAt: number | null;
+}
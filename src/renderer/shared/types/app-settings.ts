@@ -1,4 +1,6 @@
 import { IceServerConfig } from "./webrtc-service";
+import { SignalingMode } from "./signaling";
+import { DisplaySourcePreference } from "./display-source";
 
 /**
  * Application settings configured by the user.
@@ -10,13 +12,24 @@ import { IceServerConfig } from "./webrtc-service";
  * @property {string} username - The display name of the local user in the application.
  * @property {boolean} isMicrophoneEnabledOnConnect - Whether to automatically enable the microphone
  *                                                     when establishing a connection.
+ * @property {string | null} microphoneDeviceId - Microphone to record from, null for the system default.
+ * @property {string | null} speakerDeviceId - Output playing the peer's audio, null for the system default.
  * @property {IceServerConfig[]} iceServers - An array of ICE server configurations used for establishing
  *                                             WebRTC peer-to-peer connections across different networks.
+ * @property {SignalingMode} signalingMode - How offer and answer are exchanged: shared URLs or a rendezvous server.
+ * @property {string} signalingServerUrl - WebSocket URL of the rendezvous server used in server mode.
+ * @property {DisplaySourcePreference | null} preferredDisplaySource - Screen or window shared last, preselected
+ *                                                                    in the source picker.
  */
 export interface AppSettings {
   username: string
   isMicrophoneEnabledOnConnect: boolean
+  microphoneDeviceId: string | null;
+  speakerDeviceId: string | null;
   iceServers: IceServerConfig[];
+  signalingMode: SignalingMode;
+  signalingServerUrl: string;
+  preferredDisplaySource: DisplaySourcePreference | null;
 }
 
 // Page type definition - Update page names
@@ -0,0 +1,27 @@
+/**
+ * Enum of the audio devices that can be picked.
+ *
+ * @enum {string}
+ * @property {string} INPUT - Microphone, as listed by enumerateDevices.
+ * @property {string} OUTPUT - Speaker or headphones, as listed by enumerateDevices.
+ */
+export enum AudioDeviceKind {
+  INPUT = "audioinput",
+  OUTPUT = "audiooutput"
+}
+
+/**
+ * Microphone or speaker the user can pick.
+ *
+ * @interface AudioDevice
+ * @property {string} deviceId - Device id, stable for the app across runs.
+ * @property {string} groupId - Physical device, shared by the entries of one headset.
+ * @property {string} label - Device name, empty until microphone access was granted.
+ * @property {AudioDeviceKind} kind - Whether it records or plays audio.
+ */
+export interface AudioDevice {
+  deviceId: string;
+  groupId: string;
+  label: string;
+  kind: AudioDeviceKind;
+}
@@ -0,0 +1,25 @@
+/**
+ * Text message exchanged over the chat data channel.
+ *
+ * @interface ChatMessage
+ * @property {string} id - Unique message id, generated by the sender.
+ * @property {string} author - Display name of the sender.
+ * @property {string} text - Message body, line breaks and whitespace are kept.
+ * @property {number} sentAt - Send timestamp (ms since epoch).
+ */
+export interface ChatMessage {
+  id: string;
+  author: string;
+  text: string;
+  sentAt: number;
+}
+
+/**
+ * Chat message as kept in the session history.
+ *
+ * @interface ChatHistoryEntry
+ * @property {boolean} isOwn - True for messages sent by the local user.
+ */
+export interface ChatHistoryEntry extends ChatMessage {
+  isOwn: boolean;
+}
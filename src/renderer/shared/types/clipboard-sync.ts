@@ -0,0 +1,64 @@
+/**
+ * Enum of clipboard content kinds that can be synced.
+ *
+ * @enum {string}
+ * @property {string} TEXT - Plain text.
+ * @property {string} IMAGE - Image, carried as a PNG data URL.
+ */
+export enum ClipboardContentKind {
+  TEXT = "text",
+  IMAGE = "image"
+}
+
+/**
+ * Clipboard content as read from or written to the system clipboard.
+ *
+ * @interface ClipboardData
+ * @property {ClipboardContentKind} kind - What the data is.
+ * @property {string} data - The text, or a "data:image/png;base64," URL for images.
+ */
+export interface ClipboardData {
+  kind: ClipboardContentKind;
+  data: string;
+}
+
+/**
+ * Clipboard content pushed to the remote peer.
+ *
+ * @interface ClipboardContent
+ * @property {string} id - Unique update id, generated by the sender.
+ * @property {number} copiedAt - When the sender copied it (ms since epoch).
+ */
+export interface ClipboardContent extends ClipboardData {
+  id: string;
+  copiedAt: number;
+}
+
+/**
+ * Clipboard content received from the remote peer.
+ *
+ * @interface RemoteClipboardEntry
+ * @property {number} receivedAt - Reception timestamp (ms since epoch).
+ * @property {boolean} applied - True once written to the local clipboard.
+ */
+export interface RemoteClipboardEntry extends ClipboardContent {
+  receivedAt: number;
+  applied: boolean;
+}
+
+/**
+ * Clipboard sync consent of both peers for the current session.
+ * Everything starts disabled and is never persisted.
+ *
+ * @interface ClipboardSyncState
+ * @property {boolean} isSharing - Local clipboard changes are pushed to the peer.
+ * @property {boolean} includeImages - Copied images are pushed too, not only text.
+ * @property {boolean} autoApply - Content from the peer is written to the local clipboard on arrival.
+ * @property {boolean} isPeerSharing - The peer pushes its clipboard changes.
+ */
+export interface ClipboardSyncState {
+  isSharing: boolean;
+  includeImages: boolean;
+  autoApply: boolean;
+  isPeerSharing: boolean;
+}
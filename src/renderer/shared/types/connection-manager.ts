@@ -1,4 +1,11 @@
-import type { RemoteCursorState } from "./remote-cursor";
+import type { AnnotationStrokeUpdate } from "./annotation";
+import type { ChatMessage } from "./chat";
+import type { ClipboardContentKind, ClipboardSyncState, RemoteClipboardEntry } from "./clipboard-sync";
+import type { FileTransferProgress, ReceivedFile } from "./file-transfer";
+import type { LatencySample } from "./latency";
+import type { PeerInfo } from "./peer-info";
+import type { RemoteControlState } from "./remote-control";
+import type { RemoteCursorEvent, RemoteCursorState, SharerPointerState } from "./remote-cursor";
 
 /**
  * Connection state for UI updates
@@ -10,10 +17,39 @@ export enum ConnectionPhase {
   ANSWER_CREATED = "answerCreated",
   CONNECTING = "connecting",
   CONNECTED = "connected",
+  RECONNECTING = "reconnecting",
   DISCONNECTED = "disconnected",
   ERROR = "error"
 };
 
+/**
+ * Bounded retry policy used to recover a dropped connection with ICE restarts
+ *
+ * @interface ReconnectPolicy
+ * @property {number} maxAttempts - ICE restarts tried before giving up.
+ * @property {number} initialDelayMs - Wait before the first restart, lets short network blips recover by themselves.
+ * @property {number} maxDelayMs - Upper bound of the doubling delay between restarts.
+ */
+export interface ReconnectPolicy {
+  maxAttempts: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+}
+
+/**
+ * Progress of an ongoing reconnection for UI updates
+ *
+ * @interface ReconnectState
+ * @property {number} attempt - ICE restarts made so far.
+ * @property {number} maxAttempts - ICE restarts allowed by the policy.
+ * @property {number} nextRetryAt - Timestamp (ms) of the next restart, or of giving up after the last one.
+ */
+export interface ReconnectState {
+  attempt: number;
+  maxAttempts: number;
+  nextRetryAt: number;
+}
+
 /**
  * Connection manager events
  */
@@ -25,7 +61,21 @@ export interface ConnectionManagerCallbacks {
   onError?: (error: Error) => void;
   onRemoteStream?: (stream: MediaStream) => void; 
   onCursorUpdate?: (data: RemoteCursorState) => void;
+  onCursorEvent?: (event: RemoteCursorEvent) => void;
   onCursorPing?: (cursorId: string) => void;
+  onChatMessage?: (message: ChatMessage) => void;
+  onAnnotationStroke?: (update: AnnotationStrokeUpdate) => void;
+  onAnnotationClear?: () => void;
+  onFileTransferUpdate?: (progress: FileTransferProgress) => void;
+  onFileReceived?: (file: ReceivedFile) => void;
+  onClipboardSyncStateChange?: (state: ClipboardSyncState) => void;
+  onRemoteClipboard?: (entry: RemoteClipboardEntry) => void;
+  onClipboardContentTooLarge?: (kind: ClipboardContentKind, size: number) => void;
+  onRemoteControlStateChange?: (state: RemoteControlState) => void;
+  onSharerPointerStateChange?: (state: SharerPointerState) => void;
+  onLatencySample?: (sample: LatencySample) => void;
+  onPeerInfo?: (info: PeerInfo) => void;
   onChannelOpen?: (channelName: string) => void;
   onChannelClose?: (channelName: string) => void;
+  onReconnectStateChange?: (state: ReconnectState | null) => void;
 };
@@ -0,0 +1,154 @@
+import type { AnnotationStrokeUpdate } from "./annotation";
+import type { ChatMessage } from "./chat";
+import type { ClipboardContent } from "./clipboard-sync";
+import type { FileTransferOffer } from "./file-transfer";
+import type { LatencyProbe } from "./latency";
+import type { PeerHello } from "./peer-info";
+import type { RemoteInputEvent } from "./remote-control";
+import type { CursorHello, RemoteCursorEvent, RemoteCursorState } from "./remote-cursor";
+import type { DataChannelName, SignalingMessage } from "./webrtc-service";
+
+/**
+ * Enum of the message types carried over the data channels.
+ *
+ * @enum {string}
+ * @property {string} CURSOR_POSITION - Cursor position: the watcher's, rendered by the sharer,
+ *                                        or the sharer's own pointer, rendered by the watcher.
+ *                                        Only sent while the binary cursor stream is not open.
+ * @property {string} CURSOR_HELLO - Identity and look of a cursor whose positions follow on the binary stream.
+ * @property {string} CURSOR_EVENT - Button press, release or double-click of a cursor, sent by both peers.
+ * @property {string} CURSOR_PING - Cursor heartbeat, sent by both peers.
+ * @property {string} LATENCY_PING - Round-trip probe, sent by both peers.
+ * @property {string} LATENCY_PONG - Echo of a received probe.
+ * @property {string} PEER_HELLO - Version, identity and features of the sender, sent when the channels open.
+ * @property {string} PEER_HELLO_ACK - Confirms the peer hello was received.
+ * @property {string} SIGNALING - In-band renegotiation description or ICE candidate.
+ * @property {string} CHAT_MESSAGE - Text chat message, sent by both peers.
+ * @property {string} FILE_OFFER - Announces a file, its chunks follow as binary messages.
+ * @property {string} FILE_COMPLETE - Sender finished sending the chunks of a file.
+ * @property {string} FILE_CANCEL - Either peer stops a transfer.
+ * @property {string} CLIPBOARD_STATE - Sender started or stopped sharing its clipboard.
+ * @property {string} CLIPBOARD_UPDATE - Content the sender just copied.
+ * @property {string} ANNOTATION_STROKE - Watcher drawing stroke, streamed while it is drawn.
+ * @property {string} ANNOTATION_CLEAR - Either peer removes all strokes.
+ * @property {string} CONTROL_REQUEST - Watcher asks for control of the shared screen, or gives it back.
+ * @property {string} CONTROL_STATE - Sharer grants, denies or revokes control.
+ * @property {string} CONTROL_INPUT - Watcher input event, replayed by the sharer while control is granted.
+ */
+export enum DataChannelMessageType {
+  CURSOR_POSITION = "cursor.position",
+  CURSOR_HELLO = "cursor.hello",
+  CURSOR_EVENT = "cursor.event",
+  CURSOR_PING = "cursor.ping",
+  LATENCY_PING = "latency.ping",
+  LATENCY_PONG = "latency.pong",
+  PEER_HELLO = "peer.hello",
+  PEER_HELLO_ACK = "peer.hello-ack",
+  SIGNALING = "signaling",
+  CHAT_MESSAGE = "chat.message",
+  FILE_OFFER = "file.offer",
+  FILE_COMPLETE = "file.complete",
+  FILE_CANCEL = "file.cancel",
+  CLIPBOARD_STATE = "clipboard.state",
+  CLIPBOARD_UPDATE = "clipboard.update",
+  ANNOTATION_STROKE = "annotation.stroke",
+  ANNOTATION_CLEAR = "annotation.clear",
+  CONTROL_REQUEST = "control.request",
+  CONTROL_STATE = "control.state",
+  CONTROL_INPUT = "control.input"
+}
+
+/**
+ * Payload of each message type.
+ * New message types add an entry here and register a validator on the data channel service.
+ */
+export interface DataChannelMessagePayloads {
+  [DataChannelMessageType.CURSOR_POSITION]: RemoteCursorState;
+  [DataChannelMessageType.CURSOR_HELLO]: CursorHello;
+  [DataChannelMessageType.CURSOR_EVENT]: RemoteCursorEvent;
+  [DataChannelMessageType.CURSOR_PING]: { cursorId: string };
+  [DataChannelMessageType.LATENCY_PING]: LatencyProbe;
+  [DataChannelMessageType.LATENCY_PONG]: LatencyProbe;
+  [DataChannelMessageType.PEER_HELLO]: PeerHello;
+  [DataChannelMessageType.PEER_HELLO_ACK]: Record<string, never>;
+  [DataChannelMessageType.SIGNALING]: SignalingMessage;
+  [DataChannelMessageType.CHAT_MESSAGE]: ChatMessage;
+  [DataChannelMessageType.FILE_OFFER]: FileTransferOffer;
+  [DataChannelMessageType.FILE_COMPLETE]: { id: string };
+  [DataChannelMessageType.FILE_CANCEL]: { id: string; reason?: string };
+  [DataChannelMessageType.CLIPBOARD_STATE]: { sharing: boolean };
+  [DataChannelMessageType.CLIPBOARD_UPDATE]: ClipboardContent;
+  [DataChannelMessageType.ANNOTATION_STROKE]: AnnotationStrokeUpdate;
+  [DataChannelMessageType.ANNOTATION_CLEAR]: Record<string, never>;
+  [DataChannelMessageType.CONTROL_REQUEST]: { requesting: boolean };
+  [DataChannelMessageType.CONTROL_STATE]: { active: boolean };
+  [DataChannelMessageType.CONTROL_INPUT]: RemoteInputEvent;
+}
+
+/**
+ * Common envelope of every data channel message.
+ *
+ * @interface DataChannelEnvelope
+ * @property {DataChannelMessageType} type - What the payload is.
+ * @property {number} version - Protocol version of the sender.
+ * @property {number} seq - Per channel sequence number, restarts at 0 for every new channel.
+ * @property {number} ts - Send timestamp (ms since epoch).
+ * @property {object} payload - Type specific content.
+ */
+export interface DataChannelEnvelope<T extends DataChannelMessageType = DataChannelMessageType> {
+  type: T;
+  version: number;
+  seq: number;
+  ts: number;
+  payload: DataChannelMessagePayloads[T];
+}
+
+/**
+ * Registration of a message type: the channel it travels on and how its payload is checked.
+ *
+ * @interface DataChannelMessageDefinition
+ * @property {DataChannelName} channel - Data channel carrying this type.
+ * @property {Function} validate - Returns true when a received payload has the expected shape.
+ */
+export interface DataChannelMessageDefinition<T extends DataChannelMessageType = DataChannelMessageType> {
+  channel: DataChannelName;
+  validate: (payload: unknown) => payload is DataChannelMessagePayloads[T];
+}
+
+/**
+ * Enum of the reasons a received message is dropped.
+ *
+ * @enum {string}
+ * @property {string} MALFORMED - Not JSON or not an envelope, or not a well-formed binary cursor frame.
+ * @property {string} UNSUPPORTED_VERSION - Sent with a newer protocol version.
+ * @property {string} UNKNOWN_TYPE - No definition registered for the type.
+ * @property {string} WRONG_CHANNEL - Received on another channel than the one registered.
+ * @property {string} INVALID_PAYLOAD - Payload failed schema validation.
+ * @property {string} STALE - Sequence number not newer than the last one on the channel, or on the cursor stream.
+ * @property {string} UNKNOWN_STREAM - Binary cursor frame of a cursor not introduced by a hello (yet).
+ */
+export enum DataChannelDropReason {
+  MALFORMED = "malformed",
+  UNSUPPORTED_VERSION = "unsupported-version",
+  UNKNOWN_TYPE = "unknown-type",
+  WRONG_CHANNEL = "wrong-channel",
+  INVALID_PAYLOAD = "invalid-payload",
+  STALE = "stale",
+  UNKNOWN_STREAM = "unknown-stream"
+}
+
+/**
+ * Message counters of the data channel service.
+ *
+ * @interface DataChannelMessageStats
+ * @property {number} sent - Messages sent.
+ * @property {number} received - Valid messages received and dispatched.
+ * @property {number} dropped - Received messages dropped, all reasons together.
+ * @property {Record<DataChannelDropReason, number>} droppedByReason - Dropped messages per reason.
+ */
+export interface DataChannelMessageStats {
+  sent: number;
+  received: number;
+  dropped: number;
+  droppedByReason: Record<DataChannelDropReason, number>;
+}
@@ -0,0 +1,43 @@
+/**
+ * Enum of what a capture source shows.
+ *
+ * @enum {string}
+ * @property {string} SCREEN - A whole display.
+ * @property {string} WINDOW - A single application window.
+ */
+export enum DisplaySourceKind {
+  SCREEN = "screen",
+  WINDOW = "window"
+}
+
+/**
+ * Screen or window the sharer can pick, as listed by the desktop capturer.
+ *
+ * @interface DisplaySource
+ * @property {string} id - Capturer source id, window ids change from one run to the next.
+ * @property {string} name - Display name, or window title.
+ * @property {DisplaySourceKind} kind - Whether a whole display or a window is shown.
+ * @property {string} thumbnail - Preview as a data URL, empty when the capturer has none.
+ * @property {string | null} appIcon - Icon of the window's application as a data URL, null for screens.
+ */
+export interface DisplaySource {
+  id: string;
+  name: string;
+  kind: DisplaySourceKind;
+  thumbnail: string;
+  appIcon: string | null;
+}
+
+/**
+ * Source the sharer picked last, offered first the next time.
+ *
+ * @interface DisplaySourcePreference
+ * @property {string} id - Capturer source id.
+ * @property {string} name - Name, to find a window again once its id changed.
+ * @property {DisplaySourceKind} kind - Whether a display or a window was picked.
+ */
+export interface DisplaySourcePreference {
+  id: string;
+  name: string;
+  kind: DisplaySourceKind;
+}
@@ -0,0 +1,85 @@
+/**
+ * File announced to the remote peer before its chunks are sent.
+ *
+ * @interface FileTransferOffer
+ * @property {string} id - Unique transfer id, generated by the sender.
+ * @property {string} name - File name without any directory part.
+ * @property {number} size - File size in bytes.
+ * @property {string} mimeType - MIME type reported by the sender, may be empty.
+ * @property {string} sha256 - Hex encoded SHA-256 of the file content, checked by the receiver.
+ */
+export interface FileTransferOffer {
+  id: string;
+  name: string;
+  size: number;
+  mimeType: string;
+  sha256: string;
+}
+
+/**
+ * Enum of file transfer directions.
+ *
+ * @enum {string}
+ * @property {string} OUTGOING - File sent to the remote peer.
+ * @property {string} INCOMING - File received from the remote peer.
+ */
+export enum FileTransferDirection {
+  OUTGOING = "outgoing",
+  INCOMING = "incoming"
+}
+
+/**
+ * Enum of file transfer states.
+ *
+ * @enum {string}
+ * @property {string} PREPARING - Sender is reading and hashing the file.
+ * @property {string} TRANSFERRING - Chunks are being sent or received.
+ * @property {string} COMPLETED - All bytes arrived and the hash matched.
+ * @property {string} CANCELLED - Cancelled by either peer.
+ * @property {string} FAILED - Channel closed, size or hash mismatch.
+ */
+export enum FileTransferStatus {
+  PREPARING = "preparing",
+  TRANSFERRING = "transferring",
+  COMPLETED = "completed",
+  CANCELLED = "cancelled",
+  FAILED = "failed"
+}
+
+/**
+ * Progress of one file transfer for UI updates.
+ *
+ * @interface FileTransferProgress
+ * @property {string} id - Transfer id.
+ * @property {FileTransferDirection} direction - Whether the file is sent or received.
+ * @property {string} name - File name.
+ * @property {number} size - File size in bytes.
+ * @property {number} transferredBytes - Bytes sent or received so far.
+ * @property {FileTransferStatus} status - Current state.
+ * @property {string} [error] - Why the transfer failed or was cancelled.
+ */
+export interface FileTransferProgress {
+  id: string;
+  direction: FileTransferDirection;
+  name: string;
+  size: number;
+  transferredBytes: number;
+  status: FileTransferStatus;
+  error?: string;
+}
+
+/**
+ * Completely received file with a verified hash, ready to be saved.
+ *
+ * @interface ReceivedFile
+ * @property {string} id - Transfer id.
+ * @property {string} name - File name proposed by the sender.
+ * @property {string} mimeType - MIME type reported by the sender.
+ * @property {Uint8Array} data - File content.
+ */
+export interface ReceivedFile {
+  id: string;
+  name: string;
+  mimeType: string;
+  data: Uint8Array;
+}
@@ -1,4 +1,15 @@
+export * from "./annotation";
 export * from "./app-settings";
+export * from "./audio-device";
+export * from "./chat";
+export * from "./clipboard-sync";
 export * from "./connection-manager";
+export * from "./data-channel";
+export * from "./display-source";
+export * from "./file-transfer";
+export * from "./latency";
+export * from "./peer-info";
+export * from "./remote-control";
 export * from "./remote-cursor";
+export * from "./signaling";
 export * from "./webrtc-service";
@@ -0,0 +1,26 @@
+/**
+ * Timestamped probe of the latency monitor, echoed back unchanged by the remote peer.
+ *
+ * @interface LatencyProbe
+ * @property {number} id - Probe number, increasing for the session.
+ * @property {number} sentAt - Send time on the prober's monotonic clock (performance.now()),
+ *                             only ever compared to the same clock.
+ */
+export interface LatencyProbe {
+  id: number;
+  sentAt: number;
+}
+
+/**
+ * One application-level round-trip measurement.
+ *
+ * @interface LatencySample
+ * @property {number} rttMs - Time from sending the ping to receiving its pong.
+ * @property {number} jitterMs - Mean variation between consecutive round trips, over the recent samples.
+ * @property {number} at - When the pong was received (ms since epoch).
+ */
+export interface LatencySample {
+  rttMs: number;
+  jitterMs: number;
+  at: number;
+}
@@ -0,0 +1,54 @@
+/**
+ * Enum of the optional session features a build supports, announced in the peer hello.
+ * A feature is only used once both peers announced it.
+ *
+ * @enum {string}
+ * @property {string} CHAT - Text chat.
+ * @property {string} FILE_TRANSFER - Sending files.
+ * @property {string} CLIPBOARD - Clipboard sync.
+ * @property {string} ANNOTATIONS - Watcher drawings on the sharer's screen.
+ * @property {string} REMOTE_CONTROL - Consent-gated control of the shared screen.
+ * @property {string} CURSOR_STREAM - Binary cursor frames on the unordered cursor stream.
+ * @property {string} LATENCY - Round-trip probes on the cursor ping channel.
+ */
+export enum PeerFeature {
+  CHAT = "chat",
+  FILE_TRANSFER = "file-transfer",
+  CLIPBOARD = "clipboard",
+  ANNOTATIONS = "annotations",
+  REMOTE_CONTROL = "remote-control",
+  CURSOR_STREAM = "cursor-stream",
+  LATENCY = "latency"
+}
+
+/**
+ * What a peer tells about itself once the data channels open.
+ *
+ * @interface PeerHello
+ * @property {string} appVersion - Version of the peer's build.
+ * @property {string} name - Display name of the peer.
+ * @property {string} cursorColor - Color of the peer's cursor as shown on this side.
+ * @property {string[]} features - Features the peer supports, newer builds may list ones unknown here.
+ */
+export interface PeerHello {
+  appVersion: string;
+  name: string;
+  cursorColor: string;
+  features: string[];
+}
+
+/**
+ * The remote peer, known once both hellos were exchanged and acknowledged.
+ *
+ * @interface PeerInfo
+ * @property {string} appVersion - Version of the peer's build.
+ * @property {string} name - Display name of the peer.
+ * @property {string} cursorColor - Color of the peer's cursor.
+ * @property {PeerFeature[]} features - Features both peers support, the only ones used in the session.
+ */
+export interface PeerInfo {
+  appVersion: string;
+  name: string;
+  cursorColor: string;
+  features: PeerFeature[];
+}
@@ -0,0 +1,125 @@
+/**
+ * Enum of the remote control session states, seen from either peer.
+ *
+ * @enum {string}
+ * @property {string} IDLE - Nobody controls the shared screen.
+ * @property {string} REQUESTED - The watcher asked for control, the sharer has not answered yet.
+ * @property {string} ACTIVE - The sharer granted control, watcher input is replayed on its screen.
+ * @property {string} UNAVAILABLE - The sharer cannot replay input on its system, requests are denied.
+ */
+export enum RemoteControlStatus {
+  IDLE = "idle",
+  REQUESTED = "requested",
+  ACTIVE = "active",
+  UNAVAILABLE = "unavailable"
+}
+
+/**
+ * Remote control session state.
+ *
+ * @interface RemoteControlState
+ * @property {RemoteControlStatus} status - Where the consent flow is.
+ * @property {string | null} stopShortcut - Emergency stop shortcut of the sharer, set on the sharer while active.
+ */
+export interface RemoteControlState {
+  status: RemoteControlStatus;
+  stopShortcut: string | null;
+}
+
+/**
+ * Enum of the input event types the watcher sends while in control.
+ *
+ * @enum {string}
+ * @property {string} MOUSE_MOVE - Pointer moved.
+ * @property {string} MOUSE_DOWN - Mouse button pressed.
+ * @property {string} MOUSE_UP - Mouse button released.
+ * @property {string} WHEEL - Scroll wheel or touchpad scroll.
+ * @property {string} KEY_DOWN - Key pressed.
+ * @property {string} KEY_UP - Key released.
+ */
+export enum RemoteInputEventType {
+  MOUSE_MOVE = "mouse.move",
+  MOUSE_DOWN = "mouse.down",
+  MOUSE_UP = "mouse.up",
+  WHEEL = "wheel",
+  KEY_DOWN = "key.down",
+  KEY_UP = "key.up"
+}
+
+/**
+ * Enum of the mouse buttons that can be pressed remotely.
+ *
+ * @enum {string}
+ */
+export enum RemoteMouseButton {
+  LEFT = "left",
+  MIDDLE = "middle",
+  RIGHT = "right"
+}
+
+/**
+ * Modifier keys held during a key event.
+ *
+ * @interface RemoteKeyModifiers
+ */
+export interface RemoteKeyModifiers {
+  alt: boolean;
+  ctrl: boolean;
+  meta: boolean;
+  shift: boolean;
+}
+
+/**
+ * Pointer move, coordinates normalized (0 to 1) to the shared screen.
+ *
+ * @interface RemoteMouseMoveEvent
+ */
+export interface RemoteMouseMoveEvent {
+  type: RemoteInputEventType.MOUSE_MOVE;
+  x: number;
+  y: number;
+}
+
+/**
+ * Mouse button press or release at a normalized position.
+ *
+ * @interface RemoteMouseButtonEvent
+ */
+export interface RemoteMouseButtonEvent {
+  type: RemoteInputEventType.MOUSE_DOWN | RemoteInputEventType.MOUSE_UP;
+  x: number;
+  y: number;
+  button: RemoteMouseButton;
+}
+
+/**
+ * Scroll at a normalized position, deltas in pixels.
+ *
+ * @interface RemoteWheelEvent
+ */
+export interface RemoteWheelEvent {
+  type: RemoteInputEventType.WHEEL;
+  x: number;
+  y: number;
+  deltaX: number;
+  deltaY: number;
+}
+
+/**
+ * Key press or release.
+ *
+ * @interface RemoteKeyEvent
+ * @property {string} key - KeyboardEvent.key, the character or named key produced.
+ * @property {string} code - KeyboardEvent.code, the physical key.
+ */
+export interface RemoteKeyEvent {
+  type: RemoteInputEventType.KEY_DOWN | RemoteInputEventType.KEY_UP;
+  key: string;
+  code: string;
+  modifiers: RemoteKeyModifiers;
+}
+
+/**
+ * Input event replayed on the sharer's screen while the watcher is in control.
+ */
+export type RemoteInputEvent = RemoteMouseMoveEvent | RemoteMouseButtonEvent | RemoteWheelEvent | RemoteKeyEvent;
@@ -1,3 +1,29 @@
+/**
+ * Enum of the ways a remote cursor is shown.
+ *
+ * @enum {string}
+ * @property {string} POINTER - Regular arrow, for "click here".
+ * @property {string} LASER - Glowing dot leaving a fading trail, for "look here".
+ */
+export enum CursorMode {
+  POINTER = "pointer",
+  LASER = "laser"
+}
+
+/**
+ * Enum of the button events sent along with a remote cursor.
+ *
+ * @enum {string}
+ * @property {string} BUTTON_DOWN - A mouse button was pressed, a drag lasts until the release.
+ * @property {string} BUTTON_UP - The button was released.
+ * @property {string} DOUBLE_CLICK - Two clicks in quick succession.
+ */
+export enum CursorEventType {
+  BUTTON_DOWN = "button.down",
+  BUTTON_UP = "button.up",
+  DOUBLE_CLICK = "double.click"
+}
+
 /**
  * Represents the state information of a remote cursor in the screen sharing session.
  *
@@ -11,6 +37,10 @@
  *                            Used to distinguish between multiple remote cursors on the shared screen.
  * @property {number} x - The X-coordinate (horizontal position) of the remote cursor on the screen.
  * @property {number} y - The Y-coordinate (vertical position) of the remote cursor on the screen.
+ * @property {boolean} [highlight] - Whether a highlight ring is drawn around the cursor.
+ * @property {CursorMode} [mode] - How the cursor is shown, a pointer when absent.
+ * @property {CursorTrailPoint[]} [trail] - Positions passed between the previous update and this one, oldest first.
+ *                                          Drawn as the laser trail and played back to move the cursor smoothly.
  */
 export interface RemoteCursorState {
   id: string
@@ -18,4 +48,143 @@ export interface RemoteCursorState {
   color: string
   x: number
   y: number
+  highlight?: boolean
+  mode?: CursorMode
+  trail?: CursorTrailPoint[]
+}
+
+/**
+ * Position passed by a laser pointer, normalized like the cursor itself.
+ *
+ * @interface CursorTrailPoint
+ * @property {number} x - Horizontal position.
+ * @property {number} y - Vertical position.
+ */
+export interface CursorTrailPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * One-time introduction of a cursor on the binary stream: its identity and look.
+ * Sent again on the reliable cursor channel whenever the look changes, frames only carry positions.
+ *
+ * @interface CursorHello
+ * @property {number} streamId - Number the frames of this cursor are tagged with (16-bit).
+ * @property {string} cursorId - Unique identifier of the cursor.
+ * @property {string} name - Display name.
+ * @property {string} color - Cursor color.
+ * @property {boolean} [highlight] - Whether a highlight ring is drawn around the cursor.
+ * @property {CursorMode} [mode] - How the cursor is shown, a pointer when absent.
+ */
+export interface CursorHello {
+  streamId: number;
+  cursorId: string;
+  name: string;
+  color: string;
+  highlight?: boolean;
+  mode?: CursorMode;
+}
+
+/**
+ * Binary cursor stream frame, decoded.
+ * Frames are self-contained so losing or reordering some never corrupts the next ones.
+ *
+ * @interface CursorFrame
+ * @property {number} streamId - Cursor the frame belongs to, as introduced by its hello.
+ * @property {number} seq - Frame number of the stream (16-bit, wraps around).
+ * @property {CursorTrailPoint[]} points - Positions since the previous frame, oldest first, the last one is current.
+ */
+export interface CursorFrame {
+  streamId: number;
+  seq: number;
+  points: CursorTrailPoint[];
+}
+
+/**
+ * Cursor position with the local time it is played back at.
+ *
+ * @interface TimedCursorPoint
+ * @property {number} at - Playback time (ms since epoch).
+ */
+export interface TimedCursorPoint extends CursorTrailPoint {
+  at: number;
+}
+
+/**
+ * Button event of a remote cursor, sent as soon as it happens.
+ *
+ * @interface RemoteCursorEvent
+ * @property {string} cursorId - Cursor the event belongs to.
+ * @property {CursorEventType} type - What happened.
+ * @property {number} x - Horizontal position of the event.
+ * @property {number} y - Vertical position of the event.
+ */
+export interface RemoteCursorEvent {
+  cursorId: string;
+  type: CursorEventType;
+  x: number;
+  y: number;
+}
+
+/**
+ * Laser trail point as rendered, with when it was received.
+ *
+ * @interface RenderedTrailPoint
+ * @property {string} id - Unique id, each point fades out on its own.
+ * @property {number} at - Local receive time (ms since epoch).
+ */
+export interface RenderedTrailPoint extends CursorTrailPoint {
+  id: string;
+  at: number;
+}
+
+/**
+ * Ripple drawn where a remote cursor clicked.
+ *
+ * @interface CursorRipple
+ * @property {string} id - Unique id of the ripple.
+ * @property {string} cursorId - Cursor that clicked.
+ * @property {number} x - Horizontal position.
+ * @property {number} y - Vertical position.
+ * @property {string} color - Color of the cursor.
+ * @property {boolean} isDouble - Double-clicks get a second ring.
+ * @property {number} at - Local receive time (ms since epoch).
+ */
+export interface CursorRipple {
+  id: string;
+  cursorId: string;
+  x: number;
+  y: number;
+  color: string;
+  isDouble: boolean;
+  at: number;
+}
+
+/**
+ * Animated marks of the remote cursors: laser trails, click ripples and held buttons.
+ *
+ * @interface RemoteCursorEffects
+ * @property {Record<string, RenderedTrailPoint[]>} trails - Laser trail of each cursor, oldest first.
+ * @property {CursorRipple[]} ripples - Ripples still animating.
+ * @property {string[]} pressed - Cursors holding a button down.
+ */
+export interface RemoteCursorEffects {
+  trails: Record<string, RenderedTrailPoint[]>;
+  ripples: CursorRipple[];
+  pressed: string[];
+}
+
+/**
+ * Broadcast of the sharer's own pointer to the watcher.
+ *
+ * @interface SharerPointerState
+ * @property {boolean} isBroadcasting - Whether the pointer is sent to the watcher.
+ * @property {boolean} highlight - Whether the watcher draws a highlight ring around it.
+ * @property {boolean} clickRipple - Whether clicks are sent so the watcher draws a ripple.
+ */
+export interface SharerPointerState {
+  isBroadcasting: boolean;
+  highlight: boolean;
+  clickRipple: boolean;
 }
\ No newline at end of file
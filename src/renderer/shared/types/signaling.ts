@@ -0,0 +1,182 @@
+import type { PeerRole } from "./webrtc-service";
+
+/**
+ * Enum defining how session descriptions reach the other peer.
+ *
+ * @enum {string}
+ * @property {string} URL - Offer and answer are copied as lynxscreen:// links by the users.
+ * @property {string} SERVER - Offer and answer are relayed by a WebSocket rendezvous server
+ *                             and peers only exchange a short room code.
+ */
+export enum SignalingMode {
+  URL = "url",
+  SERVER = "server"
+}
+
+/**
+ * Session description received from the remote peer.
+ *
+ * @interface SignalingPayload
+ * @property {PeerRole} role - Role of the peer that created the description.
+ * @property {string} username - Display name of that peer.
+ * @property {RTCSessionDescriptionInit} sdp - The offer or answer.
+ */
+export interface SignalingPayload {
+  role: PeerRole;
+  username: string;
+  sdp: RTCSessionDescriptionInit;
+}
+
+/**
+ * Carries the initial offer and answer between peers.
+ *
+ * The sharer publishes its offer and gets back a token for the user to share
+ * (a connection URL or a room code). The watcher resolves that token into the offer
+ * and publishes its answer. Transports that cannot deliver the answer themselves
+ * return a token the watcher sends back by hand.
+ *
+ * @interface SignalingTransport
+ * @property {SignalingMode} mode - Which signaling flow this transport implements.
+ * @property {boolean} deliversAnswer - Whether answers reach the sharer without user action.
+ */
+export interface SignalingTransport {
+  readonly mode: SignalingMode;
+  readonly deliversAnswer: boolean;
+
+  /**
+   * Publishes the sharer offer
+   * @returns Token the watcher needs to join
+   */
+  publishOffer(username: string, offer: RTCSessionDescriptionInit): Promise<string>;
+
+  /**
+   * Resolves a token shared by the sharer into its offer
+   */
+  receiveOffer(token: string): Promise<SignalingPayload>;
+
+  /**
+   * Publishes the watcher answer
+   * @returns Token to send back to the sharer when the answer is not delivered automatically
+   */
+  publishAnswer(username: string, answer: RTCSessionDescriptionInit): Promise<string>;
+
+  /**
+   * Resolves a token sent back by the watcher into its answer
+   */
+  receiveAnswer(token: string): Promise<SignalingPayload>;
+
+  /**
+   * Registers the handler for answers pushed by the transport
+   */
+  onRemoteAnswer(callback: (payload: SignalingPayload) => void): void;
+
+  /**
+   * Releases connections held by the transport
+   */
+  close(): void;
+}
+
+/**
+ * Enum describing why a connection URL was rejected.
+ *
+ * @enum {string}
+ * @property {string} MALFORMED - Not a LynxScreen URL or the payload cannot be read.
+ * @property {string} EXPIRED - The URL is past its expiry time.
+ * @property {string} TAMPERED - The signature does not match the URL contents.
+ * @property {string} SESSION_MISMATCH - The URL belongs to another session.
+ * @property {string} PASSPHRASE_REQUIRED - The payload is encrypted and no passphrase was given.
+ * @property {string} WRONG_PASSPHRASE - The passphrase does not decrypt the payload.
+ * @property {string} NOT_PROTECTED - A passphrase is set but the payload is not encrypted with it.
+ * @property {string} LOCAL_UPDATE_REQUIRED - The URL uses a schema version newer than this build.
+ * @property {string} PEER_UPDATE_REQUIRED - The URL uses a schema version this build no longer reads.
+ */
+export enum ConnectionUrlErrorCode {
+  MALFORMED = "malformed",
+  EXPIRED = "expired",
+  TAMPERED = "tampered",
+  SESSION_MISMATCH = "session-mismatch",
+  PASSPHRASE_REQUIRED = "passphrase-required",
+  WRONG_PASSPHRASE = "wrong-passphrase",
+  NOT_PROTECTED = "not-protected",
+  LOCAL_UPDATE_REQUIRED = "local-update-required",
+  PEER_UPDATE_REQUIRED = "peer-update-required"
+}
+
+/**
+ * Enum of optional URL features a build understands, listed in every URL it creates
+ * so the other peer only uses what both sides support.
+ *
+ * @enum {string}
+ * @property {string} MINIFIED_SDP - Structured binary SDP encoding ("mn:" tokens).
+ * @property {string} PASSPHRASE - Passphrase encrypted SDP ("ec:" tokens).
+ */
+export enum ConnectionUrlCapability {
+  MINIFIED_SDP = "sdp-min",
+  PASSPHRASE = "passphrase"
+}
+
+/**
+ * Error raised for a connection URL that cannot be used.
+ *
+ * @property {ConnectionUrlErrorCode} code - Why the URL was rejected.
+ */
+export class ConnectionUrlError extends Error {
+  constructor(public readonly code: ConnectionUrlErrorCode, message: string) {
+    super(message);
+    this.name = "ConnectionUrlError";
+  }
+}
+
+/**
+ * Contents of a decoded connection URL.
+ *
+ * @interface DecodedConnectionUrl
+ * @property {number} version - URL schema version.
+ * @property {string[]} capabilities - Features the peer that created the URL supports,
+ *                                     may contain values unknown to this build.
+ * @property {string | null} sessionId - Session the URL belongs to, null for legacy URLs.
+ * @property {number | null} createdAt - Creation time in ms since epoch, null for legacy URLs.
+ * @property {number | null} expiresAt - Expiry time in ms since epoch, null for legacy URLs.
+ */
+export interface DecodedConnectionUrl extends SignalingPayload {
+  version: number;
+  capabilities: string[];
+  sessionId: string | null;
+  createdAt: number | null;
+  expiresAt: number | null;
+}
+
+/**
+ * Result of decoding a connection URL, either its contents or why it was rejected.
+ */
+export type ConnectionUrlDecodeResult =
+  | { ok: true; payload: DecodedConnectionUrl }
+  | { ok: false; error: ConnectionUrlError };
+
+/**
+ * Options for encoding a connection URL.
+ *
+ * @interface ConnectionUrlEncodeOptions
+ * @property {string} [passphrase] - Encrypts the SDP when set.
+ * @property {string} [sessionId] - Session the URL belongs to, a new one is generated when omitted.
+ * @property {number} [ttlMs] - How long the URL stays valid.
+ * @property {string[]} [peerCapabilities] - Features of the peer the URL is for, limits the encoding to them.
+ */
+export interface ConnectionUrlEncodeOptions {
+  passphrase?: string;
+  sessionId?: string;
+  ttlMs?: number;
+  peerCapabilities?: string[];
+}
+
+/**
+ * Options for decoding a connection URL.
+ *
+ * @interface ConnectionUrlDecodeOptions
+ * @property {string} [passphrase] - Needed for encrypted URLs, once set unencrypted URLs are rejected.
+ * @property {string} [expectedSessionId] - Rejects URLs from any other session.
+ */
+export interface ConnectionUrlDecodeOptions {
+  passphrase?: string;
+  expectedSessionId?: string;
+}
@@ -26,10 +26,14 @@ export interface IceServerConfig {
  * @property {string} username - The display name of the local user, used in connection metadata.
  * @property {boolean} isMicrophoneEnabledOnConnect - Whether to automatically enable the microphone
  *                                                     when establishing a WebRTC connection.
+ * @property {string | null} [microphoneDeviceId] - Microphone to record from, system default when unset.
+ * @property {string | null} [speakerDeviceId] - Output playing the peer's audio, system default when unset.
  */
 export interface WebRTCUserConfig {
   username: string;
   isMicrophoneEnabledOnConnect: boolean;
+  microphoneDeviceId?: string | null;
+  speakerDeviceId?: string | null;
 }
 
 /**
@@ -77,14 +81,42 @@ export interface WebRTCConnectionConfig {
  * @enum {string}
  * @property {string} CURSOR_POSITIONS - Data channel for transmitting remote cursor position updates.
  *                                        Used to sync the cursor coordinates of the other peer.
+ * @property {string} CURSOR_STREAM - Unordered data channel without retransmits, carrying binary cursor frames.
+ *                                     A late frame is worth less than the next one, so losses are not repaired.
  * @property {string} CURSOR_PING - Data channel for sending cursor ping/heartbeat messages.
  *                                   Used to keep the cursor connection alive or detect disconnections.
+ * @property {string} SIGNALING - Data channel for in-band signaling (renegotiation offers/answers
+ *                                and trickled ICE candidates) once the initial URL handshake is done.
+ * @property {string} CHAT - Reliable, ordered data channel for text chat between the peers.
+ * @property {string} FILE_TRANSFER - Reliable, ordered data channel carrying file offers and binary file chunks.
+ * @property {string} CLIPBOARD - Reliable, ordered data channel for opt-in clipboard sync.
+ * @property {string} ANNOTATIONS - Reliable, ordered data channel streaming the watcher's drawings.
+ * @property {string} REMOTE_CONTROL - Reliable, ordered data channel for the control consent flow and input events.
  */
 export enum DataChannelName {
   CURSOR_POSITIONS = "remoteCursorPositions",
-  CURSOR_PING = "remoteCursorPing"
+  CURSOR_STREAM = "remoteCursorStream",
+  CURSOR_PING = "remoteCursorPing",
+  SIGNALING = "signaling",
+  CHAT = "chat",
+  FILE_TRANSFER = "fileTransfer",
+  CLIPBOARD = "clipboard",
+  ANNOTATIONS = "annotations",
+  REMOTE_CONTROL = "remoteControl"
 }
 
+/**
+ * Message exchanged over the signaling data channel.
+ *
+ * After the first offer/answer has been exchanged through URLs, every subsequent
+ * negotiation (new tracks, source switches, ICE restarts) travels in-band:
+ * - description: a renegotiation offer or answer
+ * - candidate: a trickled ICE candidate discovered after the initial handshake
+ */
+export type SignalingMessage =
+  | { kind: "description"; description: RTCSessionDescriptionInit }
+  | { kind: "candidate"; candidate: RTCIceCandidateInit };
+
 /**
  * Configuration object for initializing and managing the WebRTC service.
  * 
@@ -0,0 +1,192 @@
+import log from "electron-log/renderer";
+import {
+  AnnotationPoint,
+  AnnotationStroke,
+  AnnotationStrokeUpdate,
+  AnnotationTool
+} from "../types/index";
+import { ANNOTATION_FADE_DELAY_MS, ANNOTATION_FADE_DURATION_MS } from "../constants/index";
+
+/**
+ * Line width of each tool, as a fraction of the drawing surface height.
+ * Relative widths keep the watcher preview and the sharer's screen looking alike.
+ */
+const TOOL_WIDTHS: Record<AnnotationTool, number> = {
+  [AnnotationTool.PEN]: 0.004,
+  [AnnotationTool.ARROW]: 0.004,
+  [AnnotationTool.RECTANGLE]: 0.003,
+  [AnnotationTool.HIGHLIGHTER]: 0.02
+};
+
+/**
+ * Checks if a tool draws a shape from two points rather than a freehand line.
+ */
+export function isShapeTool(tool: AnnotationTool): boolean {
+  return tool === AnnotationTool.ARROW || tool === AnnotationTool.RECTANGLE;
+}
+
+/**
+ * Keeps a point inside the shared screen.
+ */
+export function clampAnnotationPoint(point: AnnotationPoint): AnnotationPoint {
+  return {
+    x: Math.min(1, Math.max(0, point.x)),
+    y: Math.min(1, Math.max(0, point.y))
+  };
+}
+
+/**
+ * Line width of a tool in pixels for a drawing surface.
+ *
+ * @param tool - Drawing tool
+ * @param surfaceHeight - Height of the surface in pixels
+ */
+export function getAnnotationStrokeWidth(tool: AnnotationTool, surfaceHeight: number): number {
+  return Math.max(1, TOOL_WIDTHS[tool] * surfaceHeight);
+}
+
+/**
+ * Applies a streamed stroke update.
+ * Freehand updates append their points, shape updates replace them. Updates for a stroke
+ * that already finished are ignored.
+ *
+ * @param strokes - Current strokes by id
+ * @param update - Received or locally drawn update
+ * @param now - Local time, recorded when the stroke finishes
+ * @returns A new map, or the same map when nothing changed
+ */
+export function applyAnnotationStrokeUpdate(
+  strokes: Map<string, AnnotationStroke>,
+  update: AnnotationStrokeUpdate,
+  now: number = Date.now()
+): Map<string, AnnotationStroke> {
+  const existing = strokes.get(update.id);
+  if (existing?.finishedAt != null) return strokes;
+
+  const points = !existing || isShapeTool(update.tool)
+    ? update.points
+    : [...existing.points, ...update.points];
+
+  const next = new Map(strokes);
+  next.set(update.id, {
+    id: update.id,
+    tool: update.tool,
+    color: update.color,
+    points,
+    finishedAt: update.done ? now : null
+  });
+  return next;
+}
+
+/**
+ * Checks if a finished stroke has completely faded out.
+ */
+export function isAnnotationStrokeExpired(stroke: AnnotationStroke, now: number = Date.now()): boolean {
+  return stroke.finishedAt !== null &&
+    now - stroke.finishedAt >= ANNOTATION_FADE_DELAY_MS + ANNOTATION_FADE_DURATION_MS;
+}
+
+/**
+ * Removes strokes that have faded out.
+ *
+ * @returns A new map, or the same map when nothing expired
+ */
+export function pruneExpiredAnnotationStrokes(
+  strokes: Map<string, AnnotationStroke>,
+  now: number = Date.now()
+): Map<string, AnnotationStroke> {
+  const expired = [...strokes.values()].filter((stroke) => isAnnotationStrokeExpired(stroke, now));
+  if (expired.length === 0) return strokes;
+
+  const next = new Map(strokes);
+  for (const stroke of expired) {
+    next.delete(stroke.id);
+  }
+  return next;
+}
+
+/**
+ * Builds the SVG path of a stroke for a drawing surface.
+ *
+ * @param stroke - Stroke with normalized points
+ * @param width - Surface width in pixels
+ * @param height - Surface height in pixels
+ * @returns SVG path data, empty when the stroke has no points yet
+ */
+export function getAnnotationStrokePath(stroke: AnnotationStroke, width: number, height: number): string {
+  if (stroke.points.length === 0) return "";
+
+  const points = stroke.points.map((point) => ({ x: point.x * width, y: point.y * height }));
+  const start = points[0];
+  const end = points[points.length - 1];
+  const format = (value: number) => Math.round(value * 10) / 10;
+
+  switch (stroke.tool) {
+    case AnnotationTool.RECTANGLE:
+      return `M ${format(start.x)} ${format(start.y)} H ${format(end.x)} V ${format(end.y)} H ${format(start.x)} Z`;
+
+    case AnnotationTool.ARROW: {
+      const length = Math.hypot(end.x - start.x, end.y - start.y);
+      const line = `M ${format(start.x)} ${format(start.y)} L ${format(end.x)} ${format(end.y)}`;
+      if (length === 0) return line;
+
+      const headLength = Math.min(length * 0.4, height * 0.03);
+      const angle = Math.atan2(end.y - start.y, end.x - start.x);
+      const wing = (offset: number) => ({
+        x: end.x - headLength * Math.cos(angle + offset),
+        y: end.y - headLength * Math.sin(angle + offset)
+      });
+      const left = wing(Math.PI / 6);
+      const right = wing(-Math.PI / 6);
+      return `${line} M ${format(left.x)} ${format(left.y)} L ${format(end.x)} ${format(end.y)} ` +
+        `L ${format(right.x)} ${format(right.y)}`;
+    }
+
+    default: {
+      // A single point still shows up as a dot thanks to the round line caps
+      const path = points.map((point, index) => `${index === 0 ? "M" : "L"} ${format(point.x)} ${format(point.y)}`);
+      if (points.length === 1) {
+        path.push(`L ${format(start.x + 0.1)} ${format(start.y)}`);
+      }
+      return path.join(" ");
+    }
+  }
+}
+
+// ============== Sharer Overlay Window ==============
+
+function getOverlayApi(): any {
+  return (globalThis as any).electron?.annotationOverlay;
+}
+
+/**
+ * Forwards a watcher stroke to the always-on-top overlay window, opening it when needed.
+ */
+export function showAnnotationStroke(update: AnnotationStrokeUpdate): void {
+  const overlay = getOverlayApi();
+  if (!overlay) {
+    log.warn("[Annotation] Overlay window is only available in the desktop app");
+    return;
+  }
+  overlay.drawStroke(update).catch((error: unknown) => {
+    log.error("[Annotation] Failed to draw stroke:", error);
+  });
+}
+
+/**
+ * Removes all strokes from the overlay window.
+ */
+export function clearAnnotationOverlay(): void {
+  getOverlayApi()?.clear().catch((error: unknown) => {
+    log.error("[Annotation] Failed to clear overlay:", error);
+  });
+}
+
+/**
+ * Closes the overlay window at the end of the session.
+ */
+export function closeAnnotationOverlay(): void {
+  getOverlayApi()?.close().catch((error: unknown) => {
+    log.error("[Annotation] Failed to close overlay:", error);
+  });
+}
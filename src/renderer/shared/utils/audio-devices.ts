@@ -0,0 +1,92 @@
+import log from "electron-log/renderer";
+import { AudioDevice, AudioDeviceKind } from "../types/index";
+
+// Entry Chromium lists for the system default device of each kind
+const DEFAULT_DEVICE_ID = "default";
+// Entry Chromium lists for the device Windows uses for calls
+const COMMUNICATIONS_DEVICE_ID = "communications";
+// Entries standing for another device rather than being one
+const ALIAS_DEVICE_IDS = [DEFAULT_DEVICE_ID, COMMUNICATIONS_DEVICE_ID];
+
+/**
+ * Lists the microphones and speakers that can be picked.
+ * Entries of other kinds and aliases such as the system default are left out,
+ * the default is picked by picking no device.
+ *
+ * @returns The devices, empty when they cannot be listed
+ */
+export async function listAudioDevices(): Promise<AudioDevice[]> {
+  try {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices
+      .filter((device) => device.kind === AudioDeviceKind.INPUT || device.kind === AudioDeviceKind.OUTPUT)
+      .filter((device) => !ALIAS_DEVICE_IDS.includes(device.deviceId))
+      .map((device) => ({
+        deviceId: device.deviceId,
+        groupId: device.groupId,
+        label: device.label,
+        kind: device.kind as AudioDeviceKind
+      }));
+  } catch (error) {
+    log.error("[AudioDevices] Failed to list audio devices:", error);
+    return [];
+  }
+}
+
+/**
+ * Device to use: the picked one while it is plugged in, otherwise the system default.
+ *
+ * @param devices - Listed devices of every kind, as AudioDevice or MediaDeviceInfo
+ * @param kind - Whether a microphone or a speaker is looked for
+ * @param preferredId - Device picked in the settings, null for the system default
+ * @returns The device, null when none of that kind is plugged in
+ */
+export function findAudioDevice<T extends { deviceId: string; kind: string }>(
+  devices: T[],
+  kind: AudioDeviceKind,
+  preferredId: string | null
+): T | null {
+  const candidates = devices.filter((device) => device.kind === kind);
+  return candidates.find((device) => preferredId !== null && device.deviceId === preferredId) ??
+    candidates.find((device) => device.deviceId === DEFAULT_DEVICE_ID) ??
+    candidates[0] ??
+    null;
+}
+
+/**
+ * Speaker the captured system audio does not record. The capture records the system default
+ * output, so the picked speaker is used when it is another device, otherwise the device
+ * Windows uses for calls when that is another one.
+ *
+ * @param devices - Listed devices of every kind, as AudioDevice or MediaDeviceInfo
+ * @param preferredId - Speaker picked in the settings, null for the system default
+ * @returns The speaker, null when every speaker is the recorded default one
+ */
+export function findUncapturedSpeaker<T extends { deviceId: string; groupId: string; kind: string }>(
+  devices: T[],
+  preferredId: string | null
+): T | null {
+  const speakers = devices.filter((device) => device.kind === AudioDeviceKind.OUTPUT);
+  const captured = speakers.find((device) => device.deviceId === DEFAULT_DEVICE_ID);
+  if (!captured) return null;
+
+  const isUncaptured = (device: T) => device.deviceId !== DEFAULT_DEVICE_ID && device.groupId !== captured.groupId;
+  return speakers.find((device) => preferredId !== null && device.deviceId === preferredId && isUncaptured(device)) ??
+    speakers.find((device) => device.deviceId === COMMUNICATIONS_DEVICE_ID && isUncaptured(device)) ??
+    null;
+}
+
+/**
+ * Name shown for a device, labels stay empty until microphone access was granted.
+ */
+export function getAudioDeviceLabel(device: AudioDevice, index: number): string {
+  if (device.label) return device.label;
+  return `${device.kind === AudioDeviceKind.INPUT ? "Microphone" : "Speaker"} ${index + 1}`;
+}
+
+/**
+ * Whether audio can be routed to a chosen speaker instead of the system default.
+ */
+export function isSpeakerSelectionSupported(): boolean {
+  return typeof HTMLMediaElement !== "undefined" && "setSinkId" in HTMLMediaElement.prototype;
+}
@@ -1,4 +1,5 @@
 import log from "electron-log/renderer";
+import { ClipboardContentKind, ClipboardData } from "../types/index";
 
 /**
  * Copies text to clipboard with fallbacks for Electron and browser environments.
@@ -62,5 +63,63 @@ export async function readFromClipboard(): Promise<string | null> {
   }
 }
 
+/**
+ * Size of clipboard content once sent, in bytes.
+ *
+ * @param content - Text or PNG data URL
+ */
+export function getClipboardDataSize(content: ClipboardData): number {
+  return content.kind === ClipboardContentKind.TEXT
+    ? new TextEncoder().encode(content.data).byteLength
+    : content.data.length;
+}
+
+/**
+ * Reads the current clipboard content for clipboard sync.
+ * Text wins over images when both are present, images need the Electron clipboard.
+ * Called on every sync poll, so nothing is logged and failures read as an empty clipboard.
+ *
+ * @param includeImages - Also read an image when the clipboard holds no text
+ * @returns The content, or null when the clipboard is empty or unreadable
+ */
+export async function readClipboardData(includeImages: boolean): Promise<ClipboardData | null> {
+  const electronClipboard = (globalThis as any).electron?.clipboard;
 
+  try {
+    const text: string = electronClipboard?.readText
+      ? await electronClipboard.readText()
+      : await navigator.clipboard.readText();
+    if (text) {
+      return { kind: ClipboardContentKind.TEXT, data: text };
+    }
 
+    if (includeImages && electronClipboard?.readImage) {
+      const image: string | null = await electronClipboard.readImage();
+      if (image) {
+        return { kind: ClipboardContentKind.IMAGE, data: image };
+      }
+    }
+  } catch {
+    // Clipboard busy or not focused, the next poll retries
+  }
+  return null;
+}
+
+/**
+ * Writes synced clipboard content to the local clipboard.
+ *
+ * @param content - Text or PNG data URL
+ */
+export async function writeClipboardData(content: ClipboardData): Promise<void> {
+  if (content.kind === ClipboardContentKind.TEXT) {
+    await copyToClipboard(content.data);
+    return;
+  }
+
+  const electronClipboard = (globalThis as any).electron?.clipboard;
+  if (!electronClipboard?.writeImage) {
+    throw new Error("Image clipboard is only available in the desktop app.");
+  }
+  await electronClipboard.writeImage(content.data);
+  log.debug("[Clipboard] Image copied via Electron clipboard");
+}
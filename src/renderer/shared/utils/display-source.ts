@@ -0,0 +1,99 @@
+import log from "electron-log/renderer";
+import { DisplaySource, DisplaySourceKind, DisplaySourcePreference } from "../types/index";
+
+const DISPLAY_SOURCE_KINDS = Object.values(DisplaySourceKind) as string[];
+
+function getDisplaySourceApi(): any {
+  return (globalThis as any).electron?.displaySource;
+}
+
+/**
+ * Whether the sharer picks what to share in the app, only the desktop app lists sources.
+ */
+export function isDisplaySourcePickerAvailable(): boolean {
+  return Boolean(getDisplaySourceApi());
+}
+
+/**
+ * Lists the screens and windows that can be shared, screens first.
+ *
+ * @returns The sources, empty when they cannot be listed
+ */
+export async function listDisplaySources(): Promise<DisplaySource[]> {
+  try {
+    const sources: Array<Omit<DisplaySource, "kind"> & { kind: string }> = await getDisplaySourceApi()?.list() ?? [];
+    return sources
+      .filter((source): source is DisplaySource => DISPLAY_SOURCE_KINDS.includes(source.kind))
+      .sort((a, b) => Number(b.kind === DisplaySourceKind.SCREEN) - Number(a.kind === DisplaySourceKind.SCREEN));
+  } catch (error) {
+    log.error("[DisplaySource] Failed to list capture sources:", error);
+    return [];
+  }
+}
+
+/**
+ * Grants a source to the next screen capture.
+ *
+ * @returns Whether the source was handed to the capture
+ */
+export async function selectDisplaySource(id: string): Promise<boolean> {
+  const api = getDisplaySourceApi();
+  if (!api) return false;
+
+  try {
+    await api.select(id);
+    return true;
+  } catch (error) {
+    log.error("[DisplaySource] Failed to select capture source:", error);
+    return false;
+  }
+}
+
+/**
+ * Whether the system audio can be shared next to the screen, only the desktop app on Windows captures it.
+ */
+export async function isSystemAudioSupported(): Promise<boolean> {
+  try {
+    return Boolean(await getDisplaySourceApi()?.isSystemAudioSupported());
+  } catch (error) {
+    log.error("[DisplaySource] Failed to check system audio support:", error);
+    return false;
+  }
+}
+
+/**
+ * Withdraws a pick no capture used, so a later capture such as a QR scan does not get it.
+ */
+export async function clearDisplaySource(): Promise<void> {
+  try {
+    await getDisplaySourceApi()?.clear();
+  } catch (error) {
+    log.error("[DisplaySource] Failed to clear capture source:", error);
+  }
+}
+
+/**
+ * Source to preselect: the one shared last, found by name when a window's id changed
+ * since, otherwise the first screen.
+ *
+ * @param sources - Listed sources, screens first
+ * @param preference - Source shared last
+ */
+export function findPreferredDisplaySource(
+  sources: DisplaySource[],
+  preference: DisplaySourcePreference | null
+): DisplaySource | null {
+  if (preference) {
+    const match = sources.find((source) => source.id === preference.id) ??
+      sources.find((source) => source.kind === preference.kind && source.name === preference.name);
+    if (match) return match;
+  }
+  return sources.find((source) => source.kind === DisplaySourceKind.SCREEN) ?? sources[0] ?? null;
+}
+
+/**
+ * What is remembered of a picked source.
+ */
+export function toDisplaySourcePreference(source: DisplaySource): DisplaySourcePreference {
+  return { id: source.id, name: source.name, kind: source.kind };
+}
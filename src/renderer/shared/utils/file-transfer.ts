@@ -0,0 +1,72 @@
+import log from "electron-log/renderer";
+import { ReceivedFile } from "../../shared/types/index";
+
+/**
+ * Hex encoded SHA-256 of a file, sent with the offer and checked by the receiver
+ *
+ * @param data - File content
+ */
+export async function sha256Hex(data: ArrayBuffer | Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", data as BufferSource);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Strips directory parts and characters file systems reject from a name proposed by the peer
+ *
+ * @param name - File name from a file offer
+ */
+export function sanitizeFileName(name: string): string {
+  const baseName = name.split(/[\\/]/).pop() ?? "";
+  // eslint-disable-next-line no-control-regex
+  const cleaned = baseName.replace(/[<>:"|?*\x00-\x1f]/g, "_").replace(/^\.+/, "").trim();
+  return cleaned.slice(0, 255) || "received-file";
+}
+
+/**
+ * Human readable file size, e.g. 1.4 MB
+ *
+ * @param bytes - Size in bytes
+ */
+export function formatFileSize(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return unit === 0 ? `${value} ${units[unit]}` : `${value.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * Saves a received file, with the Electron save dialog or as a download
+ * Returns the saved path, or null when the user cancelled the dialog
+ *
+ * @param file - Received file with a verified hash
+ */
+export async function saveReceivedFile(file: ReceivedFile): Promise<string | null> {
+  const fileName = sanitizeFileName(file.name);
+
+  // Try use Electron save dialog
+  try {
+    const electronFileTransfer = (globalThis as any).electron?.fileTransfer;
+    if (electronFileTransfer?.save) {
+      const filePath = await electronFileTransfer.save(file.data, fileName);
+      log.debug("[FileTransfer] Saved via Electron dialog");
+      return filePath;
+    }
+  } catch (error) {
+    log.error("[FileTransfer] Electron save failed:", error);
+    throw new Error(`Failed to save ${fileName}`);
+  }
+
+  // Fall back to a download
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(new Blob([file.data as BlobPart], { type: file.mimeType || "application/octet-stream" }));
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(link.href);
+  log.debug("[FileTransfer] Saved via download");
+  return fileName;
+}
@@ -0,0 +1,166 @@
+import log from "electron-log/renderer";
+import { ConnectionUrlError, ConnectionUrlErrorCode, PeerRole } from "../../shared/types/index";
+import { URL_PROTOCOL } from "../constants/index";
+import { decodeConnectionUrl, getRoleFromUrl, isValidConnectionUrl } from "./signaling-url";
+
+/**
+ * Extension of the files used to hand a connection URL over
+ * when chat tools mangle or truncate long links
+ */
+export const HANDOFF_FILE_EXTENSION = ".lynx";
+
+const HANDOFF_FILE_FORMAT = "lynxscreen-handoff";
+const HANDOFF_FILE_VERSION = 1;
+
+/**
+ * Contents of a .lynx handoff file
+ */
+interface HandoffFileContents {
+  format: string;
+  version: number;
+  url: string;
+}
+
+/**
+ * Serializes a connection URL as the contents of a .lynx file
+ *
+ * @param url - Output of encodeConnectionUrl
+ */
+export function createHandoffFile(url: string): string {
+  const contents: HandoffFileContents = {
+    format: HANDOFF_FILE_FORMAT,
+    version: HANDOFF_FILE_VERSION,
+    url
+  };
+  return JSON.stringify(contents, null, 2) + "\n";
+}
+
+/**
+ * Extracts the connection URL from the contents of a .lynx file.
+ * A file holding only the bare link is accepted as well.
+ *
+ * @param contents - Text read from the file
+ * @throws {ConnectionUrlError} When the file is not a handoff file
+ */
+export function parseHandoffFile(contents: string): string {
+  const text = contents.trim();
+  if (text.startsWith(URL_PROTOCOL)) {
+    return text;
+  }
+
+  let parsed: Partial<HandoffFileContents>;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new ConnectionUrlError(ConnectionUrlErrorCode.MALFORMED, "Not a LynxScreen handoff file");
+  }
+
+  if (parsed?.format !== HANDOFF_FILE_FORMAT || typeof parsed.url !== "string") {
+    throw new ConnectionUrlError(ConnectionUrlErrorCode.MALFORMED, "Not a LynxScreen handoff file");
+  }
+  if (typeof parsed.version !== "number" || parsed.version > HANDOFF_FILE_VERSION) {
+    throw new ConnectionUrlError(
+      ConnectionUrlErrorCode.LOCAL_UPDATE_REQUIRED,
+      "This handoff file was created by a newer version of LynxScreen, update the app to open it"
+    );
+  }
+
+  return parsed.url.trim();
+}
+
+/**
+ * Reads a .lynx file and validates its connection URL the same way a pasted
+ * link is, so nothing unusable reaches joinSession or acceptAnswerUrl.
+ * Encrypted links are accepted without the passphrase, it is asked for afterwards.
+ *
+ * @param contents - Text read from the file
+ * @param expectedRole - Role of the peer that created the link (sharer for offers, watcher for answers)
+ * @returns The validated connection URL
+ * @throws {ConnectionUrlError} When the file or its link cannot be used
+ */
+export async function readHandoffFile(contents: string, expectedRole: PeerRole): Promise<string> {
+  const url = parseHandoffFile(contents);
+
+  if (!isValidConnectionUrl(url)) {
+    throw new ConnectionUrlError(ConnectionUrlErrorCode.MALFORMED, "The handoff file does not contain a LynxScreen link");
+  }
+
+  if (getRoleFromUrl(url) !== expectedRole) {
+    throw new ConnectionUrlError(
+      ConnectionUrlErrorCode.MALFORMED,
+      expectedRole === PeerRole.SCREEN_SHARER
+        ? "This handoff file holds a watcher answer, not a session offer"
+        : "This handoff file holds a session offer, not a watcher answer"
+    );
+  }
+
+  const result = await decodeConnectionUrl(url);
+  if (!result.ok && result.error.code !== ConnectionUrlErrorCode.PASSPHRASE_REQUIRED) {
+    throw result.error;
+  }
+
+  return url;
+}
+
+/**
+ * Suggested file name for a connection URL
+ */
+function defaultHandoffFileName(role: PeerRole): string {
+  const kind = role === PeerRole.SCREEN_SHARER ? "offer" : "answer";
+  return `lynxscreen-${kind}${HANDOFF_FILE_EXTENSION}`;
+}
+
+/**
+ * Saves a connection URL as a .lynx file.
+ * Uses the Electron save dialog, falls back to a browser download.
+ *
+ * @param url - Output of encodeConnectionUrl
+ * @returns Saved file path, the file name for a download, or null when cancelled
+ */
+export async function saveHandoffFile(url: string): Promise<string | null> {
+  const contents = createHandoffFile(url);
+  const fileName = defaultHandoffFileName(getRoleFromUrl(url) ?? PeerRole.SCREEN_SHARER);
+
+  // Try use Electron save dialog
+  try {
+    const electronHandoffFile = (globalThis as any).electron?.handoffFile;
+    if (electronHandoffFile?.save) {
+      const filePath = await electronHandoffFile.save(contents, fileName);
+      log.debug("[HandoffFile] Saved via Electron dialog");
+      return filePath;
+    }
+  } catch (error) {
+    log.error("[HandoffFile] Electron save failed:", error);
+    throw new Error("Failed to save the handoff file");
+  }
+
+  // Fall back to a download
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(new Blob([contents], { type: "application/json" }));
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(link.href);
+  log.debug("[HandoffFile] Saved via download");
+  return fileName;
+}
+
+/**
+ * Whether the Electron open dialog is available.
+ * Without it, callers fall back to a file input.
+ */
+export function canOpenHandoffFileDialog(): boolean {
+  return !!(globalThis as any).electron?.handoffFile?.open;
+}
+
+/**
+ * Lets the user pick a .lynx file with the Electron open dialog
+ *
+ * @returns File contents, or null when cancelled
+ */
+export async function openHandoffFile(): Promise<string | null> {
+  const electronHandoffFile = (globalThis as any).electron?.handoffFile;
+  if (!electronHandoffFile?.open) {
+    throw new Error("File dialog is not available");
+  }
+  return electronHandoffFile.open();
+}
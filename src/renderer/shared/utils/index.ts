@@ -1,3 +1,13 @@
 export * from "./clipboard";
 export * from "./webrtc-config";
-export * from "./signaling-url";
\ No newline at end of file
+export * from "./signaling-url";
+export * from "./qr-code";
+export * from "./sdp-codec";
+export * from "./handoff-file";
+export * from "./file-transfer";
+export * from "./annotation";
+export * from "./remote-control";
+export * from "./sharer-pointer";
+export * from "./remote-cursor";
+export * from "./display-source";
+export * from "./audio-devices";
\ No newline at end of file
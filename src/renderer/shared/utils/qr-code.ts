@@ -0,0 +1,220 @@
+import log from "electron-log/renderer";
+import QRCode from "qrcode";
+import jsQR from "jsqr";
+
+/**
+ * Prefix marking one frame of a multi-frame QR sequence
+ * lynxqr:<id>:<index>/<total>:<chunk>
+ */
+const QR_FRAME_PREFIX = "lynxqr:";
+
+/**
+ * Longest payload kept in a single QR code.
+ * Larger codes exist but become hard to scan from a phone or a screen share.
+ */
+export const QR_FRAME_MAX_LENGTH = 600;
+
+/**
+ * Longest connection URL split into QR frames.
+ * Real URLs stay a few kilobytes, longer ones are not worth scanning frame by frame.
+ */
+export const QR_PAYLOAD_MAX_LENGTH = 16000;
+
+/**
+ * Most frames splitQrFrames produces, sequences announcing more are rejected
+ */
+export const QR_MAX_FRAMES = Math.ceil(QR_PAYLOAD_MAX_LENGTH / QR_FRAME_MAX_LENGTH);
+
+/**
+ * Progress of a multi-frame QR import
+ */
+export interface QrFrameProgress {
+  received: number;
+  total: number;
+}
+
+/**
+ * Short, stable identifier for a payload so frames of different
+ * URLs are never mixed together (FNV-1a)
+ */
+function payloadId(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * Splits a connection URL into the texts to encode as QR codes.
+ * Short URLs stay a single plain frame so any scanner can open the link.
+ *
+ * @param url - Output of encodeConnectionUrl
+ * @param maxFrameLength - Maximum chunk length per frame
+ * @returns Ordered list of frame texts
+ */
+export function splitQrFrames(url: string, maxFrameLength = QR_FRAME_MAX_LENGTH): string[] {
+  if (!url) {
+    throw new Error("Nothing to encode");
+  }
+  if (url.length <= maxFrameLength) {
+    return [url];
+  }
+
+  const id = payloadId(url);
+  const total = Math.ceil(url.length / maxFrameLength);
+  if (total > QR_MAX_FRAMES) {
+    throw new Error(`Too long for QR codes: ${url.length} characters`);
+  }
+  const frames: string[] = [];
+
+  for (let i = 0; i < total; i++) {
+    const chunk = url.slice(i * maxFrameLength, (i + 1) * maxFrameLength);
+    frames.push(`${QR_FRAME_PREFIX}${id}:${i + 1}/${total}:${chunk}`);
+  }
+
+  log.debug(`[QrCode] Split ${url.length} characters into ${total} frames`);
+  return frames;
+}
+
+/**
+ * Collects scanned QR frames until a complete connection URL is available.
+ * Frames may arrive in any order and repeat.
+ */
+export class QrFrameAssembler {
+  private id: string | null = null;
+  private chunks: string[] = [];
+  private total = 0;
+
+  /**
+   * Adds a scanned text
+   * @returns The full URL once every frame was seen, otherwise null
+   */
+  public add(text: string): string | null {
+    if (!text) return null;
+
+    if (!text.startsWith(QR_FRAME_PREFIX)) {
+      // Single-frame code holds the URL itself
+      return text;
+    }
+
+    const match = /^lynxqr:([0-9a-z]+):(\d+)\/(\d+):([\s\S]*)$/.exec(text);
+    if (!match) {
+      log.warn("[QrCode] Ignoring malformed QR frame");
+      return null;
+    }
+
+    const [, id, indexText, totalText, chunk] = match;
+    const index = Number(indexText);
+    const total = Number(totalText);
+    if (index < 1 || index > total) {
+      log.warn("[QrCode] Ignoring QR frame with invalid index");
+      return null;
+    }
+    // Allocated per sequence, the frame count comes from whatever was scanned
+    if (total > QR_MAX_FRAMES) {
+      log.warn(`[QrCode] Ignoring QR frame of a ${total} frame sequence`);
+      return null;
+    }
+
+    // A frame from another sequence starts over
+    if (id !== this.id || total !== this.total) {
+      this.id = id;
+      this.total = total;
+      this.chunks = new Array(total);
+    }
+    this.chunks[index - 1] = chunk;
+
+    if (this.getProgress().received < total) {
+      return null;
+    }
+
+    const url = this.chunks.join("");
+    if (payloadId(url) !== id) {
+      log.warn("[QrCode] Reassembled QR payload does not match its identifier");
+      this.reset();
+      return null;
+    }
+    return url;
+  }
+
+  /**
+   * Gets how many frames of the current sequence were received
+   */
+  public getProgress(): QrFrameProgress {
+    const received = this.chunks.filter((chunk) => chunk !== undefined).length;
+    return { received, total: this.total };
+  }
+
+  /**
+   * Forgets all received frames
+   */
+  public reset(): void {
+    this.id = null;
+    this.chunks = [];
+    this.total = 0;
+  }
+}
+
+/**
+ * Renders a QR frame as a PNG data URL
+ */
+export async function renderQrCode(text: string, size = 280): Promise<string> {
+  return QRCode.toDataURL(text, {
+    errorCorrectionLevel: "L",
+    margin: 2,
+    width: size,
+  });
+}
+
+/**
+ * Decodes a QR code from raw RGBA pixels
+ * @returns The encoded text or null if no code was found
+ */
+export function decodeQrFromPixels(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number
+): string | null {
+  const result = jsQR(data, width, height, { inversionAttempts: "attemptBoth" });
+  return result?.data || null;
+}
+
+/**
+ * Draws an image source to a canvas and decodes a QR code from it
+ */
+function decodeQrFromSource(source: CanvasImageSource, width: number, height: number): string | null {
+  if (!width || !height) return null;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) {
+    throw new Error("Canvas 2D context not available");
+  }
+
+  context.drawImage(source, 0, 0, width, height);
+  const imageData = context.getImageData(0, 0, width, height);
+  return decodeQrFromPixels(imageData.data, width, height);
+}
+
+/**
+ * Decodes a QR code from an image file (screenshot, photo, saved PNG)
+ */
+export async function decodeQrFromImageFile(file: Blob): Promise<string | null> {
+  const bitmap = await createImageBitmap(file);
+  try {
+    return decodeQrFromSource(bitmap, bitmap.width, bitmap.height);
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Decodes a QR code from the current frame of a playing video element
+ */
+export function decodeQrFromVideoFrame(video: HTMLVideoElement): string | null {
+  return decodeQrFromSource(video, video.videoWidth, video.videoHeight);
+}
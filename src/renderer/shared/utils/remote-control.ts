@@ -0,0 +1,126 @@
+import log from "electron-log/renderer";
+import { RemoteInputEvent, RemoteKeyModifiers, RemoteMouseButton } from "../types/index";
+import { REMOTE_CONTROL_MAX_WHEEL_DELTA } from "../constants/index";
+
+// WheelEvent.deltaMode values
+const DOM_DELTA_LINE = 1;
+const DOM_DELTA_PAGE = 2;
+const LINE_HEIGHT_PX = 16;
+
+/**
+ * Maps a DOM mouse button (MouseEvent.button) to a remote button.
+ *
+ * @returns The button, or null for back/forward and other extra buttons
+ */
+export function getRemoteMouseButton(button: number): RemoteMouseButton | null {
+  switch (button) {
+    case 0:
+      return RemoteMouseButton.LEFT;
+    case 1:
+      return RemoteMouseButton.MIDDLE;
+    case 2:
+      return RemoteMouseButton.RIGHT;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Converts a wheel delta to pixels, whatever unit the browser reported it in.
+ *
+ * @param delta - WheelEvent deltaX or deltaY
+ * @param deltaMode - WheelEvent deltaMode
+ * @param pageSize - Size of one page in pixels, the height of the video for vertical scrolls
+ */
+export function getWheelDeltaPixels(delta: number, deltaMode: number, pageSize: number): number {
+  let pixels = delta;
+  if (deltaMode === DOM_DELTA_LINE) {
+    pixels = delta * LINE_HEIGHT_PX;
+  } else if (deltaMode === DOM_DELTA_PAGE) {
+    pixels = delta * pageSize;
+  }
+  return Math.max(-REMOTE_CONTROL_MAX_WHEEL_DELTA, Math.min(REMOTE_CONTROL_MAX_WHEEL_DELTA, Math.round(pixels)));
+}
+
+/**
+ * Reads the modifier keys held during a keyboard event.
+ */
+export function getRemoteKeyModifiers(event: Pick<KeyboardEvent, "altKey" | "ctrlKey" | "metaKey" | "shiftKey">): RemoteKeyModifiers {
+  return {
+    alt: event.altKey,
+    ctrl: event.ctrlKey,
+    meta: event.metaKey,
+    shift: event.shiftKey
+  };
+}
+
+// ============== Sharer Input Injection ==============
+
+function getRemoteControlApi(): any {
+  return (globalThis as any).electron?.remoteControl;
+}
+
+/**
+ * Whether the watcher's input can be replayed on this screen, false outside the desktop app
+ * and where the main process has no input injector.
+ */
+export async function isRemoteControlAvailable(): Promise<boolean> {
+  const api = getRemoteControlApi();
+  if (!api) return false;
+
+  try {
+    return await api.isAvailable();
+  } catch (error) {
+    log.error("[RemoteControl] Failed to check remote control availability:", error);
+    return false;
+  }
+}
+
+/**
+ * Hands control of the screen over: arms the emergency stop shortcut and shows the
+ * "being controlled" banner before any input is replayed.
+ *
+ * @returns The emergency stop shortcut, or null when control cannot be handed over
+ */
+export async function startRemoteControlSession(): Promise<string | null> {
+  const api = getRemoteControlApi();
+  if (!api) {
+    log.warn("[RemoteControl] Input injection is only available in the desktop app");
+    return null;
+  }
+
+  try {
+    return await api.start();
+  } catch (error) {
+    log.error("[RemoteControl] Failed to start remote control:", error);
+    return null;
+  }
+}
+
+/**
+ * Stops replaying input and removes the banner.
+ */
+export async function stopRemoteControlSession(): Promise<void> {
+  try {
+    await getRemoteControlApi()?.stop();
+  } catch (error) {
+    log.error("[RemoteControl] Failed to stop remote control:", error);
+  }
+}
+
+/**
+ * Replays a watcher input event on this screen.
+ */
+export function injectRemoteInput(event: RemoteInputEvent): void {
+  getRemoteControlApi()?.injectInput(event);
+}
+
+/**
+ * Registers a callback for control being stopped outside the app window,
+ * with the emergency stop shortcut or the banner.
+ *
+ * @returns Function removing the callback
+ */
+export function onRemoteControlSessionStopped(callback: () => void): () => void {
+  return getRemoteControlApi()?.onStopped(callback) ?? (() => {});
+}
@@ -0,0 +1,224 @@
+import log from "electron-log/renderer";
+import {
+  CursorEventType,
+  CursorMode,
+  CursorTrailPoint,
+  RemoteCursorEffects,
+  RemoteCursorEvent,
+  RemoteCursorState,
+  TimedCursorPoint
+} from "../types/index";
+import {
+  CURSOR_LASER_TRAIL_MS,
+  CURSOR_RIPPLE_DURATION_MS,
+  CURSOR_STREAM_SEND_INTERVAL_MS
+} from "../constants/index";
+
+/**
+ * Creates the effects of a session without any remote cursor yet.
+ */
+export function createRemoteCursorEffects(): RemoteCursorEffects {
+  return { trails: {}, ripples: [], pressed: [] };
+}
+
+/**
+ * Extends the laser trail of a cursor with the positions of an update.
+ * Trails are left to fade out when the cursor switches back to a pointer.
+ *
+ * @param effects - Current effects
+ * @param cursor - Received cursor update
+ * @param now - Local time, recorded on the new trail points
+ * @returns New effects, or the same object when nothing changed
+ */
+export function applyRemoteCursorUpdate(
+  effects: RemoteCursorEffects,
+  cursor: RemoteCursorState,
+  now: number = Date.now()
+): RemoteCursorEffects {
+  if (cursor.mode !== CursorMode.LASER) return effects;
+
+  const points = [...(cursor.trail ?? []), { x: cursor.x, y: cursor.y }].map((point) => ({
+    id: crypto.randomUUID(),
+    x: point.x,
+    y: point.y,
+    at: now
+  }));
+  return {
+    ...effects,
+    trails: { ...effects.trails, [cursor.id]: [...(effects.trails[cursor.id] ?? []), ...points] }
+  };
+}
+
+/**
+ * Applies a button event: presses and double-clicks start a ripple, presses are held until released.
+ *
+ * @param effects - Current effects
+ * @param event - Received button event
+ * @param color - Color of the cursor the event belongs to
+ * @param now - Local time, recorded on the ripple
+ */
+export function applyRemoteCursorEvent(
+  effects: RemoteCursorEffects,
+  event: RemoteCursorEvent,
+  color: string,
+  now: number = Date.now()
+): RemoteCursorEffects {
+  const pressed = effects.pressed.filter((id) => id !== event.cursorId);
+  if (event.type === CursorEventType.BUTTON_DOWN) {
+    pressed.push(event.cursorId);
+  }
+
+  const ripples = event.type === CursorEventType.BUTTON_UP
+    ? effects.ripples
+    : [...effects.ripples, {
+      id: crypto.randomUUID(),
+      cursorId: event.cursorId,
+      x: event.x,
+      y: event.y,
+      color,
+      isDouble: event.type === CursorEventType.DOUBLE_CLICK,
+      at: now
+    }];
+
+  return { ...effects, ripples, pressed };
+}
+
+/**
+ * Removes trail points and ripples that finished animating.
+ *
+ * @returns New effects, or the same object when nothing expired
+ */
+export function pruneRemoteCursorEffects(
+  effects: RemoteCursorEffects,
+  now: number = Date.now()
+): RemoteCursorEffects {
+  let changed = false;
+  const trails: RemoteCursorEffects["trails"] = {};
+  for (const [cursorId, points] of Object.entries(effects.trails)) {
+    const alive = points.filter((point) => now - point.at < CURSOR_LASER_TRAIL_MS);
+    changed ||= alive.length !== points.length;
+    if (alive.length > 0) {
+      trails[cursorId] = alive;
+    }
+  }
+
+  const ripples = effects.ripples.filter((ripple) => now - ripple.at < CURSOR_RIPPLE_DURATION_MS);
+  changed ||= ripples.length !== effects.ripples.length;
+
+  return changed ? { ...effects, trails, ripples } : effects;
+}
+
+/**
+ * Drops everything left of a cursor that went away.
+ */
+export function removeRemoteCursorEffects(effects: RemoteCursorEffects, cursorId: string): RemoteCursorEffects {
+  const trails = { ...effects.trails };
+  delete trails[cursorId];
+  return {
+    trails,
+    ripples: effects.ripples.filter((ripple) => ripple.cursorId !== cursorId),
+    pressed: effects.pressed.filter((id) => id !== cursorId)
+  };
+}
+
+// ============== Playback ==============
+
+/**
+ * Schedules the positions of a cursor update for playback, spread evenly since the previous update.
+ * After a pause they are spread over one send interval instead of the whole pause.
+ *
+ * @param track - Positions of the cursor, oldest first
+ * @param cursor - Received cursor update
+ * @param now - Local receive time
+ * @returns New track
+ */
+export function appendCursorTrack(
+  track: TimedCursorPoint[],
+  cursor: RemoteCursorState,
+  now: number = Date.now()
+): TimedCursorPoint[] {
+  const points = [...(cursor.trail ?? []), { x: cursor.x, y: cursor.y }];
+  const previousAt = track.length > 0 ? track[track.length - 1].at : -Infinity;
+  const startAt = Math.max(previousAt, now - CURSOR_STREAM_SEND_INTERVAL_MS);
+  const step = (now - startAt) / points.length;
+  // A cursor at rest starts moving from where it rests, not from when it got there
+  const rest = track.length > 0 && previousAt < startAt ? [{ ...track[track.length - 1], at: startAt }] : [];
+
+  return [
+    ...track,
+    ...rest,
+    ...points.map((point, index) => ({ x: point.x, y: point.y, at: startAt + step * (index + 1) }))
+  ];
+}
+
+/**
+ * Position of a cursor at a playback time, interpolated between the positions around it.
+ * Before the first position the cursor waits there, after the last one it rests there.
+ *
+ * @returns The position, or null for an empty track
+ */
+export function sampleCursorTrack(track: TimedCursorPoint[], at: number): CursorTrailPoint | null {
+  if (track.length === 0) return null;
+
+  for (let i = 0; i < track.length; i++) {
+    const next = track[i];
+    if (at > next.at) continue;
+    if (i === 0) return { x: next.x, y: next.y };
+
+    const previous = track[i - 1];
+    const progress = (at - previous.at) / (next.at - previous.at);
+    return {
+      x: previous.x + (next.x - previous.x) * progress,
+      y: previous.y + (next.y - previous.y) * progress
+    };
+  }
+
+  const last = track[track.length - 1];
+  return { x: last.x, y: last.y };
+}
+
+/**
+ * Drops positions already played back, keeping the one the cursor currently moves from.
+ *
+ * @returns New track, or the same array when nothing was played back
+ */
+export function pruneCursorTrack(track: TimedCursorPoint[], at: number): TimedCursorPoint[] {
+  let first = 0;
+  while (first < track.length - 1 && track[first + 1].at <= at) {
+    first++;
+  }
+  return first === 0 ? track : track.slice(first);
+}
+
+// ============== Sharer Overlay Window ==============
+
+function getOverlayApi(): any {
+  return (globalThis as any).electron?.annotationOverlay;
+}
+
+/**
+ * Shows a watcher cursor on the overlay window above the shared screen, opening it when needed.
+ */
+export function showOverlayCursor(cursor: RemoteCursorState): void {
+  getOverlayApi()?.drawCursor(cursor).catch((error: unknown) => {
+    log.error("[RemoteCursor] Failed to draw cursor on the overlay:", error);
+  });
+}
+
+/**
+ * Animates a watcher button event on the overlay window.
+ */
+export function showOverlayCursorEvent(event: RemoteCursorEvent): void {
+  getOverlayApi()?.drawCursorEvent(event).catch((error: unknown) => {
+    log.error("[RemoteCursor] Failed to draw cursor event on the overlay:", error);
+  });
+}
+
+/**
+ * Removes a watcher cursor that went away from the overlay window.
+ */
+export function removeOverlayCursor(cursorId: string): void {
+  getOverlayApi()?.removeCursor(cursorId).catch((error: unknown) => {
+    log.error("[RemoteCursor] Failed to remove cursor from the overlay:", error);
+  });
+}
\ No newline at end of file
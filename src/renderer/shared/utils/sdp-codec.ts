@@ -0,0 +1,963 @@
+/**
+ * Structured SDP codec.
+ *
+ * Keeps only what the remote peer needs to connect (ICE credentials, DTLS
+ * fingerprints, candidates, m-lines and their codecs) and packs it into a
+ * compact binary form. Decoding rebuilds a valid SDP from that data, so the
+ * text differs from the original but describes the same session.
+ */
+
+const CODEC_VERSION = 1;
+
+const PROTOCOLS = ["UDP/TLS/RTP/SAVPF", "UDP/DTLS/SCTP"];
+const MEDIA_KINDS = ["audio", "video", "application"];
+const DIRECTIONS = ["sendrecv", "sendonly", "recvonly", "inactive"];
+const SETUP_ROLES = ["actpass", "active", "passive", "holdconn"];
+const CANDIDATE_TYPES = ["host", "srflx", "prflx", "relay"];
+const CANDIDATE_PROTOCOLS = ["udp", "tcp"];
+const TCP_TYPES = ["", "active", "passive", "so"];
+
+// Frequent strings are written as a dictionary index instead of text
+const CODEC_NAMES = [
+  "opus", "red", "ulpfec", "flexfec-03", "rtx", "VP8", "VP9", "H264", "H265", "AV1",
+  "ISAC", "G722", "PCMU", "PCMA", "CN", "telephone-event", "ILBC"
+];
+const RTCP_FEEDBACK = ["goog-remb", "transport-cc", "ccm fir", "nack", "nack pli"];
+const EXTMAP_URIS = [
+  "urn:ietf:params:rtp-hdrext:ssrc-audio-level",
+  "http://www.webrtc.org/experiments/rtp-hdrext/abs-send-time",
+  "http://www.ietf.org/id/draft-holmer-rmcat-transport-wide-cc-extensions-01",
+  "urn:ietf:params:rtp-hdrext:sdes:mid",
+  "urn:ietf:params:rtp-hdrext:sdes:rtp-stream-id",
+  "urn:ietf:params:rtp-hdrext:sdes:repaired-rtp-stream-id",
+  "urn:ietf:params:rtp-hdrext:toffset",
+  "urn:3gpp:video-orientation",
+  "http://www.webrtc.org/experiments/rtp-hdrext/playout-delay",
+  "http://www.webrtc.org/experiments/rtp-hdrext/video-content-type",
+  "http://www.webrtc.org/experiments/rtp-hdrext/video-timing",
+  "http://www.webrtc.org/experiments/rtp-hdrext/color-space",
+  "https://aomediacodec.github.io/av1-rtp-spec/#dependency-descriptor-rtp-header-extension",
+  "http://www.webrtc.org/experiments/rtp-hdrext/video-layers-allocation00",
+  "urn:ietf:params:rtp-hdrext:csrc-audio-level",
+  "urn:ietf:params:rtp-hdrext:encrypt"
+];
+
+// Session-level flags
+const FLAG_EXTMAP_ALLOW_MIXED = 1 << 0;
+const FLAG_ICE_LITE = 1 << 1;
+
+// Media-level flags
+const FLAG_RTCP_MUX = 1 << 0;
+const FLAG_RTCP_RSIZE = 1 << 1;
+const FLAG_END_OF_CANDIDATES = 1 << 2;
+const FLAG_BUNDLE_ONLY = 1 << 3;
+const FLAG_ICE_TRICKLE = 1 << 4;
+
+// Candidate address encodings
+const ADDRESS_NONE = 0;
+const ADDRESS_IPV4 = 1;
+const ADDRESS_IPV6 = 2;
+const ADDRESS_MDNS = 3;
+const ADDRESS_TEXT = 4;
+
+// Marker for strings missing from a dictionary
+const DICTIONARY_MISS = 0xff;
+
+interface SdpTransport {
+  ufrag: string;
+  pwd: string;
+  setup: string;
+  fingerprints: { algorithm: string; hash: string }[];
+}
+
+interface SdpCodec {
+  payloadType: number;
+  name: string;
+  clockRate: number;
+  channels: number;
+  fmtp: string;
+  feedback: string[];
+}
+
+interface SdpCandidate {
+  foundation: string;
+  component: number;
+  protocol: string;
+  priority: number;
+  address: string;
+  port: number;
+  type: string;
+  relatedAddress: string;
+  relatedPort: number;
+  tcpType: string;
+}
+
+interface SdpMedia {
+  kind: string;
+  port: number;
+  protocol: string;
+  mid: string;
+  transport: number;
+  direction: string;
+  flags: number;
+  // application only
+  sctpFormat: string;
+  sctpPort: number;
+  maxMessageSize: number;
+  // audio / video only
+  msids: { stream: string; track: string }[];
+  extmaps: { id: number; uri: string }[];
+  codecs: SdpCodec[];
+  ssrcGroups: { semantics: string; ssrcs: number[] }[];
+  ssrcs: { ssrc: number; cname: string }[];
+  candidates: SdpCandidate[];
+}
+
+interface SdpSession {
+  sessionId: string;
+  sessionVersion: string;
+  flags: number;
+  msidSemantic: string;
+  groups: { semantics: string; mids: string[] }[];
+  transports: SdpTransport[];
+  media: SdpMedia[];
+}
+
+// ============== Binary helpers ==============
+
+class ByteWriter {
+  private bytes: number[] = [];
+
+  u8(value: number): void {
+    this.bytes.push(value & 0xff);
+  }
+
+  u16(value: number): void {
+    this.u8(value >>> 8);
+    this.u8(value);
+  }
+
+  u32(value: number): void {
+    this.u16(value >>> 16);
+    this.u16(value);
+  }
+
+  varint(value: number): void {
+    let remaining = value;
+    while (remaining >= 0x80) {
+      this.u8((remaining & 0x7f) | 0x80);
+      remaining = Math.floor(remaining / 0x80);
+    }
+    this.u8(remaining);
+  }
+
+  raw(data: ArrayLike<number>): void {
+    for (let i = 0; i < data.length; i++) this.u8(data[i]);
+  }
+
+  string(value: string): void {
+    const encoded = new TextEncoder().encode(value);
+    this.varint(encoded.length);
+    this.raw(encoded);
+  }
+
+  enumValue(table: string[], value: string): void {
+    const index = table.indexOf(value);
+    if (index < 0) {
+      throw new Error(`Unsupported SDP value: ${value}`);
+    }
+    this.u8(index);
+  }
+
+  dictionary(table: string[], value: string): void {
+    const index = table.indexOf(value);
+    if (index >= 0) {
+      this.u8(index);
+    } else {
+      this.u8(DICTIONARY_MISS);
+      this.string(value);
+    }
+  }
+
+  toBytes(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+class ByteReader {
+  private offset = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  u8(): number {
+    if (this.offset >= this.bytes.length) {
+      throw new Error("Unexpected end of SDP data");
+    }
+    return this.bytes[this.offset++];
+  }
+
+  u16(): number {
+    return (this.u8() << 8) | this.u8();
+  }
+
+  u32(): number {
+    return ((this.u16() << 16) >>> 0) + this.u16();
+  }
+
+  varint(): number {
+    let value = 0;
+    let multiplier = 1;
+    for (;;) {
+      const byte = this.u8();
+      value += (byte & 0x7f) * multiplier;
+      if (byte < 0x80) return value;
+      multiplier *= 0x80;
+    }
+  }
+
+  raw(length: number): Uint8Array {
+    if (this.offset + length > this.bytes.length) {
+      throw new Error("Unexpected end of SDP data");
+    }
+    const slice = this.bytes.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  string(): string {
+    return new TextDecoder().decode(this.raw(this.varint()));
+  }
+
+  enumValue(table: string[]): string {
+    const value = table[this.u8()];
+    if (value === undefined) {
+      throw new Error("Invalid SDP enum value");
+    }
+    return value;
+  }
+
+  dictionary(table: string[]): string {
+    const index = this.u8();
+    if (index === DICTIONARY_MISS) return this.string();
+    const value = table[index];
+    if (value === undefined) {
+      throw new Error("Invalid SDP dictionary index");
+    }
+    return value;
+  }
+
+  count(): number {
+    const value = this.varint();
+    // Every element takes at least one byte
+    if (value > this.bytes.length - this.offset) {
+      throw new Error("Invalid SDP element count");
+    }
+    return value;
+  }
+}
+
+// ============== Address packing ==============
+
+const UUID_PATTERN = /^([0-9a-f]{8})-([0-9a-f]{4})-([0-9a-f]{4})-([0-9a-f]{4})-([0-9a-f]{12})\.local$/;
+
+function hexToBytes(hex: string): number[] {
+  const bytes: number[] = [];
+  for (let i = 0; i < hex.length; i += 2) {
+    bytes.push(parseInt(hex.slice(i, i + 2), 16));
+  }
+  return bytes;
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function parseIpv6(address: string): number[] | null {
+  if (!/^[0-9a-fA-F:]+$/.test(address) || address.split("::").length > 2) return null;
+
+  const [head, tail] = address.includes("::") ? address.split("::") : [address, null];
+  const headParts = head ? head.split(":") : [];
+  const tailParts = tail ? tail.split(":") : [];
+  const missing = 8 - headParts.length - tailParts.length;
+  if (tail === null ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...headParts, ...new Array(tail === null ? 0 : missing).fill("0"), ...tailParts];
+  if (groups.some((group) => group.length === 0 || group.length > 4)) return null;
+
+  return groups.flatMap((group) => {
+    const value = parseInt(group, 16);
+    return [value >>> 8, value & 0xff];
+  });
+}
+
+/**
+ * Formats an IPv6 address in its canonical form (RFC 5952)
+ */
+function formatIpv6(bytes: Uint8Array): string {
+  const groups: string[] = [];
+  for (let i = 0; i < 16; i += 2) {
+    groups.push(((bytes[i] << 8) | bytes[i + 1]).toString(16));
+  }
+
+  // Collapse the longest run of two or more zero groups
+  let bestStart = -1;
+  let bestLength = 1;
+  for (let start = 0; start < 8; start++) {
+    let length = 0;
+    while (start + length < 8 && groups[start + length] === "0") length++;
+    if (length > bestLength) {
+      bestStart = start;
+      bestLength = length;
+    }
+  }
+  if (bestStart < 0) return groups.join(":");
+
+  const head = groups.slice(0, bestStart).join(":");
+  const tail = groups.slice(bestStart + bestLength).join(":");
+  return `${head}::${tail}`;
+}
+
+function writeAddress(writer: ByteWriter, address: string): void {
+  if (!address) {
+    writer.u8(ADDRESS_NONE);
+    return;
+  }
+
+  const ipv4 = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/.exec(address);
+  if (ipv4 && ipv4.slice(1).every((part) => Number(part) <= 255 && String(Number(part)) === part)) {
+    writer.u8(ADDRESS_IPV4);
+    writer.raw(ipv4.slice(1).map(Number));
+    return;
+  }
+
+  // Only the canonical form round-trips byte for byte
+  const ipv6 = parseIpv6(address);
+  if (ipv6 && formatIpv6(Uint8Array.from(ipv6)) === address) {
+    writer.u8(ADDRESS_IPV6);
+    writer.raw(ipv6);
+    return;
+  }
+
+  const mdns = UUID_PATTERN.exec(address);
+  if (mdns) {
+    writer.u8(ADDRESS_MDNS);
+    writer.raw(hexToBytes(mdns.slice(1).join("")));
+    return;
+  }
+
+  writer.u8(ADDRESS_TEXT);
+  writer.string(address);
+}
+
+function readAddress(reader: ByteReader): string {
+  switch (reader.u8()) {
+    case ADDRESS_NONE:
+      return "";
+    case ADDRESS_IPV4:
+      return Array.from(reader.raw(4)).join(".");
+    case ADDRESS_IPV6:
+      return formatIpv6(reader.raw(16));
+    case ADDRESS_MDNS: {
+      const hex = bytesToHex(reader.raw(16));
+      return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}.local`;
+    }
+    case ADDRESS_TEXT:
+      return reader.string();
+    default:
+      throw new Error("Invalid candidate address encoding");
+  }
+}
+
+// ============== SDP parsing ==============
+
+function createMedia(line: string): SdpMedia {
+  const [kind, port, protocol, ...formats] = line.slice(2).split(" ");
+  return {
+    kind,
+    port: Number(port),
+    protocol,
+    mid: "",
+    transport: 0,
+    direction: "sendrecv",
+    flags: 0,
+    sctpFormat: protocol === "UDP/DTLS/SCTP" ? formats[0] ?? "" : "",
+    sctpPort: 0,
+    maxMessageSize: 0,
+    msids: [],
+    extmaps: [],
+    codecs: protocol === "UDP/DTLS/SCTP"
+      ? []
+      : formats.map((format) => ({
+          payloadType: Number(format),
+          name: "",
+          clockRate: 0,
+          channels: 0,
+          fmtp: "",
+          feedback: []
+        })),
+    ssrcGroups: [],
+    ssrcs: [],
+    candidates: []
+  };
+}
+
+function parseCandidate(value: string): SdpCandidate {
+  const parts = value.split(" ");
+  const candidate: SdpCandidate = {
+    foundation: parts[0],
+    component: Number(parts[1]),
+    protocol: parts[2].toLowerCase(),
+    priority: Number(parts[3]),
+    address: parts[4],
+    port: Number(parts[5]),
+    type: parts[7],
+    relatedAddress: "",
+    relatedPort: 0,
+    tcpType: ""
+  };
+
+  for (let i = 8; i + 1 < parts.length; i += 2) {
+    if (parts[i] === "raddr") candidate.relatedAddress = parts[i + 1];
+    if (parts[i] === "rport") candidate.relatedPort = Number(parts[i + 1]);
+    if (parts[i] === "tcptype") candidate.tcpType = parts[i + 1];
+  }
+  return candidate;
+}
+
+/**
+ * Parses the parts of an SDP the codec keeps
+ */
+function parseSdp(sdp: string): SdpSession {
+  const session: SdpSession = {
+    sessionId: "0",
+    sessionVersion: "0",
+    flags: 0,
+    msidSemantic: "",
+    groups: [],
+    transports: [],
+    media: []
+  };
+
+  // Transport attributes may appear at session level and be inherited
+  const sessionTransport: Partial<SdpTransport> = {};
+  let mediaTransport: Partial<SdpTransport> = {};
+  let sessionTrickle = false;
+  const mediaTransports: Partial<SdpTransport>[] = [];
+  let media: SdpMedia | null = null;
+
+  for (const line of sdp.split(/\r?\n/)) {
+    if (!line) continue;
+
+    if (line.startsWith("o=")) {
+      const parts = line.slice(2).split(" ");
+      session.sessionId = parts[1] ?? "0";
+      session.sessionVersion = parts[2] ?? "0";
+      continue;
+    }
+
+    if (line.startsWith("m=")) {
+      media = createMedia(line);
+      mediaTransport = {};
+      mediaTransports.push(mediaTransport);
+      session.media.push(media);
+      continue;
+    }
+
+    if (!line.startsWith("a=")) continue;
+
+    const colon = line.indexOf(":");
+    const name = colon < 0 ? line.slice(2) : line.slice(2, colon);
+    const value = colon < 0 ? "" : line.slice(colon + 1);
+    const transport = media ? mediaTransport : sessionTransport;
+
+    switch (name) {
+      case "ice-ufrag":
+        transport.ufrag = value;
+        continue;
+      case "ice-pwd":
+        transport.pwd = value;
+        continue;
+      case "setup":
+        transport.setup = value;
+        continue;
+      case "fingerprint": {
+        const [algorithm, hash] = value.split(" ");
+        transport.fingerprints = [...(transport.fingerprints ?? []), { algorithm, hash }];
+        continue;
+      }
+      case "ice-options":
+        if (value.split(" ").includes("trickle")) {
+          if (media) media.flags |= FLAG_ICE_TRICKLE;
+          else sessionTrickle = true;
+        }
+        continue;
+    }
+
+    if (!media) {
+      if (name === "group") {
+        const [semantics, ...mids] = value.split(" ");
+        session.groups.push({ semantics, mids });
+      } else if (name === "extmap-allow-mixed") {
+        session.flags |= FLAG_EXTMAP_ALLOW_MIXED;
+      } else if (name === "ice-lite") {
+        session.flags |= FLAG_ICE_LITE;
+      } else if (name === "msid-semantic") {
+        session.msidSemantic = value;
+      }
+      continue;
+    }
+
+    const current: SdpMedia = media;
+    const codec = (payloadType: string) =>
+      current.codecs.find((entry) => entry.payloadType === Number(payloadType));
+
+    switch (name) {
+      case "mid":
+        current.mid = value;
+        break;
+      case "sendrecv":
+      case "sendonly":
+      case "recvonly":
+      case "inactive":
+        current.direction = name;
+        break;
+      case "rtcp-mux":
+        current.flags |= FLAG_RTCP_MUX;
+        break;
+      case "rtcp-rsize":
+        current.flags |= FLAG_RTCP_RSIZE;
+        break;
+      case "end-of-candidates":
+        current.flags |= FLAG_END_OF_CANDIDATES;
+        break;
+      case "bundle-only":
+        current.flags |= FLAG_BUNDLE_ONLY;
+        break;
+      case "candidate":
+        current.candidates.push(parseCandidate(value));
+        break;
+      case "msid": {
+        const [stream, track = ""] = value.split(" ");
+        current.msids.push({ stream, track });
+        break;
+      }
+      case "extmap": {
+        const [id, uri] = value.split(" ");
+        // Direction suffixes (id/direction) and extension attributes are not kept
+        if (/^\d+$/.test(id) && uri) current.extmaps.push({ id: Number(id), uri });
+        break;
+      }
+      case "rtpmap": {
+        const space = value.indexOf(" ");
+        const entry = codec(value.slice(0, space));
+        if (entry) {
+          const [codecName, clockRate, channels] = value.slice(space + 1).split("/");
+          entry.name = codecName;
+          entry.clockRate = Number(clockRate);
+          entry.channels = channels ? Number(channels) : 0;
+        }
+        break;
+      }
+      case "fmtp": {
+        const space = value.indexOf(" ");
+        const entry = codec(value.slice(0, space));
+        if (entry) entry.fmtp = value.slice(space + 1);
+        break;
+      }
+      case "rtcp-fb": {
+        const space = value.indexOf(" ");
+        const entry = codec(value.slice(0, space));
+        if (entry) entry.feedback.push(value.slice(space + 1));
+        break;
+      }
+      case "ssrc-group": {
+        const [semantics, ...ssrcs] = value.split(" ");
+        current.ssrcGroups.push({ semantics, ssrcs: ssrcs.map(Number) });
+        break;
+      }
+      case "ssrc": {
+        const match = /^(\d+) cname:(.*)$/.exec(value);
+        if (match) current.ssrcs.push({ ssrc: Number(match[1]), cname: match[2] });
+        break;
+      }
+      case "sctp-port":
+        current.sctpPort = Number(value);
+        break;
+      case "max-message-size":
+        current.maxMessageSize = Number(value);
+        break;
+    }
+  }
+
+  if (session.media.length === 0) {
+    throw new Error("SDP has no media sections");
+  }
+
+  // Deduplicate transports, bundled sections normally share one
+  const keys: string[] = [];
+  session.media.forEach((entry, index) => {
+    const transport: SdpTransport = {
+      ufrag: mediaTransports[index].ufrag ?? sessionTransport.ufrag ?? "",
+      pwd: mediaTransports[index].pwd ?? sessionTransport.pwd ?? "",
+      setup: mediaTransports[index].setup ?? sessionTransport.setup ?? "",
+      fingerprints: mediaTransports[index].fingerprints ?? sessionTransport.fingerprints ?? []
+    };
+    if (!transport.ufrag || !transport.pwd || transport.fingerprints.length === 0) {
+      throw new Error("SDP is missing ICE credentials or DTLS fingerprint");
+    }
+    if (sessionTrickle) entry.flags |= FLAG_ICE_TRICKLE;
+
+    const key = JSON.stringify(transport);
+    let transportIndex = keys.indexOf(key);
+    if (transportIndex < 0) {
+      transportIndex = keys.push(key) - 1;
+      session.transports.push(transport);
+    }
+    entry.transport = transportIndex;
+  });
+
+  for (const entry of session.media) {
+    if (entry.codecs.some((codec) => !codec.name)) {
+      throw new Error(`Media section ${entry.mid} has a payload type without rtpmap`);
+    }
+  }
+
+  return session;
+}
+
+// ============== Binary packing ==============
+
+function writeSession(writer: ByteWriter, session: SdpSession): void {
+  writer.string(session.sessionId);
+  writer.string(session.sessionVersion);
+  writer.u8(session.flags);
+  writer.string(session.msidSemantic);
+
+  const mids = session.media.map((entry) => entry.mid);
+  writer.varint(session.groups.length);
+  for (const group of session.groups) {
+    writer.string(group.semantics);
+    writer.varint(group.mids.length);
+    for (const mid of group.mids) {
+      const index = mids.indexOf(mid);
+      if (index < 0) throw new Error(`SDP group references unknown mid ${mid}`);
+      writer.varint(index);
+    }
+  }
+
+  writer.varint(session.transports.length);
+  for (const transport of session.transports) {
+    writer.string(transport.ufrag);
+    writer.string(transport.pwd);
+    writer.enumValue(SETUP_ROLES, transport.setup);
+    writer.varint(transport.fingerprints.length);
+    for (const fingerprint of transport.fingerprints) {
+      writer.string(fingerprint.algorithm);
+      const hash = fingerprint.hash.replace(/:/g, "");
+      if (!/^([0-9A-F]{2})+$/.test(hash)) throw new Error("Unsupported DTLS fingerprint format");
+      writer.varint(hash.length / 2);
+      writer.raw(hexToBytes(hash));
+    }
+  }
+
+  writer.varint(session.media.length);
+  for (const entry of session.media) {
+    writeMedia(writer, entry);
+  }
+}
+
+function writeMedia(writer: ByteWriter, entry: SdpMedia): void {
+  writer.enumValue(MEDIA_KINDS, entry.kind);
+  writer.enumValue(PROTOCOLS, entry.protocol);
+  writer.varint(entry.port);
+  writer.string(entry.mid);
+  writer.varint(entry.transport);
+  writer.enumValue(DIRECTIONS, entry.direction);
+  writer.u8(entry.flags);
+
+  if (entry.protocol === "UDP/DTLS/SCTP") {
+    writer.string(entry.sctpFormat);
+    writer.varint(entry.sctpPort);
+    writer.varint(entry.maxMessageSize);
+  } else {
+    writer.varint(entry.msids.length);
+    for (const msid of entry.msids) {
+      writer.string(msid.stream);
+      writer.string(msid.track);
+    }
+
+    writer.varint(entry.extmaps.length);
+    for (const extmap of entry.extmaps) {
+      writer.varint(extmap.id);
+      writer.dictionary(EXTMAP_URIS, extmap.uri);
+    }
+
+    writer.varint(entry.codecs.length);
+    for (const codec of entry.codecs) {
+      writer.u8(codec.payloadType);
+      writer.dictionary(CODEC_NAMES, codec.name);
+      writer.varint(codec.clockRate);
+      writer.u8(codec.channels);
+      writer.string(codec.fmtp);
+      writer.varint(codec.feedback.length);
+      for (const feedback of codec.feedback) {
+        writer.dictionary(RTCP_FEEDBACK, feedback);
+      }
+    }
+
+    writer.varint(entry.ssrcGroups.length);
+    for (const group of entry.ssrcGroups) {
+      writer.string(group.semantics);
+      writer.varint(group.ssrcs.length);
+      group.ssrcs.forEach((ssrc) => writer.u32(ssrc));
+    }
+
+    writer.varint(entry.ssrcs.length);
+    for (const ssrc of entry.ssrcs) {
+      writer.u32(ssrc.ssrc);
+      writer.string(ssrc.cname);
+    }
+  }
+
+  writer.varint(entry.candidates.length);
+  for (const candidate of entry.candidates) {
+    writer.string(candidate.foundation);
+    writer.u8(candidate.component);
+    writer.enumValue(CANDIDATE_PROTOCOLS, candidate.protocol);
+    writer.u32(candidate.priority);
+    writeAddress(writer, candidate.address);
+    writer.u16(candidate.port);
+    writer.enumValue(CANDIDATE_TYPES, candidate.type);
+    writeAddress(writer, candidate.relatedAddress);
+    writer.u16(candidate.relatedPort);
+    writer.enumValue(TCP_TYPES, candidate.tcpType);
+  }
+}
+
+function readSession(reader: ByteReader): SdpSession {
+  const session: SdpSession = {
+    sessionId: reader.string(),
+    sessionVersion: reader.string(),
+    flags: reader.u8(),
+    msidSemantic: reader.string(),
+    groups: [],
+    transports: [],
+    media: []
+  };
+
+  const groupIndexes: { semantics: string; indexes: number[] }[] = [];
+  for (let i = reader.count(); i > 0; i--) {
+    const semantics = reader.string();
+    const indexes: number[] = [];
+    for (let j = reader.count(); j > 0; j--) indexes.push(reader.varint());
+    groupIndexes.push({ semantics, indexes });
+  }
+
+  for (let i = reader.count(); i > 0; i--) {
+    const transport: SdpTransport = {
+      ufrag: reader.string(),
+      pwd: reader.string(),
+      setup: reader.enumValue(SETUP_ROLES),
+      fingerprints: []
+    };
+    for (let j = reader.count(); j > 0; j--) {
+      const algorithm = reader.string();
+      const hash = bytesToHex(reader.raw(reader.varint())).toUpperCase();
+      transport.fingerprints.push({ algorithm, hash: hash.match(/../g)!.join(":") });
+    }
+    session.transports.push(transport);
+  }
+
+  for (let i = reader.count(); i > 0; i--) {
+    session.media.push(readMedia(reader, session.transports.length));
+  }
+
+  for (const group of groupIndexes) {
+    const mids = group.indexes.map((index) => {
+      const entry = session.media[index];
+      if (!entry) throw new Error("SDP group references unknown media section");
+      return entry.mid;
+    });
+    session.groups.push({ semantics: group.semantics, mids });
+  }
+
+  if (session.media.length === 0) {
+    throw new Error("SDP has no media sections");
+  }
+  return session;
+}
+
+function readMedia(reader: ByteReader, transportCount: number): SdpMedia {
+  const kind = reader.enumValue(MEDIA_KINDS);
+  const protocol = reader.enumValue(PROTOCOLS);
+  const entry = createMedia(`m=${kind} 0 ${protocol}`);
+  entry.port = reader.varint();
+  entry.mid = reader.string();
+  entry.transport = reader.varint();
+  if (entry.transport >= transportCount) {
+    throw new Error("Media section references unknown transport");
+  }
+  entry.direction = reader.enumValue(DIRECTIONS);
+  entry.flags = reader.u8();
+
+  if (protocol === "UDP/DTLS/SCTP") {
+    entry.sctpFormat = reader.string();
+    entry.sctpPort = reader.varint();
+    entry.maxMessageSize = reader.varint();
+  } else {
+    for (let i = reader.count(); i > 0; i--) {
+      entry.msids.push({ stream: reader.string(), track: reader.string() });
+    }
+
+    for (let i = reader.count(); i > 0; i--) {
+      entry.extmaps.push({ id: reader.varint(), uri: reader.dictionary(EXTMAP_URIS) });
+    }
+
+    for (let i = reader.count(); i > 0; i--) {
+      const codec: SdpCodec = {
+        payloadType: reader.u8(),
+        name: reader.dictionary(CODEC_NAMES),
+        clockRate: reader.varint(),
+        channels: reader.u8(),
+        fmtp: reader.string(),
+        feedback: []
+      };
+      for (let j = reader.count(); j > 0; j--) {
+        codec.feedback.push(reader.dictionary(RTCP_FEEDBACK));
+      }
+      entry.codecs.push(codec);
+    }
+
+    for (let i = reader.count(); i > 0; i--) {
+      const semantics = reader.string();
+      const ssrcs: number[] = [];
+      for (let j = reader.count(); j > 0; j--) ssrcs.push(reader.u32());
+      entry.ssrcGroups.push({ semantics, ssrcs });
+    }
+
+    for (let i = reader.count(); i > 0; i--) {
+      entry.ssrcs.push({ ssrc: reader.u32(), cname: reader.string() });
+    }
+  }
+
+  for (let i = reader.count(); i > 0; i--) {
+    entry.candidates.push({
+      foundation: reader.string(),
+      component: reader.u8(),
+      protocol: reader.enumValue(CANDIDATE_PROTOCOLS),
+      priority: reader.u32(),
+      address: readAddress(reader),
+      port: reader.u16(),
+      type: reader.enumValue(CANDIDATE_TYPES),
+      relatedAddress: readAddress(reader),
+      relatedPort: reader.u16(),
+      tcpType: reader.enumValue(TCP_TYPES)
+    });
+  }
+
+  return entry;
+}
+
+// ============== SDP rebuilding ==============
+
+function formatCandidate(candidate: SdpCandidate): string {
+  let line = `a=candidate:${candidate.foundation} ${candidate.component} ${candidate.protocol} ` +
+             `${candidate.priority} ${candidate.address} ${candidate.port} typ ${candidate.type}`;
+  if (candidate.relatedAddress) {
+    line += ` raddr ${candidate.relatedAddress} rport ${candidate.relatedPort}`;
+  }
+  if (candidate.tcpType) {
+    line += ` tcptype ${candidate.tcpType}`;
+  }
+  return line + " generation 0";
+}
+
+function buildSdp(session: SdpSession): string {
+  const lines = [
+    "v=0",
+    `o=- ${session.sessionId} ${session.sessionVersion} IN IP4 127.0.0.1`,
+    "s=-",
+    "t=0 0"
+  ];
+
+  if (session.flags & FLAG_ICE_LITE) lines.push("a=ice-lite");
+  for (const group of session.groups) {
+    lines.push(`a=group:${[group.semantics, ...group.mids].join(" ")}`);
+  }
+  if (session.flags & FLAG_EXTMAP_ALLOW_MIXED) lines.push("a=extmap-allow-mixed");
+  if (session.msidSemantic) lines.push(`a=msid-semantic:${session.msidSemantic}`);
+
+  for (const entry of session.media) {
+    const transport = session.transports[entry.transport];
+    const isApplication = entry.protocol === "UDP/DTLS/SCTP";
+    const formats = isApplication
+      ? entry.sctpFormat
+      : entry.codecs.map((codec) => codec.payloadType).join(" ");
+
+    lines.push(`m=${entry.kind} ${entry.port} ${entry.protocol} ${formats}`);
+    lines.push("c=IN IP4 0.0.0.0");
+    if (!isApplication) lines.push("a=rtcp:9 IN IP4 0.0.0.0");
+    entry.candidates.forEach((candidate) => lines.push(formatCandidate(candidate)));
+    if (entry.flags & FLAG_END_OF_CANDIDATES) lines.push("a=end-of-candidates");
+
+    lines.push(`a=ice-ufrag:${transport.ufrag}`);
+    lines.push(`a=ice-pwd:${transport.pwd}`);
+    if (entry.flags & FLAG_ICE_TRICKLE) lines.push("a=ice-options:trickle");
+    transport.fingerprints.forEach((fingerprint) => {
+      lines.push(`a=fingerprint:${fingerprint.algorithm} ${fingerprint.hash}`);
+    });
+    lines.push(`a=setup:${transport.setup}`);
+    lines.push(`a=mid:${entry.mid}`);
+    if (entry.flags & FLAG_BUNDLE_ONLY) lines.push("a=bundle-only");
+
+    if (isApplication) {
+      if (entry.sctpPort) lines.push(`a=sctp-port:${entry.sctpPort}`);
+      if (entry.maxMessageSize) lines.push(`a=max-message-size:${entry.maxMessageSize}`);
+      continue;
+    }
+
+    entry.extmaps.forEach((extmap) => lines.push(`a=extmap:${extmap.id} ${extmap.uri}`));
+    lines.push(`a=${entry.direction}`);
+    entry.msids.forEach((msid) => lines.push(`a=msid:${msid.stream}${msid.track ? ` ${msid.track}` : ""}`));
+    if (entry.flags & FLAG_RTCP_MUX) lines.push("a=rtcp-mux");
+    if (entry.flags & FLAG_RTCP_RSIZE) lines.push("a=rtcp-rsize");
+
+    for (const codec of entry.codecs) {
+      const channels = codec.channels ? `/${codec.channels}` : "";
+      lines.push(`a=rtpmap:${codec.payloadType} ${codec.name}/${codec.clockRate}${channels}`);
+      codec.feedback.forEach((feedback) => lines.push(`a=rtcp-fb:${codec.payloadType} ${feedback}`));
+      if (codec.fmtp) lines.push(`a=fmtp:${codec.payloadType} ${codec.fmtp}`);
+    }
+
+    entry.ssrcGroups.forEach((group) => lines.push(`a=ssrc-group:${[group.semantics, ...group.ssrcs].join(" ")}`));
+    entry.ssrcs.forEach((ssrc) => lines.push(`a=ssrc:${ssrc.ssrc} cname:${ssrc.cname}`));
+  }
+
+  return lines.join("\r\n") + "\r\n";
+}
+
+// ============== Public API ==============
+
+/**
+ * Packs the connection-relevant parts of an SDP into bytes.
+ * Throws when the SDP uses something the codec cannot represent,
+ * callers should then fall back to a lossless encoding.
+ */
+export function minifySdp(sdp: string): Uint8Array {
+  const writer = new ByteWriter();
+  writer.u8(CODEC_VERSION);
+  writeSession(writer, parseSdp(sdp));
+  return writer.toBytes();
+}
+
+/**
+ * Rebuilds a valid SDP from bytes produced by minifySdp
+ */
+export function expandSdp(bytes: Uint8Array): string {
+  const reader = new ByteReader(bytes);
+  const version = reader.u8();
+  if (version !== CODEC_VERSION) {
+    throw new Error(`Unsupported SDP codec version ${version}`);
+  }
+  return buildSdp(readSession(reader));
+}
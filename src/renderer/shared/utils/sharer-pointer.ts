@@ -0,0 +1,19 @@
+import log from "electron-log/renderer";
+
+/**
+ * Reads where the pointer is on the shared display.
+ *
+ * @returns Coordinates normalized to 0-1, or null when the pointer is on another display
+ *          or outside the desktop app
+ */
+export async function readSharerPointerPosition(): Promise<{ x: number; y: number } | null> {
+  const api = (globalThis as any).electron?.pointer;
+  if (!api) return null;
+
+  try {
+    return await api.getPosition();
+  } catch (error) {
+    log.warn("[SharerPointer] Failed to read the pointer position:", error);
+    return null;
+  }
+}
\ No newline at end of file
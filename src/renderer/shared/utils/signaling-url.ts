@@ -1,15 +1,45 @@
 import log from "electron-log/renderer";
-import { PeerRole } from "../../shared/types/index";
-import { URL_PROTOCOL } from "../constants/index";
+import {
+  ConnectionUrlCapability,
+  ConnectionUrlDecodeOptions,
+  ConnectionUrlDecodeResult,
+  ConnectionUrlEncodeOptions,
+  ConnectionUrlError,
+  ConnectionUrlErrorCode,
+  PeerRole
+} from "../../shared/types/index";
+import {
+  CONNECTION_URL_CLOCK_SKEW_MS,
+  CONNECTION_URL_MIN_VERSION,
+  CONNECTION_URL_TTL_MS,
+  CONNECTION_URL_VERSION,
+  URL_PROTOCOL
+} from "../constants/index";
+import { expandSdp, minifySdp } from "./sdp-codec";
 
 /**
  * Encoding scheme prefix
  */
 const ENCODING_PREFIX = {
+  ENCRYPTED: "ec:",
+  MINIFIED: "mn:",
   GZIP: "gz:",
   FALLBACK: "fb:",
 };
 
+/**
+ * Passphrase encryption parameters
+ */
+const PASSPHRASE_SALT_BYTES = 16;
+const PASSPHRASE_IV_BYTES = 12;
+const PASSPHRASE_PBKDF2_ITERATIONS = 210000;
+
+/**
+ * URL signature and session id sizes
+ */
+const URL_SIGNATURE_BYTES = 16;
+const SESSION_ID_BYTES = 9;
+
 /**
  * Converts standard Base64 to URL-safe format
  */
@@ -40,6 +70,95 @@ function uint8ArrayToString(uint8Array: Uint8Array): string {
   return result;
 }
 
+/**
+ * Keys derived from a session passphrase
+ */
+interface PassphraseKeys {
+  encryptionKey: CryptoKey;
+  signingKey: CryptoKey;
+}
+
+/**
+ * Token and signing key produced by encrypting or decrypting an SDP token
+ */
+interface PassphraseToken {
+  token: string;
+  signingKey: CryptoKey;
+}
+
+/**
+ * Derives the AES-GCM and HMAC keys for a session passphrase
+ * The AES-GCM key is the first half of the derived bits, the key earlier builds derived on its own
+ */
+async function derivePassphraseKeys(passphrase: string, salt: Uint8Array<ArrayBuffer>): Promise<PassphraseKeys> {
+  const baseKey = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveBits"]
+  );
+
+  const bits = new Uint8Array(await crypto.subtle.deriveBits(
+    { name: "PBKDF2", salt, iterations: PASSPHRASE_PBKDF2_ITERATIONS, hash: "SHA-256" },
+    baseKey,
+    512
+  ));
+
+  const [encryptionKey, signingKey] = await Promise.all([
+    crypto.subtle.importKey("raw", bits.slice(0, 32), "AES-GCM", false, ["encrypt", "decrypt"]),
+    crypto.subtle.importKey("raw", bits.slice(32), { name: "HMAC", hash: "SHA-256" }, false, ["sign"])
+  ]);
+  return { encryptionKey, signingKey };
+}
+
+/**
+ * Encrypts an encoded SDP token with a passphrase
+ * The context is bound as additional data so it cannot be swapped
+ */
+async function encryptToken(token: string, passphrase: string, context: string): Promise<PassphraseToken> {
+  const salt = crypto.getRandomValues(new Uint8Array(PASSPHRASE_SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(PASSPHRASE_IV_BYTES));
+  const { encryptionKey, signingKey } = await derivePassphraseKeys(passphrase, salt);
+
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: new TextEncoder().encode(context) },
+    encryptionKey,
+    new TextEncoder().encode(token)
+  );
+
+  const payload = new Uint8Array(salt.length + iv.length + ciphertext.byteLength);
+  payload.set(salt, 0);
+  payload.set(iv, salt.length);
+  payload.set(new Uint8Array(ciphertext), salt.length + iv.length);
+
+  return {
+    token: ENCODING_PREFIX.ENCRYPTED + toUrlSafeBase64(btoa(uint8ArrayToString(payload))),
+    signingKey
+  };
+}
+
+/**
+ * Decrypts a token produced by encryptToken
+ * Throws when the passphrase is wrong or the token was modified
+ */
+async function decryptToken(token: string, passphrase: string, context: string): Promise<PassphraseToken> {
+  const binaryString = atob(fromUrlSafeBase64(token.slice(ENCODING_PREFIX.ENCRYPTED.length)));
+  const payload = Uint8Array.from(binaryString, char => char.charCodeAt(0));
+
+  const salt = payload.slice(0, PASSPHRASE_SALT_BYTES);
+  const iv = payload.slice(PASSPHRASE_SALT_BYTES, PASSPHRASE_SALT_BYTES + PASSPHRASE_IV_BYTES);
+  const ciphertext = payload.slice(PASSPHRASE_SALT_BYTES + PASSPHRASE_IV_BYTES);
+  const { encryptionKey, signingKey } = await derivePassphraseKeys(passphrase, salt);
+
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv, additionalData: new TextEncoder().encode(context) },
+    encryptionKey,
+    ciphertext
+  );
+  return { token: new TextDecoder().decode(plaintext), signingKey };
+}
+
 /**
  * Extracts action (share/watch) from URL
  * Handles both hostname-based and pathname-based URLs
@@ -68,7 +187,7 @@ function compressSdpFallback(sdp: string): string {
  */
 async function compressSdpGzip(sdp: string): Promise<string> {
   // Compress using gzip
-  const stream = new Blob([sdp], { type: "text/plain" }).stream();
+  const stream = new Response(sdp).body!;
   const compressedStream = stream.pipeThrough(new CompressionStream("gzip"));
   const compressedResponse = new Response(compressedStream);
   const blob = await compressedResponse.blob();
@@ -89,16 +208,47 @@ async function compressSdpGzip(sdp: string): Promise<string> {
   return ENCODING_PREFIX.GZIP + urlSafeBase64;
 }
 
+/**
+ * Minified compression algorithm: structured binary SDP, deflated
+ */
+async function compressSdpMinified(sdp: string): Promise<string> {
+  const minified = minifySdp(sdp);
+
+  // The codec drops lines it does not model, make sure what is left is stable
+  const roundTrip = minifySdp(expandSdp(minified));
+  if (roundTrip.length !== minified.length || roundTrip.some((byte, i) => byte !== minified[i])) {
+    throw new Error("Minified SDP does not round-trip");
+  }
+
+  const stream = new Response(minified.buffer as ArrayBuffer).body!;
+  const compressedStream = stream.pipeThrough(new CompressionStream("deflate"));
+  const buffer = await new Response(compressedStream).arrayBuffer();
+
+  const base64 = btoa(uint8ArrayToString(new Uint8Array(buffer)));
+
+  log.debug(`[SignalingURL] Minified ${sdp.length} → ${minified.length} → ${buffer.byteLength} bytes.`);
+
+  return ENCODING_PREFIX.MINIFIED + toUrlSafeBase64(base64);
+}
 
 /**
- * Compresses SDP string using gzip and returns URL-safe Base64
- * Falls back to simple Base64 encoding if CompressionStream is unavailable
+ * Compresses SDP string and returns URL-safe Base64
+ * Uses the minified codec when allowed and the SDP fits it, gzip otherwise,
+ * and falls back to simple Base64 encoding if CompressionStream is unavailable
  */
-async function compressSdp(sdp: string): Promise<string> {
+async function compressSdp(sdp: string, allowMinified = true): Promise<string> {
   try {
     if (typeof CompressionStream === "undefined") {
       throw new Error("CompressionStream not supported");
     }
+
+    if (allowMinified) {
+      try {
+        return await compressSdpMinified(sdp);
+      } catch (error) {
+        log.debug("[SignalingURL] SDP cannot be minified, using gzip:", error);
+      }
+    }
     return await compressSdpGzip(sdp);
 
   } catch (error) {
@@ -134,7 +284,7 @@ async function decompressSdpGzip(token: string): Promise<string> {
     throw new Error("DecompressionStream not supported");
   }
 
-  const stream = new Blob([buffer]).stream();
+  const stream = new Response(buffer).body!;
   const decompressedStream = stream.pipeThrough(new DecompressionStream("gzip"));
   const decompressedResponse = new Response(decompressedStream);
   const result = await decompressedResponse.text();
@@ -143,11 +293,41 @@ async function decompressSdpGzip(token: string): Promise<string> {
   return result;
 }
 
+/**
+ * Minified decompression algorithm
+ */
+async function decompressSdpMinified(token: string): Promise<string> {
+  const binaryString = atob(fromUrlSafeBase64(token));
+  const uint8Array = Uint8Array.from(binaryString, char => char.charCodeAt(0));
+
+  if (typeof DecompressionStream === "undefined") {
+    throw new Error("DecompressionStream not supported");
+  }
+
+  const stream = new Response(uint8Array).body!;
+  const decompressedStream = stream.pipeThrough(new DecompressionStream("deflate"));
+  const buffer = await new Response(decompressedStream).arrayBuffer();
+  const result = expandSdp(new Uint8Array(buffer));
+
+  log.debug(`[SignalingURL] Minified SDP expanded ${uint8Array.byteLength} → ${result.length} bytes`);
+  return result;
+}
+
 /**
  * Decompresses URL-safe Base64 SDP string
  */
 async function decompressSdp(token: string): Promise<string> {
 
+  // Check for Minified prefix
+  if (token.startsWith(ENCODING_PREFIX.MINIFIED)) {
+    try {
+      return await decompressSdpMinified(token.slice(ENCODING_PREFIX.MINIFIED.length));
+    } catch (error) {
+      log.error("[SignalingURL] Minified SDP decoding failed:", error);
+      throw error;
+    }
+  }
+
   // Check for Gzip prefix
   if (token.startsWith(ENCODING_PREFIX.GZIP)) {
     try {
@@ -182,33 +362,99 @@ async function decompressSdp(token: string): Promise<string> {
   }
 }
 
+/**
+ * Computes the URL signature over the signed fields and SDP token, truncated.
+ * Passphrase protected URLs are signed with an HMAC keyed from the passphrase. Without a
+ * passphrase the peers share no secret: the value is then a plain SHA-256 checksum that
+ * catches edits and truncation, but anyone can recompute it.
+ */
+async function signUrlFields(fields: string, token: string, signingKey: CryptoKey | null = null): Promise<string> {
+  const data = new TextEncoder().encode(`${fields}|${token}`);
+  const digest = signingKey
+    ? await crypto.subtle.sign("HMAC", signingKey, data)
+    : await crypto.subtle.digest("SHA-256", data);
+  const bytes = new Uint8Array(digest).slice(0, URL_SIGNATURE_BYTES);
+  return toUrlSafeBase64(btoa(uint8ArrayToString(bytes)));
+}
+
+/**
+ * Generates a random session id
+ */
+export function createSessionId(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(SESSION_ID_BYTES));
+  return toUrlSafeBase64(btoa(uint8ArrayToString(bytes)));
+}
+
+/**
+ * Builds a failed decode result
+ */
+function decodeFailure(code: ConnectionUrlErrorCode, message: string): ConnectionUrlDecodeResult {
+  log.error(`[SignalingURL] ${message}`);
+  return { ok: false, error: new ConnectionUrlError(code, message) };
+}
+
+/**
+ * Formats a duration for error messages
+ */
+function formatAge(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 1) return "less than a minute";
+  if (minutes < 120) return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+  return `${Math.round(minutes / 60)} hours`;
+}
+
 /**
  * Encodes connection data into a shareable URL
- * lynxscreen://share?username=<username>&data=<compressed_sdp>
+ * lynxscreen://share?v=..&username=<username>&token=<compressed_sdp>&type=<sdp_type>&caps=..&ts=..&exp=..&sid=..&sig=..
  * 
  * @param role - The role of the peer creating this URL
  * @param username - User's display name
  * @param sdp - The RTCSessionDescription (offer or answer)
+ * @param options - Passphrase, session id, lifetime of the URL and capabilities of the receiving peer
  * @returns Encoded URL string
  */
 export async function encodeConnectionUrl(
   role: PeerRole,
   username: string,
-  sdp: RTCSessionDescriptionInit
+  sdp: RTCSessionDescriptionInit,
+  options: ConnectionUrlEncodeOptions = {}
 ): Promise<string> {
   if (!username || !sdp?.sdp) {
     throw new Error("Invalid username or SDP");
   }
 
+  const action = role === PeerRole.SCREEN_SHARER ? "share" : "watch";
+  const createdAt = Date.now();
+  const meta: SignedUrlMeta = {
+    createdAt: String(createdAt),
+    expiresAt: String(createdAt + (options.ttlMs ?? CONNECTION_URL_TTL_MS)),
+    sessionId: options.sessionId ?? createSessionId(),
+    capabilities: LOCAL_CAPABILITIES.join(",")
+  };
+  const fields = getSignedFieldsV3(action, username, sdp.type, meta);
+
   // Compress the SDP info
-  const compressedSdp = await compressSdp(sdp.sdp);
+  const allowMinified = !options.peerCapabilities ||
+                        options.peerCapabilities.includes(ConnectionUrlCapability.MINIFIED_SDP);
+  let compressedSdp = await compressSdp(sdp.sdp, allowMinified);
+  let signingKey: CryptoKey | null = null;
+  if (options.passphrase) {
+    // The fields are covered by the HMAC, binding them to the ciphertext too would
+    // make a wrong passphrase and an edited URL indistinguishable
+    ({ token: compressedSdp, signingKey } = await encryptToken(compressedSdp, options.passphrase, ""));
+  }
   
   // Build URL with query params
-  const action = role === PeerRole.SCREEN_SHARER ? "share" : "watch";
   const url = new URL(`${URL_PROTOCOL}${action}`);
+  url.searchParams.set("v", String(CONNECTION_URL_VERSION));
   url.searchParams.set("username", username);
   url.searchParams.set("token", compressedSdp);
   url.searchParams.set("type", sdp.type);
+  url.searchParams.set("caps", meta.capabilities);
+  url.searchParams.set("ts", meta.createdAt);
+  url.searchParams.set("exp", meta.expiresAt);
+  url.searchParams.set("sid", meta.sessionId);
+  url.searchParams.set("sig", await signUrlFields(fields, compressedSdp, signingKey));
 
   const finalUrl = url.toString();
   log.info(`[SignalingURL] Generated ${action} URL (${finalUrl.length} characters)`);
@@ -220,68 +466,308 @@ export async function encodeConnectionUrl(
   return finalUrl;
 }
 
+// ============== Versioned decoders ==============
+
 /**
- * Decodes a connection URL back to its components
- * 
- * @param url - The encoded URL string
- * @returns Promise resolving to { role, username, sdp } or null if invalid
+ * Fields every schema version carries
  */
-export async function decodeConnectionUrl(url: string): Promise<{
+interface ParsedConnectionUrl {
+  action: string;
   role: PeerRole;
   username: string;
-  sdp: RTCSessionDescriptionInit;
-} | null> {
-  try {
-    const parsedUrl = new URL(url);
+  token: string;
+  type: RTCSdpType;
+  params: URLSearchParams;
+}
 
-    // Validate protocol from path
-    if (parsedUrl.protocol !== URL_PROTOCOL.replace("://", ":")) {
-      log.error("[SignalingURL] Invalid URL protocol");
-      return null;
+/**
+ * Signed metadata, kept as the raw strings that were signed
+ */
+interface SignedUrlMeta {
+  createdAt: string;
+  expiresAt: string;
+  sessionId: string;
+  capabilities: string;
+}
+
+type ConnectionUrlDecoder = (
+  url: ParsedConnectionUrl,
+  options: ConnectionUrlDecodeOptions
+) => Promise<ConnectionUrlDecodeResult>;
+
+/**
+ * Features this build supports, advertised in the caps param
+ */
+const LOCAL_CAPABILITIES: string[] = Object.values(ConnectionUrlCapability);
+
+/**
+ * Version 1 signed fields, version 1 URLs have no caps
+ */
+function getSignedFieldsV1(action: string, username: string, type: string, meta: SignedUrlMeta): string {
+  return [action, username, type, meta.createdAt, meta.expiresAt, meta.sessionId].join("|");
+}
+
+/**
+ * Version 2 signed fields, the version and caps are covered too
+ */
+function getSignedFieldsV2(action: string, username: string, type: string, meta: SignedUrlMeta): string {
+  return ["2", action, username, type, meta.createdAt, meta.expiresAt, meta.sessionId, meta.capabilities].join("|");
+}
+
+/**
+ * Version 3 signed fields, same as version 2 with its own version prefix
+ */
+function getSignedFieldsV3(action: string, username: string, type: string, meta: SignedUrlMeta): string {
+  return ["3", action, username, type, meta.createdAt, meta.expiresAt, meta.sessionId, meta.capabilities].join("|");
+}
+
+/**
+ * Reads the signed metadata params, null when one of them is missing or a time is not a number
+ */
+function readSignedMeta(params: URLSearchParams): SignedUrlMeta | null {
+  const createdAt = params.get("ts");
+  const expiresAt = params.get("exp");
+  const sessionId = params.get("sid");
+  if (!createdAt || !expiresAt || !sessionId) return null;
+  // An expiry that is not a number would never expire
+  if (!/^\d+$/.test(createdAt) || !/^\d+$/.test(expiresAt)) return null;
+  return { createdAt, expiresAt, sessionId, capabilities: params.get("caps") ?? "" };
+}
+
+/**
+ * Checks session and expiry, then decrypts and decompresses the SDP
+ */
+async function decodeVerifiedUrl(
+  url: ParsedConnectionUrl,
+  options: ConnectionUrlDecodeOptions,
+  version: number,
+  meta: SignedUrlMeta | null,
+  fields: string
+): Promise<ConnectionUrlDecodeResult> {
+  const sessionId = meta?.sessionId ?? null;
+  if (options.expectedSessionId && sessionId !== options.expectedSessionId) {
+    return decodeFailure(
+      ConnectionUrlErrorCode.SESSION_MISMATCH,
+      "This connection URL belongs to another session"
+    );
+  }
+
+  const createdAt = meta ? Number(meta.createdAt) : null;
+  const expiresAt = meta ? Number(meta.expiresAt) : null;
+  const now = Date.now();
+  if (expiresAt !== null && now > expiresAt + CONNECTION_URL_CLOCK_SKEW_MS) {
+    return decodeFailure(
+      ConnectionUrlErrorCode.EXPIRED,
+      `This connection URL expired ${formatAge(now - expiresAt)} ago, ask for a new one`
+    );
+  }
+
+  // Decrypt passphrase protected SDP
+  let sdpToken = url.token;
+  if (sdpToken.startsWith(ENCODING_PREFIX.ENCRYPTED)) {
+    if (!options.passphrase) {
+      return decodeFailure(ConnectionUrlErrorCode.PASSPHRASE_REQUIRED, "This link is protected by a passphrase");
     }
+    try {
+      ({ token: sdpToken } = await decryptToken(sdpToken, options.passphrase, fields));
+    } catch {
+      return decodeFailure(ConnectionUrlErrorCode.WRONG_PASSPHRASE, "Wrong passphrase or damaged link");
+    }
+  }
 
-    // Extract and validate action
-    const action = extractActionFromUrl(parsedUrl);
-    if (!["share", "watch"].includes(action)) {
-      log.error("[SignalingURL] Invalid URL action:", action);
-      return null;
+  // Decompress SDP
+  let sdpString: string;
+  try {
+    sdpString = await decompressSdp(sdpToken);
+  } catch {
+    return decodeFailure(ConnectionUrlErrorCode.MALFORMED, "Connection URL data cannot be read");
+  }
+
+  log.info(`[SignalingURL] Successfully decoded v${version} URL for ${url.role} (${url.username})`);
+  return {
+    ok: true,
+    payload: {
+      role: url.role,
+      username: url.username,
+      sdp: { type: url.type, sdp: sdpString },
+      version,
+      capabilities: meta?.capabilities ? meta.capabilities.split(",") : [],
+      sessionId,
+      createdAt,
+      expiresAt
     }
+  };
+}
 
-    // Determine role from action
-    const role = action === "share" ? PeerRole.SCREEN_SHARER : PeerRole.SCREEN_WATCHER;
+/**
+ * Version 1: no `v` param. The oldest builds did not sign, their URLs are rejected:
+ * stripping the signed params gives the same URL.
+ */
+const decodeUrlV1: ConnectionUrlDecoder = async (url, options) => {
+  const { action, username, type, token, params } = url;
+  const hasSignedParams = ["ts", "exp", "sid", "sig"].some((name) => params.has(name));
+
+  if (!hasSignedParams) {
+    return decodeFailure(
+      ConnectionUrlErrorCode.PEER_UPDATE_REQUIRED,
+      "This link is not signed, it was created by an outdated LynxScreen version or modified"
+    );
+  }
 
-    // Extract username and compressed sdp from query params
-    const username = parsedUrl.searchParams.get("username");
-    const compressedSdp = parsedUrl.searchParams.get("token");
+  // Signed metadata: all or nothing, a partial set means the URL was edited
+  const meta = readSignedMeta(params);
+  const signature = params.get("sig");
+  if (!meta || !signature) {
+    return decodeFailure(ConnectionUrlErrorCode.TAMPERED, "Connection URL was modified or truncated");
+  }
 
-    if (!username || !compressedSdp) {
-      log.error("[SignalingURL] Missing username or data in URL");
-      return null;
-    }
+  const fields = getSignedFieldsV1(action, username, type, meta);
+  if (signature !== await signUrlFields(fields, token)) {
+    return decodeFailure(ConnectionUrlErrorCode.TAMPERED, "Connection URL was modified or truncated");
+  }
+  return decodeVerifiedUrl(url, options, 1, { ...meta, capabilities: "" }, fields);
+};
+
+/**
+ * Version 2: signed metadata is mandatory and includes the capability list
+ */
+const decodeUrlV2: ConnectionUrlDecoder = async (url, options) => {
+  const { action, username, type, token, params } = url;
+
+  const meta = readSignedMeta(params);
+  const signature = params.get("sig");
+  if (!meta || !signature) {
+    return decodeFailure(ConnectionUrlErrorCode.TAMPERED, "Connection URL was modified or truncated");
+  }
+
+  const fields = getSignedFieldsV2(action, username, type, meta);
+  if (signature !== await signUrlFields(fields, token)) {
+    return decodeFailure(ConnectionUrlErrorCode.TAMPERED, "Connection URL was modified or truncated");
+  }
+  return decodeVerifiedUrl(url, options, 2, meta, fields);
+};
+
+/**
+ * Version 3: passphrase protected URLs are signed with an HMAC keyed from the passphrase,
+ * checked once the token was decrypted
+ */
+const decodeUrlV3: ConnectionUrlDecoder = async (url, options) => {
+  const { action, username, type, token, params } = url;
 
-    // Check SDP type should be aligned with role
-    const sdpType = parsedUrl.searchParams.get("type") as RTCSdpType | null;
-    const expectedSdpType = role === PeerRole.SCREEN_SHARER ? "offer" : "answer";
+  const meta = readSignedMeta(params);
+  const signature = params.get("sig");
+  if (!meta || !signature) {
+    return decodeFailure(ConnectionUrlErrorCode.TAMPERED, "Connection URL was modified or truncated");
+  }
 
-    if (!sdpType || (sdpType && sdpType !== expectedSdpType)) {
-      log.error("[SignalingURL] SDP type mismatch with role");
-      return null;
+  let sdpToken = token;
+  let signingKey: CryptoKey | null = null;
+  if (token.startsWith(ENCODING_PREFIX.ENCRYPTED)) {
+    if (!options.passphrase) {
+      return decodeFailure(ConnectionUrlErrorCode.PASSPHRASE_REQUIRED, "This link is protected by a passphrase");
     }
+    try {
+      ({ token: sdpToken, signingKey } = await decryptToken(token, options.passphrase, ""));
+    } catch {
+      return decodeFailure(ConnectionUrlErrorCode.WRONG_PASSPHRASE, "Wrong passphrase or damaged link");
+    }
+  }
 
-    // Decompress SDP
-    const sdpString = await decompressSdp(compressedSdp);
-    const sdp: RTCSessionDescriptionInit = {
-      type: sdpType,
-      sdp: sdpString,
-    };
+  const fields = getSignedFieldsV3(action, username, type, meta);
+  if (signature !== await signUrlFields(fields, token, signingKey)) {
+    return decodeFailure(ConnectionUrlErrorCode.TAMPERED, "Connection URL was modified or truncated");
+  }
+  return decodeVerifiedUrl({ ...url, token: sdpToken }, options, 3, meta, fields);
+};
 
-    log.info(`[SignalingURL] Successfully decoded URL for ${role} (${username})`);
-    return { role, username, sdp };
+/**
+ * Decoders by schema version, between CONNECTION_URL_MIN_VERSION and CONNECTION_URL_VERSION
+ */
+const URL_DECODERS: Record<number, ConnectionUrlDecoder> = {
+  1: decodeUrlV1,
+  2: decodeUrlV2,
+  3: decodeUrlV3
+};
 
-  } catch (error) {
-    log.error("[SignalingURL] Failed to decode URL:", error);
-    return null;
+/**
+ * Decodes a connection URL back to its components
+ * The `v` param selects the decoder, unknown params and capabilities are ignored
+ * so additive changes stay readable by this build.
+ * 
+ * @param url - The encoded URL string
+ * @param options - Passphrase and the session the URL must belong to
+ * @returns Promise resolving to the decoded payload, or the reason the URL was rejected
+ */
+export async function decodeConnectionUrl(
+  url: string,
+  options: ConnectionUrlDecodeOptions = {}
+): Promise<ConnectionUrlDecodeResult> {
+  let parsedUrl: URL;
+  try {
+    parsedUrl = new URL(url);
+  } catch {
+    return decodeFailure(ConnectionUrlErrorCode.MALFORMED, "Not a valid connection URL");
+  }
+
+  // Validate protocol from path
+  if (parsedUrl.protocol !== URL_PROTOCOL.replace("://", ":")) {
+    return decodeFailure(ConnectionUrlErrorCode.MALFORMED, "Not a LynxScreen connection URL");
+  }
+
+  // Check the schema version before anything version specific
+  const params = parsedUrl.searchParams;
+  const versionParam = params.get("v");
+  const version = versionParam === null ? 1 : Number(versionParam);
+  if (!Number.isInteger(version) || version < 1) {
+    return decodeFailure(ConnectionUrlErrorCode.MALFORMED, `Invalid connection URL version: ${versionParam}`);
+  }
+  if (version < CONNECTION_URL_MIN_VERSION) {
+    return decodeFailure(
+      ConnectionUrlErrorCode.PEER_UPDATE_REQUIRED,
+      "This link was created by an outdated LynxScreen version, the other peer needs to update"
+    );
+  }
+  if (version > CONNECTION_URL_VERSION || !URL_DECODERS[version]) {
+    return decodeFailure(
+      ConnectionUrlErrorCode.LOCAL_UPDATE_REQUIRED,
+      "This link was created by a newer LynxScreen version, update the app to open it"
+    );
+  }
+
+  // Extract and validate action
+  const action = extractActionFromUrl(parsedUrl);
+  if (!["share", "watch"].includes(action)) {
+    return decodeFailure(ConnectionUrlErrorCode.MALFORMED, `Unknown connection URL action: ${action}`);
+  }
+
+  // Determine role from action
+  const role = action === "share" ? PeerRole.SCREEN_SHARER : PeerRole.SCREEN_WATCHER;
+
+  // Extract username and compressed sdp from query params
+  const username = params.get("username");
+  const token = params.get("token");
+
+  if (!username || !token) {
+    return decodeFailure(ConnectionUrlErrorCode.MALFORMED, "Connection URL is missing its username or data");
+  }
+
+  // Check SDP type should be aligned with role
+  const sdpType = params.get("type") as RTCSdpType | null;
+  const expectedSdpType = role === PeerRole.SCREEN_SHARER ? "offer" : "answer";
+
+  if (!sdpType || (sdpType && sdpType !== expectedSdpType)) {
+    return decodeFailure(ConnectionUrlErrorCode.MALFORMED, "Connection URL type does not match its role");
   }
+
+  // Anyone can sign a plain URL, with a passphrase only the encrypted ones come from the peer
+  if (options.passphrase && !token.startsWith(ENCODING_PREFIX.ENCRYPTED)) {
+    return decodeFailure(
+      ConnectionUrlErrorCode.NOT_PROTECTED,
+      "This link is not protected by the session passphrase"
+    );
+  }
+
+  return URL_DECODERS[version]({ action, role, username, token, type: sdpType, params }, options);
 }
 
 /**
@@ -309,6 +795,18 @@ export function isValidConnectionUrl(url: string): boolean {
   }
 }
 
+/**
+ * Checks whether a connection URL needs a passphrase to decode
+ */
+export function isEncryptedConnectionUrl(url: string): boolean {
+  try {
+    const token = new URL(url).searchParams.get("token");
+    return !!token && token.startsWith(ENCODING_PREFIX.ENCRYPTED);
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Gets the peer role from a URL without full decoding
  */
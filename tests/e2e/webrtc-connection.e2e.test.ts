@@ -505,7 +505,8 @@ describe("P2P Connection E2E Tests", () => {
       const offerUrl = await sharerManager.startSharing("TestUser");
       expect(offerUrl).not.toBeNull();
       
-      const decoded = await decodeConnectionUrl(offerUrl!);
+      const result = await decodeConnectionUrl(offerUrl!);
+      const decoded = result.ok ? result.payload : null;
       
       expect(decoded).not.toBeNull();
       expect(decoded!.role).toBe(PeerRole.SCREEN_SHARER);
@@ -556,7 +557,8 @@ describe("URL Signaling Integration Tests", () => {
     expect(url).toContain("username=");
     expect(url).toContain("token=");
     
-    const decoded = await decodeConnectionUrl(url);
+    const result = await decodeConnectionUrl(url);
+    const decoded = result.ok ? result.payload : null;
     
     expect(decoded).not.toBeNull();
     expect(decoded!.role).toBe(PeerRole.SCREEN_SHARER);
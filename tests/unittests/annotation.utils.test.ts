@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  applyAnnotationStrokeUpdate,
+  clampAnnotationPoint,
+  clearAnnotationOverlay,
+  closeAnnotationOverlay,
+  getAnnotationStrokePath,
+  getAnnotationStrokeWidth,
+  isAnnotationStrokeExpired,
+  pruneExpiredAnnotationStrokes,
+  showAnnotationStroke
+} from "../../src/renderer/shared/utils/index";
+import {
+  AnnotationStroke,
+  AnnotationStrokeUpdate,
+  AnnotationTool
+} from "../../src/renderer/shared/types/index";
+import { ANNOTATION_FADE_DELAY_MS, ANNOTATION_FADE_DURATION_MS } from "../../src/renderer/shared/constants/index";
+
+// Mock electron-log
+vi.mock("electron-log/renderer", () => ({
+  default: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const update = (overrides: Partial<AnnotationStrokeUpdate> = {}): AnnotationStrokeUpdate => ({
+  id: "stroke-1",
+  tool: AnnotationTool.PEN,
+  color: "#ef4444",
+  points: [{ x: 0.1, y: 0.1 }],
+  done: false,
+  ...overrides
+});
+
+const stroke = (overrides: Partial<AnnotationStroke> = {}): AnnotationStroke => ({
+  id: "stroke-1",
+  tool: AnnotationTool.PEN,
+  color: "#ef4444",
+  points: [{ x: 0.1, y: 0.2 }, { x: 0.5, y: 0.6 }],
+  finishedAt: null,
+  ...overrides
+});
+
+describe("annotation", () => {
+  afterEach(() => {
+    delete (globalThis as any).electron;
+  });
+
+  describe("applyAnnotationStrokeUpdate", () => {
+    it("should append freehand points", () => {
+      let strokes = applyAnnotationStrokeUpdate(new Map(), update());
+      strokes = applyAnnotationStrokeUpdate(strokes, update({ points: [{ x: 0.2, y: 0.2 }, { x: 0.3, y: 0.3 }] }));
+
+      expect(strokes.get("stroke-1")?.points).toEqual([
+        { x: 0.1, y: 0.1 },
+        { x: 0.2, y: 0.2 },
+        { x: 0.3, y: 0.3 }
+      ]);
+    });
+
+    it("should replace the points of shapes", () => {
+      const tool = AnnotationTool.RECTANGLE;
+      let strokes = applyAnnotationStrokeUpdate(new Map(), update({ tool, points: [{ x: 0.1, y: 0.1 }, { x: 0.2, y: 0.2 }] }));
+      strokes = applyAnnotationStrokeUpdate(strokes, update({ tool, points: [{ x: 0.1, y: 0.1 }, { x: 0.4, y: 0.5 }] }));
+
+      expect(strokes.get("stroke-1")?.points).toEqual([{ x: 0.1, y: 0.1 }, { x: 0.4, y: 0.5 }]);
+    });
+
+    it("should record when the stroke finished and ignore later updates", () => {
+      let strokes = applyAnnotationStrokeUpdate(new Map(), update({ done: true }), 1000);
+      const finished = strokes;
+      strokes = applyAnnotationStrokeUpdate(strokes, update({ points: [{ x: 0.9, y: 0.9 }] }), 2000);
+
+      expect(strokes).toBe(finished);
+      expect(strokes.get("stroke-1")?.finishedAt).toBe(1000);
+      expect(strokes.get("stroke-1")?.points).toHaveLength(1);
+    });
+
+    it("should not mutate the previous map", () => {
+      const before = new Map<string, AnnotationStroke>();
+      const after = applyAnnotationStrokeUpdate(before, update());
+
+      expect(before.size).toBe(0);
+      expect(after.size).toBe(1);
+    });
+  });
+
+  describe("fading", () => {
+    const fadeEnd = ANNOTATION_FADE_DELAY_MS + ANNOTATION_FADE_DURATION_MS;
+
+    it("should keep strokes until they faded out", () => {
+      expect(isAnnotationStrokeExpired(stroke(), Number.MAX_SAFE_INTEGER)).toBe(false);
+      expect(isAnnotationStrokeExpired(stroke({ finishedAt: 0 }), fadeEnd - 1)).toBe(false);
+      expect(isAnnotationStrokeExpired(stroke({ finishedAt: 0 }), fadeEnd)).toBe(true);
+    });
+
+    it("should prune only expired strokes", () => {
+      const strokes = new Map([
+        ["old", stroke({ id: "old", finishedAt: 0 })],
+        ["drawing", stroke({ id: "drawing" })]
+      ]);
+
+      const pruned = pruneExpiredAnnotationStrokes(strokes, fadeEnd);
+
+      expect([...pruned.keys()]).toEqual(["drawing"]);
+      expect(pruneExpiredAnnotationStrokes(pruned, fadeEnd)).toBe(pruned);
+    });
+  });
+
+  describe("geometry", () => {
+    it("should clamp points to the shared screen", () => {
+      expect(clampAnnotationPoint({ x: -0.2, y: 1.4 })).toEqual({ x: 0, y: 1 });
+      expect(clampAnnotationPoint({ x: 0.3, y: 0.7 })).toEqual({ x: 0.3, y: 0.7 });
+    });
+
+    it("should scale line widths with the surface height", () => {
+      expect(getAnnotationStrokeWidth(AnnotationTool.PEN, 1000)).toBe(4);
+      expect(getAnnotationStrokeWidth(AnnotationTool.HIGHLIGHTER, 1000)).toBe(20);
+      expect(getAnnotationStrokeWidth(AnnotationTool.PEN, 100)).toBe(1);
+    });
+
+    it("should draw freehand strokes as a polyline in pixels", () => {
+      expect(getAnnotationStrokePath(stroke(), 1000, 500)).toBe("M 100 100 L 500 300");
+    });
+
+    it("should draw a single point as a dot", () => {
+      expect(getAnnotationStrokePath(stroke({ points: [{ x: 0.5, y: 0.5 }] }), 100, 100)).toBe("M 50 50 L 50.1 50");
+    });
+
+    it("should draw rectangles from the first to the last point", () => {
+      const rectangle = stroke({ tool: AnnotationTool.RECTANGLE });
+
+      expect(getAnnotationStrokePath(rectangle, 1000, 500)).toBe("M 100 100 H 500 V 300 H 100 Z");
+    });
+
+    it("should draw arrows with a head at the last point", () => {
+      const arrow = stroke({ tool: AnnotationTool.ARROW, points: [{ x: 0, y: 0.5 }, { x: 1, y: 0.5 }] });
+      const path = getAnnotationStrokePath(arrow, 1000, 1000);
+
+      expect(path.startsWith("M 0 500 L 1000 500 M ")).toBe(true);
+      // Both wings end at the tip
+      expect(path.match(/L 1000 500/g)).toHaveLength(2);
+    });
+
+    it("should return an empty path without points", () => {
+      expect(getAnnotationStrokePath(stroke({ points: [] }), 100, 100)).toBe("");
+    });
+  });
+
+  describe("overlay window", () => {
+    it("should forward strokes, clears and close to the overlay window", async () => {
+      const overlay = {
+        drawStroke: vi.fn().mockResolvedValue(undefined),
+        clear: vi.fn().mockResolvedValue(undefined),
+        close: vi.fn().mockResolvedValue(undefined)
+      };
+      (globalThis as any).electron = { annotationOverlay: overlay };
+
+      showAnnotationStroke(update());
+      clearAnnotationOverlay();
+      closeAnnotationOverlay();
+
+      expect(overlay.drawStroke).toHaveBeenCalledWith(update());
+      expect(overlay.clear).toHaveBeenCalled();
+      expect(overlay.close).toHaveBeenCalled();
+    });
+
+    it("should do nothing outside the desktop app", () => {
+      expect(() => {
+        showAnnotationStroke(update());
+        clearAnnotationOverlay();
+        closeAnnotationOverlay();
+      }).not.toThrow();
+    });
+  });
+});
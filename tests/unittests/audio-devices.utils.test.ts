@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { findAudioDevice, findUncapturedSpeaker, getAudioDeviceLabel, listAudioDevices } from "../../src/renderer/shared/utils/index";
+import { AudioDevice, AudioDeviceKind } from "../../src/renderer/shared/types/index";
+
+// Mock electron-log
+vi.mock("electron-log/renderer", () => ({
+  default: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const device = (overrides: Partial<AudioDevice> = {}): AudioDevice => ({
+  deviceId: "built-in",
+  groupId: "laptop",
+  label: "Built-in Microphone",
+  kind: AudioDeviceKind.INPUT,
+  ...overrides
+});
+
+const headset = device({ deviceId: "headset", groupId: "headset", label: "Headset Microphone" });
+const defaultEntry = device({ deviceId: "default", groupId: "headset", label: "Default - Headset Microphone" });
+const speaker = device({ deviceId: "speaker", kind: AudioDeviceKind.OUTPUT, label: "Speakers" });
+
+describe("audio device utils", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe("findAudioDevice", () => {
+    const devices = [device(), defaultEntry, headset, speaker];
+
+    it("should use the picked device while it is plugged in", () => {
+      expect(findAudioDevice(devices, AudioDeviceKind.INPUT, "built-in")).toBe(devices[0]);
+    });
+
+    it("should fall back to the system default once the picked device is unplugged", () => {
+      expect(findAudioDevice(devices, AudioDeviceKind.INPUT, "usb-mic")).toBe(defaultEntry);
+      expect(findAudioDevice(devices, AudioDeviceKind.INPUT, null)).toBe(defaultEntry);
+    });
+
+    it("should take the first device without a default entry", () => {
+      expect(findAudioDevice([device(), headset], AudioDeviceKind.INPUT, null)).toEqual(device());
+      expect(findAudioDevice([speaker], AudioDeviceKind.INPUT, null)).toBeNull();
+    });
+  });
+
+  describe("findUncapturedSpeaker", () => {
+    const output = (deviceId: string, groupId: string) => device({ deviceId, groupId, kind: AudioDeviceKind.OUTPUT });
+    const defaultSpeaker = output("default", "laptop");
+    const headphones = output("headphones", "headset");
+    const communications = output("communications", "headset");
+
+    it("should keep the picked speaker when it is not the recorded default", () => {
+      expect(findUncapturedSpeaker([defaultSpeaker, speaker, headphones], "headphones")).toBe(headphones);
+    });
+
+    it("should move off the recorded default to the device used for calls", () => {
+      expect(findUncapturedSpeaker([defaultSpeaker, speaker, communications, headphones], "speaker")).toBe(communications);
+      expect(findUncapturedSpeaker([defaultSpeaker, speaker, communications], null)).toBe(communications);
+    });
+
+    it("should find nothing when every speaker is the recorded default", () => {
+      expect(findUncapturedSpeaker([defaultSpeaker, speaker, output("communications", "laptop")], null)).toBeNull();
+      expect(findUncapturedSpeaker([headphones], "headphones")).toBeNull();
+    });
+  });
+
+  describe("listAudioDevices", () => {
+    it("should list microphones and speakers without aliases", async () => {
+      const camera = { deviceId: "cam", groupId: "cam", label: "Camera", kind: "videoinput" };
+      const communications = device({ deviceId: "communications", label: "Communications - Headset" });
+      vi.stubGlobal("navigator", {
+        mediaDevices: {
+          enumerateDevices: vi.fn().mockResolvedValue([defaultEntry, communications, headset, speaker, camera])
+        }
+      });
+
+      expect(await listAudioDevices()).toEqual([headset, speaker]);
+    });
+
+    it("should list nothing when devices cannot be listed", async () => {
+      vi.stubGlobal("navigator", {
+        mediaDevices: { enumerateDevices: vi.fn().mockRejectedValue(new Error("Not allowed")) }
+      });
+
+      expect(await listAudioDevices()).toEqual([]);
+    });
+  });
+
+  it("should name devices whose label is hidden until microphone access", () => {
+    expect(getAudioDeviceLabel(headset, 0)).toBe("Headset Microphone");
+    expect(getAudioDeviceLabel(device({ label: "" }), 1)).toBe("Microphone 2");
+    expect(getAudioDeviceLabel({ ...speaker, label: "" }, 0)).toBe("Speaker 1");
+  });
+});
@@ -0,0 +1,290 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { ClipboardSyncService, DataChannelService } from "../../src/renderer/core/webrtc/data/index";
+import {
+  ClipboardContent,
+  ClipboardContentKind,
+  ClipboardData,
+  ClipboardSyncState,
+  DataChannelDropReason,
+  DataChannelMessageType,
+  DataChannelName,
+  RemoteClipboardEntry
+} from "../../src/renderer/shared/types/index";
+import { CLIPBOARD_SYNC_MAX_BYTES, CLIPBOARD_SYNC_POLL_INTERVAL_MS } from "../../src/renderer/shared/constants/index";
+import { LinkedDataChannel, createLinkedDataChannels } from "./helpers/linked-data-channels";
+
+// Mock electron-log
+vi.mock("electron-log/renderer", () => ({
+  default: {
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn()
+  }
+}));
+
+// System clipboard of the local peer
+let systemClipboard: ClipboardData | null = null;
+
+vi.mock("../../src/renderer/shared/utils/clipboard", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../../src/renderer/shared/utils/clipboard")>();
+  return {
+    ...actual,
+    readClipboardData: vi.fn(async (includeImages: boolean) => {
+      if (!systemClipboard) return null;
+      if (systemClipboard.kind === ClipboardContentKind.IMAGE && !includeImages) return null;
+      return { ...systemClipboard };
+    }),
+    writeClipboardData: vi.fn(async (content: ClipboardData) => {
+      systemClipboard = { kind: content.kind, data: content.data };
+    })
+  };
+});
+
+const PNG = "data:image/png;base64,iVBORw0KGgo=";
+
+function remoteContent(data: string, kind = ClipboardContentKind.TEXT): ClipboardContent {
+  return { id: crypto.randomUUID(), kind, data, copiedAt: Date.now() };
+}
+
+const tick = () => vi.advanceTimersByTimeAsync(CLIPBOARD_SYNC_POLL_INTERVAL_MS);
+
+describe("ClipboardSyncService", () => {
+  // Clipboard sync service on one side, a bare data channel service standing in for the peer
+  let sync: ClipboardSyncService;
+  let localData: DataChannelService;
+  let peerData: DataChannelService;
+  let clipboardChannel: LinkedDataChannel;
+  let peerClipboardChannel: LinkedDataChannel;
+  let states: ClipboardSyncState[];
+  let remoteEntries: RemoteClipboardEntry[];
+  let tooLarge: Array<[ClipboardContentKind, number]>;
+  let peerUpdates: ClipboardContent[];
+  let peerStates: boolean[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    systemClipboard = null;
+
+    const linked = createLinkedDataChannels(false);
+    localData = linked.localData;
+    peerData = linked.peerData;
+    clipboardChannel = linked.localChannels.get(DataChannelName.CLIPBOARD)!;
+    peerClipboardChannel = linked.peerChannels.get(DataChannelName.CLIPBOARD)!;
+
+    sync = new ClipboardSyncService(localData);
+    states = [];
+    remoteEntries = [];
+    tooLarge = [];
+    sync.onStateChange((state) => states.push(state));
+    sync.onRemoteClipboard((entry) => remoteEntries.push(entry));
+    sync.onContentTooLarge((kind, size) => tooLarge.push([kind, size]));
+
+    peerUpdates = [];
+    peerStates = [];
+    peerData.onMessage(DataChannelMessageType.CLIPBOARD_UPDATE, (content) => peerUpdates.push(content));
+    peerData.onMessage(DataChannelMessageType.CLIPBOARD_STATE, ({ sharing }) => peerStates.push(sharing));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  describe("sharing", () => {
+    it("should not send anything until sharing is enabled", async () => {
+
+      systemClipboard = { kind: ClipboardContentKind.TEXT, data: "npm run build" };
+      await tick();
+
+      expect(peerUpdates).toEqual([]);
+      expect(clipboardChannel.send).not.toHaveBeenCalled();
+    });
+
+    it("should tell the peer and push text copied after opting in", async () => {
+
+      expect(await sync.setSharing(true)).toBe(true);
+      expect(peerStates).toEqual([true]);
+      expect(states[states.length - 1].isSharing).toBe(true);
+
+      systemClipboard = { kind: ClipboardContentKind.TEXT, data: "https://example.com/build/42" };
+      await tick();
+
+      expect(peerUpdates).toHaveLength(1);
+      expect(peerUpdates[0]).toMatchObject({ kind: ClipboardContentKind.TEXT, data: "https://example.com/build/42" });
+    });
+
+    it("should not send what was on the clipboard before opting in", async () => {
+      systemClipboard = { kind: ClipboardContentKind.TEXT, data: "old secret" };
+
+      await sync.setSharing(true);
+      await tick();
+      await tick();
+
+      expect(peerUpdates).toEqual([]);
+    });
+
+    it("should only push changes", async () => {
+      await sync.setSharing(true);
+
+      systemClipboard = { kind: ClipboardContentKind.TEXT, data: "git status" };
+      await tick();
+      await tick();
+      systemClipboard = { kind: ClipboardContentKind.TEXT, data: "git log" };
+      await tick();
+
+      expect(peerUpdates.map((update) => update.data)).toEqual(["git status", "git log"]);
+    });
+
+    it("should push images only when enabled", async () => {
+      await sync.setSharing(true);
+
+      systemClipboard = { kind: ClipboardContentKind.IMAGE, data: PNG };
+      await tick();
+      expect(peerUpdates).toEqual([]);
+
+      // The image was copied before images were allowed
+      await sync.setIncludeImages(true);
+      await tick();
+      expect(peerUpdates).toEqual([]);
+
+      systemClipboard = { kind: ClipboardContentKind.IMAGE, data: `${PNG}AAAA` };
+      await tick();
+      expect(peerUpdates).toHaveLength(1);
+      expect(peerUpdates[0].kind).toBe(ClipboardContentKind.IMAGE);
+    });
+
+    it("should skip content above the size cap", async () => {
+      await sync.setSharing(true);
+
+      systemClipboard = { kind: ClipboardContentKind.TEXT, data: "x".repeat(CLIPBOARD_SYNC_MAX_BYTES + 1) };
+      await tick();
+      await tick();
+
+      expect(peerUpdates).toEqual([]);
+      // Reported once, not on every poll
+      expect(tooLarge).toEqual([[ClipboardContentKind.TEXT, CLIPBOARD_SYNC_MAX_BYTES + 1]]);
+    });
+
+    it("should measure text in UTF-8 bytes", async () => {
+      await sync.setSharing(true);
+
+      // 3 bytes per character
+      systemClipboard = { kind: ClipboardContentKind.TEXT, data: "日".repeat(Math.floor(CLIPBOARD_SYNC_MAX_BYTES / 3) + 1) };
+      await tick();
+
+      expect(peerUpdates).toEqual([]);
+      expect(tooLarge).toHaveLength(1);
+    });
+
+    it("should stop pushing and tell the peer when sharing is disabled", async () => {
+      await sync.setSharing(true);
+      await sync.setSharing(false);
+
+      systemClipboard = { kind: ClipboardContentKind.TEXT, data: "ls -la" };
+      await tick();
+
+      expect(peerUpdates).toEqual([]);
+      expect(peerStates).toEqual([true, false]);
+      expect(sync.getState().isSharing).toBe(false);
+    });
+
+    it("should refuse to share when the clipboard channel is not open", async () => {
+      clipboardChannel.readyState = "closed";
+
+      expect(await sync.setSharing(true)).toBe(false);
+      expect(sync.getState().isSharing).toBe(false);
+      expect(peerStates).toEqual([]);
+    });
+  });
+
+  describe("receiving", () => {
+    it("should track whether the peer shares its clipboard", () => {
+
+      peerData.sendMessage(DataChannelMessageType.CLIPBOARD_STATE, { sharing: true });
+
+      expect(sync.getState().isPeerSharing).toBe(true);
+      expect(states[states.length - 1].isPeerSharing).toBe(true);
+    });
+
+    it("should keep received content without touching the clipboard by default", async () => {
+      systemClipboard = { kind: ClipboardContentKind.TEXT, data: "mine" };
+
+      peerData.sendMessage(DataChannelMessageType.CLIPBOARD_UPDATE, remoteContent("docker compose up"));
+      await vi.runOnlyPendingTimersAsync();
+
+      expect(systemClipboard).toEqual({ kind: ClipboardContentKind.TEXT, data: "mine" });
+      expect(remoteEntries).toHaveLength(1);
+      expect(remoteEntries[0]).toMatchObject({ data: "docker compose up", applied: false });
+      expect(sync.getLatestRemoteClipboard()?.data).toBe("docker compose up");
+    });
+
+    it("should copy the latest received content on request", async () => {
+      peerData.sendMessage(DataChannelMessageType.CLIPBOARD_UPDATE, remoteContent("docker compose up"));
+      await vi.runOnlyPendingTimersAsync();
+
+      expect(await sync.copyRemoteClipboard()).toBe(true);
+
+      expect(systemClipboard).toEqual({ kind: ClipboardContentKind.TEXT, data: "docker compose up" });
+      expect(remoteEntries[remoteEntries.length - 1].applied).toBe(true);
+    });
+
+    it("should have nothing to copy before the peer sent anything", async () => {
+
+      expect(await sync.copyRemoteClipboard()).toBe(false);
+    });
+
+    it("should write received content when auto-apply is enabled", async () => {
+      sync.setAutoApply(true);
+
+      peerData.sendMessage(DataChannelMessageType.CLIPBOARD_UPDATE, remoteContent(PNG, ClipboardContentKind.IMAGE));
+      await vi.runOnlyPendingTimersAsync();
+
+      expect(systemClipboard).toEqual({ kind: ClipboardContentKind.IMAGE, data: PNG });
+      expect(remoteEntries[0].applied).toBe(true);
+    });
+
+    it("should not send applied content back to the peer", async () => {
+      sync.setAutoApply(true);
+      await sync.setSharing(true);
+
+      peerData.sendMessage(DataChannelMessageType.CLIPBOARD_UPDATE, remoteContent("make test"));
+      await tick();
+      await tick();
+
+      expect(systemClipboard?.data).toBe("make test");
+      expect(peerUpdates).toEqual([]);
+    });
+
+    it("should drop oversized and malformed content", () => {
+      const send = (payload: unknown, seq: number) => peerClipboardChannel.send(JSON.stringify({
+        type: DataChannelMessageType.CLIPBOARD_UPDATE,
+        version: 1,
+        seq,
+        ts: Date.now(),
+        payload
+      }));
+
+      send(remoteContent("x".repeat(CLIPBOARD_SYNC_MAX_BYTES + 1)), 0);
+      send(remoteContent("data:text/html;base64,PGI+", ClipboardContentKind.IMAGE), 1);
+      send({ ...remoteContent("ok"), kind: "file" }, 2);
+
+      expect(remoteEntries).toEqual([]);
+      expect(localData.getMessageStats().droppedByReason[DataChannelDropReason.INVALID_PAYLOAD]).toBe(3);
+    });
+  });
+
+  it("should forget consent and stop polling on cleanup", async () => {
+    await sync.setSharing(true);
+    sync.setAutoApply(true);
+    const stateCount = states.length;
+
+    sync.cleanup();
+    systemClipboard = { kind: ClipboardContentKind.TEXT, data: "after cleanup" };
+    await tick();
+
+    expect(peerUpdates).toEqual([]);
+    expect(sync.getState()).toEqual({ isSharing: false, includeImages: false, autoApply: false, isPeerSharing: false });
+    expect(states).toHaveLength(stateCount);
+  });
+});
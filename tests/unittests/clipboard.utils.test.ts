@@ -1,5 +1,12 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { copyToClipboard, readFromClipboard } from "../../src/renderer/shared/utils/clipboard";
+import {
+  copyToClipboard,
+  getClipboardDataSize,
+  readClipboardData,
+  readFromClipboard,
+  writeClipboardData
+} from "../../src/renderer/shared/utils/clipboard";
+import { ClipboardContentKind } from "../../src/renderer/shared/types/index";
 import log from "electron-log/renderer";
 
 // Mock electron-log
@@ -469,4 +476,65 @@ describe("Clipboard Utils", () => {
       expect(mockWriteText).toHaveBeenNthCalledWith(3, "Third");
     });
   });
-});
\ No newline at end of file
+
+  describe("clipboard sync helpers", () => {
+    const png = "data:image/png;base64,iVBORw0KGgo=";
+
+    it("should read text before images", async () => {
+      const readImage = vi.fn().mockResolvedValue(png);
+      (globalThis as any).electron = {
+        clipboard: {
+          readText: vi.fn().mockResolvedValue("curl localhost:3000"),
+          readImage,
+        },
+      };
+
+      const result = await readClipboardData(true);
+
+      expect(result).toEqual({ kind: ClipboardContentKind.TEXT, data: "curl localhost:3000" });
+      expect(readImage).not.toHaveBeenCalled();
+    });
+
+    it("should read an image only when images are included", async () => {
+      (globalThis as any).electron = {
+        clipboard: {
+          readText: vi.fn().mockResolvedValue(""),
+          readImage: vi.fn().mockResolvedValue(png),
+        },
+      };
+
+      expect(await readClipboardData(false)).toBeNull();
+      expect(await readClipboardData(true)).toEqual({ kind: ClipboardContentKind.IMAGE, data: png });
+    });
+
+    it("should read an unreadable clipboard as empty without logging", async () => {
+      Object.assign((globalThis as any).navigator.clipboard, {
+        readText: vi.fn().mockRejectedValue(new Error("Document is not focused")),
+      });
+
+      expect(await readClipboardData(true)).toBeNull();
+      expect(log.warn).not.toHaveBeenCalled();
+    });
+
+    it("should write images through the Electron clipboard", async () => {
+      const writeImage = vi.fn();
+      (globalThis as any).electron = { clipboard: { writeImage } };
+
+      await writeClipboardData({ kind: ClipboardContentKind.IMAGE, data: png });
+
+      expect(writeImage).toHaveBeenCalledWith(png);
+    });
+
+    it("should reject images without the Electron clipboard", async () => {
+      await expect(
+        writeClipboardData({ kind: ClipboardContentKind.IMAGE, data: png })
+      ).rejects.toThrow("Image clipboard is only available in the desktop app.");
+    });
+
+    it("should size text in UTF-8 bytes", () => {
+      expect(getClipboardDataSize({ kind: ClipboardContentKind.TEXT, data: "abc" })).toBe(3);
+      expect(getClipboardDataSize({ kind: ClipboardContentKind.TEXT, data: "日本" })).toBe(6);
+      expect(getClipboardDataSize({ kind: ClipboardContentKind.IMAGE, data: png })).toBe(png.length);
+    });
+  });
+});
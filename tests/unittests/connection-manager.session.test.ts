@@ -2,10 +2,24 @@ import { describe, it, expect, beforeEach, afterEach, vi, Mock } from "vitest";
 import { ConnectionManager } from "../../src/renderer/core/session/connection-manager";
 import { 
   PeerRole, 
+  AnnotationTool,
+  ClipboardContentKind,
+  CursorEventType,
+  RemoteControlStatus,
+  RemoteInputEventType,
   ConnectionPhase,
   ConnectionManagerCallbacks,
-  RemoteCursorState
+  ConnectionUrlError,
+  ConnectionUrlErrorCode,
+  FileTransferDirection,
+  FileTransferStatus,
+  PeerFeature,
+  RemoteCursorState,
+  SignalingMode,
+  SignalingPayload,
+  SignalingTransport
 } from "../../src/renderer/shared/types/index";
+import { CHAT_MESSAGE_MAX_LENGTH } from "../../src/renderer/shared/constants/index";
 
 // Mock electron-log
 vi.mock("electron-log/renderer", () => ({
@@ -44,6 +58,8 @@ function createMockWebRTCService() {
     acceptAnswer: vi.fn().mockResolvedValue(undefined),
     disconnect: vi.fn().mockResolvedValue(undefined),
     isConnected: vi.fn().mockReturnValue(false),
+    canRestartIce: vi.fn().mockReturnValue(false),
+    restartIce: vi.fn().mockReturnValue(false),
     onIceConnectionStateChange: vi.fn(),
     onConnectionStateChange: vi.fn(),
     onRemoteStream: vi.fn(),
@@ -52,16 +68,73 @@ function createMockWebRTCService() {
     onCursorPing: vi.fn(),
     onCursorUpdate: vi.fn(),
     pingRemoteCursor: vi.fn().mockReturnValue(true),
+    sendCursorEvent: vi.fn().mockReturnValue(true),
+    onCursorEvent: vi.fn(),
     // New cursor channel methods
     isCursorPositionsChannelReady: vi.fn().mockReturnValue(false),
     isCursorPingChannelReady: vi.fn().mockReturnValue(false),
     areCursorChannelsReady: vi.fn().mockReturnValue(false),
     onChannelOpen: vi.fn(),
     onChannelClose: vi.fn(),
+    // Chat methods
+    sendChatMessage: vi.fn().mockReturnValue(true),
+    isChatChannelReady: vi.fn().mockReturnValue(false),
+    onChatMessage: vi.fn(),
+    // File transfer methods
+    sendFile: vi.fn().mockReturnValue("transfer-1"),
+    cancelFileTransfer: vi.fn().mockReturnValue(true),
+    isFileTransferChannelReady: vi.fn().mockReturnValue(false),
+    onFileTransferUpdate: vi.fn(),
+    onFileReceived: vi.fn(),
+    // Annotation methods
+    sendAnnotationStroke: vi.fn().mockReturnValue(true),
+    sendAnnotationClear: vi.fn().mockReturnValue(true),
+    isAnnotationChannelReady: vi.fn().mockReturnValue(false),
+    onAnnotationStroke: vi.fn(),
+    onAnnotationClear: vi.fn(),
+    // Remote control methods
+    requestRemoteControl: vi.fn().mockReturnValue(true),
+    releaseRemoteControl: vi.fn(),
+    respondToRemoteControlRequest: vi.fn().mockResolvedValue(true),
+    revokeRemoteControl: vi.fn().mockResolvedValue(undefined),
+    sendRemoteInput: vi.fn().mockReturnValue(true),
+    isRemoteControlChannelReady: vi.fn().mockReturnValue(false),
+    getRemoteControlState: vi.fn().mockReturnValue({ status: "idle", stopShortcut: null }),
+    onRemoteControlStateChange: vi.fn(),
+    // Sharer pointer methods
+    setSharerPointerBroadcasting: vi.fn(),
+    setSharerPointerHighlight: vi.fn(),
+    setSharerPointerClickRipple: vi.fn(),
+    getSharerPointerState: vi.fn().mockReturnValue({ isBroadcasting: false, highlight: true, clickRipple: true }),
+    onSharerPointerStateChange: vi.fn(),
+    // Latency methods
+    onLatencySample: vi.fn(),
+    // Peer info methods
+    getPeerInfo: vi.fn().mockReturnValue(null),
+    onPeerInfo: vi.fn(),
+    // Clipboard sync methods
+    setClipboardSharing: vi.fn().mockResolvedValue(true),
+    setClipboardIncludeImages: vi.fn().mockResolvedValue(undefined),
+    setClipboardAutoApply: vi.fn(),
+    copyRemoteClipboard: vi.fn().mockResolvedValue(true),
+    isClipboardChannelReady: vi.fn().mockReturnValue(false),
+    getClipboardSyncState: vi.fn().mockReturnValue({
+      isSharing: false,
+      includeImages: false,
+      autoApply: false,
+      isPeerSharing: false
+    }),
+    onClipboardSyncStateChange: vi.fn(),
+    onRemoteClipboard: vi.fn(),
+    onClipboardContentTooLarge: vi.fn(),
     // Media control methods
     toggleMicrophone: vi.fn().mockReturnValue(true),
     setMicrophoneEnabled: vi.fn(),
     toggleDisplayStream: vi.fn().mockReturnValue(true),
+    switchDisplaySource: vi.fn().mockResolvedValue(true),
+    toggleSystemAudio: vi.fn().mockResolvedValue(true),
+    hasSystemAudio: vi.fn().mockReturnValue(false),
+    isSystemAudioEnabled: vi.fn().mockReturnValue(false),
     setDisplayStreamEnabled: vi.fn(),
     isMicrophoneEnabled: vi.fn().mockReturnValue(false),
     hasAudioInput: vi.fn().mockReturnValue(false),
@@ -86,6 +159,7 @@ vi.mock("../../src/renderer/shared/utils/index", () => ({
   encodeConnectionUrl: vi.fn(),
   decodeConnectionUrl: vi.fn(),
   isValidConnectionUrl: vi.fn(),
+  createSessionId: vi.fn().mockReturnValue("session-1"),
   getRoleFromUrl: vi.fn(),
   getDefaultWebRTCConnectionConfig: vi.fn().mockReturnValue({
     iceServers: [{ urls: "stun:stun.l.google.com:19302" }]
@@ -143,9 +217,17 @@ describe("ConnectionManager", () => {
     (isValidConnectionUrl as Mock).mockReturnValue(true);
     (getRoleFromUrl as Mock).mockReturnValue(PeerRole.SCREEN_SHARER);
     (decodeConnectionUrl as Mock).mockResolvedValue({
-      role: PeerRole.SCREEN_SHARER,
-      username: "sharer",
-      sdp: mockOffer
+      ok: true,
+      payload: {
+        role: PeerRole.SCREEN_SHARER,
+        username: "sharer",
+        sdp: mockOffer,
+        version: 2,
+        capabilities: [],
+        sessionId: "session-1",
+        createdAt: null,
+        expiresAt: null
+      }
     });
 
     connectionManager = new ConnectionManager();
@@ -225,7 +307,8 @@ describe("ConnectionManager", () => {
       expect(encodeConnectionUrl).toHaveBeenCalledWith(
         PeerRole.SCREEN_SHARER,
         "TestSharer",
-        mockOffer
+        mockOffer,
+        { passphrase: undefined, sessionId: "session-1" }
       );
     });
 
@@ -339,9 +422,17 @@ describe("ConnectionManager", () => {
       (isValidConnectionUrl as Mock).mockReturnValue(true);
       (getRoleFromUrl as Mock).mockReturnValue(PeerRole.SCREEN_WATCHER);
       (decodeConnectionUrl as Mock).mockResolvedValue({
-        role: PeerRole.SCREEN_WATCHER,
-        username: "watcher",
-        sdp: mockAnswer
+        ok: true,
+        payload: {
+          role: PeerRole.SCREEN_WATCHER,
+          username: "watcher",
+          sdp: mockAnswer,
+          version: 2,
+          capabilities: [],
+          sessionId: "session-1",
+          createdAt: null,
+          expiresAt: null
+        }
       });
     });
 
@@ -351,7 +442,10 @@ describe("ConnectionManager", () => {
       expect(result).toBe(true);
       expect(isValidConnectionUrl).toHaveBeenCalledWith(mockAnswerUrl);
       expect(getRoleFromUrl).toHaveBeenCalledWith(mockAnswerUrl);
-      expect(decodeConnectionUrl).toHaveBeenCalledWith(mockAnswerUrl);
+      expect(decodeConnectionUrl).toHaveBeenCalledWith(mockAnswerUrl, {
+        passphrase: undefined,
+        expectedSessionId: "session-1"
+      });
       expect(mockWebRTCServiceInstance.acceptAnswer).toHaveBeenCalledWith(mockAnswer);
     });
 
@@ -396,7 +490,10 @@ describe("ConnectionManager", () => {
     });
 
     it("should return false if URL decoding fails", async () => {
-      (decodeConnectionUrl as Mock).mockResolvedValue(null);
+      (decodeConnectionUrl as Mock).mockResolvedValue({
+        ok: false,
+        error: new ConnectionUrlError(ConnectionUrlErrorCode.MALFORMED, "Connection URL data cannot be read")
+      });
 
       const result = await connectionManager.acceptAnswerUrl(mockAnswerUrl);
 
@@ -404,6 +501,26 @@ describe("ConnectionManager", () => {
       expect(mockCallbacks.onError).toHaveBeenCalled();
     });
 
+    it("should keep the offer open when the answer URL is rejected", async () => {
+      const error = new ConnectionUrlError(ConnectionUrlErrorCode.EXPIRED, "This connection URL expired 20 minutes ago");
+      (decodeConnectionUrl as Mock).mockResolvedValue({ ok: false, error });
+
+      const result = await connectionManager.acceptAnswerUrl(mockAnswerUrl);
+
+      expect(result).toBe(false);
+      expect(mockCallbacks.onError).toHaveBeenCalledWith(error);
+      expect(mockCallbacks.onPhaseChange).not.toHaveBeenCalledWith(ConnectionPhase.ERROR);
+    });
+
+    it("should reject answers from another session", async () => {
+      await connectionManager.acceptAnswerUrl(mockAnswerUrl);
+
+      expect(decodeConnectionUrl).toHaveBeenCalledWith(
+        mockAnswerUrl,
+        expect.objectContaining({ expectedSessionId: "session-1" })
+      );
+    });
+
     it("should return false if accepting answer fails", async () => {
       mockWebRTCServiceInstance.acceptAnswer.mockRejectedValue(new Error("Accept failed"));
 
@@ -433,9 +550,17 @@ describe("ConnectionManager", () => {
       (isValidConnectionUrl as Mock).mockReturnValue(true);
       (getRoleFromUrl as Mock).mockReturnValue(PeerRole.SCREEN_SHARER);
       (decodeConnectionUrl as Mock).mockResolvedValue({
-        role: PeerRole.SCREEN_SHARER,
-        username: "sharer",
-        sdp: mockOffer
+        ok: true,
+        payload: {
+          role: PeerRole.SCREEN_SHARER,
+          username: "sharer",
+          sdp: mockOffer,
+          version: 2,
+          capabilities: [],
+          sessionId: "session-1",
+          createdAt: null,
+          expiresAt: null
+        }
       });
       (encodeConnectionUrl as Mock).mockResolvedValue(mockAnswerUrl);
     });
@@ -458,7 +583,8 @@ describe("ConnectionManager", () => {
       expect(encodeConnectionUrl).toHaveBeenCalledWith(
         PeerRole.SCREEN_WATCHER,
         "TestWatcher",
-        mockAnswer
+        mockAnswer,
+        { passphrase: undefined, sessionId: "session-1", peerCapabilities: [] }
       );
     });
 
@@ -519,7 +645,10 @@ describe("ConnectionManager", () => {
     });
 
     it("should return null if URL decoding fails", async () => {
-      (decodeConnectionUrl as Mock).mockResolvedValue(null);
+      (decodeConnectionUrl as Mock).mockResolvedValue({
+        ok: false,
+        error: new ConnectionUrlError(ConnectionUrlErrorCode.MALFORMED, "Connection URL data cannot be read")
+      });
 
       const result = await connectionManager.joinSession("TestWatcher", mockOfferUrl, mockVideoElement);
 
@@ -546,6 +675,101 @@ describe("ConnectionManager", () => {
     });
   });
 
+  // ============== Signaling Transport ==============
+
+  describe("signaling transport", () => {
+    let remoteAnswerHandler: ((payload: SignalingPayload) => void) | undefined;
+    let transport: SignalingTransport;
+
+    beforeEach(() => {
+      remoteAnswerHandler = undefined;
+      transport = {
+        mode: SignalingMode.SERVER,
+        deliversAnswer: true,
+        publishOffer: vi.fn().mockResolvedValue("K7PX2M"),
+        receiveOffer: vi.fn().mockResolvedValue({
+          role: PeerRole.SCREEN_SHARER,
+          username: "sharer",
+          sdp: mockOffer
+        }),
+        publishAnswer: vi.fn().mockResolvedValue("K7PX2M"),
+        receiveAnswer: vi.fn(),
+        onRemoteAnswer: vi.fn((callback) => { remoteAnswerHandler = callback; }),
+        close: vi.fn()
+      };
+      connectionManager.setCallbacks(mockCallbacks);
+      connectionManager.setSignalingTransport(transport);
+    });
+
+    it("should use URL signaling by default", () => {
+      expect(new ConnectionManager().getSignalingTransport().mode).toBe(SignalingMode.URL);
+    });
+
+    it("should publish the offer through the transport", async () => {
+      const result = await connectionManager.startSharing("TestSharer");
+
+      expect(result).toBe("K7PX2M");
+      expect(transport.publishOffer).toHaveBeenCalledWith("TestSharer", mockOffer);
+      expect(encodeConnectionUrl).not.toHaveBeenCalled();
+    });
+
+    it("should accept answers pushed by the transport", async () => {
+      await connectionManager.startSharing("TestSharer");
+
+      remoteAnswerHandler?.({ role: PeerRole.SCREEN_WATCHER, username: "watcher", sdp: mockAnswer });
+      await vi.waitFor(() => {
+        expect(mockWebRTCServiceInstance.acceptAnswer).toHaveBeenCalledWith(mockAnswer);
+      });
+      expect(mockCallbacks.onPhaseChange).toHaveBeenCalledWith(ConnectionPhase.CONNECTING);
+    });
+
+    it("should ignore pushed answers when not waiting for one", async () => {
+      await connectionManager.startSharing("TestSharer");
+      remoteAnswerHandler?.({ role: PeerRole.SCREEN_WATCHER, username: "watcher", sdp: mockAnswer });
+      await vi.waitFor(() => {
+        expect(mockWebRTCServiceInstance.acceptAnswer).toHaveBeenCalledTimes(1);
+      });
+
+      remoteAnswerHandler?.({ role: PeerRole.SCREEN_WATCHER, username: "watcher", sdp: mockAnswer });
+      await Promise.resolve();
+
+      expect(mockWebRTCServiceInstance.acceptAnswer).toHaveBeenCalledTimes(1);
+    });
+
+    it("should resolve the offer and publish the answer through the transport", async () => {
+      const result = await connectionManager.joinSession("TestWatcher", "k7px2m", mockVideoElement);
+
+      expect(result).toBe("K7PX2M");
+      expect(transport.receiveOffer).toHaveBeenCalledWith("k7px2m");
+      expect(transport.publishAnswer).toHaveBeenCalledWith("TestWatcher", mockAnswer);
+      expect(mockCallbacks.onPhaseChange).toHaveBeenCalledWith(ConnectionPhase.ANSWER_CREATED);
+    });
+
+    it("should not ask to send back answers the transport delivers", async () => {
+      await connectionManager.joinSession("TestWatcher", "K7PX2M", mockVideoElement);
+
+      expect(mockCallbacks.onUrlGenerated).not.toHaveBeenCalled();
+    });
+
+    it("should report transport errors when joining", async () => {
+      (transport.receiveOffer as Mock).mockRejectedValue(new Error("Room not found"));
+
+      const result = await connectionManager.joinSession("TestWatcher", "K7PX2M", mockVideoElement);
+
+      expect(result).toBeNull();
+      expect(mockCallbacks.onError).toHaveBeenCalledWith(expect.objectContaining({ message: "Room not found" }));
+      expect(transport.close).toHaveBeenCalled();
+    });
+
+    it("should close the transport on disconnect", async () => {
+      await connectionManager.startSharing("TestSharer");
+
+      connectionManager.disconnect();
+
+      expect(transport.close).toHaveBeenCalled();
+    });
+  });
+
   // ================ Cursor Control ================
 
   describe("updateRemoteCursor", () => {
@@ -578,6 +802,31 @@ describe("ConnectionManager", () => {
     });
   });
 
+  describe("cursor events", () => {
+    const cursorEvent = { cursorId: "cursor-1", type: CursorEventType.BUTTON_DOWN, x: 0.2, y: 0.8 };
+
+    it("should return false when not connected", () => {
+      expect(connectionManager.sendCursorEvent(cursorEvent)).toBe(false);
+    });
+
+    it("should forward cursor events to the WebRTC service", async () => {
+      await connectionManager.joinSession("TestWatcher", mockOfferUrl, mockVideoElement);
+
+      expect(connectionManager.sendCursorEvent(cursorEvent)).toBe(true);
+      expect(mockWebRTCServiceInstance.sendCursorEvent).toHaveBeenCalledWith(cursorEvent);
+    });
+
+    it("should forward received cursor events to callbacks", async () => {
+      const onCursorEvent = vi.fn();
+      connectionManager.setCallbacks({ onCursorEvent });
+      await connectionManager.startSharing("TestSharer");
+
+      mockWebRTCServiceInstance.onCursorEvent.mock.calls[0][0](cursorEvent);
+
+      expect(onCursorEvent).toHaveBeenCalledWith(cursorEvent);
+    });
+  });
+
   // describe("onCursorUpdate", () => {
   //   beforeEach(setupCursorMocks);
 
@@ -735,6 +984,292 @@ describe("ConnectionManager", () => {
     });
   });
 
+  // ================ Chat ================
+
+  describe("chat", () => {
+    it("should not send when not connected", () => {
+      expect(connectionManager.sendChatMessage("hello")).toBeNull();
+      expect(connectionManager.isChatChannelReady()).toBe(false);
+    });
+
+    it("should send messages signed with the local username", async () => {
+      await connectionManager.startSharing("TestSharer");
+
+      const message = connectionManager.sendChatMessage("line 1\n  line 2");
+
+      expect(message).toMatchObject({ author: "TestSharer", text: "line 1\n  line 2" });
+      expect(typeof message?.id).toBe("string");
+      expect(typeof message?.sentAt).toBe("number");
+      expect(mockWebRTCServiceInstance.sendChatMessage).toHaveBeenCalledWith(message);
+    });
+
+    it("should not send blank or oversized messages", async () => {
+      await connectionManager.startSharing("TestSharer");
+
+      expect(connectionManager.sendChatMessage("   \n ")).toBeNull();
+      expect(connectionManager.sendChatMessage("x".repeat(CHAT_MESSAGE_MAX_LENGTH + 1))).toBeNull();
+      expect(mockWebRTCServiceInstance.sendChatMessage).not.toHaveBeenCalled();
+    });
+
+    it("should return null when the chat channel is not open", async () => {
+      mockWebRTCServiceInstance.sendChatMessage.mockReturnValue(false);
+      await connectionManager.startSharing("TestSharer");
+
+      expect(connectionManager.sendChatMessage("hello")).toBeNull();
+    });
+
+    it("should forward received chat messages to callbacks", async () => {
+      const onChatMessage = vi.fn();
+      connectionManager.setCallbacks({ onChatMessage });
+      await connectionManager.startSharing("TestSharer");
+
+      const message = { id: "m1", author: "watcher", text: "hi", sentAt: 1 };
+      const handler = mockWebRTCServiceInstance.onChatMessage.mock.calls[0][0];
+      handler(message);
+
+      expect(onChatMessage).toHaveBeenCalledWith(message);
+    });
+  });
+
+  // ================ File Transfer ================
+
+  describe("file transfer", () => {
+    it("should not send files when not connected", () => {
+      const file = new File(["data"], "notes.txt");
+
+      expect(connectionManager.sendFile(file)).toBeNull();
+      expect(connectionManager.cancelFileTransfer("transfer-1")).toBe(false);
+      expect(connectionManager.isFileTransferChannelReady()).toBe(false);
+    });
+
+    it("should forward files and cancels to the WebRTC service", async () => {
+      await connectionManager.startSharing("TestSharer");
+      const file = new File(["data"], "notes.txt");
+
+      expect(connectionManager.sendFile(file)).toBe("transfer-1");
+      expect(mockWebRTCServiceInstance.sendFile).toHaveBeenCalledWith(file);
+      expect(connectionManager.cancelFileTransfer("transfer-1")).toBe(true);
+      expect(mockWebRTCServiceInstance.cancelFileTransfer).toHaveBeenCalledWith("transfer-1");
+    });
+
+    it("should forward transfer updates and received files to callbacks", async () => {
+      const onFileTransferUpdate = vi.fn();
+      const onFileReceived = vi.fn();
+      connectionManager.setCallbacks({ onFileTransferUpdate, onFileReceived });
+      await connectionManager.startSharing("TestSharer");
+
+      const progress = {
+        id: "transfer-1",
+        direction: FileTransferDirection.INCOMING,
+        name: "notes.txt",
+        size: 4,
+        transferredBytes: 4,
+        status: FileTransferStatus.COMPLETED
+      };
+      const file = { id: "transfer-1", name: "notes.txt", mimeType: "text/plain", data: new Uint8Array(4) };
+      mockWebRTCServiceInstance.onFileTransferUpdate.mock.calls[0][0](progress);
+      mockWebRTCServiceInstance.onFileReceived.mock.calls[0][0](file);
+
+      expect(onFileTransferUpdate).toHaveBeenCalledWith(progress);
+      expect(onFileReceived).toHaveBeenCalledWith(file);
+    });
+  });
+
+  // ================ Annotations ================
+
+  describe("annotations", () => {
+    const strokeUpdate = {
+      id: "stroke-1",
+      tool: AnnotationTool.PEN,
+      color: "#ef4444",
+      points: [{ x: 0.5, y: 0.5 }],
+      done: false
+    };
+
+    it("should not send annotations when not connected", () => {
+      expect(connectionManager.sendAnnotationStroke(strokeUpdate)).toBe(false);
+      expect(connectionManager.clearAnnotations()).toBe(false);
+      expect(connectionManager.isAnnotationChannelReady()).toBe(false);
+    });
+
+    it("should only let the watcher draw", async () => {
+      await connectionManager.startSharing("TestSharer");
+
+      expect(connectionManager.sendAnnotationStroke(strokeUpdate)).toBe(false);
+      expect(mockWebRTCServiceInstance.sendAnnotationStroke).not.toHaveBeenCalled();
+      expect(connectionManager.clearAnnotations()).toBe(true);
+      expect(mockWebRTCServiceInstance.sendAnnotationClear).toHaveBeenCalled();
+    });
+
+    it("should forward strokes and clears to callbacks", async () => {
+      const onAnnotationStroke = vi.fn();
+      const onAnnotationClear = vi.fn();
+      connectionManager.setCallbacks({ onAnnotationStroke, onAnnotationClear });
+      await connectionManager.startSharing("TestSharer");
+
+      mockWebRTCServiceInstance.onAnnotationStroke.mock.calls[0][0](strokeUpdate);
+      mockWebRTCServiceInstance.onAnnotationClear.mock.calls[0][0]();
+
+      expect(onAnnotationStroke).toHaveBeenCalledWith(strokeUpdate);
+      expect(onAnnotationClear).toHaveBeenCalled();
+    });
+  });
+
+  // ================ Remote Control ================
+
+  describe("remote control", () => {
+    it("should not request control when not connected", () => {
+      expect(connectionManager.requestRemoteControl()).toBe(false);
+      expect(connectionManager.sendRemoteInput({ type: RemoteInputEventType.MOUSE_MOVE, x: 0, y: 0 })).toBe(false);
+      expect(connectionManager.getRemoteControlState()).toBeNull();
+    });
+
+    it("should only let the watcher request control", async () => {
+      await connectionManager.startSharing("TestSharer");
+
+      expect(connectionManager.requestRemoteControl()).toBe(false);
+      expect(mockWebRTCServiceInstance.requestRemoteControl).not.toHaveBeenCalled();
+    });
+
+    it("should forward the sharer's answer", async () => {
+      await connectionManager.startSharing("TestSharer");
+
+      expect(await connectionManager.respondToRemoteControlRequest(true)).toBe(true);
+      expect(mockWebRTCServiceInstance.respondToRemoteControlRequest).toHaveBeenCalledWith(true);
+    });
+
+    it("should forward state changes to callbacks", async () => {
+      const onRemoteControlStateChange = vi.fn();
+      connectionManager.setCallbacks({ onRemoteControlStateChange });
+      await connectionManager.startSharing("TestSharer");
+
+      const state = { status: RemoteControlStatus.REQUESTED, stopShortcut: null };
+      mockWebRTCServiceInstance.onRemoteControlStateChange.mock.calls[0][0](state);
+
+      expect(onRemoteControlStateChange).toHaveBeenCalledWith(state);
+    });
+  });
+
+  // ================ Sharer Pointer ================
+
+  describe("sharer pointer", () => {
+    it("should not broadcast the pointer when not connected", () => {
+      expect(connectionManager.setSharerPointerBroadcasting(true)).toBe(false);
+      expect(connectionManager.getSharerPointerState()).toBeNull();
+    });
+
+    it("should broadcast the sharer's pointer under its name", async () => {
+      await connectionManager.startSharing("TestSharer");
+
+      expect(connectionManager.setSharerPointerBroadcasting(true, "TestSharer")).toBe(true);
+      expect(mockWebRTCServiceInstance.setSharerPointerBroadcasting).toHaveBeenCalledWith(true, "TestSharer");
+    });
+
+    it("should not let the watcher broadcast its pointer", async () => {
+      await connectionManager.joinSession("TestWatcher", mockOfferUrl, mockVideoElement);
+
+      expect(connectionManager.setSharerPointerBroadcasting(true)).toBe(false);
+      expect(mockWebRTCServiceInstance.setSharerPointerBroadcasting).not.toHaveBeenCalled();
+    });
+
+    it("should forward state changes to callbacks", async () => {
+      const onSharerPointerStateChange = vi.fn();
+      connectionManager.setCallbacks({ onSharerPointerStateChange });
+      await connectionManager.startSharing("TestSharer");
+
+      const state = { isBroadcasting: true, highlight: false, clickRipple: true };
+      mockWebRTCServiceInstance.onSharerPointerStateChange.mock.calls[0][0](state);
+
+      expect(onSharerPointerStateChange).toHaveBeenCalledWith(state);
+    });
+  });
+
+  // ================ Latency ================
+
+  describe("latency", () => {
+    it("should forward latency samples to callbacks", async () => {
+      const onLatencySample = vi.fn();
+      connectionManager.setCallbacks({ onLatencySample });
+      await connectionManager.joinSession("TestWatcher", mockOfferUrl, mockVideoElement);
+
+      const sample = { rttMs: 42, jitterMs: 3, at: Date.now() };
+      mockWebRTCServiceInstance.onLatencySample.mock.calls[0][0](sample);
+
+      expect(onLatencySample).toHaveBeenCalledWith(sample);
+    });
+  });
+
+  // ================ Peer Info ================
+
+  describe("peer info", () => {
+    it("should not know the peer when not connected", () => {
+      expect(connectionManager.getPeerInfo()).toBeNull();
+    });
+
+    it("should forward the peer from the hello handshake to callbacks", async () => {
+      const onPeerInfo = vi.fn();
+      connectionManager.setCallbacks({ onPeerInfo });
+      await connectionManager.joinSession("TestWatcher", mockOfferUrl, mockVideoElement);
+
+      const info = { appVersion: "1.3.0", name: "Alice", cursorColor: "#F97316", features: [PeerFeature.CHAT] };
+      mockWebRTCServiceInstance.onPeerInfo.mock.calls[0][0](info);
+      mockWebRTCServiceInstance.getPeerInfo.mockReturnValue(info);
+
+      expect(onPeerInfo).toHaveBeenCalledWith(info);
+      expect(connectionManager.getPeerInfo()).toEqual(info);
+    });
+  });
+
+  // ================ Clipboard Sync ================
+
+  describe("clipboard sync", () => {
+    it("should not share the clipboard when not connected", async () => {
+      expect(await connectionManager.setClipboardSharing(true)).toBe(false);
+      expect(await connectionManager.copyRemoteClipboard()).toBe(false);
+      expect(connectionManager.isClipboardChannelReady()).toBe(false);
+      expect(connectionManager.getClipboardSyncState()).toBeNull();
+    });
+
+    it("should forward consent changes to the WebRTC service", async () => {
+      await connectionManager.startSharing("TestSharer");
+
+      expect(await connectionManager.setClipboardSharing(true)).toBe(true);
+      await connectionManager.setClipboardIncludeImages(true);
+      connectionManager.setClipboardAutoApply(true);
+      expect(await connectionManager.copyRemoteClipboard()).toBe(true);
+
+      expect(mockWebRTCServiceInstance.setClipboardSharing).toHaveBeenCalledWith(true);
+      expect(mockWebRTCServiceInstance.setClipboardIncludeImages).toHaveBeenCalledWith(true);
+      expect(mockWebRTCServiceInstance.setClipboardAutoApply).toHaveBeenCalledWith(true);
+      expect(mockWebRTCServiceInstance.copyRemoteClipboard).toHaveBeenCalled();
+    });
+
+    it("should forward clipboard events to callbacks", async () => {
+      const onClipboardSyncStateChange = vi.fn();
+      const onRemoteClipboard = vi.fn();
+      const onClipboardContentTooLarge = vi.fn();
+      connectionManager.setCallbacks({ onClipboardSyncStateChange, onRemoteClipboard, onClipboardContentTooLarge });
+      await connectionManager.startSharing("TestSharer");
+
+      const state = { isSharing: false, includeImages: false, autoApply: false, isPeerSharing: true };
+      const entry = {
+        id: "clip-1",
+        kind: ClipboardContentKind.TEXT,
+        data: "npm test",
+        copiedAt: 1,
+        receivedAt: 2,
+        applied: false
+      };
+      mockWebRTCServiceInstance.onClipboardSyncStateChange.mock.calls[0][0](state);
+      mockWebRTCServiceInstance.onRemoteClipboard.mock.calls[0][0](entry);
+      mockWebRTCServiceInstance.onClipboardContentTooLarge.mock.calls[0][0](ClipboardContentKind.IMAGE, 300000);
+
+      expect(onClipboardSyncStateChange).toHaveBeenCalledWith(state);
+      expect(onRemoteClipboard).toHaveBeenCalledWith(entry);
+      expect(onClipboardContentTooLarge).toHaveBeenCalledWith(ClipboardContentKind.IMAGE, 300000);
+    });
+  });
+
   // describe("onChannelOpen", () => {
   //   beforeEach(setupCursorMocks);
 
@@ -856,6 +1391,38 @@ describe("ConnectionManager", () => {
     });
   });
 
+  describe("toggleSystemAudio", () => {
+    beforeEach(setupCursorMocks);
+
+    it("should return false when not connected", async () => {
+      expect(await connectionManager.toggleSystemAudio()).toBe(false);
+      expect(connectionManager.hasSystemAudio()).toBe(false);
+    });
+
+    it("should toggle system audio through WebRTC service when connected", async () => {
+      await connectionManager.startSharing("TestSharer");
+
+      expect(await connectionManager.toggleSystemAudio()).toBe(true);
+      expect(mockWebRTCServiceInstance.toggleSystemAudio).toHaveBeenCalled();
+    });
+  });
+
+  describe("switchDisplaySource", () => {
+    beforeEach(setupCursorMocks);
+
+    it("should return false when not connected", async () => {
+      expect(await connectionManager.switchDisplaySource()).toBe(false);
+    });
+
+    it("should switch the shared source through WebRTC service without reconnecting", async () => {
+      await connectionManager.startSharing("TestSharer");
+
+      expect(await connectionManager.switchDisplaySource()).toBe(true);
+      expect(mockWebRTCServiceInstance.switchDisplaySource).toHaveBeenCalled();
+      expect(mockWebRTCServiceInstance.disconnect).not.toHaveBeenCalled();
+    });
+  });
+
   describe("setDisplayStreamEnabled", () => {
     beforeEach(setupCursorMocks);
 
@@ -1300,6 +1867,154 @@ describe("ConnectionManager", () => {
     });
   });
 
+  // ============== Reconnection ==============
+
+  describe("reconnection", () => {
+    let iceCallback: (state: RTCIceConnectionState) => void;
+    let connectionCallback: (state: RTCPeerConnectionState) => void;
+
+    const connectAs = async (role: PeerRole) => {
+      connectionManager.setCallbacks({ ...mockCallbacks, onReconnectStateChange: vi.fn() });
+      connectionManager.setReconnectPolicy({ maxAttempts: 3, initialDelayMs: 1000, maxDelayMs: 2000 });
+      if (role === PeerRole.SCREEN_SHARER) {
+        await connectionManager.startSharing("TestSharer");
+      } else {
+        await connectionManager.joinSession("TestWatcher", mockOfferUrl, mockVideoElement);
+      }
+
+      iceCallback = mockWebRTCServiceInstance.onIceConnectionStateChange.mock.calls[0][0];
+      connectionCallback = mockWebRTCServiceInstance.onConnectionStateChange.mock.calls[0][0];
+      connectionCallback("connected");
+      mockWebRTCServiceInstance.canRestartIce.mockReturnValue(true);
+      mockWebRTCServiceInstance.restartIce.mockReturnValue(true);
+      vi.clearAllMocks();
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      connectionManager.disconnect();
+      vi.useRealTimers();
+    });
+
+    it("should enter RECONNECTING instead of DISCONNECTED when the network drops", async () => {
+      await connectAs(PeerRole.SCREEN_SHARER);
+
+      iceCallback("disconnected");
+
+      expect(mockCallbacks.onPhaseChange).toHaveBeenCalledWith(ConnectionPhase.RECONNECTING);
+      expect(mockCallbacks.onPhaseChange).not.toHaveBeenCalledWith(ConnectionPhase.DISCONNECTED);
+    });
+
+    it("should disconnect right away without an open signaling channel", async () => {
+      await connectAs(PeerRole.SCREEN_SHARER);
+      mockWebRTCServiceInstance.canRestartIce.mockReturnValue(false);
+
+      iceCallback("failed");
+
+      expect(mockCallbacks.onPhaseChange).toHaveBeenCalledWith(ConnectionPhase.DISCONNECTED);
+      expect(mockCallbacks.onPhaseChange).not.toHaveBeenCalledWith(ConnectionPhase.RECONNECTING);
+    });
+
+    it("should restart ICE with a doubling delay capped by the policy", async () => {
+      await connectAs(PeerRole.SCREEN_SHARER);
+
+      iceCallback("failed");
+      expect(mockWebRTCServiceInstance.restartIce).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(mockWebRTCServiceInstance.restartIce).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(mockWebRTCServiceInstance.restartIce).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(mockWebRTCServiceInstance.restartIce).toHaveBeenCalledTimes(2);
+
+      await vi.advanceTimersByTimeAsync(2000);
+      expect(mockWebRTCServiceInstance.restartIce).toHaveBeenCalledTimes(3);
+    });
+
+    it("should report reconnect progress", async () => {
+      await connectAs(PeerRole.SCREEN_SHARER);
+      const onReconnectStateChange = vi.fn();
+      connectionManager.setCallbacks({ onReconnectStateChange });
+
+      iceCallback("disconnected");
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(onReconnectStateChange).toHaveBeenNthCalledWith(1, expect.objectContaining({ attempt: 0, maxAttempts: 3 }));
+      expect(onReconnectStateChange).toHaveBeenNthCalledWith(2, expect.objectContaining({ attempt: 1, maxAttempts: 3 }));
+    });
+
+    it("should go back to CONNECTED and stop retrying once the connection recovers", async () => {
+      await connectAs(PeerRole.SCREEN_SHARER);
+      const onReconnectStateChange = vi.fn();
+      connectionManager.setCallbacks({ onReconnectStateChange });
+
+      iceCallback("failed");
+      await vi.advanceTimersByTimeAsync(1000);
+      connectionCallback("connected");
+      await vi.advanceTimersByTimeAsync(10000);
+
+      expect(mockCallbacks.onPhaseChange).toHaveBeenLastCalledWith(ConnectionPhase.CONNECTED);
+      expect(mockWebRTCServiceInstance.restartIce).toHaveBeenCalledTimes(1);
+      expect(onReconnectStateChange).toHaveBeenLastCalledWith(null);
+    });
+
+    it("should stay RECONNECTING while the restarted ICE is checking", async () => {
+      await connectAs(PeerRole.SCREEN_SHARER);
+
+      iceCallback("disconnected");
+      iceCallback("checking");
+
+      expect(mockCallbacks.onPhaseChange).not.toHaveBeenCalledWith(ConnectionPhase.CONNECTING);
+    });
+
+    it("should give up after the last attempt", async () => {
+      await connectAs(PeerRole.SCREEN_SHARER);
+
+      iceCallback("failed");
+      await vi.advanceTimersByTimeAsync(1000 + 2000 + 2000);
+      expect(mockCallbacks.onPhaseChange).not.toHaveBeenCalledWith(ConnectionPhase.DISCONNECTED);
+
+      await vi.advanceTimersByTimeAsync(2000);
+      expect(mockWebRTCServiceInstance.restartIce).toHaveBeenCalledTimes(3);
+      expect(mockCallbacks.onPhaseChange).toHaveBeenLastCalledWith(ConnectionPhase.DISCONNECTED);
+    });
+
+    it("should give up when the signaling channel closes during a restart", async () => {
+      await connectAs(PeerRole.SCREEN_SHARER);
+      mockWebRTCServiceInstance.restartIce.mockReturnValue(false);
+
+      iceCallback("failed");
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(mockCallbacks.onPhaseChange).toHaveBeenLastCalledWith(ConnectionPhase.DISCONNECTED);
+    });
+
+    it("should let the sharer drive ICE restarts", async () => {
+      await connectAs(PeerRole.SCREEN_WATCHER);
+
+      iceCallback("failed");
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(mockCallbacks.onPhaseChange).toHaveBeenCalledWith(ConnectionPhase.RECONNECTING);
+      expect(mockWebRTCServiceInstance.restartIce).not.toHaveBeenCalled();
+    });
+
+    it("should cancel retries on disconnect", async () => {
+      await connectAs(PeerRole.SCREEN_SHARER);
+
+      iceCallback("failed");
+      connectionManager.disconnect();
+      await vi.advanceTimersByTimeAsync(10000);
+
+      expect(mockWebRTCServiceInstance.restartIce).not.toHaveBeenCalled();
+    });
+  });
+
   // ============== Edge Cases ==============
 
   describe("edge cases", () => {
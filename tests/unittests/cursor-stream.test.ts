@@ -0,0 +1,86 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  CURSOR_FRAME_MAX_POINTS,
+  decodeCursorFrame,
+  encodeCursorFrame,
+  isNewerCursorFrame,
+  quantizeCursorCoordinate
+} from "../../src/renderer/core/webrtc/data/index";
+
+// Mock electron-log
+vi.mock("electron-log/renderer", () => ({
+  default: {
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn()
+  }
+}));
+
+describe("cursor stream frames", () => {
+  it("should round-trip points within the 16-bit precision", () => {
+    const points = [{ x: 0, y: 1 }, { x: 0.123456, y: 0.654321 }, { x: 0.5, y: 0.5 }];
+
+    const frame = decodeCursorFrame(encodeCursorFrame({ streamId: 513, seq: 40000, points }));
+
+    expect(frame?.streamId).toBe(513);
+    expect(frame?.seq).toBe(40000);
+    frame?.points.forEach((point, index) => {
+      expect(point.x).toBeCloseTo(points[index].x, 4);
+      expect(point.y).toBeCloseTo(points[index].y, 4);
+    });
+  });
+
+  it("should take 10 bytes for one point and 4 more per delta", () => {
+    expect(encodeCursorFrame({ streamId: 0, seq: 0, points: [{ x: 0.5, y: 0.5 }] }).byteLength).toBe(10);
+    expect(encodeCursorFrame({
+      streamId: 0,
+      seq: 0,
+      points: [{ x: 0.5, y: 0.5 }, { x: 0.51, y: 0.5 }, { x: 0.52, y: 0.49 }]
+    }).byteLength).toBe(18);
+  });
+
+  it("should keep the newest points when there are too many", () => {
+    const points = Array.from({ length: CURSOR_FRAME_MAX_POINTS + 5 }, (_, index) => ({ x: index / 100, y: 0 }));
+
+    const frame = decodeCursorFrame(encodeCursorFrame({ streamId: 0, seq: 0, points }));
+
+    expect(frame?.points).toHaveLength(CURSOR_FRAME_MAX_POINTS);
+    expect(frame?.points[frame.points.length - 1].x).toBeCloseTo(points[points.length - 1].x, 4);
+  });
+
+  it("should start the frame after a jump too large for a delta", () => {
+    const points = [{ x: 0, y: 0 }, { x: 0.01, y: 0 }, { x: 0.9, y: 0 }, { x: 0.91, y: 0 }];
+
+    const frame = decodeCursorFrame(encodeCursorFrame({ streamId: 0, seq: 0, points }));
+
+    expect(frame?.points.map((point) => Math.round(point.x * 100))).toEqual([90, 91]);
+  });
+
+  it("should clamp coordinates to the shared screen", () => {
+    expect(quantizeCursorCoordinate(-0.5)).toBe(0);
+    expect(quantizeCursorCoordinate(1.5)).toBe(0xffff);
+  });
+
+  it("should reject data that is not a well-formed frame", () => {
+    const valid = encodeCursorFrame({ streamId: 0, seq: 0, points: [{ x: 0.6, y: 0.5 }, { x: 0.7, y: 0.5 }] });
+
+    expect(decodeCursorFrame(new ArrayBuffer(4))).toBeNull();
+    expect(decodeCursorFrame(valid.slice(0, valid.byteLength - 1))).toBeNull();
+
+    const unknownFormat = valid.slice(0);
+    new DataView(unknownFormat).setUint8(0, 2);
+    expect(decodeCursorFrame(unknownFormat)).toBeNull();
+
+    const offScreen = valid.slice(0);
+    new DataView(offScreen).setInt16(10, 0x7fff, true);
+    expect(decodeCursorFrame(offScreen)).toBeNull();
+  });
+
+  it("should order frame numbers across the wrap-around", () => {
+    expect(isNewerCursorFrame(1, 0)).toBe(true);
+    expect(isNewerCursorFrame(0, 0xffff)).toBe(true);
+    expect(isNewerCursorFrame(0xffff, 0)).toBe(false);
+    expect(isNewerCursorFrame(5, 5)).toBe(false);
+  });
+});
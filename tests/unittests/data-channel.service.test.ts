@@ -1,24 +1,60 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
-import { DataChannelService } from "../../src/renderer/core/webrtc/data/index";
+import {
+  DataChannelService,
+  createEnvelope,
+  decodeCursorFrame,
+  encodeCursorFrame
+} from "../../src/renderer/core/webrtc/data/index";
 import { 
+  AnnotationStrokeUpdate,
+  AnnotationTool,
+  ChatMessage,
+  CursorEventType,
+  CursorMode,
+  DataChannelDropReason,
+  DataChannelMessagePayloads,
+  DataChannelMessageType,
   DataChannelName, 
-  RemoteCursorState 
+  RemoteCursorState,
+  RemoteInputEvent,
+  RemoteInputEventType,
+  SignalingMessage
 } from "../../src/renderer/shared/types/index";
+import {
+  ANNOTATION_MAX_POINTS_PER_UPDATE,
+  CHAT_MESSAGE_MAX_LENGTH,
+  CURSOR_LASER_MAX_TRAIL_POINTS
+} from "../../src/renderer/shared/constants/index";
 
 // Mock electron-log
 vi.mock("electron-log/renderer", () => ({
   default: {
     error: vi.fn(),
     warn: vi.fn(),
-    info: vi.fn()
+    info: vi.fn(),
+    debug: vi.fn()
   }
 }));
 
+const toWire = <T extends DataChannelMessageType>(
+  type: T,
+  payload: DataChannelMessagePayloads[T],
+  seq: number = 0
+): string => JSON.stringify(createEnvelope(type, payload, seq));
+
+const lastSent = (channel: RTCDataChannel) => {
+  const calls = (channel.send as any).mock.calls;
+  return JSON.parse(calls[calls.length - 1][0]);
+};
+
 describe("DataChannelService", () => {
   let service: DataChannelService;
   let mockPeerConnection: RTCPeerConnection;
   let mockCursorPositionsChannel: RTCDataChannel;
   let mockCursorPingChannel: RTCDataChannel;
+  let mockCursorStreamChannel: RTCDataChannel;
+  let mockSignalingChannel: RTCDataChannel;
+  let mockChatChannel: RTCDataChannel;
 
   const createMockDataChannel = (label: string): RTCDataChannel => {
     return {
@@ -38,6 +74,9 @@ describe("DataChannelService", () => {
 
     mockCursorPositionsChannel = createMockDataChannel(DataChannelName.CURSOR_POSITIONS);
     mockCursorPingChannel = createMockDataChannel(DataChannelName.CURSOR_PING);
+    mockCursorStreamChannel = createMockDataChannel(DataChannelName.CURSOR_STREAM);
+    mockSignalingChannel = createMockDataChannel(DataChannelName.SIGNALING);
+    mockChatChannel = createMockDataChannel(DataChannelName.CHAT);
 
     mockPeerConnection = {
       createDataChannel: vi.fn((label: string) => {
@@ -47,6 +86,15 @@ describe("DataChannelService", () => {
         if (label === DataChannelName.CURSOR_PING) {
           return mockCursorPingChannel;
         }
+        if (label === DataChannelName.CURSOR_STREAM) {
+          return mockCursorStreamChannel;
+        }
+        if (label === DataChannelName.SIGNALING) {
+          return mockSignalingChannel;
+        }
+        if (label === DataChannelName.CHAT) {
+          return mockChatChannel;
+        }
         return createMockDataChannel(label);
       })
     } as unknown as RTCPeerConnection;
@@ -73,11 +121,33 @@ describe("DataChannelService", () => {
       service.createChannels(mockPeerConnection);
 
       expect(mockPeerConnection.createDataChannel).toHaveBeenCalledWith(
-        DataChannelName.CURSOR_POSITIONS
+        DataChannelName.CURSOR_POSITIONS,
+        undefined
+      );
+      expect(mockPeerConnection.createDataChannel).toHaveBeenCalledWith(
+        DataChannelName.CURSOR_PING,
+        undefined
+      );
+    });
+
+    it("should create the cursor stream unordered and without retransmits", () => {
+      service.createChannels(mockPeerConnection);
+
+      expect(mockPeerConnection.createDataChannel).toHaveBeenCalledWith(
+        DataChannelName.CURSOR_STREAM,
+        { ordered: false, maxRetransmits: 0 }
       );
+      expect(mockCursorStreamChannel.binaryType).toBe("arraybuffer");
+    });
+
+    it("should create the signaling channel", () => {
+      service.createChannels(mockPeerConnection);
+
       expect(mockPeerConnection.createDataChannel).toHaveBeenCalledWith(
-        DataChannelName.CURSOR_PING
+        DataChannelName.SIGNALING,
+        undefined
       );
+      expect(mockSignalingChannel.onmessage).not.toBeNull();
     });
 
     it("should setup event handlers on created channels", () => {
@@ -109,6 +179,16 @@ describe("DataChannelService", () => {
       expect(incomingChannel.onmessage).not.toBeNull();
     });
 
+    it("should setup signaling channel when received", () => {
+      const incomingChannel = createMockDataChannel(DataChannelName.SIGNALING);
+
+      service.handleIncomingChannel(incomingChannel);
+
+      expect(incomingChannel.onopen).not.toBeNull();
+      expect(incomingChannel.onmessage).not.toBeNull();
+      expect(service.isSignalingChannelReady()).toBe(true);
+    });
+
     it("should ignore unknown channel labels", () => {
       const unknownChannel = createMockDataChannel("unknownChannel");
 
@@ -137,7 +217,7 @@ describe("DataChannelService", () => {
       };
 
       const messageEvent = {
-        data: JSON.stringify(cursorData)
+        data: toWire(DataChannelMessageType.CURSOR_POSITION, cursorData)
       } as MessageEvent;
 
       mockCursorPositionsChannel.onmessage?.(messageEvent);
@@ -145,28 +225,73 @@ describe("DataChannelService", () => {
       expect(callback).toHaveBeenCalledWith(cursorData);
     });
 
-    it("should NOT call callback when Watcher receives cursor data (Watcher sends, not receives)", () => {
-      // Watcher (isScreenSharer=false) should NOT process incoming cursor data
+    it("should call callback when Watcher receives the sharer pointer (Sharer broadcasts, Watcher receives)", () => {
+      // Watcher (isScreenSharer=false) renders the pointer the sharer broadcasts
       const watcherService = new DataChannelService(false);
       const callback = vi.fn();
       watcherService.onCursorUpdate(callback);
       watcherService.createChannels(mockPeerConnection);
 
-      const cursorData: RemoteCursorState = {
+      const pointerData: RemoteCursorState = {
+        id: "pointer-1",
+        name: "Sharer",
+        color: "#F97316",
+        x: 0.5,
+        y: 0.25,
+        highlight: true
+      };
+
+      const messageEvent = {
+        data: toWire(DataChannelMessageType.CURSOR_POSITION, pointerData)
+      } as MessageEvent;
+
+      mockCursorPositionsChannel.onmessage?.(messageEvent);
+
+      expect(callback).toHaveBeenCalledWith(pointerData);
+    });
+
+    it("should accept a laser cursor with its trail", () => {
+      const sharerService = new DataChannelService(true);
+      const callback = vi.fn();
+      sharerService.onCursorUpdate(callback);
+      sharerService.createChannels(mockPeerConnection);
+
+      const laserData: RemoteCursorState = {
         id: "cursor-1",
-        name: "TestUser",
-        color: "#FF0000",
-        x: 100,
-        y: 200
+        name: "Watcher",
+        color: "#3B82F6",
+        x: 0.3,
+        y: 0.3,
+        mode: CursorMode.LASER,
+        trail: [{ x: 0.1, y: 0.1 }, { x: 0.2, y: 0.2 }]
       };
 
+      mockCursorPositionsChannel.onmessage?.({
+        data: toWire(DataChannelMessageType.CURSOR_POSITION, laserData)
+      } as MessageEvent);
+
+      expect(callback).toHaveBeenCalledWith(laserData);
+    });
+
+    it.each([
+      ["an unknown mode", { mode: "spotlight" }],
+      ["a trail point off the screen", { trail: [{ x: 1.5, y: 0.1 }] }],
+      ["a trail that is too long", { trail: Array(CURSOR_LASER_MAX_TRAIL_POINTS + 1).fill({ x: 0.1, y: 0.1 }) }],
+      ["a non-boolean highlight", { highlight: "yes" }]
+    ])("should drop cursor data with %s", (_label, extra) => {
+      const sharerService = new DataChannelService(true);
+      const callback = vi.fn();
+      sharerService.onCursorUpdate(callback);
+      sharerService.createChannels(mockPeerConnection);
+
       const messageEvent = {
-        data: JSON.stringify(cursorData)
+        data: toWire(DataChannelMessageType.CURSOR_POSITION, {
+          id: "cursor-1", name: "Watcher", color: "#3B82F6", x: 0, y: 0, ...extra
+        } as unknown as RemoteCursorState)
       } as MessageEvent;
 
       mockCursorPositionsChannel.onmessage?.(messageEvent);
 
-      // Watcher only sends cursor data, does not receive
       expect(callback).not.toHaveBeenCalled();
     });
 
@@ -175,7 +300,7 @@ describe("DataChannelService", () => {
       sharerService.createChannels(mockPeerConnection);
 
       const messageEvent = {
-        data: JSON.stringify({ id: "cursor-1", name: "Test", color: "#000", x: 0, y: 0 })
+        data: toWire(DataChannelMessageType.CURSOR_POSITION, { id: "cursor-1", name: "Test", color: "#000", x: 0, y: 0 })
       } as MessageEvent;
 
       expect(() => {
@@ -184,6 +309,52 @@ describe("DataChannelService", () => {
     });
   });
 
+  describe("onCursorEvent", () => {
+    it("should call callback for both roles", () => {
+      for (const isScreenSharer of [true, false]) {
+        const roleService = new DataChannelService(isScreenSharer);
+        const callback = vi.fn();
+        roleService.onCursorEvent(callback);
+        roleService.createChannels(mockPeerConnection);
+
+        const event = { cursorId: "cursor-1", type: CursorEventType.DOUBLE_CLICK, x: 0.4, y: 0.6 };
+        mockCursorPositionsChannel.onmessage?.({
+          data: toWire(DataChannelMessageType.CURSOR_EVENT, event)
+        } as MessageEvent);
+
+        expect(callback).toHaveBeenCalledWith(event);
+      }
+    });
+
+    it("should drop events of an unknown type or off the screen", () => {
+      service.createChannels(mockPeerConnection);
+      const callback = vi.fn();
+      service.onCursorEvent(callback);
+
+      for (const payload of [
+        { cursorId: "cursor-1", type: "triple.click", x: 0.4, y: 0.6 },
+        { cursorId: "cursor-1", type: CursorEventType.BUTTON_DOWN, x: -0.1, y: 0.6 }
+      ]) {
+        mockCursorPositionsChannel.onmessage?.({
+          data: toWire(DataChannelMessageType.CURSOR_EVENT, payload as any)
+        } as MessageEvent);
+      }
+
+      expect(callback).not.toHaveBeenCalled();
+    });
+
+    it("should send events on the cursor positions channel", () => {
+      service.createChannels(mockPeerConnection);
+      const event = { cursorId: "cursor-1", type: CursorEventType.BUTTON_DOWN, x: 0.4, y: 0.6 };
+
+      expect(service.sendCursorEvent(event)).toBe(true);
+      expect(lastSent(mockCursorPositionsChannel)).toMatchObject({
+        type: DataChannelMessageType.CURSOR_EVENT,
+        payload: event
+      });
+    });
+  });
+
   describe("onCursorPing", () => {
     it("should call ping callback for Watcher (ping is bidirectional)", () => {
       const watcherService = new DataChannelService(false);
@@ -193,7 +364,7 @@ describe("DataChannelService", () => {
       watcherService.createChannels(mockPeerConnection);
 
       const messageEvent = {
-        data: "cursor-1"
+        data: toWire(DataChannelMessageType.CURSOR_PING, { cursorId: "cursor-1" })
       } as MessageEvent;
 
       mockCursorPingChannel.onmessage?.(messageEvent);
@@ -208,7 +379,7 @@ describe("DataChannelService", () => {
       sharerService.createChannels(mockPeerConnection);
 
       const messageEvent = {
-        data: "cursor-1"
+        data: toWire(DataChannelMessageType.CURSOR_PING, { cursorId: "cursor-1" })
       } as MessageEvent;
 
       mockCursorPingChannel.onmessage?.(messageEvent);
@@ -245,8 +416,60 @@ describe("DataChannelService", () => {
   });
 
   describe("updateRemoteCursor", () => {
-    it("should send cursor update successfully when channel ready", () => {
+    it("should introduce the cursor once, then send binary frames on the cursor stream", () => {
+      service.createChannels(mockPeerConnection);
+      service.setCursorStreamEnabled(true);
+      const cursorData: RemoteCursorState = {
+        id: "cursor-1",
+        name: "TestUser",
+        color: "#FF0000",
+        x: 0.25,
+        y: 0.75,
+        trail: [{ x: 0.2, y: 0.7 }]
+      };
+
+      expect(service.updateRemoteCursor(cursorData)).toBe(true);
+      expect(service.updateRemoteCursor({ ...cursorData, x: 0.3, trail: undefined })).toBe(true);
+
+      expect(mockCursorPositionsChannel.send).toHaveBeenCalledTimes(1);
+      expect(lastSent(mockCursorPositionsChannel)).toMatchObject({
+        type: DataChannelMessageType.CURSOR_HELLO,
+        payload: { streamId: 0, cursorId: "cursor-1", name: "TestUser", color: "#FF0000" }
+      });
+
+      const frames = (mockCursorStreamChannel.send as any).mock.calls.map(([data]: [ArrayBuffer]) => decodeCursorFrame(data));
+      expect(frames.map((frame: any) => frame.seq)).toEqual([0, 1]);
+      expect(frames[0].points).toHaveLength(2);
+      expect(frames[0].points[1].x).toBeCloseTo(0.25, 4);
+      expect(frames[1].points[0].x).toBeCloseTo(0.3, 4);
+    });
+
+    it("should introduce the cursor again when its look changes", () => {
+      service.createChannels(mockPeerConnection);
+      service.setCursorStreamEnabled(true);
+      const cursorData: RemoteCursorState = { id: "cursor-1", name: "TestUser", color: "#FF0000", x: 0.5, y: 0.5 };
+
+      service.updateRemoteCursor(cursorData);
+      service.updateRemoteCursor({ ...cursorData, mode: CursorMode.LASER });
+
+      expect(mockCursorPositionsChannel.send).toHaveBeenCalledTimes(2);
+      expect(lastSent(mockCursorPositionsChannel).payload).toMatchObject({ streamId: 0, mode: CursorMode.LASER });
+    });
+
+    it("should send a JSON cursor update until the peer announced the cursor stream", () => {
+      service.createChannels(mockPeerConnection);
+      const cursorData: RemoteCursorState = { id: "cursor-1", name: "TestUser", color: "#FF0000", x: 0.5, y: 0.5 };
+
+      expect(service.updateRemoteCursor(cursorData)).toBe(true);
+
+      expect(mockCursorStreamChannel.send).not.toHaveBeenCalled();
+      expect(lastSent(mockCursorPositionsChannel).type).toBe(DataChannelMessageType.CURSOR_POSITION);
+    });
+
+    it("should send a JSON cursor update while the cursor stream is not open", () => {
       service.createChannels(mockPeerConnection);
+      service.setCursorStreamEnabled(true);
+      (mockCursorStreamChannel as any).readyState = "connecting";
 
       const cursorData: RemoteCursorState = {
         id: "cursor-1",
@@ -259,7 +482,12 @@ describe("DataChannelService", () => {
       const result = service.updateRemoteCursor(cursorData);
 
       expect(result).toBe(true);
-      expect(mockCursorPositionsChannel.send).toHaveBeenCalledWith(JSON.stringify(cursorData));
+      expect(lastSent(mockCursorPositionsChannel)).toMatchObject({
+        type: DataChannelMessageType.CURSOR_POSITION,
+        version: 1,
+        seq: 0,
+        payload: cursorData
+      });
     });
 
     it("should return false when channel is not ready", () => {
@@ -315,6 +543,59 @@ describe("DataChannelService", () => {
     });
   });
 
+  describe("cursor stream", () => {
+    const hello = { streamId: 3, cursorId: "cursor-1", name: "Watcher", color: "#3B82F6", mode: CursorMode.LASER };
+    const frame = (seq: number, points = [{ x: 0.1, y: 0.2 }, { x: 0.3, y: 0.4 }]) =>
+      ({ data: encodeCursorFrame({ streamId: 3, seq, points }) }) as MessageEvent;
+
+    let callback: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      callback = vi.fn();
+      service.onCursorUpdate(callback);
+      service.createChannels(mockPeerConnection);
+    });
+
+    it("should report frames as cursor updates of the cursor introduced by the hello", () => {
+      mockCursorPositionsChannel.onmessage?.({ data: toWire(DataChannelMessageType.CURSOR_HELLO, hello) } as MessageEvent);
+      mockCursorStreamChannel.onmessage?.(frame(0));
+
+      const cursor = callback.mock.calls[0][0] as RemoteCursorState;
+      expect(cursor).toMatchObject({ id: "cursor-1", name: "Watcher", color: "#3B82F6", mode: CursorMode.LASER });
+      expect(cursor.x).toBeCloseTo(0.3, 4);
+      expect(cursor.y).toBeCloseTo(0.4, 4);
+      expect(cursor.trail).toHaveLength(1);
+      expect(cursor.trail![0].x).toBeCloseTo(0.1, 4);
+    });
+
+    it("should drop frames arriving before the hello", () => {
+      mockCursorStreamChannel.onmessage?.(frame(0));
+
+      expect(callback).not.toHaveBeenCalled();
+      expect(service.getMessageStats().droppedByReason[DataChannelDropReason.UNKNOWN_STREAM]).toBe(1);
+    });
+
+    it("should drop frames overtaken by a newer one, across the wrap-around", () => {
+      mockCursorPositionsChannel.onmessage?.({ data: toWire(DataChannelMessageType.CURSOR_HELLO, hello) } as MessageEvent);
+
+      mockCursorStreamChannel.onmessage?.(frame(0xfffe));
+      mockCursorStreamChannel.onmessage?.(frame(1));
+      mockCursorStreamChannel.onmessage?.(frame(0xffff));
+
+      expect(callback).toHaveBeenCalledTimes(2);
+      expect(service.getMessageStats().droppedByReason[DataChannelDropReason.STALE]).toBe(1);
+    });
+
+    it("should drop malformed frames", () => {
+      mockCursorPositionsChannel.onmessage?.({ data: toWire(DataChannelMessageType.CURSOR_HELLO, hello) } as MessageEvent);
+
+      mockCursorStreamChannel.onmessage?.({ data: new ArrayBuffer(3) } as MessageEvent);
+
+      expect(callback).not.toHaveBeenCalled();
+      expect(service.getMessageStats().droppedByReason[DataChannelDropReason.MALFORMED]).toBe(1);
+    });
+  });
+
   describe("pingRemoteCursor", () => {
     it("should send cursor ping successfully when channel ready", () => {
       service.createChannels(mockPeerConnection);
@@ -322,7 +603,10 @@ describe("DataChannelService", () => {
       const result = service.pingRemoteCursor("cursor-1");
 
       expect(result).toBe(true);
-      expect(mockCursorPingChannel.send).toHaveBeenCalledWith("cursor-1");
+      expect(lastSent(mockCursorPingChannel)).toMatchObject({
+        type: DataChannelMessageType.CURSOR_PING,
+        payload: { cursorId: "cursor-1" }
+      });
     });
 
     it("should return false when channel is not ready", () => {
@@ -343,6 +627,431 @@ describe("DataChannelService", () => {
     });
   });
 
+  describe("signaling channel", () => {
+    const offerMessage: SignalingMessage = {
+      kind: "description",
+      description: { type: "offer", sdp: "renegotiation-offer" }
+    };
+
+    it("should send signaling messages in an envelope when channel ready", () => {
+      service.createChannels(mockPeerConnection);
+
+      const result = service.sendSignalingMessage(offerMessage);
+
+      expect(result).toBe(true);
+      expect(lastSent(mockSignalingChannel)).toMatchObject({
+        type: DataChannelMessageType.SIGNALING,
+        payload: offerMessage
+      });
+    });
+
+    it("should return false when signaling channel is not ready", () => {
+      expect(service.sendSignalingMessage(offerMessage)).toBe(false);
+      expect(service.isSignalingChannelReady()).toBe(false);
+    });
+
+    it("should deliver incoming signaling messages for both roles", () => {
+      const callback = vi.fn();
+      service.onSignalingMessage(callback);
+      service.createChannels(mockPeerConnection);
+
+      mockSignalingChannel.onmessage?.({ data: toWire(DataChannelMessageType.SIGNALING, offerMessage) } as MessageEvent);
+
+      expect(callback).toHaveBeenCalledWith(offerMessage);
+    });
+
+    it("should drop malformed signaling messages", () => {
+      const callback = vi.fn();
+      service.onSignalingMessage(callback);
+      service.createChannels(mockPeerConnection);
+
+      expect(() => {
+        mockSignalingChannel.onmessage?.({ data: "not json" } as MessageEvent);
+      }).not.toThrow();
+      expect(callback).not.toHaveBeenCalled();
+    });
+
+    it("should notify when the signaling channel opens", () => {
+      const openCallback = vi.fn();
+      service.onSignalingChannelOpen(openCallback);
+      service.createChannels(mockPeerConnection);
+
+      mockCursorPingChannel.onopen?.(new Event("open"));
+      expect(openCallback).not.toHaveBeenCalled();
+
+      mockSignalingChannel.onopen?.(new Event("open"));
+      expect(openCallback).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("message protocol", () => {
+    const cursorData: RemoteCursorState = {
+      id: "cursor-1",
+      name: "TestUser",
+      color: "#FF0000",
+      x: 100,
+      y: 200
+    };
+
+    const receive = (channel: RTCDataChannel, data: string) => {
+      channel.onmessage?.({ data } as MessageEvent);
+    };
+
+    it("should number sent messages per channel", () => {
+      service.createChannels(mockPeerConnection);
+      (mockCursorStreamChannel as any).readyState = "connecting";
+
+      service.updateRemoteCursor(cursorData);
+      service.updateRemoteCursor(cursorData);
+      service.pingRemoteCursor("cursor-1");
+
+      expect(lastSent(mockCursorPositionsChannel).seq).toBe(1);
+      expect(lastSent(mockCursorPingChannel).seq).toBe(0);
+      expect(typeof lastSent(mockCursorPingChannel).ts).toBe("number");
+      expect(service.getMessageStats().sent).toBe(3);
+    });
+
+    it("should dispatch validated messages to registered handlers", () => {
+      const handler = vi.fn();
+      service.onMessage(DataChannelMessageType.CURSOR_PING, handler);
+      service.createChannels(mockPeerConnection);
+
+      receive(mockCursorPingChannel, toWire(DataChannelMessageType.CURSOR_PING, { cursorId: "cursor-1" }));
+
+      expect(handler).toHaveBeenCalledWith(
+        { cursorId: "cursor-1" },
+        expect.objectContaining({ type: DataChannelMessageType.CURSOR_PING, seq: 0 })
+      );
+      expect(service.getMessageStats().received).toBe(1);
+    });
+
+    it("should stop calling a handler after unsubscribing", () => {
+      const handler = vi.fn();
+      const unsubscribe = service.onMessage(DataChannelMessageType.CURSOR_PING, handler);
+      service.createChannels(mockPeerConnection);
+
+      unsubscribe();
+      receive(mockCursorPingChannel, toWire(DataChannelMessageType.CURSOR_PING, { cursorId: "cursor-1" }));
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it("should keep dispatching when a handler throws", () => {
+      const handler = vi.fn();
+      service.onMessage(DataChannelMessageType.CURSOR_PING, () => {
+        throw new Error("handler failed");
+      });
+      service.onMessage(DataChannelMessageType.CURSOR_PING, handler);
+      service.createChannels(mockPeerConnection);
+
+      receive(mockCursorPingChannel, toWire(DataChannelMessageType.CURSOR_PING, { cursorId: "cursor-1" }));
+
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it.each([
+      ["malformed JSON", "not json", DataChannelDropReason.MALFORMED],
+      ["legacy raw payloads", "cursor-1", DataChannelDropReason.MALFORMED],
+      [
+        "envelopes without a sequence number",
+        JSON.stringify({ type: DataChannelMessageType.CURSOR_PING, version: 1, ts: 0, payload: { cursorId: "c" } }),
+        DataChannelDropReason.MALFORMED
+      ],
+      [
+        "newer protocol versions",
+        JSON.stringify({ ...createEnvelope(DataChannelMessageType.CURSOR_PING, { cursorId: "c" }, 0), version: 2 }),
+        DataChannelDropReason.UNSUPPORTED_VERSION
+      ],
+      [
+        "unknown message types",
+        JSON.stringify({ ...createEnvelope(DataChannelMessageType.CURSOR_PING, { cursorId: "c" }, 0), type: "chat.text" }),
+        DataChannelDropReason.UNKNOWN_TYPE
+      ],
+      [
+        "messages on the wrong channel",
+        toWire(DataChannelMessageType.SIGNALING, { kind: "description", description: { type: "offer", sdp: "x" } }),
+        DataChannelDropReason.WRONG_CHANNEL
+      ],
+      [
+        "invalid payloads",
+        JSON.stringify(createEnvelope(DataChannelMessageType.CURSOR_PING, { cursorId: 42 } as any, 0)),
+        DataChannelDropReason.INVALID_PAYLOAD
+      ]
+    ])("should count and drop %s", (_name, data, reason) => {
+      const callback = vi.fn();
+      service.onCursorPing(callback);
+      service.createChannels(mockPeerConnection);
+
+      expect(() => receive(mockCursorPingChannel, data)).not.toThrow();
+
+      expect(callback).not.toHaveBeenCalled();
+      const stats = service.getMessageStats();
+      expect(stats.received).toBe(0);
+      expect(stats.dropped).toBe(1);
+      expect(stats.droppedByReason[reason]).toBe(1);
+    });
+
+    it("should drop cursor payloads with non-finite coordinates", () => {
+      const sharerService = new DataChannelService(true);
+      const callback = vi.fn();
+      sharerService.onCursorUpdate(callback);
+      sharerService.createChannels(mockPeerConnection);
+
+      receive(
+        mockCursorPositionsChannel,
+        JSON.stringify(createEnvelope(DataChannelMessageType.CURSOR_POSITION, { ...cursorData, x: "100" } as any, 0))
+      );
+
+      expect(callback).not.toHaveBeenCalled();
+      expect(sharerService.getMessageStats().droppedByReason[DataChannelDropReason.INVALID_PAYLOAD]).toBe(1);
+    });
+
+    it("should drop stale and duplicate messages", () => {
+      const sharerService = new DataChannelService(true);
+      const callback = vi.fn();
+      sharerService.onCursorUpdate(callback);
+      sharerService.createChannels(mockPeerConnection);
+
+      receive(mockCursorPositionsChannel, toWire(DataChannelMessageType.CURSOR_POSITION, cursorData, 5));
+      receive(mockCursorPositionsChannel, toWire(DataChannelMessageType.CURSOR_POSITION, { ...cursorData, x: 1 }, 3));
+      receive(mockCursorPositionsChannel, toWire(DataChannelMessageType.CURSOR_POSITION, { ...cursorData, x: 2 }, 5));
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback).toHaveBeenCalledWith(cursorData);
+      expect(sharerService.getMessageStats().droppedByReason[DataChannelDropReason.STALE]).toBe(2);
+    });
+
+    it("should restart sequence numbers for a new channel", () => {
+      const callback = vi.fn();
+      service.onCursorPing(callback);
+      service.createChannels(mockPeerConnection);
+      receive(mockCursorPingChannel, toWire(DataChannelMessageType.CURSOR_PING, { cursorId: "cursor-1" }, 7));
+
+      const reopenedChannel = createMockDataChannel(DataChannelName.CURSOR_PING);
+      service.handleIncomingChannel(reopenedChannel);
+      receive(reopenedChannel, toWire(DataChannelMessageType.CURSOR_PING, { cursorId: "cursor-1" }, 0));
+
+      expect(callback).toHaveBeenCalledTimes(2);
+    });
+
+    it("should accept newly registered message types", () => {
+      const type = "test.echo" as DataChannelMessageType;
+      const handler = vi.fn();
+      service.registerMessageType(type, {
+        channel: DataChannelName.SIGNALING,
+        validate: (payload): payload is any => typeof payload === "string"
+      });
+      service.onMessage(type, handler);
+      service.createChannels(mockPeerConnection);
+
+      expect(service.sendMessage(type, "hello" as any)).toBe(true);
+      expect(lastSent(mockSignalingChannel)).toMatchObject({ type, payload: "hello" });
+
+      receive(mockSignalingChannel, JSON.stringify(createEnvelope(type, "hello" as any, 0)));
+      expect(handler).toHaveBeenCalledWith("hello", expect.anything());
+    });
+
+    it("should not send unregistered message types", () => {
+      service.createChannels(mockPeerConnection);
+
+      expect(service.sendMessage("test.unknown" as DataChannelMessageType, {} as any)).toBe(false);
+    });
+
+    it("should reset counters and feature handlers on cleanup", () => {
+      const handler = vi.fn();
+      const pingCallback = vi.fn();
+      service.onMessage(DataChannelMessageType.CURSOR_PING, handler);
+      service.createChannels(mockPeerConnection);
+      receive(mockCursorPingChannel, "not json");
+
+      service.cleanup();
+      expect(service.getMessageStats().dropped).toBe(0);
+
+      service.onCursorPing(pingCallback);
+      service.createChannels(mockPeerConnection);
+      receive(mockCursorPingChannel, toWire(DataChannelMessageType.CURSOR_PING, { cursorId: "cursor-1" }));
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(pingCallback).toHaveBeenCalledWith("cursor-1");
+    });
+  });
+
+  describe("chat channel", () => {
+    const chatMessage: ChatMessage = {
+      id: "message-1",
+      author: "Sharer",
+      text: "see https://example.com\n  const x = 1;",
+      sentAt: 1700000000000
+    };
+
+    it("should create the chat channel", () => {
+      service.createChannels(mockPeerConnection);
+
+      expect(mockPeerConnection.createDataChannel).toHaveBeenCalledWith(DataChannelName.CHAT, undefined);
+      expect(service.isChatChannelReady()).toBe(true);
+    });
+
+    it("should send chat messages in an envelope", () => {
+      service.createChannels(mockPeerConnection);
+
+      expect(service.sendChatMessage(chatMessage)).toBe(true);
+      expect(lastSent(mockChatChannel)).toMatchObject({
+        type: DataChannelMessageType.CHAT_MESSAGE,
+        payload: chatMessage
+      });
+    });
+
+    it("should return false when the chat channel is not ready", () => {
+      expect(service.sendChatMessage(chatMessage)).toBe(false);
+      expect(service.isChatChannelReady()).toBe(false);
+    });
+
+    it.each([true, false])("should deliver incoming chat messages (isScreenSharer=%s)", (isScreenSharer) => {
+      const roleService = new DataChannelService(isScreenSharer);
+      const callback = vi.fn();
+      roleService.onChatMessage(callback);
+      roleService.createChannels(mockPeerConnection);
+
+      mockChatChannel.onmessage?.({ data: toWire(DataChannelMessageType.CHAT_MESSAGE, chatMessage) } as MessageEvent);
+
+      expect(callback).toHaveBeenCalledWith(chatMessage);
+    });
+
+    it.each([
+      ["blank text", { ...chatMessage, text: "  \n" }],
+      ["oversized text", { ...chatMessage, text: "x".repeat(CHAT_MESSAGE_MAX_LENGTH + 1) }],
+      ["missing author", { ...chatMessage, author: undefined }]
+    ])("should drop chat messages with %s", (_name, payload) => {
+      const callback = vi.fn();
+      service.onChatMessage(callback);
+      service.createChannels(mockPeerConnection);
+
+      mockChatChannel.onmessage?.({
+        data: JSON.stringify(createEnvelope(DataChannelMessageType.CHAT_MESSAGE, payload as ChatMessage, 0))
+      } as MessageEvent);
+
+      expect(callback).not.toHaveBeenCalled();
+      expect(service.getMessageStats().droppedByReason[DataChannelDropReason.INVALID_PAYLOAD]).toBe(1);
+    });
+  });
+
+  describe("annotations channel", () => {
+    const strokeUpdate: AnnotationStrokeUpdate = {
+      id: "stroke-1",
+      tool: AnnotationTool.ARROW,
+      color: "#ef4444",
+      points: [{ x: 0.1, y: 0.2 }, { x: 0.8, y: 0.9 }],
+      done: false
+    };
+
+    const annotationChannel = () => {
+      const calls = (mockPeerConnection.createDataChannel as any).mock.results;
+      return calls.find((result: any) => result.value.label === DataChannelName.ANNOTATIONS).value as RTCDataChannel;
+    };
+
+    it("should send strokes and clears in an envelope", () => {
+      service.createChannels(mockPeerConnection);
+
+      expect(service.isAnnotationChannelReady()).toBe(true);
+      expect(service.sendAnnotationStroke(strokeUpdate)).toBe(true);
+      expect(lastSent(annotationChannel())).toMatchObject({
+        type: DataChannelMessageType.ANNOTATION_STROKE,
+        payload: strokeUpdate
+      });
+      expect(service.sendAnnotationClear()).toBe(true);
+      expect(lastSent(annotationChannel()).type).toBe(DataChannelMessageType.ANNOTATION_CLEAR);
+    });
+
+    it("should deliver strokes to the sharer only", () => {
+      const sharer = new DataChannelService(true);
+      const sharerCallback = vi.fn();
+      sharer.onAnnotationStroke(sharerCallback);
+      sharer.createChannels(mockPeerConnection);
+      annotationChannel().onmessage?.({ data: toWire(DataChannelMessageType.ANNOTATION_STROKE, strokeUpdate) } as MessageEvent);
+
+      const watcherCallback = vi.fn();
+      service.onAnnotationStroke(watcherCallback);
+      service.createChannels(mockPeerConnection);
+      annotationChannel().onmessage?.({ data: toWire(DataChannelMessageType.ANNOTATION_STROKE, strokeUpdate) } as MessageEvent);
+
+      expect(sharerCallback).toHaveBeenCalledWith(strokeUpdate);
+      expect(watcherCallback).not.toHaveBeenCalled();
+    });
+
+    it.each([true, false])("should deliver clears (isScreenSharer=%s)", (isScreenSharer) => {
+      const roleService = new DataChannelService(isScreenSharer);
+      const callback = vi.fn();
+      roleService.onAnnotationClear(callback);
+      roleService.createChannels(mockPeerConnection);
+
+      annotationChannel().onmessage?.({ data: toWire(DataChannelMessageType.ANNOTATION_CLEAR, {}) } as MessageEvent);
+
+      expect(callback).toHaveBeenCalled();
+    });
+
+    it.each([
+      ["unknown tool", { ...strokeUpdate, tool: "spray" }],
+      ["invalid color", { ...strokeUpdate, color: "red" }],
+      ["points outside the screen", { ...strokeUpdate, points: [{ x: 1.2, y: 0.5 }] }],
+      ["too many points", { ...strokeUpdate, points: Array(ANNOTATION_MAX_POINTS_PER_UPDATE + 1).fill({ x: 0, y: 0 }) }]
+    ])("should drop strokes with %s", (_name, payload) => {
+      const sharer = new DataChannelService(true);
+      const callback = vi.fn();
+      sharer.onAnnotationStroke(callback);
+      sharer.createChannels(mockPeerConnection);
+
+      annotationChannel().onmessage?.({
+        data: JSON.stringify(createEnvelope(DataChannelMessageType.ANNOTATION_STROKE, payload as AnnotationStrokeUpdate, 0))
+      } as MessageEvent);
+
+      expect(callback).not.toHaveBeenCalled();
+      expect(sharer.getMessageStats().droppedByReason[DataChannelDropReason.INVALID_PAYLOAD]).toBe(1);
+    });
+  });
+
+  describe("remote control channel", () => {
+    const controlChannel = () => {
+      const calls = (mockPeerConnection.createDataChannel as any).mock.results;
+      return calls.find((result: any) => result.value.label === DataChannelName.REMOTE_CONTROL).value as RTCDataChannel;
+    };
+
+    it("should create the remote control channel", () => {
+      service.createChannels(mockPeerConnection);
+
+      expect(mockPeerConnection.createDataChannel).toHaveBeenCalledWith(DataChannelName.REMOTE_CONTROL, undefined);
+      expect(service.isRemoteControlChannelReady()).toBe(true);
+    });
+
+    it("should deliver valid input events", () => {
+      const handler = vi.fn();
+      service.onMessage(DataChannelMessageType.CONTROL_INPUT, handler);
+      service.createChannels(mockPeerConnection);
+      const event = { type: RemoteInputEventType.WHEEL, x: 0.5, y: 0.5, deltaX: 0, deltaY: -120 };
+
+      controlChannel().onmessage?.({ data: toWire(DataChannelMessageType.CONTROL_INPUT, event) } as MessageEvent);
+
+      expect(handler).toHaveBeenCalledWith(event, expect.anything());
+    });
+
+    it.each([
+      ["unknown event type", { type: "mouse.teleport", x: 0.5, y: 0.5 }],
+      ["pointer outside the screen", { type: RemoteInputEventType.MOUSE_MOVE, x: -0.1, y: 0.5 }],
+      ["unknown button", { type: RemoteInputEventType.MOUSE_DOWN, x: 0.5, y: 0.5, button: "back" }],
+      ["missing modifiers", { type: RemoteInputEventType.KEY_DOWN, key: "a", code: "KeyA" }]
+    ])("should drop input with %s", (_name, payload) => {
+      const handler = vi.fn();
+      service.onMessage(DataChannelMessageType.CONTROL_INPUT, handler);
+      service.createChannels(mockPeerConnection);
+
+      controlChannel().onmessage?.({
+        data: JSON.stringify(createEnvelope(DataChannelMessageType.CONTROL_INPUT, payload as RemoteInputEvent, 0))
+      } as MessageEvent);
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(service.getMessageStats().droppedByReason[DataChannelDropReason.INVALID_PAYLOAD]).toBe(1);
+    });
+  });
+
   describe("isCursorPositionsChannelReady", () => {
     it("should return false when channel does not exist", () => {
       expect(service.isCursorPositionsChannelReady()).toBe(false);
@@ -410,6 +1119,7 @@ describe("DataChannelService", () => {
 
       expect(mockCursorPositionsChannel.close).toHaveBeenCalled();
       expect(mockCursorPingChannel.close).toHaveBeenCalled();
+      expect(mockSignalingChannel.close).toHaveBeenCalled();
       expect(mockCursorPositionsChannel.onopen).toBeNull();
       expect(mockCursorPositionsChannel.onclose).toBeNull();
       expect(mockCursorPositionsChannel.onerror).toBeNull();
@@ -475,7 +1185,7 @@ describe("DataChannelService", () => {
         };
 
         const messageEvent = {
-          data: JSON.stringify(cursorData)
+          data: toWire(DataChannelMessageType.CURSOR_POSITION, cursorData)
         } as MessageEvent;
 
         mockCursorPositionsChannel.onmessage?.(messageEvent);
@@ -489,7 +1199,7 @@ describe("DataChannelService", () => {
         sharerService.createChannels(mockPeerConnection);
 
         const messageEvent = {
-          data: "cursor-1"
+          data: toWire(DataChannelMessageType.CURSOR_PING, { cursorId: "cursor-1" })
         } as MessageEvent;
 
         mockCursorPingChannel.onmessage?.(messageEvent);
@@ -505,7 +1215,7 @@ describe("DataChannelService", () => {
         watcherService = new DataChannelService(false);
       });
 
-      it("should NOT process incoming cursor updates (Watcher sends, not receives)", () => {
+      it("should process incoming cursor updates (the sharer's own pointer)", () => {
         const callback = vi.fn();
         watcherService.onCursorUpdate(callback);
         watcherService.createChannels(mockPeerConnection);
@@ -519,12 +1229,12 @@ describe("DataChannelService", () => {
         };
 
         const messageEvent = {
-          data: JSON.stringify(cursorData)
+          data: toWire(DataChannelMessageType.CURSOR_POSITION, cursorData)
         } as MessageEvent;
 
         mockCursorPositionsChannel.onmessage?.(messageEvent);
 
-        expect(callback).not.toHaveBeenCalled();
+        expect(callback).toHaveBeenCalledWith(cursorData);
       });
 
       it("should process incoming cursor ping (ping is bidirectional)", () => {
@@ -533,7 +1243,7 @@ describe("DataChannelService", () => {
         watcherService.createChannels(mockPeerConnection);
 
         const messageEvent = {
-          data: "cursor-1"
+          data: toWire(DataChannelMessageType.CURSOR_PING, { cursorId: "cursor-1" })
         } as MessageEvent;
 
         mockCursorPingChannel.onmessage?.(messageEvent);
@@ -0,0 +1,140 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+const { handlers, sources, display } = vi.hoisted(() => ({
+  handlers: new Map<string, (...args: unknown[]) => unknown>(),
+  display: { id: 1, bounds: { x: 0, y: 0, width: 1920, height: 1080 } },
+  sources: [
+    { id: "screen:1:0", name: "Screen 1", display_id: "1" },
+    { id: "window:42:0", name: "Editor", display_id: "" }
+  ]
+}));
+
+vi.mock("electron", () => ({
+  ipcMain: {
+    handle: (channel: string, handler: (...args: unknown[]) => unknown) => handlers.set(channel, handler)
+  },
+  desktopCapturer: { getSources: vi.fn(async () => sources) },
+  screen: {
+    getAllDisplays: vi.fn(() => [display]),
+    getPrimaryDisplay: vi.fn(() => display),
+    getCursorScreenPoint: vi.fn(() => ({ x: 480, y: 270 }))
+  },
+  BrowserWindow: { getAllWindows: vi.fn(() => []) }
+}));
+
+// Mock electron-log
+vi.mock("electron-log", () => ({
+  default: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+import { handleDisplayMediaRequest, registerDisplaySourceHandlers } from "../../src/main/ipc/display-source";
+import { registerPointerHandlers } from "../../src/main/ipc/pointer";
+
+/**
+ * Runs a capture request and returns what it was answered with
+ */
+const capture = async (isAudioRequested = false) => {
+  const callback = vi.fn();
+  await handleDisplayMediaRequest(callback, isAudioRequested);
+  return callback.mock.calls[0][0];
+};
+
+describe("display source", () => {
+  const platform = process.platform;
+
+  /**
+   * Pretends to run on another operating system
+   */
+  const setPlatform = (value: NodeJS.Platform) => {
+    Object.defineProperty(process, "platform", { value, configurable: true });
+  };
+
+  beforeEach(() => {
+    registerDisplaySourceHandlers();
+    registerPointerHandlers();
+  });
+
+  afterEach(async () => {
+    setPlatform(platform);
+    vi.useRealTimers();
+    // Drop a pick a test left behind
+    await handlers.get("displaySource:clear")!();
+  });
+
+  describe("picked source", () => {
+    it("should grant the pick to the next capture only", async () => {
+      await handlers.get("displaySource:select")!({}, "window:42:0");
+
+      expect((await capture()).video.id).toBe("window:42:0");
+      expect((await capture()).video.id).toBe("screen:1:0");
+    });
+
+    it("should not grant a pick nobody captured for a long time", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      await handlers.get("displaySource:select")!({}, "window:42:0");
+      vi.setSystemTime(Date.now() + 5 * 60 * 1000);
+
+      expect((await capture()).video.id).toBe("screen:1:0");
+    });
+
+    it("should forget the pick when the picker is cancelled", async () => {
+      await handlers.get("displaySource:select")!({}, "window:42:0");
+      await handlers.get("displaySource:clear")!();
+
+      expect((await capture()).video.id).toBe("screen:1:0");
+    });
+
+    it("should share nothing when the picked window is gone", async () => {
+      await handlers.get("displaySource:select")!({}, "window:7:0");
+
+      expect(await capture()).toEqual({});
+    });
+  });
+
+  describe("pointer position", () => {
+    it("should normalize the pointer to the shared screen", async () => {
+      await handlers.get("displaySource:select")!({}, "screen:1:0");
+      await capture();
+
+      expect(await handlers.get("pointer:getPosition")!()).toEqual({ x: 0.25, y: 0.25 });
+    });
+
+    it("should not place the pointer on a shared window", async () => {
+      await handlers.get("displaySource:select")!({}, "window:42:0");
+      await capture();
+
+      expect(await handlers.get("pointer:getPosition")!()).toBeNull();
+    });
+  });
+
+  describe("system audio", () => {
+    it("should capture system audio without muting the sharer on Windows", async () => {
+      setPlatform("win32");
+
+      expect((await capture(true)).audio).toBe("loopback");
+      expect(await handlers.get("displaySource:isSystemAudioSupported")!()).toBe(true);
+    });
+
+    it.each(["darwin", "linux"] as NodeJS.Platform[])("should share the screen without sound on %s", async (value) => {
+      setPlatform(value);
+
+      const streams = await capture(true);
+
+      expect(streams.video.id).toBe("screen:1:0");
+      expect(streams).not.toHaveProperty("audio");
+      expect(await handlers.get("displaySource:isSystemAudioSupported")!()).toBe(false);
+    });
+
+    it("should not capture audio nobody asked for", async () => {
+      setPlatform("win32");
+
+      expect(await capture(false)).not.toHaveProperty("audio");
+    });
+  });
+});
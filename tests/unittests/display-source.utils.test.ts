@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  findPreferredDisplaySource,
+  isDisplaySourcePickerAvailable,
+  listDisplaySources,
+  selectDisplaySource,
+  toDisplaySourcePreference
+} from "../../src/renderer/shared/utils/index";
+import { DisplaySource, DisplaySourceKind } from "../../src/renderer/shared/types/index";
+
+// Mock electron-log
+vi.mock("electron-log/renderer", () => ({
+  default: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const source = (overrides: Partial<DisplaySource> = {}): DisplaySource => ({
+  id: "screen:1:0",
+  name: "Screen 1",
+  kind: DisplaySourceKind.SCREEN,
+  thumbnail: "data:image/png;base64,",
+  appIcon: null,
+  ...overrides
+});
+
+const editor = source({ id: "window:42:0", name: "Editor", kind: DisplaySourceKind.WINDOW });
+
+describe("display source utils", () => {
+  afterEach(() => {
+    (globalThis as any).electron = undefined;
+  });
+
+  describe("findPreferredDisplaySource", () => {
+    const sources = [source(), source({ id: "screen:2:0", name: "Screen 2" }), editor];
+
+    it("should preselect the source shared last", () => {
+      const preference = toDisplaySourcePreference(sources[1]);
+
+      expect(findPreferredDisplaySource(sources, preference)).toBe(sources[1]);
+    });
+
+    it("should find a window again by name once its id changed", () => {
+      const preference = { id: "window:7:0", name: "Editor", kind: DisplaySourceKind.WINDOW };
+
+      expect(findPreferredDisplaySource(sources, preference)).toBe(editor);
+    });
+
+    it("should fall back to the first screen", () => {
+      const preference = { id: "window:7:0", name: "Closed", kind: DisplaySourceKind.WINDOW };
+
+      expect(findPreferredDisplaySource(sources, preference)).toBe(sources[0]);
+      expect(findPreferredDisplaySource([editor], null)).toBe(editor);
+      expect(findPreferredDisplaySource([], null)).toBeNull();
+    });
+  });
+
+  describe("desktop app", () => {
+    it("should list screens before windows and drop unknown kinds", async () => {
+      (globalThis as any).electron = {
+        displaySource: {
+          list: vi.fn().mockResolvedValue([editor, source(), { ...source(), id: "tab:1", kind: "tab" }])
+        }
+      };
+
+      expect(await listDisplaySources()).toEqual([source(), editor]);
+    });
+
+    it("should hand the picked source to the next capture", async () => {
+      const select = vi.fn().mockResolvedValue(undefined);
+      (globalThis as any).electron = { displaySource: { select } };
+
+      expect(isDisplaySourcePickerAvailable()).toBe(true);
+      expect(await selectDisplaySource("screen:2:0")).toBe(true);
+      expect(select).toHaveBeenCalledWith("screen:2:0");
+    });
+
+    it("should leave the choice to the browser outside the desktop app", async () => {
+      expect(isDisplaySourcePickerAvailable()).toBe(false);
+      expect(await listDisplaySources()).toEqual([]);
+      expect(await selectDisplaySource("screen:1:0")).toBe(false);
+    });
+  });
+});
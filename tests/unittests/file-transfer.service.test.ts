@@ -0,0 +1,265 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { DataChannelService, FileTransferService } from "../../src/renderer/core/webrtc/data/index";
+import {
+  DataChannelMessageType,
+  DataChannelName,
+  FileTransferDirection,
+  FileTransferProgress,
+  FileTransferStatus,
+  ReceivedFile
+} from "../../src/renderer/shared/types/index";
+import {
+  FILE_TRANSFER_BUFFER_HIGH_WATERMARK,
+  FILE_TRANSFER_CHUNK_SIZE,
+  FILE_TRANSFER_MAX_SIZE
+} from "../../src/renderer/shared/constants/index";
+import { formatFileSize, sanitizeFileName, sha256Hex } from "../../src/renderer/shared/utils/index";
+import { LinkedDataChannel, createLinkedDataChannels } from "./helpers/linked-data-channels";
+
+// Mock electron-log
+vi.mock("electron-log/renderer", () => ({
+  default: {
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn()
+  }
+}));
+
+function createFile(size: number, name = "notes.txt"): { file: File; bytes: Uint8Array } {
+  const bytes = new Uint8Array(size);
+  for (let i = 0; i < size; i++) {
+    bytes[i] = (i * 31 + 7) % 256;
+  }
+  const file = new File([bytes], name, { type: "text/plain" });
+  // jsdom's File lacks arrayBuffer()
+  Object.defineProperty(file, "arrayBuffer", { value: async () => bytes.slice().buffer });
+  return { file, bytes };
+}
+
+const lastStatus = (updates: FileTransferProgress[]) => updates[updates.length - 1]?.status;
+
+describe("FileTransferService", () => {
+  let sharer: FileTransferService;
+  let watcher: FileTransferService;
+  let fileChannel: LinkedDataChannel;
+  let sharerUpdates: FileTransferProgress[];
+  let watcherUpdates: FileTransferProgress[];
+  let received: ReceivedFile[];
+
+  const sentChunks = () => fileChannel.send.mock.calls.filter(([data]) => data instanceof ArrayBuffer);
+
+  beforeEach(() => {
+    const { localData, peerData, localChannels } = createLinkedDataChannels(true);
+    sharer = new FileTransferService(localData);
+    watcher = new FileTransferService(peerData);
+    fileChannel = localChannels.get(DataChannelName.FILE_TRANSFER)!;
+    sharerUpdates = [];
+    watcherUpdates = [];
+    received = [];
+    sharer.onTransferUpdate((progress) => sharerUpdates.push(progress));
+    watcher.onTransferUpdate((progress) => watcherUpdates.push(progress));
+    watcher.onFileReceived((file) => received.push(file));
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should send a file in chunks and hand the verified file to the receiver", async () => {
+    const { file, bytes } = createFile(FILE_TRANSFER_CHUNK_SIZE * 2 + 100);
+
+    const id = sharer.sendFile(file);
+
+    expect(id).toEqual(expect.any(String));
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+
+    expect(received[0]).toMatchObject({ id, name: "notes.txt", mimeType: "text/plain" });
+    expect(Array.from(received[0].data)).toEqual(Array.from(bytes));
+    expect(sentChunks()).toHaveLength(3);
+    expect(lastStatus(sharerUpdates)).toBe(FileTransferStatus.COMPLETED);
+    expect(watcherUpdates[0]).toMatchObject({
+      id,
+      direction: FileTransferDirection.INCOMING,
+      status: FileTransferStatus.TRANSFERRING
+    });
+    expect(watcherUpdates[watcherUpdates.length - 1]).toMatchObject({
+      status: FileTransferStatus.COMPLETED,
+      transferredBytes: bytes.byteLength
+    });
+  });
+
+  it("should announce the file with its size and SHA-256", async () => {
+    const { file, bytes } = createFile(1000);
+
+    sharer.sendFile(file);
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+
+    const offer = JSON.parse(fileChannel.send.mock.calls[0][0] as string);
+    expect(offer.type).toBe(DataChannelMessageType.FILE_OFFER);
+    expect(offer.payload).toMatchObject({ name: "notes.txt", size: 1000, sha256: await sha256Hex(bytes) });
+  });
+
+  it("should transfer empty files", async () => {
+
+    sharer.sendFile(createFile(0, "empty.txt").file);
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+
+    expect(received[0].data.byteLength).toBe(0);
+    expect(sentChunks()).toHaveLength(0);
+  });
+
+  it("should send queued files one after the other", async () => {
+
+    sharer.sendFile(createFile(FILE_TRANSFER_CHUNK_SIZE * 2, "first.bin").file);
+    sharer.sendFile(createFile(10, "second.bin").file);
+    await vi.waitFor(() => expect(received).toHaveLength(2));
+
+    expect(received.map(file => file.name)).toEqual(["first.bin", "second.bin"]);
+  });
+
+  it("should wait for the buffer to drain above the high watermark", async () => {
+    fileChannel.bufferedAmount = FILE_TRANSFER_BUFFER_HIGH_WATERMARK + 1;
+
+    sharer.sendFile(createFile(FILE_TRANSFER_CHUNK_SIZE * 3).file);
+    await vi.waitFor(() => expect(fileChannel.send).toHaveBeenCalledTimes(1));
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    // Only the offer went out, chunks wait for bufferedamountlow
+    expect(sentChunks()).toHaveLength(0);
+
+    fileChannel.bufferedAmount = 0;
+    fileChannel.dispatchEvent(new Event("bufferedamountlow"));
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    expect(sentChunks()).toHaveLength(3);
+  });
+
+  it("should set the low threshold and binary type on the file channel", () => {
+
+    expect(fileChannel.binaryType).toBe("arraybuffer");
+    expect(fileChannel.bufferedAmountLowThreshold).toBeGreaterThan(0);
+    expect(fileChannel.bufferedAmountLowThreshold).toBeLessThan(FILE_TRANSFER_BUFFER_HIGH_WATERMARK);
+  });
+
+  it("should let the sender cancel a running transfer", async () => {
+    fileChannel.bufferedAmount = FILE_TRANSFER_BUFFER_HIGH_WATERMARK + 1;
+
+    const id = sharer.sendFile(createFile(FILE_TRANSFER_CHUNK_SIZE * 3).file)!;
+    await vi.waitFor(() => expect(lastStatus(watcherUpdates)).toBe(FileTransferStatus.TRANSFERRING));
+
+    expect(sharer.cancelTransfer(id)).toBe(true);
+    fileChannel.bufferedAmount = 0;
+    fileChannel.dispatchEvent(new Event("bufferedamountlow"));
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(lastStatus(sharerUpdates)).toBe(FileTransferStatus.CANCELLED);
+    expect(lastStatus(watcherUpdates)).toBe(FileTransferStatus.CANCELLED);
+    expect(sentChunks()).toHaveLength(0);
+    expect(received).toHaveLength(0);
+  });
+
+  it("should let the receiver cancel a running transfer", async () => {
+    fileChannel.bufferedAmount = FILE_TRANSFER_BUFFER_HIGH_WATERMARK + 1;
+
+    const id = sharer.sendFile(createFile(FILE_TRANSFER_CHUNK_SIZE * 3).file)!;
+    await vi.waitFor(() => expect(lastStatus(watcherUpdates)).toBe(FileTransferStatus.TRANSFERRING));
+
+    expect(watcher.cancelTransfer(id)).toBe(true);
+
+    expect(sharerUpdates[sharerUpdates.length - 1]).toMatchObject({
+      status: FileTransferStatus.CANCELLED,
+      error: "Cancelled by peer"
+    });
+    expect(received).toHaveLength(0);
+  });
+
+  it("should reject a file whose content does not match its hash", async () => {
+    fileChannel.transform = (data) => {
+      if (data instanceof ArrayBuffer) {
+        new Uint8Array(data)[0] ^= 0xff;
+      }
+      return data;
+    };
+
+    sharer.sendFile(createFile(100).file);
+    await vi.waitFor(() => expect(lastStatus(watcherUpdates)).toBe(FileTransferStatus.FAILED));
+
+    expect(watcherUpdates[watcherUpdates.length - 1].error).toBe("Integrity check failed");
+    expect(received).toHaveLength(0);
+    expect(sharerUpdates[sharerUpdates.length - 1]).toMatchObject({
+      status: FileTransferStatus.FAILED,
+      error: "Integrity check failed"
+    });
+  });
+
+  it("should reject a file that is missing chunks", async () => {
+    let chunkCount = 0;
+    fileChannel.transform = (data) => (data instanceof ArrayBuffer && chunkCount++ === 0 ? null : data);
+
+    sharer.sendFile(createFile(FILE_TRANSFER_CHUNK_SIZE * 2).file);
+    await vi.waitFor(() => expect(lastStatus(watcherUpdates)).toBe(FileTransferStatus.FAILED));
+
+    expect(watcherUpdates[watcherUpdates.length - 1].error).toBe("File is incomplete");
+    expect(received).toHaveLength(0);
+  });
+
+  it("should fail when the channel closes while waiting for the buffer", async () => {
+    fileChannel.bufferedAmount = FILE_TRANSFER_BUFFER_HIGH_WATERMARK + 1;
+
+    sharer.sendFile(createFile(FILE_TRANSFER_CHUNK_SIZE).file);
+    await vi.waitFor(() => expect(lastStatus(sharerUpdates)).toBe(FileTransferStatus.TRANSFERRING));
+
+    fileChannel.readyState = "closed";
+    fileChannel.dispatchEvent(new Event("close"));
+
+    await vi.waitFor(() => expect(sharerUpdates[sharerUpdates.length - 1]).toMatchObject({
+      status: FileTransferStatus.FAILED,
+      error: "Connection to the peer was lost"
+    }));
+  });
+
+  it("should not send when the file channel is not open", () => {
+    fileChannel.readyState = "closed";
+
+    expect(sharer.sendFile(createFile(10).file)).toBeNull();
+  });
+
+  it("should not send files above the size limit", () => {
+    const { file } = createFile(10);
+    Object.defineProperty(file, "size", { value: FILE_TRANSFER_MAX_SIZE + 1 });
+
+    expect(sharer.sendFile(file)).toBeNull();
+  });
+
+  it("should drop binary messages on other channels", () => {
+    const service = new DataChannelService(true);
+    const channel = new LinkedDataChannel(DataChannelName.CHAT);
+    service.handleIncomingChannel(channel as unknown as RTCDataChannel);
+
+    channel.onmessage?.({ data: new ArrayBuffer(8) } as MessageEvent);
+
+    expect(service.getMessageStats().dropped).toBe(1);
+  });
+});
+
+describe("file transfer utils", () => {
+  it("should strip directories and reserved characters from peer file names", () => {
+    expect(sanitizeFileName("../../etc/passwd")).toBe("passwd");
+    expect(sanitizeFileName("C:\\Users\\me\\report.pdf")).toBe("report.pdf");
+    expect(sanitizeFileName("a<b>:c?.txt")).toBe("a_b__c_.txt");
+    expect(sanitizeFileName("..")).toBe("received-file");
+    expect(sanitizeFileName(".bashrc")).toBe("bashrc");
+  });
+
+  it("should format file sizes", () => {
+    expect(formatFileSize(512)).toBe("512 B");
+    expect(formatFileSize(1536)).toBe("1.5 KB");
+    expect(formatFileSize(5 * 1024 * 1024)).toBe("5.0 MB");
+  });
+
+  it("should hash content as lowercase hex", async () => {
+    expect(await sha256Hex(new TextEncoder().encode("abc"))).toBe(
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"
+    );
+  });
+});
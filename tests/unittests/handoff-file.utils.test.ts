@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  createHandoffFile,
+  encodeConnectionUrl,
+  parseHandoffFile,
+  readHandoffFile,
+  saveHandoffFile
+} from "../../src/renderer/shared/utils/index";
+import { ConnectionUrlErrorCode, PeerRole } from "../../src/renderer/shared/types/index";
+
+// Mock electron-log
+vi.mock("electron-log/renderer", () => ({
+  default: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("handoff-file", () => {
+  const offerSdp: RTCSessionDescriptionInit = {
+    type: "offer",
+    sdp: "v=0\r\no=- 123 456 IN IP4 192.168.1.1\r\ns=-\r\nt=0 0\r\na=group:BUNDLE 0\r\n",
+  };
+  const answerSdp: RTCSessionDescriptionInit = { ...offerSdp, type: "answer" };
+
+  afterEach(() => {
+    delete (globalThis as any).electron;
+    vi.useRealTimers();
+  });
+
+  describe("createHandoffFile / parseHandoffFile", () => {
+    it("should round trip a connection URL", async () => {
+      const url = await encodeConnectionUrl(PeerRole.SCREEN_SHARER, "Alice", offerSdp);
+
+      expect(parseHandoffFile(createHandoffFile(url))).toBe(url);
+    });
+
+    it("should accept a file holding only the bare link", async () => {
+      const url = await encodeConnectionUrl(PeerRole.SCREEN_SHARER, "Alice", offerSdp);
+
+      expect(parseHandoffFile(`${url}\n`)).toBe(url);
+    });
+
+    it("should reject files that are not handoff files", () => {
+      expect(() => parseHandoffFile("hello")).toThrow("Not a LynxScreen handoff file");
+      expect(() => parseHandoffFile(JSON.stringify({ format: "other", url: "x" }))).toThrow(
+        "Not a LynxScreen handoff file"
+      );
+    });
+
+    it("should ask for an update on files from a newer format", () => {
+      const contents = JSON.stringify({ format: "lynxscreen-handoff", version: 99, url: "lynxscreen://share" });
+
+      expect(() => parseHandoffFile(contents)).toThrow(expect.objectContaining({
+        code: ConnectionUrlErrorCode.LOCAL_UPDATE_REQUIRED
+      }));
+    });
+  });
+
+  describe("readHandoffFile", () => {
+    it("should return a valid offer", async () => {
+      const url = await encodeConnectionUrl(PeerRole.SCREEN_SHARER, "Alice", offerSdp);
+
+      await expect(readHandoffFile(createHandoffFile(url), PeerRole.SCREEN_SHARER)).resolves.toBe(url);
+    });
+
+    it("should reject a link of the wrong role", async () => {
+      const url = await encodeConnectionUrl(PeerRole.SCREEN_WATCHER, "Bob", answerSdp);
+
+      await expect(readHandoffFile(createHandoffFile(url), PeerRole.SCREEN_SHARER)).rejects.toThrow(
+        "This handoff file holds a watcher answer, not a session offer"
+      );
+    });
+
+    it("should reject a link that is not a connection URL", async () => {
+      const contents = createHandoffFile("https://example.com/share");
+
+      await expect(readHandoffFile(contents, PeerRole.SCREEN_SHARER)).rejects.toThrow(
+        "The handoff file does not contain a LynxScreen link"
+      );
+    });
+
+    it("should reject a tampered link before it is used", async () => {
+      const url = await encodeConnectionUrl(PeerRole.SCREEN_SHARER, "Alice", offerSdp);
+      const tampered = url.replace("username=Alice", "username=Mallory");
+
+      await expect(readHandoffFile(createHandoffFile(tampered), PeerRole.SCREEN_SHARER)).rejects.toMatchObject({
+        code: ConnectionUrlErrorCode.TAMPERED
+      });
+    });
+
+    it("should reject an expired link", async () => {
+      const url = await encodeConnectionUrl(PeerRole.SCREEN_SHARER, "Alice", offerSdp, { ttlMs: 1000 });
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(Date.now() + 60 * 60 * 1000);
+
+      await expect(readHandoffFile(createHandoffFile(url), PeerRole.SCREEN_SHARER)).rejects.toMatchObject({
+        code: ConnectionUrlErrorCode.EXPIRED
+      });
+    });
+
+    it("should accept an encrypted link without the passphrase", async () => {
+      const url = await encodeConnectionUrl(PeerRole.SCREEN_WATCHER, "Bob", answerSdp, { passphrase: "secret" });
+
+      await expect(readHandoffFile(createHandoffFile(url), PeerRole.SCREEN_WATCHER)).resolves.toBe(url);
+    });
+  });
+
+  describe("saveHandoffFile", () => {
+    it("should save through the Electron dialog with a role based name", async () => {
+      const save = vi.fn().mockResolvedValue("/tmp/lynxscreen-answer.lynx");
+      (globalThis as any).electron = { handoffFile: { save } };
+      const url = await encodeConnectionUrl(PeerRole.SCREEN_WATCHER, "Bob", answerSdp);
+
+      await expect(saveHandoffFile(url)).resolves.toBe("/tmp/lynxscreen-answer.lynx");
+      expect(save).toHaveBeenCalledWith(createHandoffFile(url), "lynxscreen-answer.lynx");
+    });
+
+    it("should return null when the dialog is cancelled", async () => {
+      (globalThis as any).electron = { handoffFile: { save: vi.fn().mockResolvedValue(null) } };
+      const url = await encodeConnectionUrl(PeerRole.SCREEN_SHARER, "Alice", offerSdp);
+
+      await expect(saveHandoffFile(url)).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { vi } from "vitest";
+import { DataChannelService } from "../../../src/renderer/core/webrtc/data/index";
+
+/**
+ * Data channel delivering everything it sends to its peer, synchronously unless a delay is set
+ */
+export class LinkedDataChannel extends EventTarget {
+  readyState: RTCDataChannelState = "open";
+  bufferedAmount = 0;
+  bufferedAmountLowThreshold = 0;
+  binaryType = "blob";
+  onopen = null;
+  onclose = null;
+  onerror = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  peer: LinkedDataChannel | null = null;
+  // One-way delay in ms through a timer, null delivers right away
+  delayMs: number | null = null;
+  // Lets a test change or swallow data in transit, null drops it
+  transform: (data: unknown) => unknown = (data) => data;
+
+  send = vi.fn((data: unknown) => {
+    const copy = data instanceof ArrayBuffer ? data.slice(0) : data;
+    const delivered = this.transform(copy);
+    if (delivered === null) {
+      return;
+    }
+
+    const deliver = () => this.peer?.onmessage?.({ data: delivered } as MessageEvent);
+    if (this.delayMs === null) {
+      deliver();
+    } else {
+      setTimeout(deliver, this.delayMs);
+    }
+  });
+
+  close = vi.fn();
+
+  constructor(public label: string) {
+    super();
+  }
+}
+
+/**
+ * Two data channel services linked channel by channel.
+ * The local side creates the channels, the peer receives them as the remote side would.
+ *
+ * @param isLocalScreenSharer - Whether the local side is the sharer
+ * @param delayMs - One-way delay of every channel, null delivers right away
+ */
+export function createLinkedDataChannels(isLocalScreenSharer: boolean, delayMs: number | null = null) {
+  const localChannels = new Map<string, LinkedDataChannel>();
+  const peerChannels = new Map<string, LinkedDataChannel>();
+  const localData = new DataChannelService(isLocalScreenSharer);
+  const peerData = new DataChannelService(!isLocalScreenSharer);
+
+  localData.createChannels({
+    createDataChannel: (label: string) => {
+      const channel = new LinkedDataChannel(label);
+      channel.delayMs = delayMs;
+      localChannels.set(label, channel);
+      return channel;
+    }
+  } as unknown as RTCPeerConnection);
+
+  for (const [label, local] of localChannels) {
+    const remote = new LinkedDataChannel(label);
+    remote.delayMs = delayMs;
+    local.peer = remote;
+    remote.peer = local;
+    peerChannels.set(label, remote);
+    peerData.handleIncomingChannel(remote as unknown as RTCDataChannel);
+  }
+
+  return { localData, peerData, localChannels, peerChannels };
+}
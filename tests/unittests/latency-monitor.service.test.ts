@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { DataChannelService, LatencyMonitorService } from "../../src/renderer/core/webrtc/data/index";
+import { DataChannelMessageType, DataChannelName, LatencySample } from "../../src/renderer/shared/types/index";
+import { LATENCY_PING_INTERVAL_MS, LATENCY_PONG_TIMEOUT_MS } from "../../src/renderer/shared/constants/index";
+import { LinkedDataChannel, createLinkedDataChannels } from "./helpers/linked-data-channels";
+
+// Mock electron-log
+vi.mock("electron-log/renderer", () => ({
+  default: {
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn()
+  }
+}));
+
+describe("LatencyMonitorService", () => {
+  // Latency monitor on one side, a bare data channel service echoing pings as the peer
+  let monitor: LatencyMonitorService;
+  let localData: DataChannelService;
+  let peerData: DataChannelService;
+  let pingChannel: LinkedDataChannel;
+  let samples: LatencySample[];
+
+  const setOneWayDelay = (delayMs: number) => {
+    pingChannel.delayMs = delayMs;
+    pingChannel.peer!.delayMs = delayMs;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+
+    const linked = createLinkedDataChannels(false, 0);
+    localData = linked.localData;
+    peerData = linked.peerData;
+    pingChannel = linked.localChannels.get(DataChannelName.CURSOR_PING)!;
+    peerData.onMessage(DataChannelMessageType.LATENCY_PING, (probe) => {
+      peerData.sendMessage(DataChannelMessageType.LATENCY_PONG, probe);
+    });
+
+    monitor = new LatencyMonitorService(localData);
+    samples = [];
+    monitor.onSample((sample) => samples.push(sample));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  it("should not probe until started", async () => {
+
+    await vi.advanceTimersByTimeAsync(LATENCY_PING_INTERVAL_MS * 3);
+
+    expect(pingChannel.send).not.toHaveBeenCalled();
+  });
+
+  it("should measure the round trip of each probe", async () => {
+    setOneWayDelay(20);
+    monitor.start();
+
+    await vi.advanceTimersByTimeAsync(LATENCY_PING_INTERVAL_MS + 40);
+
+    expect(samples).toHaveLength(1);
+    expect(samples[0].rttMs).toBeCloseTo(40);
+    expect(samples[0].jitterMs).toBe(0);
+    monitor.cleanup();
+  });
+
+  it("should average the variation between consecutive round trips as jitter", async () => {
+    monitor.start();
+    // Each probe then goes out right after its delay is set and returns before the next one
+    await vi.advanceTimersByTimeAsync(LATENCY_PING_INTERVAL_MS - 1);
+
+    for (const delayMs of [10, 30, 10]) {
+      setOneWayDelay(delayMs);
+      await vi.advanceTimersByTimeAsync(LATENCY_PING_INTERVAL_MS);
+    }
+
+    expect(samples.map((sample) => Math.round(sample.rttMs))).toEqual([20, 60, 20]);
+    expect(samples[1].jitterMs).toBeCloseTo(40);
+    expect(samples[2].jitterMs).toBeCloseTo(40);
+    monitor.cleanup();
+  });
+
+  it("should answer the peer's probes with an echo", () => {
+
+    pingChannel.onmessage?.({
+      data: JSON.stringify({
+        type: DataChannelMessageType.LATENCY_PING,
+        version: 1,
+        seq: 0,
+        ts: Date.now(),
+        payload: { id: 7, sentAt: 1234.5 }
+      })
+    } as MessageEvent);
+
+    const sent = JSON.parse(pingChannel.send.mock.calls[0][0] as string);
+    expect(sent).toMatchObject({ type: DataChannelMessageType.LATENCY_PONG, payload: { id: 7, sentAt: 1234.5 } });
+    expect(localData.getMessageStats().sent).toBe(1);
+  });
+
+  it("should ignore pongs of probes it never sent or gave up on", async () => {
+    setOneWayDelay(LATENCY_PONG_TIMEOUT_MS);
+    monitor.start();
+    await vi.advanceTimersByTimeAsync(LATENCY_PING_INTERVAL_MS);
+    monitor.stop();
+
+    peerData.sendMessage(DataChannelMessageType.LATENCY_PONG, { id: 99, sentAt: performance.now() });
+    await vi.advanceTimersByTimeAsync(LATENCY_PONG_TIMEOUT_MS * 2);
+
+    expect(samples).toEqual([]);
+    monitor.cleanup();
+  });
+
+  it("should stop probing on cleanup", async () => {
+    monitor.start();
+    monitor.cleanup();
+
+    await vi.advanceTimersByTimeAsync(LATENCY_PING_INTERVAL_MS * 3);
+
+    expect(pingChannel.send).not.toHaveBeenCalled();
+  });
+});
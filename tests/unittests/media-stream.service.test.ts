@@ -125,6 +125,52 @@ describe("MediaStreamService", () => {
     });
   });
 
+  describe("microphone device", () => {
+    it("should ask for the picked microphone", async () => {
+      mockMediaDevices.getUserMedia.mockResolvedValue(mockAudioStream);
+
+      await service.getUserAudio("headset");
+
+      expect(mockMediaDevices.getUserMedia).toHaveBeenCalledWith({
+        audio: { deviceId: { ideal: "headset" } },
+        video: false
+      });
+    });
+
+    it("should keep the current microphone while the replacement opens", async () => {
+      const replacementTrack = { ...mockAudioTrack, stop: vi.fn() } as unknown as MediaStreamTrack;
+      const replacementStream = {
+        ...mockAudioStream,
+        getTracks: vi.fn(() => [replacementTrack]),
+        getAudioTracks: vi.fn(() => [replacementTrack])
+      } as unknown as MediaStream;
+      mockMediaDevices.getUserMedia.mockResolvedValueOnce(mockAudioStream).mockResolvedValueOnce(replacementStream);
+      await service.getUserAudio();
+
+      expect(await service.acquireReplacementUserAudio("headset")).toBe(replacementStream);
+      expect(service.getAudioStream()).toBe(mockAudioStream);
+      expect(mockAudioTrack.stop).not.toHaveBeenCalled();
+    });
+
+    it("should keep a muted microphone muted when it is replaced", async () => {
+      const replacementTrack = { ...mockAudioTrack, stop: vi.fn() } as unknown as MediaStreamTrack;
+      const replacementStream = {
+        ...mockAudioStream,
+        getTracks: vi.fn(() => [replacementTrack]),
+        getAudioTracks: vi.fn(() => [replacementTrack])
+      } as unknown as MediaStream;
+      mockMediaDevices.getUserMedia.mockResolvedValue(mockAudioStream);
+      await service.getUserAudio();
+      service.toggleAudioTrack(false);
+
+      service.replaceAudioStream(replacementStream);
+
+      expect(mockAudioTrack.stop).toHaveBeenCalled();
+      expect(service.getAudioStream()).toBe(replacementStream);
+      expect(replacementTrack.enabled).toBe(false);
+    });
+  });
+
   describe("getDisplayMedia", () => {
     it("should successfully get display stream", async () => {
       mockMediaDevices.getDisplayMedia.mockResolvedValue(mockDisplayStream);
@@ -179,6 +225,144 @@ describe("MediaStreamService", () => {
     });
   });
 
+  describe("replacing the display stream", () => {
+    let replacementTrack: MediaStreamTrack;
+    let replacementStream: MediaStream;
+
+    beforeEach(() => {
+      replacementTrack = { ...mockVideoTrack, stop: vi.fn(), addEventListener: vi.fn() } as unknown as MediaStreamTrack;
+      replacementStream = {
+        ...mockDisplayStream,
+        getTracks: vi.fn(() => [replacementTrack]),
+        getVideoTracks: vi.fn(() => [replacementTrack]),
+        addEventListener: vi.fn()
+      } as unknown as MediaStream;
+    });
+
+    it("should keep the current stream while the replacement is captured", async () => {
+      mockMediaDevices.getDisplayMedia.mockResolvedValueOnce(mockDisplayStream).mockResolvedValueOnce(replacementStream);
+      await service.getDisplayMedia();
+
+      const result = await service.acquireReplacementDisplayMedia();
+
+      expect(result).toBe(replacementStream);
+      expect(service.getDisplayStream()).toBe(mockDisplayStream);
+      expect(mockVideoTrack.stop).not.toHaveBeenCalled();
+    });
+
+    it("should keep sharing when the replacement capture is declined", async () => {
+      mockMediaDevices.getDisplayMedia.mockResolvedValueOnce(mockDisplayStream).mockRejectedValueOnce(new Error("User cancelled"));
+      await service.getDisplayMedia();
+
+      expect(await service.acquireReplacementDisplayMedia()).toBeNull();
+      expect(service.isDisplayCaptureAlive()).toBe(true);
+    });
+
+    it("should stop the previous stream without ending the session", async () => {
+      const onEnd = vi.fn();
+      service.onDisplayEnd(onEnd);
+      mockMediaDevices.getDisplayMedia.mockResolvedValue(mockDisplayStream);
+      await service.getDisplayMedia();
+      const endListener = vi.mocked(mockVideoTrack.addEventListener).mock.calls[0][1] as () => void;
+
+      service.replaceDisplayStream(replacementStream);
+
+      expect(mockVideoTrack.removeEventListener).toHaveBeenCalledWith("ended", endListener);
+      expect(mockVideoTrack.stop).toHaveBeenCalled();
+      expect(onEnd).not.toHaveBeenCalled();
+      expect(service.getDisplayStream()).toBe(replacementStream);
+    });
+
+    it("should end the session when the replacement stream ends", async () => {
+      const onEnd = vi.fn();
+      service.onDisplayEnd(onEnd);
+      mockMediaDevices.getDisplayMedia.mockResolvedValue(mockDisplayStream);
+      await service.getDisplayMedia();
+
+      service.replaceDisplayStream(replacementStream);
+      const endListener = vi.mocked(replacementTrack.addEventListener).mock.calls[0][1] as () => void;
+      endListener();
+
+      expect(onEnd).toHaveBeenCalledTimes(1);
+      expect(replacementTrack.stop).toHaveBeenCalled();
+    });
+
+    it("should keep a paused display paused", async () => {
+      mockMediaDevices.getDisplayMedia.mockResolvedValue(mockDisplayStream);
+      await service.getDisplayMedia();
+      service.toggleVideoTrack(false);
+
+      service.replaceDisplayStream(replacementStream);
+
+      expect(replacementTrack.enabled).toBe(false);
+    });
+  });
+
+  describe("system audio", () => {
+    let systemAudioTrack: MediaStreamTrack;
+    let loopbackVideoTrack: MediaStreamTrack;
+    let loopbackStream: MediaStream;
+
+    beforeEach(() => {
+      systemAudioTrack = { ...mockAudioTrack, stop: vi.fn() } as unknown as MediaStreamTrack;
+      loopbackVideoTrack = { ...mockVideoTrack, stop: vi.fn() } as unknown as MediaStreamTrack;
+      loopbackStream = {
+        active: true,
+        getTracks: vi.fn(() => [systemAudioTrack]),
+        getAudioTracks: vi.fn(() => [systemAudioTrack]),
+        getVideoTracks: vi.fn(() => [loopbackVideoTrack]),
+        removeTrack: vi.fn(),
+        addEventListener: vi.fn(),
+        removeEventListener: vi.fn()
+      } as unknown as MediaStream;
+      mockMediaDevices.getDisplayMedia.mockResolvedValue(loopbackStream);
+    });
+
+    it("should capture system audio only when asked and drop the screen that comes with it", async () => {
+      expect(service.isSystemAudioTrackActive()).toBe(false);
+
+      expect(await service.acquireSystemAudio()).toBe(systemAudioTrack);
+
+      expect(mockMediaDevices.getDisplayMedia).toHaveBeenCalledWith({ audio: true, video: true });
+      expect(loopbackVideoTrack.stop).toHaveBeenCalled();
+      expect(service.getSystemAudioTrack()).toBe(systemAudioTrack);
+      expect(service.isSystemAudioTrackActive()).toBe(true);
+      expect(service.getDisplayStream()).toBeNull();
+    });
+
+    it("should stop capturing once turned off", async () => {
+      await service.acquireSystemAudio();
+
+      service.stopSystemAudio();
+
+      expect(systemAudioTrack.stop).toHaveBeenCalled();
+      expect(service.isSystemAudioTrackActive()).toBe(false);
+    });
+
+    it("should report no system audio when the platform captured none", async () => {
+      vi.mocked(loopbackStream.getAudioTracks).mockReturnValue([]);
+
+      expect(await service.acquireSystemAudio()).toBeNull();
+      expect(loopbackVideoTrack.stop).toHaveBeenCalled();
+      expect(service.isSystemAudioTrackActive()).toBe(false);
+    });
+
+    it("should drop a capture that arrives after system audio was turned off", async () => {
+      let resolveCapture!: (stream: MediaStream) => void;
+      mockMediaDevices.getDisplayMedia.mockReturnValue(new Promise(resolve => {
+        resolveCapture = resolve;
+      }));
+
+      const pending = service.acquireSystemAudio();
+      service.stopSystemAudio();
+      resolveCapture(loopbackStream);
+
+      expect(await pending).toBeNull();
+      expect(systemAudioTrack.stop).toHaveBeenCalled();
+      expect(service.isSystemAudioTrackActive()).toBe(false);
+    });
+  });
+
   describe("hasAudioInput", () => {
     it("should return false when no audio stream exists", () => {
       expect(service.hasAudioInput()).toBe(false);
@@ -54,7 +54,11 @@ describe("PeerConnectionService", () => {
     mockDataChannelService = {
       createChannels: vi.fn(),
       handleIncomingChannel: vi.fn(),
-      cleanup: vi.fn()
+      cleanup: vi.fn(),
+      onSignalingMessage: vi.fn(),
+      onSignalingChannelOpen: vi.fn(),
+      sendSignalingMessage: vi.fn().mockReturnValue(true),
+      isSignalingChannelReady: vi.fn().mockReturnValue(false)
     } as unknown as DataChannelService;
 
     // Mock config
@@ -69,8 +73,9 @@ describe("PeerConnectionService", () => {
     mockPeerConnection = {
       createOffer: vi.fn().mockResolvedValue(createMockRTCSessionDescription("offer")),
       createAnswer: vi.fn().mockResolvedValue(createMockRTCSessionDescription("answer")),
-      setLocalDescription: vi.fn().mockImplementation((desc: RTCSessionDescriptionInit) => {
-        currentLocalDescription = desc;
+      setLocalDescription: vi.fn().mockImplementation((desc?: RTCSessionDescriptionInit) => {
+        // Implicit setLocalDescription() (renegotiation) creates a fresh description
+        currentLocalDescription = desc ?? createMockRTCSessionDescription("offer");
         // Simulate ICE gathering after setLocalDescription
         setTimeout(() => {
           emitIceCandidate();
@@ -79,6 +84,8 @@ describe("PeerConnectionService", () => {
         return Promise.resolve();
       }),
       setRemoteDescription: vi.fn().mockResolvedValue(undefined),
+      addIceCandidate: vi.fn().mockResolvedValue(undefined),
+      restartIce: vi.fn(),
       addTrack: vi.fn().mockReturnValue({} as RTCRtpSender),
       close: vi.fn(),
       // addEventListener: vi.fn(),
@@ -95,6 +102,7 @@ describe("PeerConnectionService", () => {
       }),
       connectionState: "new" as RTCPeerConnectionState,
       iceConnectionState: "new" as RTCIceConnectionState,
+      signalingState: "stable" as RTCSignalingState,
       ondatachannel: null,
       ontrack: null,
       onicecandidate: null,
@@ -123,9 +131,9 @@ describe("PeerConnectionService", () => {
     const RTCPeerConnectionMock = vi.fn(function (this: RTCPeerConnection) {
       // Copy regular properties
       const props = ["createOffer", "createAnswer", "setLocalDescription", 
-        "setRemoteDescription", "addTrack", "close", 
+        "setRemoteDescription", "addIceCandidate", "restartIce", "addTrack", "close", 
         "addEventListener", "removeEventListener", "connectionState",
-        "iceConnectionState", "iceGatheringState", "ondatachannel",
+        "iceConnectionState", "signalingState", "iceGatheringState", "ondatachannel",
         "ontrack", "onicecandidate", "oniceconnectionstatechange",
         "onconnectionstatechange", "onicegatheringstatechange", "onnegotiationneeded"];
       
@@ -314,6 +322,27 @@ describe("PeerConnectionService", () => {
     });
   });
 
+  describe("replaceTrack", () => {
+    it("should hand the track to the sender of the same kind", async () => {
+      await service.initialize();
+      const audioSender = { track: { kind: "audio" }, replaceTrack: vi.fn() };
+      const videoSender = { track: { kind: "video" }, replaceTrack: vi.fn().mockResolvedValue(undefined) };
+      (service as any).pc.getSenders = vi.fn(() => [audioSender, videoSender]);
+      const track = { kind: "video" } as MediaStreamTrack;
+
+      expect(await service.replaceTrack(track)).toBe(true);
+      expect(videoSender.replaceTrack).toHaveBeenCalledWith(track);
+      expect(audioSender.replaceTrack).not.toHaveBeenCalled();
+    });
+
+    it("should report when no sender sends that kind", async () => {
+      await service.initialize();
+      (service as any).pc.getSenders = vi.fn(() => []);
+
+      expect(await service.replaceTrack({ kind: "video" } as MediaStreamTrack)).toBe(false);
+    });
+  });
+
   describe("createDataChannels", () => {
     it("should create data channels via data channel service", async () => {
       await service.initialize();
@@ -547,17 +576,143 @@ describe("PeerConnectionService", () => {
     });
 
     describe("onnegotiationneeded", () => {
-      it("should log warning when negotiation is needed", async () => {
-        const log = (await import("electron-log/renderer")).default;
+      it("should defer renegotiation until the signaling channel is open", async () => {
+        await service.initialize();
+
+        const pc = (service as any).pc;
+        const handler = pc?.onnegotiationneeded as (() => void) | null;
+        handler?.();
 
+        expect(mockPeerConnection.setLocalDescription).not.toHaveBeenCalled();
+        expect(mockDataChannelService.sendSignalingMessage).not.toHaveBeenCalled();
+      });
+
+      it("should send a new offer over the signaling channel when it is open", async () => {
+        (mockDataChannelService.isSignalingChannelReady as any).mockReturnValue(true);
         await service.initialize();
 
         const pc = (service as any).pc;
         const handler = pc?.onnegotiationneeded as (() => void) | null;
         handler?.();
+        await vi.waitFor(() => {
+          expect(mockDataChannelService.sendSignalingMessage).toHaveBeenCalledWith(
+            expect.objectContaining({ kind: "description" })
+          );
+        });
+        expect(mockPeerConnection.setLocalDescription).toHaveBeenCalledWith();
+      });
+
+      it("should renegotiate deferred negotiation once the signaling channel opens", async () => {
+        await service.initialize();
+
+        const pc = (service as any).pc;
+        (pc.onnegotiationneeded as () => void)();
+
+        (mockDataChannelService.isSignalingChannelReady as any).mockReturnValue(true);
+        const onOpen = (mockDataChannelService.onSignalingChannelOpen as any).mock.calls[0][0];
+        onOpen();
+
+        await vi.waitFor(() => {
+          expect(mockDataChannelService.sendSignalingMessage).toHaveBeenCalledWith(
+            expect.objectContaining({ kind: "description" })
+          );
+        });
+      });
+    });
+
+    describe("in-band signaling", () => {
+      const getSignalingHandler = () =>
+        (mockDataChannelService.onSignalingMessage as any).mock.calls[0][0] as (msg: any) => void;
+
+      it("should answer a renegotiation offer received in-band", async () => {
+        await service.initialize();
+
+        getSignalingHandler()({ kind: "description", description: { type: "offer", sdp: "remote-offer" } });
+
+        await vi.waitFor(() => {
+          expect(mockPeerConnection.setRemoteDescription).toHaveBeenCalled();
+          expect(mockDataChannelService.sendSignalingMessage).toHaveBeenCalledWith(
+            expect.objectContaining({ kind: "description" })
+          );
+        });
+      });
+
+      it("should ignore a colliding offer on the impolite peer", async () => {
+        await service.initialize();
+        (service as any).pc.signalingState = "have-local-offer";
+
+        getSignalingHandler()({ kind: "description", description: { type: "offer", sdp: "remote-offer" } });
+        await Promise.resolve();
+
+        expect(mockPeerConnection.setRemoteDescription).not.toHaveBeenCalled();
+      });
+
+      it("should accept a colliding offer on the polite peer", async () => {
+        const politeService = new PeerConnectionService(mockConfig, mockDataChannelService, true);
+        await politeService.initialize();
+        (politeService as any).pc.signalingState = "have-local-offer";
+
+        getSignalingHandler()({ kind: "description", description: { type: "offer", sdp: "remote-offer" } });
+
+        await vi.waitFor(() => {
+          expect(mockPeerConnection.setRemoteDescription).toHaveBeenCalled();
+        });
+      });
+
+      it("should add trickled ICE candidates", async () => {
+        await service.initialize();
+
+        const candidate = { candidate: "candidate:1 1 UDP 1 10.0.0.1 5000 typ host", sdpMid: "0" };
+        getSignalingHandler()({ kind: "candidate", candidate });
+
+        await vi.waitFor(() => {
+          expect(mockPeerConnection.addIceCandidate).toHaveBeenCalledWith(candidate);
+        });
+      });
+
+      it("should trickle local candidates once the signaling channel is open", async () => {
+        (mockDataChannelService.isSignalingChannelReady as any).mockReturnValue(true);
+        await service.initialize();
+
+        const pc = (service as any).pc;
+        const candidateInit = { candidate: "candidate:2", sdpMid: "0" };
+        pc.onicecandidate({ candidate: { toJSON: () => candidateInit } });
+
+        expect(mockDataChannelService.sendSignalingMessage).toHaveBeenCalledWith({
+          kind: "candidate",
+          candidate: candidateInit
+        });
+      });
+    });
+  });
+
+  describe("restartIce", () => {
+    it("should refuse to restart without an open signaling channel", async () => {
+      await service.initialize();
+
+      expect(service.canRestartIce()).toBe(false);
+      expect(service.restartIce()).toBe(false);
+      expect(mockPeerConnection.restartIce).not.toHaveBeenCalled();
+    });
+
+    it("should restart ICE when the signaling channel is open", async () => {
+      (mockDataChannelService.isSignalingChannelReady as any).mockReturnValue(true);
+      await service.initialize();
+
+      expect(service.restartIce()).toBe(true);
+      expect(mockPeerConnection.restartIce).toHaveBeenCalled();
+    });
+
+    it("should resend the restart offer when the previous one got no answer", async () => {
+      (mockDataChannelService.isSignalingChannelReady as any).mockReturnValue(true);
+      await service.initialize();
+      (service as any).pc.signalingState = "have-local-offer";
+
+      service.restartIce();
 
-        expect(log.warn).toHaveBeenCalledWith(
-          expect.stringContaining("onnegotiationneeded")
+      await vi.waitFor(() => {
+        expect(mockDataChannelService.sendSignalingMessage).toHaveBeenCalledWith(
+          expect.objectContaining({ kind: "description" })
         );
       });
     });
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { PeerInfoService } from "../../src/renderer/core/webrtc/data/index";
+import { DataChannelMessageType, DataChannelName, PeerFeature, PeerInfo } from "../../src/renderer/shared/types/index";
+import { createLinkedDataChannels } from "./helpers/linked-data-channels";
+
+// Mock electron-log
+vi.mock("electron-log/renderer", () => ({
+  default: {
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn()
+  }
+}));
+
+describe("PeerInfoService", () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should know the peer and the shared features once both hellos were acknowledged", () => {
+    const { localData: sharerData, peerData: watcherData } = createLinkedDataChannels(true);
+    const sharer = new PeerInfoService(sharerData);
+    const watcher = new PeerInfoService(watcherData);
+    sharer.setLocalIdentity("Alice", "#F97316", "1.3.0");
+    watcher.setLocalIdentity("Bob", "#3B82F6", "1.2.0");
+    const sharerPeers: PeerInfo[] = [];
+    sharer.onPeerInfo((info) => sharerPeers.push(info));
+
+    sharer.sendHello();
+    expect(sharer.getPeerInfo()).toBeNull();
+
+    watcher.sendHello();
+
+    expect(sharerPeers).toEqual([{
+      appVersion: "1.2.0",
+      name: "Bob",
+      cursorColor: "#3B82F6",
+      features: Object.values(PeerFeature)
+    }]);
+    expect(watcher.getPeerInfo()?.name).toBe("Alice");
+    expect(watcher.isFeatureSupported(PeerFeature.CHAT)).toBe(true);
+  });
+
+  it("should only use the features both peers announced", () => {
+    const { localData: sharerData, peerData: watcherData } = createLinkedDataChannels(true);
+    const sharer = new PeerInfoService(sharerData);
+    sharer.setLocalIdentity("Alice", "#F97316", "1.3.0");
+    watcherData.onMessage(DataChannelMessageType.PEER_HELLO, () => {
+      watcherData.sendMessage(DataChannelMessageType.PEER_HELLO_ACK, {});
+    });
+
+    sharer.sendHello();
+    watcherData.sendMessage(DataChannelMessageType.PEER_HELLO, {
+      appVersion: "2.0.0",
+      name: "Bob",
+      cursorColor: "#3B82F6",
+      features: [PeerFeature.CHAT, "holograms"]
+    });
+
+    expect(sharer.getPeerInfo()?.features).toEqual([PeerFeature.CHAT]);
+    expect(sharer.isFeatureSupported(PeerFeature.FILE_TRANSFER)).toBe(false);
+  });
+
+  it("should not use a feature this side withdrew", () => {
+    const { localData: sharerData, peerData: watcherData } = createLinkedDataChannels(true);
+    const sharer = new PeerInfoService(sharerData);
+    const watcher = new PeerInfoService(watcherData);
+    sharer.setLocalIdentity("Alice", "#F97316", "1.3.0");
+    watcher.setLocalIdentity("Bob", "#3B82F6", "1.2.0");
+
+    sharer.withdrawFeature(PeerFeature.REMOTE_CONTROL);
+    sharer.sendHello();
+    watcher.sendHello();
+
+    expect(watcher.isFeatureSupported(PeerFeature.REMOTE_CONTROL)).toBe(false);
+    expect(sharer.isFeatureSupported(PeerFeature.REMOTE_CONTROL)).toBe(false);
+    expect(watcher.isFeatureSupported(PeerFeature.CHAT)).toBe(true);
+  });
+
+  it("should keep cursor updates on the JSON channel until the peer announced the cursor stream", () => {
+    const { localData: sharerData, peerData: watcherData, localChannels: sharerChannels } = createLinkedDataChannels(true);
+    const sharer = new PeerInfoService(sharerData);
+    const watcher = new PeerInfoService(watcherData);
+    sharer.setLocalIdentity("Alice", "#F97316", "1.3.0");
+    watcher.setLocalIdentity("Bob", "#3B82F6", "1.3.0");
+    const cursor = { id: "cursor-1", name: "Alice", color: "#F97316", x: 0.5, y: 0.5 };
+
+    sharerData.updateRemoteCursor(cursor);
+    expect(sharerChannels.get(DataChannelName.CURSOR_STREAM)!.send).not.toHaveBeenCalled();
+
+    sharer.sendHello();
+    watcher.sendHello();
+    sharerData.updateRemoteCursor(cursor);
+
+    expect(sharerChannels.get(DataChannelName.CURSOR_STREAM)!.send).toHaveBeenCalledWith(expect.any(ArrayBuffer));
+  });
+
+  it("should not say hello without a local identity", () => {
+    const { localData: sharerData, localChannels: sharerChannels } = createLinkedDataChannels(true);
+    const sharer = new PeerInfoService(sharerData);
+
+    expect(sharer.sendHello()).toBe(false);
+    expect(sharerChannels.get(DataChannelName.SIGNALING)!.send).not.toHaveBeenCalled();
+  });
+
+  it("should forget the peer on cleanup", () => {
+    const { localData: sharerData, peerData: watcherData } = createLinkedDataChannels(true);
+    const sharer = new PeerInfoService(sharerData);
+    const watcher = new PeerInfoService(watcherData);
+    sharer.setLocalIdentity("Alice", "#F97316", "1.3.0");
+    watcher.setLocalIdentity("Bob", "#3B82F6", "1.3.0");
+    sharer.sendHello();
+    watcher.sendHello();
+
+    sharer.cleanup();
+
+    expect(sharer.getPeerInfo()).toBeNull();
+    expect(sharer.isFeatureSupported(PeerFeature.CHAT)).toBe(false);
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, vi } from "vitest";
+import QRCode from "qrcode";
+import {
+  splitQrFrames,
+  QrFrameAssembler,
+  decodeQrFromPixels,
+  renderQrCode,
+  QR_FRAME_MAX_LENGTH,
+  QR_MAX_FRAMES,
+  QR_PAYLOAD_MAX_LENGTH,
+} from "../../src/renderer/shared/utils/index";
+
+// Mock electron-log
+vi.mock("electron-log/renderer", () => ({
+  default: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+/**
+ * Rasterizes a QR code into RGBA pixels with a quiet zone
+ */
+function rasterize(text: string, scale = 4, margin = 4) {
+  const qr = QRCode.create(text, { errorCorrectionLevel: "L" });
+  const moduleCount = qr.modules.size;
+  const size = (moduleCount + margin * 2) * scale;
+  const data = new Uint8ClampedArray(size * size * 4).fill(255);
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const moduleX = Math.floor(x / scale) - margin;
+      const moduleY = Math.floor(y / scale) - margin;
+      const inside = moduleX >= 0 && moduleY >= 0 && moduleX < moduleCount && moduleY < moduleCount;
+      if (inside && qr.modules.get(moduleY, moduleX)) {
+        const offset = (y * size + x) * 4;
+        data[offset] = 0;
+        data[offset + 1] = 0;
+        data[offset + 2] = 0;
+      }
+    }
+  }
+  return { data, width: size, height: size };
+}
+
+describe("qr-code", () => {
+  const shortUrl = "lynxscreen://share?username=Alice&token=gz%3Aabc&type=offer";
+  const longUrl = `lynxscreen://share?username=Alice&token=gz:${"x".repeat(2500)}&type=offer`;
+
+  describe("splitQrFrames", () => {
+    it("should keep a short URL as a single plain frame", () => {
+      expect(splitQrFrames(shortUrl)).toEqual([shortUrl]);
+    });
+
+    it("should split a long URL into numbered frames", () => {
+      const frames = splitQrFrames(longUrl);
+
+      expect(frames).toHaveLength(Math.ceil(longUrl.length / QR_FRAME_MAX_LENGTH));
+      frames.forEach((frame, i) => {
+        expect(frame).toMatch(new RegExp(`^lynxqr:[0-9a-z]+:${i + 1}/${frames.length}:`));
+      });
+    });
+
+    it("should throw for empty input", () => {
+      expect(() => splitQrFrames("")).toThrow("Nothing to encode");
+    });
+
+    it("should throw for URLs needing more frames than a scanner accepts", () => {
+      const tooLongUrl = `lynxscreen://share?token=${"x".repeat(QR_PAYLOAD_MAX_LENGTH + QR_FRAME_MAX_LENGTH)}`;
+
+      expect(splitQrFrames(tooLongUrl.slice(0, QR_PAYLOAD_MAX_LENGTH))).toHaveLength(QR_MAX_FRAMES);
+      expect(() => splitQrFrames(tooLongUrl)).toThrow("Too long");
+    });
+  });
+
+  describe("QrFrameAssembler", () => {
+    it("should return a single-frame URL immediately", () => {
+      const assembler = new QrFrameAssembler();
+      expect(assembler.add(shortUrl)).toBe(shortUrl);
+    });
+
+    it("should reassemble frames received out of order and repeated", () => {
+      const frames = splitQrFrames(longUrl);
+      const assembler = new QrFrameAssembler();
+
+      const [first, ...rest] = frames;
+
+      for (const frame of [...rest].reverse()) {
+        expect(assembler.add(frame)).toBeNull();
+      }
+      expect(assembler.add(rest[0])).toBeNull();
+      expect(assembler.getProgress()).toEqual({ received: rest.length, total: frames.length });
+      expect(assembler.add(first)).toBe(longUrl);
+    });
+
+    it("should start over when frames of another URL arrive", () => {
+      const first = splitQrFrames(longUrl);
+      const second = splitQrFrames(longUrl.replace("Alice", "Bobby"));
+      const assembler = new QrFrameAssembler();
+
+      assembler.add(first[0]);
+      assembler.add(first[1]);
+      assembler.add(second[0]);
+
+      expect(assembler.getProgress()).toEqual({ received: 1, total: second.length });
+    });
+
+    it("should ignore malformed frames", () => {
+      const assembler = new QrFrameAssembler();
+
+      expect(assembler.add("lynxqr:broken")).toBeNull();
+      expect(assembler.add("lynxqr:abc:4/3:data")).toBeNull();
+      expect(assembler.getProgress()).toEqual({ received: 0, total: 0 });
+    });
+
+    it("should ignore frames announcing more frames than a URL can need", () => {
+      const assembler = new QrFrameAssembler();
+
+      expect(assembler.add(`lynxqr:abc:1/${QR_MAX_FRAMES + 1}:data`)).toBeNull();
+      expect(assembler.add("lynxqr:abc:1/999999999:data")).toBeNull();
+      expect(assembler.getProgress()).toEqual({ received: 0, total: 0 });
+    });
+  });
+
+  describe("renderQrCode", () => {
+    it("should render a PNG data URL", async () => {
+      const dataUrl = await renderQrCode(shortUrl);
+      expect(dataUrl.startsWith("data:image/png;base64,")).toBe(true);
+    });
+  });
+
+  describe("decodeQrFromPixels", () => {
+    it("should decode a rendered frame", () => {
+      const { data, width, height } = rasterize(shortUrl);
+      expect(decodeQrFromPixels(data, width, height)).toBe(shortUrl);
+    });
+
+    it("should round-trip a multi-frame URL", () => {
+      const assembler = new QrFrameAssembler();
+      let result: string | null = null;
+
+      for (const frame of splitQrFrames(longUrl)) {
+        const { data, width, height } = rasterize(frame);
+        const text = decodeQrFromPixels(data, width, height);
+        expect(text).toBe(frame);
+        result = assembler.add(text!);
+      }
+
+      expect(result).toBe(longUrl);
+    });
+
+    it("should return null when no code is present", () => {
+      const data = new Uint8ClampedArray(64 * 64 * 4).fill(255);
+      expect(decodeQrFromPixels(data, 64, 64)).toBeNull();
+    });
+  });
+});
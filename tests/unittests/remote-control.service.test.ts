@@ -0,0 +1,237 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { DataChannelService, RemoteControlService } from "../../src/renderer/core/webrtc/data/index";
+import {
+  DataChannelMessageType,
+  RemoteControlState,
+  RemoteControlStatus,
+  RemoteInputEvent,
+  RemoteInputEventType,
+  RemoteMouseButton
+} from "../../src/renderer/shared/types/index";
+import {
+  injectRemoteInput,
+  startRemoteControlSession,
+  stopRemoteControlSession
+} from "../../src/renderer/shared/utils/remote-control";
+import { createLinkedDataChannels } from "./helpers/linked-data-channels";
+
+// Mock electron-log
+vi.mock("electron-log/renderer", () => ({
+  default: {
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn()
+  }
+}));
+
+// Main process side of the sharer
+let stopShortcut: string | null = "Ctrl+Alt+Shift+X";
+let isAvailable = true;
+let stoppedCallback: (() => void) | null = null;
+
+vi.mock("../../src/renderer/shared/utils/remote-control", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../../src/renderer/shared/utils/remote-control")>();
+  return {
+    ...actual,
+    isRemoteControlAvailable: vi.fn(async () => isAvailable),
+    startRemoteControlSession: vi.fn(async () => stopShortcut),
+    stopRemoteControlSession: vi.fn(async () => {}),
+    injectRemoteInput: vi.fn(),
+    onRemoteControlSessionStopped: vi.fn((callback: () => void) => {
+      stoppedCallback = callback;
+      return () => {
+        stoppedCallback = null;
+      };
+    })
+  };
+});
+
+const click: RemoteInputEvent = {
+  type: RemoteInputEventType.MOUSE_DOWN,
+  x: 0.25,
+  y: 0.75,
+  button: RemoteMouseButton.LEFT
+};
+
+describe("RemoteControlService", () => {
+  // Watcher and sharer remote control services linked by fake channels
+  let watcher: RemoteControlService;
+  let sharer: RemoteControlService;
+  let watcherData: DataChannelService;
+  let sharerData: DataChannelService;
+  let watcherStates: RemoteControlState[];
+  let sharerStates: RemoteControlState[];
+
+  const grantControl = async () => {
+    watcher.requestControl();
+    await sharer.respondToRequest(true);
+  };
+
+  beforeEach(() => {
+    stopShortcut = "Ctrl+Alt+Shift+X";
+    isAvailable = true;
+    stoppedCallback = null;
+
+    ({ localData: watcherData, peerData: sharerData } = createLinkedDataChannels(false));
+    watcher = new RemoteControlService(watcherData, false);
+    sharer = new RemoteControlService(sharerData, true);
+    watcherStates = [];
+    sharerStates = [];
+    watcher.onStateChange((state) => watcherStates.push(state));
+    sharer.onStateChange((state) => sharerStates.push(state));
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("consent", () => {
+    it("should show a watcher request to the sharer without starting control", () => {
+
+      expect(watcher.requestControl()).toBe(true);
+
+      expect(watcher.getState().status).toBe(RemoteControlStatus.REQUESTED);
+      expect(sharer.getState().status).toBe(RemoteControlStatus.REQUESTED);
+      expect(sharerStates).toHaveLength(1);
+      expect(startRemoteControlSession).not.toHaveBeenCalled();
+    });
+
+    it("should start control once the sharer allows it", async () => {
+      await grantControl();
+
+      expect(startRemoteControlSession).toHaveBeenCalled();
+      expect(sharer.getState()).toEqual({ status: RemoteControlStatus.ACTIVE, stopShortcut: "Ctrl+Alt+Shift+X" });
+      expect(watcher.getState()).toEqual({ status: RemoteControlStatus.ACTIVE, stopShortcut: null });
+    });
+
+    it("should tell the watcher when the sharer denies the request", async () => {
+      watcher.requestControl();
+
+      expect(await sharer.respondToRequest(false)).toBe(false);
+
+      expect(startRemoteControlSession).not.toHaveBeenCalled();
+      expect(sharer.getState().status).toBe(RemoteControlStatus.IDLE);
+      expect(watcher.getState().status).toBe(RemoteControlStatus.IDLE);
+    });
+
+    it("should not grant control without an emergency stop", async () => {
+      stopShortcut = null;
+      watcher.requestControl();
+
+      expect(await sharer.respondToRequest(true)).toBe(false);
+
+      expect(sharer.getState().status).toBe(RemoteControlStatus.IDLE);
+      expect(watcher.getState().status).toBe(RemoteControlStatus.IDLE);
+    });
+
+    it("should deny every request where input cannot be replayed", async () => {
+      isAvailable = false;
+      const sendSpy = vi.spyOn(sharerData, "sendMessage");
+
+      expect(await sharer.checkAvailability()).toBe(false);
+      expect(sharer.getState().status).toBe(RemoteControlStatus.UNAVAILABLE);
+
+      expect(watcher.requestControl()).toBe(true);
+
+      expect(sendSpy).toHaveBeenCalledWith(DataChannelMessageType.CONTROL_STATE, { active: false });
+      expect(sharer.getState().status).toBe(RemoteControlStatus.UNAVAILABLE);
+      expect(await sharer.respondToRequest(true)).toBe(false);
+      expect(startRemoteControlSession).not.toHaveBeenCalled();
+    });
+
+    it("should keep accepting requests where input can be replayed", async () => {
+
+      expect(await sharer.checkAvailability()).toBe(true);
+      watcher.requestControl();
+
+      expect(sharer.getState().status).toBe(RemoteControlStatus.REQUESTED);
+    });
+
+    it("should ignore answers without a pending request", async () => {
+
+      expect(await sharer.respondToRequest(true)).toBe(false);
+      expect(startRemoteControlSession).not.toHaveBeenCalled();
+    });
+
+    it("should let the watcher withdraw its request", () => {
+      watcher.requestControl();
+
+      watcher.releaseControl();
+
+      expect(watcher.getState().status).toBe(RemoteControlStatus.IDLE);
+      expect(sharer.getState().status).toBe(RemoteControlStatus.IDLE);
+    });
+
+    it("should only let the watcher request control", () => {
+
+      expect(sharer.requestControl()).toBe(false);
+    });
+  });
+
+  describe("input", () => {
+    it("should replay watcher input on the sharer while control is granted", async () => {
+      await grantControl();
+
+      expect(watcher.sendInput(click)).toBe(true);
+
+      expect(injectRemoteInput).toHaveBeenCalledWith(click);
+    });
+
+    it("should not send input before control is granted", () => {
+      watcher.requestControl();
+
+      expect(watcher.sendInput(click)).toBe(false);
+      expect(injectRemoteInput).not.toHaveBeenCalled();
+    });
+
+    it("should not replay input the sharer did not allow", () => {
+
+      // A peer skipping the consent flow
+      watcherData.sendMessage(DataChannelMessageType.CONTROL_INPUT, click);
+
+      expect(injectRemoteInput).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("stopping", () => {
+    it("should let the sharer take control back", async () => {
+      await grantControl();
+
+      await sharer.revoke();
+
+      expect(stopRemoteControlSession).toHaveBeenCalled();
+      expect(sharer.getState().status).toBe(RemoteControlStatus.IDLE);
+      expect(watcher.getState().status).toBe(RemoteControlStatus.IDLE);
+      expect(watcher.sendInput(click)).toBe(false);
+    });
+
+    it("should stop when the watcher gives control back", async () => {
+      await grantControl();
+
+      watcher.releaseControl();
+
+      expect(stopRemoteControlSession).toHaveBeenCalled();
+      expect(sharer.getState().status).toBe(RemoteControlStatus.IDLE);
+    });
+
+    it("should tell the watcher about an emergency stop", async () => {
+      await grantControl();
+
+      stoppedCallback?.();
+
+      expect(sharer.getState().status).toBe(RemoteControlStatus.IDLE);
+      expect(watcher.getState().status).toBe(RemoteControlStatus.IDLE);
+      expect(stoppedCallback).toBeNull();
+    });
+
+    it("should stop control when the session ends", async () => {
+      await grantControl();
+
+      sharer.cleanup();
+
+      expect(stopRemoteControlSession).toHaveBeenCalled();
+      expect(sharer.getState().status).toBe(RemoteControlStatus.IDLE);
+    });
+  });
+});
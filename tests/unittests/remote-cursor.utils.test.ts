@@ -0,0 +1,169 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  appendCursorTrack,
+  applyRemoteCursorEvent,
+  applyRemoteCursorUpdate,
+  createRemoteCursorEffects,
+  pruneCursorTrack,
+  pruneRemoteCursorEffects,
+  removeRemoteCursorEffects,
+  sampleCursorTrack
+} from "../../src/renderer/shared/utils/index";
+import { CursorEventType, CursorMode, RemoteCursorState } from "../../src/renderer/shared/types/index";
+import {
+  CURSOR_LASER_TRAIL_MS,
+  CURSOR_RIPPLE_DURATION_MS,
+  CURSOR_STREAM_SEND_INTERVAL_MS
+} from "../../src/renderer/shared/constants/index";
+
+// Mock electron-log
+vi.mock("electron-log/renderer", () => ({
+  default: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const cursor = (overrides: Partial<RemoteCursorState> = {}): RemoteCursorState => ({
+  id: "cursor-1",
+  name: "Watcher",
+  color: "#3B82F6",
+  x: 0.5,
+  y: 0.5,
+  ...overrides
+});
+
+describe("applyRemoteCursorUpdate", () => {
+  it("should leave the effects untouched for a pointer", () => {
+    const effects = createRemoteCursorEffects();
+
+    expect(applyRemoteCursorUpdate(effects, cursor())).toBe(effects);
+  });
+
+  it("should append the trail and the position of a laser", () => {
+    const effects = applyRemoteCursorUpdate(
+      createRemoteCursorEffects(),
+      cursor({ mode: CursorMode.LASER, trail: [{ x: 0.1, y: 0.1 }, { x: 0.3, y: 0.3 }] }),
+      1000
+    );
+    const next = applyRemoteCursorUpdate(effects, cursor({ mode: CursorMode.LASER, x: 0.6 }), 1050);
+
+    expect(next.trails["cursor-1"].map(({ x, at }) => ({ x, at }))).toEqual([
+      { x: 0.1, at: 1000 },
+      { x: 0.3, at: 1000 },
+      { x: 0.5, at: 1000 },
+      { x: 0.6, at: 1050 }
+    ]);
+    expect(new Set(next.trails["cursor-1"].map((point) => point.id)).size).toBe(4);
+  });
+});
+
+describe("applyRemoteCursorEvent", () => {
+  const event = (type: CursorEventType) => ({ cursorId: "cursor-1", type, x: 0.2, y: 0.4 });
+
+  it("should hold the press and start a ripple", () => {
+    const effects = applyRemoteCursorEvent(
+      createRemoteCursorEffects(), event(CursorEventType.BUTTON_DOWN), "#3B82F6", 1000
+    );
+
+    expect(effects.pressed).toEqual(["cursor-1"]);
+    expect(effects.ripples).toEqual([expect.objectContaining({
+      cursorId: "cursor-1", x: 0.2, y: 0.4, color: "#3B82F6", isDouble: false, at: 1000
+    })]);
+  });
+
+  it("should release the press without a ripple", () => {
+    const pressed = applyRemoteCursorEvent(
+      createRemoteCursorEffects(), event(CursorEventType.BUTTON_DOWN), "#3B82F6"
+    );
+    const released = applyRemoteCursorEvent(pressed, event(CursorEventType.BUTTON_UP), "#3B82F6");
+
+    expect(released.pressed).toEqual([]);
+    expect(released.ripples).toHaveLength(1);
+  });
+
+  it("should mark double-click ripples", () => {
+    const effects = applyRemoteCursorEvent(
+      createRemoteCursorEffects(), event(CursorEventType.DOUBLE_CLICK), "#3B82F6"
+    );
+
+    expect(effects.ripples[0].isDouble).toBe(true);
+    expect(effects.pressed).toEqual([]);
+  });
+});
+
+describe("pruneRemoteCursorEffects", () => {
+  it("should keep the same object while nothing expired", () => {
+    const effects = applyRemoteCursorUpdate(createRemoteCursorEffects(), cursor({ mode: CursorMode.LASER }), 1000);
+
+    expect(pruneRemoteCursorEffects(effects, 1000 + CURSOR_LASER_TRAIL_MS - 1)).toBe(effects);
+  });
+
+  it("should drop finished trail points and ripples", () => {
+    let effects = applyRemoteCursorUpdate(createRemoteCursorEffects(), cursor({ mode: CursorMode.LASER }), 1000);
+    effects = applyRemoteCursorEvent(
+      effects, { cursorId: "cursor-1", type: CursorEventType.BUTTON_DOWN, x: 0.5, y: 0.5 }, "#3B82F6", 1000
+    );
+
+    const pruned = pruneRemoteCursorEffects(
+      effects, 1000 + Math.max(CURSOR_LASER_TRAIL_MS, CURSOR_RIPPLE_DURATION_MS)
+    );
+
+    expect(pruned.trails).toEqual({});
+    expect(pruned.ripples).toEqual([]);
+    expect(pruned.pressed).toEqual(["cursor-1"]);
+  });
+});
+
+describe("removeRemoteCursorEffects", () => {
+  it("should only drop the marks of the given cursor", () => {
+    let effects = applyRemoteCursorUpdate(createRemoteCursorEffects(), cursor({ mode: CursorMode.LASER }));
+    effects = applyRemoteCursorUpdate(effects, cursor({ id: "cursor-2", mode: CursorMode.LASER }));
+    effects = applyRemoteCursorEvent(
+      effects, { cursorId: "cursor-1", type: CursorEventType.BUTTON_DOWN, x: 0.5, y: 0.5 }, "#3B82F6"
+    );
+
+    const remaining = removeRemoteCursorEffects(effects, "cursor-1");
+
+    expect(Object.keys(remaining.trails)).toEqual(["cursor-2"]);
+    expect(remaining.ripples).toEqual([]);
+    expect(remaining.pressed).toEqual([]);
+  });
+});
+
+describe("cursor track playback", () => {
+  it("should spread the positions of an update since the previous one", () => {
+    let track = appendCursorTrack([], cursor({ x: 0, y: 0 }), 1000);
+    track = appendCursorTrack(track, cursor({ x: 0.4, y: 0, trail: [{ x: 0.2, y: 0 }] }), 1010);
+
+    expect(track.map((point) => point.at)).toEqual([1000, 1005, 1010]);
+    expect(sampleCursorTrack(track, 1007.5)?.x).toBeCloseTo(0.3);
+  });
+
+  it("should start moving from the rest position after a pause", () => {
+    let track = appendCursorTrack([], cursor({ x: 0, y: 0 }), 1000);
+    track = appendCursorTrack(track, cursor({ x: 1, y: 0 }), 5000);
+
+    expect(track.map((point) => point.at)).toEqual([1000, 5000 - CURSOR_STREAM_SEND_INTERVAL_MS, 5000]);
+    expect(sampleCursorTrack(track, 3000)?.x).toBe(0);
+  });
+
+  it("should hold the first and last positions outside the track", () => {
+    const track = appendCursorTrack(appendCursorTrack([], cursor({ x: 0.1 }), 1000), cursor({ x: 0.9 }), 1010);
+
+    expect(sampleCursorTrack([], 1000)).toBeNull();
+    expect(sampleCursorTrack(track, 0)?.x).toBe(0.1);
+    expect(sampleCursorTrack(track, 2000)?.x).toBe(0.9);
+  });
+
+  it("should keep the position the cursor currently moves from", () => {
+    let track = appendCursorTrack([], cursor({ x: 0 }), 1000);
+    track = appendCursorTrack(track, cursor({ x: 1, trail: [{ x: 0.5, y: 0.5 }] }), 1010);
+
+    expect(pruneCursorTrack(track, 1000)).toBe(track);
+    expect(pruneCursorTrack(track, 1007).map((point) => point.x)).toEqual([0.5, 1]);
+    expect(pruneCursorTrack(track, 2000).map((point) => point.x)).toEqual([1]);
+  });
+});
@@ -0,0 +1,172 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  InputInjector,
+  NoopInputInjector,
+  RemoteInputController,
+  RemoteInputEvent,
+  createInputInjector,
+  isRemoteInputEvent
+} from "../../src/main/remote-input";
+
+vi.mock("electron", () => ({
+  screen: { dipToScreenPoint: vi.fn((point: { x: number; y: number }) => point) }
+}));
+
+// Mock electron-log
+vi.mock("electron-log", () => ({
+  default: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+/**
+ * Injector recording what would have been replayed
+ */
+class RecordingInputInjector implements InputInjector {
+  public readonly name = "recording";
+  public readonly canInject = true;
+  public events: RemoteInputEvent[] = [];
+
+  public inject(event: RemoteInputEvent): void {
+    this.events.push(event);
+  }
+
+  public dispose(): void {}
+}
+
+const keyA = {
+  type: "key.down" as const,
+  key: "a",
+  code: "KeyA",
+  modifiers: { alt: false, ctrl: true, meta: false, shift: false }
+};
+
+describe("RemoteInputController", () => {
+  let injector: RecordingInputInjector;
+  let controller: RemoteInputController;
+
+  beforeEach(() => {
+    injector = new RecordingInputInjector();
+    controller = new RemoteInputController(injector, () => ({ x: 1920, y: 0, width: 1001, height: 501 }));
+  });
+
+  it("should drop input until control is granted", () => {
+    expect(controller.handle({ type: "mouse.move", x: 0.5, y: 0.5 })).toBe(false);
+    expect(injector.events).toEqual([]);
+  });
+
+  it("should map pointer coordinates to the shared display", () => {
+    controller.start();
+
+    controller.handle({ type: "mouse.down", x: 0.5, y: 1, button: "left" });
+
+    expect(injector.events).toEqual([{ type: "mouse.down", x: 2420, y: 500, button: "left" }]);
+  });
+
+  it("should pass key events through", () => {
+    controller.start();
+
+    controller.handle(keyA);
+
+    expect(injector.events).toEqual([keyA]);
+  });
+
+  it("should release held buttons and keys when control stops", () => {
+    controller.start();
+    controller.handle({ type: "mouse.down", x: 0, y: 0, button: "right" });
+    controller.handle(keyA);
+
+    controller.stop();
+
+    expect(injector.events.slice(2)).toEqual([
+      { type: "mouse.up", x: 1920, y: 0, button: "right" },
+      { ...keyA, type: "key.up" }
+    ]);
+    expect(controller.isActive()).toBe(false);
+    expect(controller.handle({ type: "mouse.move", x: 0.5, y: 0.5 })).toBe(false);
+  });
+
+  it("should not release what was already released", () => {
+    controller.start();
+    controller.handle({ type: "mouse.down", x: 0, y: 0, button: "left" });
+    controller.handle({ type: "mouse.up", x: 0, y: 0, button: "left" });
+
+    controller.stop();
+
+    expect(injector.events).toHaveLength(2);
+  });
+
+  it("should only be available with an injector that reaches the system", () => {
+    expect(controller.isAvailable()).toBe(true);
+    expect(new RemoteInputController(new NoopInputInjector(), () => ({ x: 0, y: 0, width: 1, height: 1 })).isAvailable())
+      .toBe(false);
+  });
+
+  it("should keep going when the injector fails", () => {
+    const failing: InputInjector = {
+      name: "failing",
+      canInject: true,
+      inject: vi.fn(() => { throw new Error("denied"); }),
+      dispose: vi.fn()
+    };
+    const failingController = new RemoteInputController(failing, () => ({ x: 0, y: 0, width: 100, height: 100 }));
+    failingController.start();
+
+    expect(failingController.handle({ type: "mouse.move", x: 0.5, y: 0.5 })).toBe(true);
+  });
+
+  it("should drop pointer input while there is no screen to map it to", () => {
+    const windowController = new RemoteInputController(injector, () => null);
+    windowController.start();
+
+    expect(windowController.handle({ type: "mouse.down", x: 0.5, y: 0.5, button: "left" })).toBe(false);
+    expect(windowController.handle(keyA)).toBe(true);
+    expect(injector.events).toEqual([keyA]);
+  });
+});
+
+describe("createInputInjector", () => {
+  const platform = process.platform;
+
+  afterEach(() => {
+    Object.defineProperty(process, "platform", { value: platform, configurable: true });
+  });
+
+  it.each([
+    ["win32", "windows", true],
+    ["darwin", "noop", false],
+    ["linux", "noop", false]
+  ] as Array<[NodeJS.Platform, string, boolean]>)("should pick the injector of %s", (value, name, canInject) => {
+    Object.defineProperty(process, "platform", { value, configurable: true });
+
+    const injector = createInputInjector();
+
+    expect(injector.name).toBe(name);
+    expect(injector.canInject).toBe(canInject);
+  });
+});
+
+describe("isRemoteInputEvent", () => {
+  it("should accept every event type", () => {
+    expect(isRemoteInputEvent({ type: "mouse.move", x: 0, y: 1 })).toBe(true);
+    expect(isRemoteInputEvent({ type: "mouse.up", x: 0.5, y: 0.5, button: "middle" })).toBe(true);
+    expect(isRemoteInputEvent({ type: "wheel", x: 0.5, y: 0.5, deltaX: 0, deltaY: -120 })).toBe(true);
+    expect(isRemoteInputEvent({ ...keyA, type: "key.up" })).toBe(true);
+  });
+
+  it.each([
+    ["unknown type", { type: "mouse.teleport", x: 0, y: 0 }],
+    ["pointer outside the screen", { type: "mouse.move", x: 1.5, y: 0 }],
+    ["unknown button", { type: "mouse.down", x: 0, y: 0, button: "back" }],
+    ["huge scroll", { type: "wheel", x: 0, y: 0, deltaX: 0, deltaY: 1e9 }],
+    ["missing modifiers", { type: "key.down", key: "a", code: "KeyA" }],
+    ["overlong key", { ...keyA, key: "a".repeat(100) }],
+    ["not an object", "click"]
+  ])("should reject %s", (_name, value) => {
+    expect(isRemoteInputEvent(value)).toBe(false);
+  });
+});
@@ -0,0 +1,264 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  minifySdp,
+  expandSdp,
+  encodeConnectionUrl,
+  decodeConnectionUrl,
+} from "../../src/renderer/shared/utils/index";
+import { ConnectionUrlErrorCode, PeerRole } from "../../src/renderer/shared/types/index";
+
+// Mock electron-log
+vi.mock("electron-log/renderer", () => ({
+  default: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const FINGERPRINT = "sha-256 4C:2E:91:0A:7B:55:D3:18:E2:6F:90:AB:CD:01:23:45:67:89:AB:CD:EF:FE:DC:BA:98:76:54:32:10:0F:1E:2D";
+
+// Trimmed offer as created by Chromium with audio, video and a data channel
+const CHROME_OFFER = [
+  "v=0",
+  "o=- 4611731400430051336 2 IN IP4 127.0.0.1",
+  "s=-",
+  "t=0 0",
+  "a=group:BUNDLE 0 1 2",
+  "a=extmap-allow-mixed",
+  "a=msid-semantic: WMS stream1",
+  "m=audio 53512 UDP/TLS/RTP/SAVPF 111 63 9 0 8 13 110 126",
+  "c=IN IP4 192.168.1.20",
+  "a=rtcp:9 IN IP4 0.0.0.0",
+  "a=candidate:3348148302 1 udp 2122260223 192.168.1.20 53512 typ host generation 0 network-id 1 network-cost 10",
+  "a=candidate:2718390112 1 udp 2122129151 1e0b4c1a-7d2f-4a9e-9c83-0f5e6a7b8c9d.local 60934 typ host generation 0 network-id 2",
+  "a=candidate:1522823902 1 tcp 1518280447 192.168.1.20 9 typ host tcptype active generation 0 network-id 1",
+  "a=candidate:842163049 1 udp 1686052607 203.0.113.7 53512 typ srflx raddr 192.168.1.20 rport 53512 generation 0 network-id 1",
+  "a=candidate:4233069003 1 udp 2122197247 2001:db8::1 58127 typ host generation 0 network-id 3",
+  "a=ice-ufrag:Xq3v",
+  "a=ice-pwd:hf7l2RkP0qUtBn8yZxWc4Jg1",
+  "a=ice-options:trickle",
+  `a=fingerprint:${FINGERPRINT}`,
+  "a=setup:actpass",
+  "a=mid:0",
+  "a=extmap:1 urn:ietf:params:rtp-hdrext:ssrc-audio-level",
+  "a=extmap:2 http://www.webrtc.org/experiments/rtp-hdrext/abs-send-time",
+  "a=extmap:3 http://www.ietf.org/id/draft-holmer-rmcat-transport-wide-cc-extensions-01",
+  "a=extmap:4 urn:ietf:params:rtp-hdrext:sdes:mid",
+  "a=sendrecv",
+  "a=msid:stream1 a8a3b7c1-7f5d-4a55-9a6e-2b1f0c9d8e7a",
+  "a=rtcp-mux",
+  "a=rtcp-rsize",
+  "a=rtpmap:111 opus/48000/2",
+  "a=rtcp-fb:111 transport-cc",
+  "a=fmtp:111 minptime=10;useinbandfec=1",
+  "a=rtpmap:63 red/48000/2",
+  "a=fmtp:63 111/111",
+  "a=rtpmap:9 G722/8000",
+  "a=rtpmap:0 PCMU/8000",
+  "a=rtpmap:8 PCMA/8000",
+  "a=rtpmap:13 CN/8000",
+  "a=rtpmap:110 telephone-event/48000",
+  "a=rtpmap:126 telephone-event/8000",
+  "a=ssrc:1816240541 cname:9kD0a1Jc7xQ2mP4b",
+  "a=ssrc:1816240541 msid:stream1 a8a3b7c1-7f5d-4a55-9a6e-2b1f0c9d8e7a",
+  "m=video 9 UDP/TLS/RTP/SAVPF 96 97 45 46 98 99",
+  "c=IN IP4 0.0.0.0",
+  "a=rtcp:9 IN IP4 0.0.0.0",
+  "a=ice-ufrag:Xq3v",
+  "a=ice-pwd:hf7l2RkP0qUtBn8yZxWc4Jg1",
+  "a=ice-options:trickle",
+  `a=fingerprint:${FINGERPRINT}`,
+  "a=setup:actpass",
+  "a=mid:1",
+  "a=extmap:14 urn:ietf:params:rtp-hdrext:toffset",
+  "a=extmap:2 http://www.webrtc.org/experiments/rtp-hdrext/abs-send-time",
+  "a=extmap:13 urn:3gpp:video-orientation",
+  "a=sendonly",
+  "a=msid:stream1 5b6c7d8e-9f01-4234-8567-89abcdef0123",
+  "a=rtcp-mux",
+  "a=rtcp-rsize",
+  "a=rtpmap:96 VP8/90000",
+  "a=rtcp-fb:96 goog-remb",
+  "a=rtcp-fb:96 transport-cc",
+  "a=rtcp-fb:96 ccm fir",
+  "a=rtcp-fb:96 nack",
+  "a=rtcp-fb:96 nack pli",
+  "a=rtpmap:97 rtx/90000",
+  "a=fmtp:97 apt=96",
+  "a=rtpmap:45 AV1/90000",
+  "a=rtcp-fb:45 goog-remb",
+  "a=rtcp-fb:45 nack pli",
+  "a=fmtp:45 level-idx=5;profile=0;tier=0",
+  "a=rtpmap:46 rtx/90000",
+  "a=fmtp:46 apt=45",
+  "a=rtpmap:98 VP9/90000",
+  "a=rtcp-fb:98 nack",
+  "a=fmtp:98 profile-id=0",
+  "a=rtpmap:99 rtx/90000",
+  "a=fmtp:99 apt=98",
+  "a=ssrc-group:FID 2297384122 3910249887",
+  "a=ssrc:2297384122 cname:9kD0a1Jc7xQ2mP4b",
+  "a=ssrc:2297384122 msid:stream1 5b6c7d8e-9f01-4234-8567-89abcdef0123",
+  "a=ssrc:3910249887 cname:9kD0a1Jc7xQ2mP4b",
+  "m=application 9 UDP/DTLS/SCTP webrtc-datachannel",
+  "c=IN IP4 0.0.0.0",
+  "a=ice-ufrag:Xq3v",
+  "a=ice-pwd:hf7l2RkP0qUtBn8yZxWc4Jg1",
+  "a=ice-options:trickle",
+  `a=fingerprint:${FINGERPRINT}`,
+  "a=setup:actpass",
+  "a=mid:2",
+  "a=sctp-port:5000",
+  "a=max-message-size:262144",
+  ""
+].join("\r\n");
+
+/**
+ * Gets the attribute lines of the SDP in their original order
+ */
+const linesOf = (sdp: string, prefix: string) =>
+  sdp.split("\r\n").filter(line => line.startsWith(prefix));
+
+describe("sdp-codec", () => {
+  describe("minifySdp / expandSdp", () => {
+    it("should keep ICE credentials and fingerprints", () => {
+      const expanded = expandSdp(minifySdp(CHROME_OFFER));
+
+      expect(linesOf(expanded, "a=ice-ufrag:")).toEqual(Array(3).fill("a=ice-ufrag:Xq3v"));
+      expect(linesOf(expanded, "a=ice-pwd:")).toEqual(Array(3).fill("a=ice-pwd:hf7l2RkP0qUtBn8yZxWc4Jg1"));
+      expect(linesOf(expanded, "a=fingerprint:")).toEqual(Array(3).fill(`a=fingerprint:${FINGERPRINT}`));
+      expect(linesOf(expanded, "a=setup:")).toEqual(Array(3).fill("a=setup:actpass"));
+    });
+
+    it("should keep m-lines, mids and bundle group", () => {
+      const expanded = expandSdp(minifySdp(CHROME_OFFER));
+
+      expect(linesOf(expanded, "m=")).toEqual(linesOf(CHROME_OFFER, "m="));
+      expect(linesOf(expanded, "a=mid:")).toEqual(["a=mid:0", "a=mid:1", "a=mid:2"]);
+      expect(linesOf(expanded, "a=group:")).toEqual(["a=group:BUNDLE 0 1 2"]);
+    });
+
+    it("should keep every candidate address", () => {
+      const expanded = expandSdp(minifySdp(CHROME_OFFER));
+      const candidates = linesOf(expanded, "a=candidate:");
+
+      expect(candidates).toHaveLength(5);
+      expect(candidates[0]).toBe("a=candidate:3348148302 1 udp 2122260223 192.168.1.20 53512 typ host generation 0");
+      expect(candidates[1]).toContain("1e0b4c1a-7d2f-4a9e-9c83-0f5e6a7b8c9d.local 60934 typ host");
+      expect(candidates[2]).toContain("tcp 1518280447 192.168.1.20 9 typ host tcptype active");
+      expect(candidates[3]).toContain("203.0.113.7 53512 typ srflx raddr 192.168.1.20 rport 53512");
+      expect(candidates[4]).toContain("2001:db8::1 58127 typ host");
+    });
+
+    it("should keep codec selections", () => {
+      const expanded = expandSdp(minifySdp(CHROME_OFFER));
+
+      for (const prefix of ["a=rtpmap:", "a=fmtp:", "a=rtcp-fb:", "a=extmap:", "a=ssrc-group:", "a=msid:"]) {
+        expect(linesOf(expanded, prefix)).toEqual(linesOf(CHROME_OFFER, prefix));
+      }
+      expect(linesOf(expanded, "a=sctp-port:")).toEqual(["a=sctp-port:5000"]);
+      expect(linesOf(expanded, "a=max-message-size:")).toEqual(["a=max-message-size:262144"]);
+    });
+
+    it("should be stable across repeated round trips", () => {
+      const once = expandSdp(minifySdp(CHROME_OFFER));
+
+      expect(expandSdp(minifySdp(once))).toBe(once);
+    });
+
+    it("should be much smaller than the SDP text", () => {
+      expect(minifySdp(CHROME_OFFER).length).toBeLessThan(CHROME_OFFER.length / 3);
+    });
+
+    it("should reject an SDP without media sections", () => {
+      expect(() => minifySdp("v=0\r\no=- 1 2 IN IP4 127.0.0.1\r\ns=-\r\nt=0 0\r\n")).toThrow("SDP has no media sections");
+    });
+
+    it("should reject an SDP without ICE credentials", () => {
+      const sdp = CHROME_OFFER.replace(/a=ice-pwd:.*\r\n/g, "");
+
+      expect(() => minifySdp(sdp)).toThrow("SDP is missing ICE credentials or DTLS fingerprint");
+    });
+
+    it("should reject truncated data", () => {
+      const bytes = minifySdp(CHROME_OFFER);
+
+      expect(() => expandSdp(bytes.slice(0, bytes.length / 2))).toThrow();
+    });
+
+    it("should reject an unknown codec version", () => {
+      const bytes = minifySdp(CHROME_OFFER);
+      bytes[0] = 99;
+
+      expect(() => expandSdp(bytes)).toThrow("Unsupported SDP codec version 99");
+    });
+  });
+
+  describe("connection URLs", () => {
+    const offer: RTCSessionDescriptionInit = { type: "offer", sdp: CHROME_OFFER };
+
+    /**
+     * Builds a URL the way earlier versions did, with a gzip token
+     */
+    const encodeLegacyGzipUrl = async (sdp: string) => {
+      const stream = new Response(sdp).body!.pipeThrough(new CompressionStream("gzip"));
+      const bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+      const base64 = btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/g, "");
+      return `lynxscreen://share?username=Alice&token=gz:${base64}&type=offer`;
+    };
+
+    it("should use the minified encoding for real SDPs", async () => {
+      const url = await encodeConnectionUrl(PeerRole.SCREEN_SHARER, "Alice", offer);
+
+      expect(new URL(url).searchParams.get("token")).toMatch(/^mn:/);
+    });
+
+    it("should not minify answers for peers without the codec", async () => {
+      const url = await encodeConnectionUrl(PeerRole.SCREEN_WATCHER, "Bob", { type: "answer", sdp: CHROME_OFFER }, {
+        peerCapabilities: []
+      });
+
+      expect(new URL(url).searchParams.get("token")).toMatch(/^gz:/);
+    });
+
+    it("should produce shorter URLs than gzip", async () => {
+      const url = await encodeConnectionUrl(PeerRole.SCREEN_SHARER, "Alice", offer);
+      const legacyUrl = await encodeLegacyGzipUrl(CHROME_OFFER);
+
+      expect(url.length).toBeLessThan(legacyUrl.length * 0.7);
+    });
+
+    it("should decode minified URLs into an equivalent SDP", async () => {
+      const url = await encodeConnectionUrl(PeerRole.SCREEN_SHARER, "Alice", offer);
+      const decoded = await decodeConnectionUrl(url);
+
+      expect(decoded.ok && decoded.payload.sdp.sdp).toBe(expandSdp(minifySdp(CHROME_OFFER)));
+    });
+
+    it("should still decode gzip tokens", async () => {
+      const url = await encodeConnectionUrl(PeerRole.SCREEN_SHARER, "Alice", offer, { peerCapabilities: [] });
+      const decoded = await decodeConnectionUrl(url);
+
+      expect(new URL(url).searchParams.get("token")).toMatch(/^gz:/);
+      expect(decoded.ok && decoded.payload.sdp.sdp).toBe(CHROME_OFFER);
+    });
+
+    it("should still decode fallback tokens", async () => {
+      vi.stubGlobal("CompressionStream", undefined);
+      const url = await encodeConnectionUrl(PeerRole.SCREEN_SHARER, "Alice", offer, { peerCapabilities: [] });
+      vi.unstubAllGlobals();
+      const decoded = await decodeConnectionUrl(url);
+
+      expect(new URL(url).searchParams.get("token")).toMatch(/^fb:/);
+      expect(decoded.ok && decoded.payload.sdp.sdp).toBe(CHROME_OFFER);
+    });
+
+    it("should refuse unsigned URLs from the oldest builds", async () => {
+      const decoded = await decodeConnectionUrl(await encodeLegacyGzipUrl(CHROME_OFFER));
+
+      expect(!decoded.ok && decoded.error.code).toBe(ConnectionUrlErrorCode.PEER_UPDATE_REQUIRED);
+    });
+  });
+});
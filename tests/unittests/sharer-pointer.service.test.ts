@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { DataChannelService, SharerPointerService } from "../../src/renderer/core/webrtc/data/index";
+import { CursorEventType, SharerPointerState } from "../../src/renderer/shared/types/index";
+import {
+  SHARER_POINTER_COLOR,
+  SHARER_POINTER_PING_INTERVAL_MS,
+  SHARER_POINTER_POLL_INTERVAL_MS
+} from "../../src/renderer/shared/constants/index";
+
+// Mock electron-log
+vi.mock("electron-log/renderer", () => ({
+  default: {
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn()
+  }
+}));
+
+// Pointer as reported by the main process
+let pointerPosition: { x: number; y: number } | null = { x: 0.5, y: 0.5 };
+
+vi.mock("../../src/renderer/shared/utils/sharer-pointer", () => ({
+  readSharerPointerPosition: vi.fn(async () => pointerPosition)
+}));
+
+describe("SharerPointerService", () => {
+  let dataChannelService: DataChannelService;
+  let service: SharerPointerService;
+  let updateSpy: ReturnType<typeof vi.spyOn>;
+  let pingSpy: ReturnType<typeof vi.spyOn>;
+  let eventSpy: ReturnType<typeof vi.spyOn>;
+
+  async function tick(ms = SHARER_POINTER_POLL_INTERVAL_MS) {
+    await vi.advanceTimersByTimeAsync(ms);
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    pointerPosition = { x: 0.5, y: 0.5 };
+    dataChannelService = new DataChannelService(true);
+    updateSpy = vi.spyOn(dataChannelService, "updateRemoteCursor").mockReturnValue(true);
+    pingSpy = vi.spyOn(dataChannelService, "pingRemoteCursor").mockReturnValue(true);
+    eventSpy = vi.spyOn(dataChannelService, "sendCursorEvent").mockReturnValue(true);
+    service = new SharerPointerService(dataChannelService);
+  });
+
+  afterEach(() => {
+    service.cleanup();
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  it("should not send anything until broadcasting starts", async () => {
+    await tick();
+
+    expect(updateSpy).not.toHaveBeenCalled();
+  });
+
+  it("should send the pointer with the sharer's identity", async () => {
+    service.setBroadcasting(true, "Alice");
+    await tick();
+
+    expect(updateSpy).toHaveBeenCalledWith(expect.objectContaining({
+      name: "Alice",
+      color: SHARER_POINTER_COLOR,
+      x: 0.5,
+      y: 0.5,
+      highlight: true
+    }));
+  });
+
+  it("should only send the pointer again when it moves", async () => {
+    service.setBroadcasting(true);
+    await tick();
+    await tick();
+    expect(updateSpy).toHaveBeenCalledTimes(1);
+
+    pointerPosition = { x: 0.6, y: 0.5 };
+    await tick();
+
+    expect(updateSpy).toHaveBeenCalledTimes(2);
+    expect(updateSpy).toHaveBeenLastCalledWith(expect.objectContaining({ x: 0.6 }));
+  });
+
+  it("should ping a resting pointer so the watcher keeps it", async () => {
+    service.setBroadcasting(true);
+    await tick();
+
+    await tick(SHARER_POINTER_PING_INTERVAL_MS);
+
+    expect(pingSpy).toHaveBeenCalledWith(updateSpy.mock.calls[0][0].id);
+  });
+
+  it("should not send the pointer while it is on another display", async () => {
+    pointerPosition = null;
+    service.setBroadcasting(true);
+    await tick(SHARER_POINTER_PING_INTERVAL_MS);
+
+    expect(updateSpy).not.toHaveBeenCalled();
+    expect(pingSpy).not.toHaveBeenCalled();
+  });
+
+  it("should send button events at the pointer position", async () => {
+    service.setBroadcasting(true);
+    await tick();
+    const pointerId = updateSpy.mock.calls[0][0].id;
+
+    window.dispatchEvent(new Event("pointerdown"));
+    window.dispatchEvent(new Event("pointerup"));
+    window.dispatchEvent(new Event("dblclick"));
+
+    expect(eventSpy.mock.calls.map(([event]) => event)).toEqual([
+      { cursorId: pointerId, type: CursorEventType.BUTTON_DOWN, x: 0.5, y: 0.5 },
+      { cursorId: pointerId, type: CursorEventType.BUTTON_UP, x: 0.5, y: 0.5 },
+      { cursorId: pointerId, type: CursorEventType.DOUBLE_CLICK, x: 0.5, y: 0.5 }
+    ]);
+  });
+
+  it("should not send button events before the pointer was sent", () => {
+    service.setBroadcasting(true);
+
+    window.dispatchEvent(new Event("pointerdown"));
+
+    expect(eventSpy).not.toHaveBeenCalled();
+  });
+
+  it("should leave clicks and the ring out when turned off", async () => {
+    service.setBroadcasting(true);
+    service.setHighlight(false);
+    service.setClickRipple(false);
+    await tick();
+
+    window.dispatchEvent(new Event("pointerdown"));
+
+    expect(updateSpy.mock.calls[0][0].highlight).toBe(false);
+    expect(eventSpy).not.toHaveBeenCalled();
+  });
+
+  it("should stop sending when broadcasting stops", async () => {
+    const states: SharerPointerState[] = [];
+    service.onStateChange((state) => states.push(state));
+    service.setBroadcasting(true);
+    await tick();
+
+    service.setBroadcasting(false);
+    pointerPosition = { x: 0.1, y: 0.1 };
+    await tick(SHARER_POINTER_PING_INTERVAL_MS);
+
+    window.dispatchEvent(new Event("pointerdown"));
+
+    expect(updateSpy).toHaveBeenCalledTimes(1);
+    expect(pingSpy).not.toHaveBeenCalled();
+    expect(eventSpy).not.toHaveBeenCalled();
+    expect(states.map((state) => state.isBroadcasting)).toEqual([true, false]);
+  });
+});
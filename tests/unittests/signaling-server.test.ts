@@ -0,0 +1,211 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { WebSocket } from "ws";
+import { SignalingServer } from "../../src/main/signaling-server";
+import { WebSocketSignalingTransport } from "../../src/renderer/core/signaling/index";
+import { PeerRole, SignalingPayload } from "../../src/renderer/shared/types/index";
+
+// Mock electron-log for both processes
+vi.mock("electron-log", () => ({
+  default: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+vi.mock("electron-log/renderer", () => ({
+  default: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("SignalingServer", () => {
+  let server: SignalingServer;
+  let serverUrl: string;
+  let transports: WebSocketSignalingTransport[];
+
+  const offer: RTCSessionDescriptionInit = { type: "offer", sdp: "v=0\r\no=- 1 2 IN IP4 127.0.0.1\r\n" };
+  const answer: RTCSessionDescriptionInit = { type: "answer", sdp: "v=0\r\no=- 3 4 IN IP4 127.0.0.1\r\n" };
+
+  const createTransport = () => {
+    const transport = new WebSocketSignalingTransport(serverUrl, {
+      WebSocketImpl: WebSocket as unknown as new (url: string) => globalThis.WebSocket,
+      timeoutMs: 2000
+    });
+    transports.push(transport);
+    return transport;
+  };
+
+  const waitFor = async (condition: () => boolean) => {
+    for (let i = 0; i < 100 && !condition(); i++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+  };
+
+  beforeEach(async () => {
+    server = new SignalingServer();
+    const info = await server.start(0, "127.0.0.1");
+    serverUrl = `ws://127.0.0.1:${info.port}`;
+    transports = [];
+  });
+
+  afterEach(async () => {
+    transports.forEach(transport => transport.close());
+    await server.stop();
+  });
+
+  it("should report its port while running", () => {
+    expect(server.getInfo()?.port).toBeGreaterThan(0);
+  });
+
+  it("should return null info after stop", async () => {
+    await server.stop();
+    expect(server.getInfo()).toBeNull();
+  });
+
+  it("should create a room with a 6-character code", async () => {
+    const sharer = createTransport();
+
+    const code = await sharer.publishOffer("Alice", offer);
+
+    expect(code).toMatch(/^[A-Z0-9]{6}$/);
+    expect(server.getRoomCount()).toBe(1);
+  });
+
+  it("should relay offer and answer between peers", async () => {
+    const sharer = createTransport();
+    const watcher = createTransport();
+    const answers: SignalingPayload[] = [];
+    sharer.onRemoteAnswer(payload => answers.push(payload));
+
+    const code = await sharer.publishOffer("Alice", offer);
+    const receivedOffer = await watcher.receiveOffer(code.toLowerCase());
+
+    expect(receivedOffer).toEqual({ role: PeerRole.SCREEN_SHARER, username: "Alice", sdp: offer });
+
+    const token = await watcher.publishAnswer("Bob", answer);
+    await waitFor(() => answers.length > 0);
+
+    expect(token).toBe(code);
+    expect(answers).toEqual([{ role: PeerRole.SCREEN_WATCHER, username: "Bob", sdp: answer }]);
+  });
+
+  it("should reject a malformed room code without connecting", async () => {
+    const watcher = createTransport();
+
+    await expect(watcher.receiveOffer("abc")).rejects.toThrow("Invalid room code");
+  });
+
+  it("should reject an unknown room", async () => {
+    const watcher = createTransport();
+
+    await expect(watcher.receiveOffer("ZZZZZZ")).rejects.toThrow("Room not found");
+  });
+
+  it("should reject a second watcher", async () => {
+    const sharer = createTransport();
+    const code = await sharer.publishOffer("Alice", offer);
+
+    await createTransport().receiveOffer(code);
+
+    await expect(createTransport().receiveOffer(code)).rejects.toThrow("Room is full");
+  });
+
+  /**
+   * Opens a raw client socket and collects the messages it receives
+   */
+  const connectRaw = async () => {
+    const socket = new WebSocket(serverUrl);
+    const client = { socket, messages: [] as { type: string; message?: string }[], closeCode: 0 };
+    socket.on("message", (data) => client.messages.push(JSON.parse(data.toString())));
+    socket.on("close", (code) => { client.closeCode = code; });
+    await new Promise(resolve => socket.once("open", resolve));
+    return client;
+  };
+
+  it("should close connections guessing room codes", async () => {
+    const client = await connectRaw();
+
+    for (let i = 0; i < 6; i++) {
+      client.socket.send(JSON.stringify({ type: "join", room: "ZZZZZZ" }));
+    }
+    await waitFor(() => client.closeCode !== 0);
+
+    expect(client.messages.map(message => message.message)).toEqual([
+      ...Array(5).fill("Room not found"),
+      "Too many join attempts"
+    ]);
+    expect(client.closeCode).toBe(1008);
+  });
+
+  it("should keep refusing joins from an address that reconnects", async () => {
+    const first = await connectRaw();
+    for (let i = 0; i < 5; i++) {
+      first.socket.send(JSON.stringify({ type: "join", room: "ZZZZZZ" }));
+    }
+    await waitFor(() => first.messages.length === 5);
+    first.socket.close();
+
+    const second = await connectRaw();
+    second.socket.send(JSON.stringify({ type: "join", room: "ZZZZZZ" }));
+    await waitFor(() => second.closeCode !== 0);
+
+    expect(second.messages).toEqual([{ type: "error", message: "Too many join attempts" }]);
+    expect(second.closeCode).toBe(1008);
+  });
+
+  it("should refuse a join from a client already in a room", async () => {
+    const sharer = createTransport();
+    const code = await sharer.publishOffer("Alice", offer);
+    const client = await connectRaw();
+
+    client.socket.send(JSON.stringify({ type: "create" }));
+    client.socket.send(JSON.stringify({ type: "join", room: code }));
+    await waitFor(() => client.messages.length === 2);
+    client.socket.close();
+
+    expect(client.messages[0].type).toBe("created");
+    expect(client.messages[1]).toEqual({ type: "error", message: "Already in a room" });
+  });
+
+  it("should fail to start on a port in use and start again later", async () => {
+    const { port } = server.getInfo()!;
+    const other = new SignalingServer();
+
+    await expect(other.start(port, "127.0.0.1")).rejects.toThrow();
+    expect(other.getInfo()).toBeNull();
+
+    await other.start(0, "127.0.0.1");
+    expect(other.getInfo()?.port).toBeGreaterThan(0);
+    await other.stop();
+  });
+
+  it("should close the room when the sharer leaves", async () => {
+    const sharer = createTransport();
+    await sharer.publishOffer("Alice", offer);
+
+    sharer.close();
+    await waitFor(() => server.getRoomCount() === 0);
+
+    expect(server.getRoomCount()).toBe(0);
+  });
+
+  it("should fail when the server is unreachable", async () => {
+    await server.stop();
+    const sharer = createTransport();
+
+    await expect(sharer.publishOffer("Alice", offer)).rejects.toThrow("Could not reach signaling server");
+  });
+
+  it("should refuse answers outside of a room", async () => {
+    const watcher = createTransport();
+
+    await expect(watcher.publishAnswer("Bob", answer)).rejects.toThrow("Not in a signaling room");
+    await expect(watcher.receiveAnswer()).rejects.toThrow("Answers are delivered by the signaling server");
+  });
+});
@@ -1,12 +1,23 @@
-import { describe, it, expect, vi } from "vitest";
+import { describe, it, expect, vi, afterEach } from "vitest";
 import {
   encodeConnectionUrl,
   decodeConnectionUrl,
   isValidConnectionUrl,
+  isEncryptedConnectionUrl,
   getRoleFromUrl,
 } from "../../src/renderer/shared/utils/index";
-import { PeerRole } from "../../src/renderer/shared/types/index";
-import { URL_PROTOCOL } from "../../src/renderer/shared/constants/index";
+import {
+  ConnectionUrlCapability,
+  ConnectionUrlDecodeOptions,
+  ConnectionUrlErrorCode,
+  PeerRole
+} from "../../src/renderer/shared/types/index";
+import {
+  CONNECTION_URL_CLOCK_SKEW_MS,
+  CONNECTION_URL_TTL_MS,
+  CONNECTION_URL_VERSION,
+  URL_PROTOCOL
+} from "../../src/renderer/shared/constants/index";
 
 // Mock electron-log
 vi.mock("electron-log/renderer", () => ({
@@ -18,6 +29,31 @@ vi.mock("electron-log/renderer", () => ({
   },
 }));
 
+/**
+ * Computes the unkeyed checksum URLs without a passphrase are signed with
+ */
+const checksum = async (fields: string, token: string) => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(`${fields}|${token}`));
+  const signature = btoa(String.fromCharCode(...new Uint8Array(digest).slice(0, 16)));
+  return signature.replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/g, "");
+};
+
+/**
+ * Decodes a URL and returns its payload, or null when it was rejected
+ */
+const decodePayload = async (url: string, options?: ConnectionUrlDecodeOptions) => {
+  const result = await decodeConnectionUrl(url, options);
+  return result.ok ? result.payload : null;
+};
+
+/**
+ * Decodes a URL and returns why it was rejected
+ */
+const decodeErrorCode = async (url: string, options?: ConnectionUrlDecodeOptions) => {
+  const result = await decodeConnectionUrl(url, options);
+  return result.ok ? null : result.error.code;
+};
+
 describe("signaling-url", () => {
   const mockSdp: RTCSessionDescriptionInit = {
     type: "offer",
@@ -105,7 +141,7 @@ describe("signaling-url", () => {
         mockSdp
       );
 
-      const decoded = await decodeConnectionUrl(originalUrl);
+      const decoded = await decodePayload(originalUrl);
 
       expect(decoded).not.toBeNull();
       expect(decoded?.role).toBe(PeerRole.SCREEN_SHARER);
@@ -126,40 +162,35 @@ describe("signaling-url", () => {
         watcherSdp
       );
 
-      const decoded = await decodeConnectionUrl(originalUrl);
+      const decoded = await decodePayload(originalUrl);
 
       expect(decoded).not.toBeNull();
       expect(decoded?.role).toBe(PeerRole.SCREEN_WATCHER);
       expect(decoded?.sdp.type).toBe("answer");
     });
 
-    it("should return null for invalid protocol", async () => {
+    it("should reject invalid protocol as malformed", async () => {
       const invalidUrl = "https://share?username=test&token=abc";
-      const decoded = await decodeConnectionUrl(invalidUrl);
-      expect(decoded).toBeNull();
+      expect(await decodeErrorCode(invalidUrl)).toBe(ConnectionUrlErrorCode.MALFORMED);
     });
 
-    it("should return null for invalid action", async () => {
+    it("should reject invalid action as malformed", async () => {
       const invalidUrl = `${URL_PROTOCOL}invalid?username=test&token=abc`;
-      const decoded = await decodeConnectionUrl(invalidUrl);
-      expect(decoded).toBeNull();
+      expect(await decodeErrorCode(invalidUrl)).toBe(ConnectionUrlErrorCode.MALFORMED);
     });
 
-    it("should return null for missing username", async () => {
+    it("should reject missing username as malformed", async () => {
       const invalidUrl = `${URL_PROTOCOL}share?token=abc`;
-      const decoded = await decodeConnectionUrl(invalidUrl);
-      expect(decoded).toBeNull();
+      expect(await decodeErrorCode(invalidUrl)).toBe(ConnectionUrlErrorCode.MALFORMED);
     });
 
-    it("should return null for missing token", async () => {
+    it("should reject missing token as malformed", async () => {
       const invalidUrl = `${URL_PROTOCOL}share?username=test`;
-      const decoded = await decodeConnectionUrl(invalidUrl);
-      expect(decoded).toBeNull();
+      expect(await decodeErrorCode(invalidUrl)).toBe(ConnectionUrlErrorCode.MALFORMED);
     });
 
-    it("should return null for malformed URL", async () => {
-      const decoded = await decodeConnectionUrl("not-a-valid-url");
-      expect(decoded).toBeNull();
+    it("should reject malformed URL as malformed", async () => {
+      expect(await decodeErrorCode("not-a-valid-url")).toBe(ConnectionUrlErrorCode.MALFORMED);
     });
 
     it("should handle special characters in username", async () => {
@@ -170,7 +201,7 @@ describe("signaling-url", () => {
         mockSdp
       );
 
-      const decoded = await decodeConnectionUrl(originalUrl);
+      const decoded = await decodePayload(originalUrl);
       expect(decoded?.username).toBe(specialUsername);
     });
   });
@@ -260,7 +291,7 @@ describe("signaling-url", () => {
         originalSdp
       );
 
-      const decoded = await decodeConnectionUrl(url);
+      const decoded = await decodePayload(url);
 
       expect(decoded).not.toBeNull();
       expect(decoded?.role).toBe(PeerRole.SCREEN_SHARER);
@@ -280,7 +311,7 @@ describe("signaling-url", () => {
         originalSdp
       );
 
-      const decoded = await decodeConnectionUrl(url);
+      const decoded = await decodePayload(url);
 
       expect(decoded).not.toBeNull();
       expect(decoded?.role).toBe(PeerRole.SCREEN_WATCHER);
@@ -299,11 +330,278 @@ describe("signaling-url", () => {
         unicodeSdp
       );
 
-      const decoded = await decodeConnectionUrl(url);
+      const decoded = await decodePayload(url);
 
       expect(decoded).not.toBeNull();
       expect(decoded?.username).toBe("用户名");
       expect(decoded?.sdp.sdp).toBe(unicodeSdp.sdp);
     });
   });
+
+  describe("passphrase encryption", () => {
+    const passphrase = "correct horse battery staple";
+
+    it("should not expose the SDP in encrypted URLs", async () => {
+      const url = await encodeConnectionUrl(PeerRole.SCREEN_SHARER, mockUsername, mockSdp, { passphrase });
+      const token = new URL(url).searchParams.get("token") ?? "";
+
+      expect(token).toMatch(/^ec:/);
+      expect(isEncryptedConnectionUrl(url)).toBe(true);
+    });
+
+    it("should round-trip with the right passphrase", async () => {
+      const url = await encodeConnectionUrl(PeerRole.SCREEN_WATCHER, mockUsername, { ...mockSdp, type: "answer" }, { passphrase });
+      const decoded = await decodePayload(url, { passphrase });
+
+      expect(decoded?.role).toBe(PeerRole.SCREEN_WATCHER);
+      expect(decoded?.username).toBe(mockUsername);
+      expect(decoded?.sdp.sdp).toBe(mockSdp.sdp);
+    });
+
+    it("should use a fresh salt for every URL", async () => {
+      const first = await encodeConnectionUrl(PeerRole.SCREEN_SHARER, mockUsername, mockSdp, { passphrase });
+      const second = await encodeConnectionUrl(PeerRole.SCREEN_SHARER, mockUsername, mockSdp, { passphrase });
+
+      expect(first).not.toBe(second);
+    });
+
+    it("should ask for the passphrase when none is given", async () => {
+      const url = await encodeConnectionUrl(PeerRole.SCREEN_SHARER, mockUsername, mockSdp, { passphrase });
+
+      expect(await decodeErrorCode(url)).toBe(ConnectionUrlErrorCode.PASSPHRASE_REQUIRED);
+    });
+
+    it("should reject a wrong passphrase", async () => {
+      const url = await encodeConnectionUrl(PeerRole.SCREEN_SHARER, mockUsername, mockSdp, { passphrase });
+
+      expect(await decodeErrorCode(url, { passphrase: "wrong passphrase" })).toBe(ConnectionUrlErrorCode.WRONG_PASSPHRASE);
+    });
+
+    it("should reject the URL when the username was changed", async () => {
+      const url = await encodeConnectionUrl(PeerRole.SCREEN_SHARER, mockUsername, mockSdp, { passphrase });
+      const tampered = new URL(url);
+      tampered.searchParams.set("username", "Mallory");
+
+      expect(await decodeErrorCode(tampered.toString(), { passphrase })).toBe(ConnectionUrlErrorCode.TAMPERED);
+    });
+
+    it("should reject an edited URL signed again without the passphrase", async () => {
+      const url = new URL(await encodeConnectionUrl(PeerRole.SCREEN_SHARER, mockUsername, mockSdp, { passphrase }));
+      const params = url.searchParams;
+      params.set("username", "Mallory");
+      const fields = [
+        params.get("v"), "share", "Mallory", params.get("type"),
+        params.get("ts"), params.get("exp"), params.get("sid"), params.get("caps")
+      ].join("|");
+      params.set("sig", await checksum(fields, params.get("token")!));
+
+      expect(await decodeErrorCode(url.toString(), { passphrase })).toBe(ConnectionUrlErrorCode.TAMPERED);
+    });
+
+    it("should reject plain URLs once a passphrase is set", async () => {
+      const url = await encodeConnectionUrl(PeerRole.SCREEN_SHARER, mockUsername, mockSdp);
+
+      expect(isEncryptedConnectionUrl(url)).toBe(false);
+      expect(await decodeErrorCode(url, { passphrase })).toBe(ConnectionUrlErrorCode.NOT_PROTECTED);
+      expect(await decodePayload(url, { passphrase: "" })).not.toBeNull();
+    });
+  });
+
+  describe("expiry and signature", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should embed creation time, expiry, session id and signature", async () => {
+      const url = new URL(await encodeConnectionUrl(PeerRole.SCREEN_SHARER, mockUsername, mockSdp, {
+        sessionId: "abc123",
+        ttlMs: 60000
+      }));
+
+      const createdAt = Number(url.searchParams.get("ts"));
+      expect(Number(url.searchParams.get("exp"))).toBe(createdAt + 60000);
+      expect(url.searchParams.get("sid")).toBe("abc123");
+      expect(url.searchParams.get("sig")).toMatch(/^[A-Za-z0-9_-]{22}$/);
+    });
+
+    it("should return the session and validity in the payload", async () => {
+      const url = await encodeConnectionUrl(PeerRole.SCREEN_SHARER, mockUsername, mockSdp, { sessionId: "abc123" });
+      const decoded = await decodePayload(url);
+
+      expect(decoded?.sessionId).toBe("abc123");
+      expect(decoded?.expiresAt).toBe(decoded!.createdAt! + CONNECTION_URL_TTL_MS);
+    });
+
+    it("should generate a session id when none is given", async () => {
+      const first = await decodePayload(await encodeConnectionUrl(PeerRole.SCREEN_SHARER, mockUsername, mockSdp));
+      const second = await decodePayload(await encodeConnectionUrl(PeerRole.SCREEN_SHARER, mockUsername, mockSdp));
+
+      expect(first?.sessionId).toMatch(/^[A-Za-z0-9_-]{12}$/);
+      expect(first?.sessionId).not.toBe(second?.sessionId);
+    });
+
+    it("should reject an expired URL", async () => {
+      const url = await encodeConnectionUrl(PeerRole.SCREEN_SHARER, mockUsername, mockSdp);
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(Date.now() + CONNECTION_URL_TTL_MS + CONNECTION_URL_CLOCK_SKEW_MS + 60000);
+
+      const result = await decodeConnectionUrl(url);
+
+      expect(result.ok).toBe(false);
+      expect(!result.ok && result.error.code).toBe(ConnectionUrlErrorCode.EXPIRED);
+      expect(!result.ok && result.error.message).toContain("expired");
+    });
+
+    it("should tolerate small clock differences", async () => {
+      const url = await encodeConnectionUrl(PeerRole.SCREEN_SHARER, mockUsername, mockSdp);
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(Date.now() + CONNECTION_URL_TTL_MS + CONNECTION_URL_CLOCK_SKEW_MS / 2);
+
+      expect(await decodePayload(url)).not.toBeNull();
+    });
+
+    it("should reject a modified token", async () => {
+      const url = new URL(await encodeConnectionUrl(PeerRole.SCREEN_SHARER, mockUsername, mockSdp));
+      const token = url.searchParams.get("token")!;
+      url.searchParams.set("token", token.slice(0, -1) + (token.endsWith("A") ? "B" : "A"));
+
+      expect(await decodeErrorCode(url.toString())).toBe(ConnectionUrlErrorCode.TAMPERED);
+    });
+
+    it("should reject an extended expiry", async () => {
+      const url = new URL(await encodeConnectionUrl(PeerRole.SCREEN_SHARER, mockUsername, mockSdp));
+      url.searchParams.set("exp", String(Number(url.searchParams.get("exp")) + 3600000));
+
+      expect(await decodeErrorCode(url.toString())).toBe(ConnectionUrlErrorCode.TAMPERED);
+    });
+
+    it("should reject a URL with a stripped signature", async () => {
+      const url = new URL(await encodeConnectionUrl(PeerRole.SCREEN_SHARER, mockUsername, mockSdp));
+      url.searchParams.delete("sig");
+
+      expect(await decodeErrorCode(url.toString())).toBe(ConnectionUrlErrorCode.TAMPERED);
+    });
+
+    it("should reject a URL from another session", async () => {
+      const url = await encodeConnectionUrl(PeerRole.SCREEN_WATCHER, mockUsername, { ...mockSdp, type: "answer" }, {
+        sessionId: "old-session"
+      });
+
+      expect(await decodeErrorCode(url, { expectedSessionId: "new-session" })).toBe(ConnectionUrlErrorCode.SESSION_MISMATCH);
+      expect(await decodePayload(url, { expectedSessionId: "old-session" })).not.toBeNull();
+    });
+
+    it("should reject a URL with every signed param stripped", async () => {
+      const url = new URL(await encodeConnectionUrl(PeerRole.SCREEN_SHARER, mockUsername, mockSdp));
+      ["v", "caps", "ts", "exp", "sid", "sig"].forEach(name => url.searchParams.delete(name));
+
+      expect(await decodeErrorCode(url.toString())).toBe(ConnectionUrlErrorCode.PEER_UPDATE_REQUIRED);
+    });
+
+    it("should reject an expiry that is not a number", async () => {
+      const url = new URL(await encodeConnectionUrl(PeerRole.SCREEN_SHARER, mockUsername, mockSdp));
+      const params = url.searchParams;
+      params.set("exp", "never");
+      const fields = [
+        params.get("v"), "share", mockUsername, params.get("type"),
+        params.get("ts"), params.get("exp"), params.get("sid"), params.get("caps")
+      ].join("|");
+      params.set("sig", await checksum(fields, params.get("token")!));
+
+      expect(await decodeErrorCode(url.toString())).toBe(ConnectionUrlErrorCode.TAMPERED);
+    });
+  });
+
+  describe("schema versions", () => {
+    /**
+     * Signs a URL the way version 1 did, before the caps param existed
+     */
+    const signV1 = async (url: URL) => {
+      const params = url.searchParams;
+      const fields = ["share", params.get("username"), params.get("type"), params.get("ts"), params.get("exp"), params.get("sid")].join("|");
+      params.set("sig", await checksum(fields, params.get("token")!));
+    };
+
+    /**
+     * Signs a URL the way version 2 did, with the checksum whether or not it was encrypted
+     */
+    const signV2 = async (url: URL) => {
+      const params = url.searchParams;
+      params.set("v", "2");
+      const fields = [
+        "2", "share", params.get("username"), params.get("type"),
+        params.get("ts"), params.get("exp"), params.get("sid"), params.get("caps")
+      ].join("|");
+      params.set("sig", await checksum(fields, params.get("token")!));
+    };
+
+    it("should write the current version and capability list", async () => {
+      const url = new URL(await encodeConnectionUrl(PeerRole.SCREEN_SHARER, mockUsername, mockSdp));
+
+      expect(url.searchParams.get("v")).toBe(String(CONNECTION_URL_VERSION));
+      expect(url.searchParams.get("caps")?.split(",")).toEqual(Object.values(ConnectionUrlCapability));
+    });
+
+    it("should report the version and capabilities of the peer", async () => {
+      const decoded = await decodePayload(await encodeConnectionUrl(PeerRole.SCREEN_SHARER, mockUsername, mockSdp));
+
+      expect(decoded?.version).toBe(CONNECTION_URL_VERSION);
+      expect(decoded?.capabilities).toContain(ConnectionUrlCapability.MINIFIED_SDP);
+    });
+
+    it("should ask to update for URLs from a newer version", async () => {
+      const url = new URL(await encodeConnectionUrl(PeerRole.SCREEN_SHARER, mockUsername, mockSdp));
+      url.searchParams.set("v", String(CONNECTION_URL_VERSION + 1));
+
+      const result = await decodeConnectionUrl(url.toString());
+
+      expect(!result.ok && result.error.code).toBe(ConnectionUrlErrorCode.LOCAL_UPDATE_REQUIRED);
+      expect(!result.ok && result.error.message).toContain("update");
+    });
+
+    it("should reject an invalid version", async () => {
+      const url = new URL(await encodeConnectionUrl(PeerRole.SCREEN_SHARER, mockUsername, mockSdp));
+      url.searchParams.set("v", "two");
+
+      expect(await decodeErrorCode(url.toString())).toBe(ConnectionUrlErrorCode.MALFORMED);
+    });
+
+    it("should decode signed version 1 URLs", async () => {
+      const url = new URL(await encodeConnectionUrl(PeerRole.SCREEN_SHARER, mockUsername, mockSdp, { sessionId: "abc123" }));
+      url.searchParams.delete("v");
+      url.searchParams.delete("caps");
+      await signV1(url);
+
+      const decoded = await decodePayload(url.toString());
+
+      expect(decoded?.version).toBe(1);
+      expect(decoded?.capabilities).toEqual([]);
+      expect(decoded?.sessionId).toBe("abc123");
+      expect(decoded?.sdp.sdp).toBe(mockSdp.sdp);
+    });
+
+    it("should decode version 2 URLs", async () => {
+      const url = new URL(await encodeConnectionUrl(PeerRole.SCREEN_SHARER, mockUsername, mockSdp));
+      await signV2(url);
+
+      const decoded = await decodePayload(url.toString());
+
+      expect(decoded?.version).toBe(2);
+      expect(decoded?.sdp.sdp).toBe(mockSdp.sdp);
+    });
+
+    it("should not accept a current URL downgraded to version 1", async () => {
+      const url = new URL(await encodeConnectionUrl(PeerRole.SCREEN_SHARER, mockUsername, mockSdp));
+      url.searchParams.delete("v");
+
+      expect(await decodeErrorCode(url.toString())).toBe(ConnectionUrlErrorCode.TAMPERED);
+    });
+
+    it("should ignore unknown params", async () => {
+      const url = new URL(await encodeConnectionUrl(PeerRole.SCREEN_SHARER, mockUsername, mockSdp));
+      url.searchParams.set("future", "1");
+
+      expect(await decodePayload(url.toString())).not.toBeNull();
+    });
+  });
 });
\ No newline at end of file
@@ -103,6 +103,10 @@ describe("WebRTCService", () => {
       setRemoteDescription: vi.fn().mockResolvedValue(undefined),
       addTrack: vi.fn().mockReturnValue({} as RTCRtpSender),
       removeTrack: vi.fn(),
+      getSenders: vi.fn(() => [{
+        track: mockDisplayStream.getVideoTracks()[0],
+        replaceTrack: vi.fn().mockResolvedValue(undefined)
+      }]),
       createDataChannel: vi.fn().mockReturnValue({
         label: "test",
         readyState: "open",
@@ -136,7 +140,7 @@ describe("WebRTCService", () => {
     // Mock RTCPeerConnection constructor
     const RTCPeerConnectionMock = vi.fn(function (this: RTCPeerConnection) {
       const props = ["createOffer", "createAnswer", "setLocalDescription",
-        "setRemoteDescription", "addTrack", "removeTrack", "createDataChannel",
+        "setRemoteDescription", "addTrack", "removeTrack", "getSenders", "createDataChannel",
         "close", "addEventListener", "removeEventListener", "connectionState",
         "iceConnectionState", "iceGatheringState", "ondatachannel",
         "ontrack", "onicecandidate", "oniceconnectionstatechange",
@@ -425,6 +429,43 @@ describe("WebRTCService", () => {
       });
     });
 
+    describe("switchDisplaySource", () => {
+      it("should swap the new capture into the existing video sender", async () => {
+        const replacement = createMockMediaStream("video");
+        const sender = { track: mockDisplayStream.getVideoTracks()[0], replaceTrack: vi.fn().mockResolvedValue(undefined) };
+        vi.mocked(mockPeerConnection.getSenders).mockReturnValue([sender as unknown as RTCRtpSender]);
+        vi.mocked(navigator.mediaDevices.getDisplayMedia).mockResolvedValue(replacement);
+
+        expect(await service.switchDisplaySource()).toBe(true);
+
+        expect(sender.replaceTrack).toHaveBeenCalledWith(replacement.getVideoTracks()[0]);
+        expect(mockPeerConnection.addTrack).toHaveBeenCalledTimes(2);
+        expect(mockDisplayStream.getVideoTracks()[0].stop).toHaveBeenCalled();
+        expect(service.getDisplayStream()).toBe(replacement);
+        expect(mockPeerConnection.close).not.toHaveBeenCalled();
+      });
+
+      it("should keep sharing the previous source when the swap fails", async () => {
+        const replacement = createMockMediaStream("video");
+        const sender = { track: mockDisplayStream.getVideoTracks()[0], replaceTrack: vi.fn().mockRejectedValue(new Error("closed")) };
+        vi.mocked(mockPeerConnection.getSenders).mockReturnValue([sender as unknown as RTCRtpSender]);
+        vi.mocked(navigator.mediaDevices.getDisplayMedia).mockResolvedValue(replacement);
+
+        expect(await service.switchDisplaySource()).toBe(false);
+
+        expect(replacement.getVideoTracks()[0].stop).toHaveBeenCalled();
+        expect(mockDisplayStream.getVideoTracks()[0].stop).not.toHaveBeenCalled();
+        expect(service.getDisplayStream()).toBe(mockDisplayStream);
+      });
+
+      it("should keep sharing the previous source when the capture is declined", async () => {
+        vi.mocked(navigator.mediaDevices.getDisplayMedia).mockRejectedValue(new Error("User cancelled"));
+
+        expect(await service.switchDisplaySource()).toBe(false);
+        expect(service.isDisplayCaptureAlive()).toBe(true);
+      });
+    });
+
     describe("setDisplayStreamEnabled", () => {
       it("should set display stream state", () => {
         service.setDisplayStreamEnabled(false);
@@ -566,6 +607,211 @@ describe("WebRTCService", () => {
 
   });
 
+  describe("system audio", () => {
+    let mixedTrack: MediaStreamTrack;
+    let systemAudioStream: MediaStream;
+    let audioContext: { createMediaStreamSource: ReturnType<typeof vi.fn>; close: ReturnType<typeof vi.fn> };
+    let playback: { style: object; remove: () => void; sinkId: string; setSinkId: ReturnType<typeof vi.fn> };
+    let isSystemAudioSupported: boolean;
+
+    beforeEach(() => {
+      mixedTrack = createMockMediaStream("audio").getAudioTracks()[0];
+      const mixedStream = { getAudioTracks: () => [mixedTrack], getTracks: () => [mixedTrack] };
+      audioContext = {
+        createMediaStreamSource: vi.fn(() => ({ connect: vi.fn(), disconnect: vi.fn() })),
+        close: vi.fn().mockResolvedValue(undefined)
+      };
+      vi.stubGlobal("AudioContext", vi.fn(function () {
+        return { ...audioContext, createMediaStreamDestination: () => ({ stream: mixedStream }) };
+      }));
+
+      isSystemAudioSupported = true;
+      vi.stubGlobal("electron", {
+        displaySource: { isSystemAudioSupported: vi.fn(async () => isSystemAudioSupported) }
+      });
+
+      // Loopback capture, it comes with a screen nobody wants
+      systemAudioStream = createMockMediaStream("audio");
+      vi.mocked(systemAudioStream.getVideoTracks).mockReturnValue([createMockMediaStream("video").getVideoTracks()[0]]);
+      vi.stubGlobal("navigator", {
+        mediaDevices: {
+          getUserMedia: vi.fn().mockResolvedValue(mockAudioStream),
+          getDisplayMedia: vi.fn().mockResolvedValueOnce(mockDisplayStream).mockResolvedValue(systemAudioStream),
+          enumerateDevices: vi.fn(async () => [
+            { deviceId: "default", groupId: "laptop", kind: "audiooutput", label: "Default - Speakers" },
+            { deviceId: "communications", groupId: "headset", kind: "audiooutput", label: "Communications - Headset" },
+            { deviceId: "speakers", groupId: "laptop", kind: "audiooutput", label: "Speakers" },
+            { deviceId: "headset", groupId: "headset", kind: "audiooutput", label: "Headset" }
+          ])
+        }
+      });
+
+      // Sharer's playback of the peer
+      playback = {
+        style: {},
+        remove: vi.fn(),
+        sinkId: "",
+        setSinkId: vi.fn(async (sinkId: string) => {
+          playback.sinkId = sinkId;
+        })
+      };
+      vi.mocked(document.createElement).mockImplementation(() => playback as unknown as HTMLElement);
+
+      service = new WebRTCService({
+        ...mockSharerConfig,
+        userConfig: { ...mockSharerConfig.userConfig, isMicrophoneEnabledOnConnect: true }
+      });
+    });
+
+    it("should send the microphone through the mix where system audio can be shared", async () => {
+      await service.initialize();
+
+      const sentTracks = vi.mocked(mockPeerConnection.addTrack).mock.calls.map(([track]) => track);
+      expect(sentTracks).toEqual([mockDisplayStream.getVideoTracks()[0], mixedTrack]);
+      expect(audioContext.createMediaStreamSource).toHaveBeenCalledTimes(1);
+      expect(navigator.mediaDevices.getDisplayMedia).toHaveBeenCalledTimes(1);
+    });
+
+    it("should capture the system audio only while the sharer has it turned on", async () => {
+      await service.initialize();
+
+      expect(service.hasSystemAudio()).toBe(true);
+      expect(service.isSystemAudioEnabled()).toBe(false);
+
+      expect(await service.toggleSystemAudio()).toBe(true);
+      expect(navigator.mediaDevices.getDisplayMedia).toHaveBeenLastCalledWith({ audio: true, video: true });
+      expect(systemAudioStream.getVideoTracks()[0].stop).toHaveBeenCalled();
+      expect(audioContext.createMediaStreamSource).toHaveBeenCalledTimes(2);
+
+      expect(await service.toggleSystemAudio()).toBe(false);
+      expect(systemAudioStream.getAudioTracks()[0].stop).toHaveBeenCalled();
+    });
+
+    it("should play the peer off the captured output while system audio is shared", async () => {
+      await service.initialize();
+
+      await service.toggleSystemAudio();
+      expect(playback.setSinkId).toHaveBeenLastCalledWith("communications");
+
+      await service.toggleSystemAudio();
+      expect(playback.setSinkId).toHaveBeenLastCalledWith("default");
+    });
+
+    it("should close the mix on disconnect", async () => {
+      await service.initialize();
+
+      service.disconnect();
+
+      expect(audioContext.close).toHaveBeenCalled();
+      expect(service.hasSystemAudio()).toBe(false);
+    });
+
+    it("should send the microphone on its own where system audio cannot be captured", async () => {
+      isSystemAudioSupported = false;
+
+      await service.initialize();
+
+      expect(mockPeerConnection.addTrack).toHaveBeenCalledWith(mockAudioStream.getAudioTracks()[0], mockAudioStream);
+      expect(service.hasSystemAudio()).toBe(false);
+      expect(await service.toggleSystemAudio()).toBe(false);
+      expect(navigator.mediaDevices.getDisplayMedia).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("audio devices", () => {
+    let deviceChangeListener: () => void;
+    let devices: Array<Pick<MediaDeviceInfo, "deviceId" | "groupId" | "kind" | "label">>;
+    let headsetStream: MediaStream;
+
+    const flushDeviceChange = () => new Promise(resolve => setTimeout(resolve, 0));
+
+    beforeEach(() => {
+      vi.mocked(mockAudioStream.getAudioTracks()[0]).getSettings = vi.fn(() => ({ groupId: "laptop" }));
+      headsetStream = createMockMediaStream("audio");
+      devices = [
+        { deviceId: "default", groupId: "laptop", kind: "audioinput", label: "Default - Built-in" },
+        { deviceId: "built-in", groupId: "laptop", kind: "audioinput", label: "Built-in" },
+        { deviceId: "usb-speaker", groupId: "usb", kind: "audiooutput", label: "USB Speaker" }
+      ];
+      vi.stubGlobal("navigator", {
+        mediaDevices: {
+          getUserMedia: vi.fn().mockResolvedValueOnce(mockAudioStream).mockResolvedValue(headsetStream),
+          getDisplayMedia: vi.fn().mockResolvedValue(mockDisplayStream),
+          enumerateDevices: vi.fn(async () => devices),
+          addEventListener: vi.fn((_type: string, listener: () => void) => {
+            deviceChangeListener = listener;
+          }),
+          removeEventListener: vi.fn()
+        }
+      });
+    });
+
+    it("should swap the microphone on the existing sender when a headset is plugged in", async () => {
+      const audioSender = { track: mockAudioStream.getAudioTracks()[0], replaceTrack: vi.fn().mockResolvedValue(undefined) };
+      vi.mocked(mockPeerConnection.getSenders).mockReturnValue([audioSender as unknown as RTCRtpSender]);
+      service = new WebRTCService({
+        ...mockSharerConfig,
+        userConfig: { ...mockSharerConfig.userConfig, isMicrophoneEnabledOnConnect: true }
+      });
+      await service.initialize();
+
+      // The system default follows the plugged-in headset
+      devices = [
+        { deviceId: "default", groupId: "headset", kind: "audioinput", label: "Default - Headset" },
+        { deviceId: "built-in", groupId: "laptop", kind: "audioinput", label: "Built-in" },
+        { deviceId: "headset", groupId: "headset", kind: "audioinput", label: "Headset" }
+      ];
+      deviceChangeListener();
+      await flushDeviceChange();
+
+      expect(navigator.mediaDevices.getUserMedia).toHaveBeenLastCalledWith({
+        audio: { deviceId: { ideal: "default" } },
+        video: false
+      });
+      expect(audioSender.replaceTrack).toHaveBeenCalledWith(headsetStream.getAudioTracks()[0]);
+      expect(mockAudioStream.getAudioTracks()[0].stop).toHaveBeenCalled();
+      expect(service.getAudioStream()).toBe(headsetStream);
+      expect(mockPeerConnection.addTrack).toHaveBeenCalledTimes(2);
+    });
+
+    it("should keep the microphone when the right one is already in use", async () => {
+      service = new WebRTCService({
+        ...mockSharerConfig,
+        userConfig: { ...mockSharerConfig.userConfig, isMicrophoneEnabledOnConnect: true }
+      });
+      await service.initialize();
+
+      deviceChangeListener();
+      await flushDeviceChange();
+
+      expect(navigator.mediaDevices.getUserMedia).toHaveBeenCalledTimes(1);
+      expect(service.getAudioStream()).toBe(mockAudioStream);
+    });
+
+    it("should play the peer's audio on the picked speaker", async () => {
+      const setSinkId = vi.fn().mockResolvedValue(undefined);
+      const remoteVideo = { srcObject: null, sinkId: "", setSinkId } as unknown as HTMLVideoElement;
+      const watcherService = new WebRTCService({
+        ...mockWatcherConfig,
+        remoteVideo,
+        userConfig: { ...mockWatcherConfig.userConfig, speakerDeviceId: "usb-speaker" }
+      });
+
+      await watcherService.initialize();
+      await flushDeviceChange();
+
+      expect(setSinkId).toHaveBeenCalledWith("usb-speaker");
+    });
+
+    it("should stop following devices on disconnect", async () => {
+      await service.initialize();
+
+      service.disconnect();
+
+      expect(navigator.mediaDevices.removeEventListener).toHaveBeenCalledWith("devicechange", deviceChangeListener);
+    });
+  });
+
   describe("track handling", () => {
     it("should set remote video srcObject when track is received", async () => {
       const watcherService = new WebRTCService(mockWatcherConfig);
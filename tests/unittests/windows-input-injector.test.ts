@@ -0,0 +1,121 @@
+// @vitest-environment node
+import { EventEmitter } from "events";
+import { ChildProcess } from "child_process";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { WindowsInputInjector, toVirtualKey } from "../../src/main/windows-input-injector";
+
+vi.mock("electron", () => ({
+  screen: { dipToScreenPoint: vi.fn() }
+}));
+
+// Mock electron-log
+vi.mock("electron-log", () => ({
+  default: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+/**
+ * PowerShell process recording the commands written to it
+ */
+function createFakeProcess() {
+  const child = new EventEmitter() as EventEmitter & { stdin: { writable: boolean; write: ReturnType<typeof vi.fn>; end: ReturnType<typeof vi.fn> } };
+  child.stdin = { writable: true, write: vi.fn(), end: vi.fn() };
+  const commands = () => child.stdin.write.mock.calls.map(([data]) => data as string).join("").trim().split("\n");
+  return { child, commands };
+}
+
+const modifiers = { alt: false, ctrl: false, meta: false, shift: false };
+
+describe("WindowsInputInjector", () => {
+  let fake: ReturnType<typeof createFakeProcess>;
+  let launch: ReturnType<typeof vi.fn>;
+  let injector: WindowsInputInjector;
+
+  beforeEach(() => {
+    fake = createFakeProcess();
+    launch = vi.fn(() => fake.child as unknown as ChildProcess);
+    // Displays scaled to 150%
+    injector = new WindowsInputInjector(launch, (point) => ({ x: point.x * 1.5, y: point.y * 1.5 }));
+  });
+
+  it("should start PowerShell on first use only", () => {
+    expect(launch).not.toHaveBeenCalled();
+
+    injector.inject({ type: "mouse.move", x: 10, y: 20 });
+    injector.inject({ type: "mouse.move", x: 11, y: 20 });
+
+    expect(launch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should place the cursor in physical pixels before pressing a button", () => {
+    injector.inject({ type: "mouse.down", x: 100, y: 201, button: "left" });
+    injector.inject({ type: "mouse.up", x: 100, y: 201, button: "right" });
+
+    expect(fake.commands()).toEqual(["move 150 302", "mouse 2 0", "move 150 302", "mouse 16 0"]);
+  });
+
+  it("should scroll the other way round than the browser", () => {
+    injector.inject({ type: "wheel", x: 0, y: 0, deltaX: 30, deltaY: 120 });
+
+    expect(fake.commands()).toEqual(["move 0 0", "mouse 2048 -120", "mouse 4096 30"]);
+  });
+
+  it("should press keys by virtual key, flagging extended keys", () => {
+    injector.inject({ type: "key.down", key: "a", code: "KeyA", modifiers });
+    injector.inject({ type: "key.up", key: "ArrowLeft", code: "ArrowLeft", modifiers });
+
+    expect(fake.commands()).toEqual(["key 65 0", "key 37 3"]);
+  });
+
+  it("should skip keys it cannot replay", () => {
+    injector.inject({ type: "key.down", key: "Unidentified", code: "Lang1", modifiers });
+
+    expect(launch).not.toHaveBeenCalled();
+  });
+
+  it("should stop offering control when PowerShell cannot be started", () => {
+    injector.inject({ type: "mouse.move", x: 0, y: 0 });
+    fake.child.emit("error", new Error("spawn powershell.exe ENOENT"));
+
+    expect(injector.canInject).toBe(false);
+  });
+
+  it("should start PowerShell again after it exited", () => {
+    injector.inject({ type: "mouse.move", x: 0, y: 0 });
+    fake.child.emit("exit", 1);
+    injector.inject({ type: "mouse.move", x: 0, y: 0 });
+
+    expect(launch).toHaveBeenCalledTimes(2);
+    expect(injector.canInject).toBe(true);
+  });
+
+  it("should end the process on dispose", () => {
+    injector.inject({ type: "mouse.move", x: 0, y: 0 });
+
+    injector.dispose();
+
+    expect(fake.child.stdin.end).toHaveBeenCalled();
+  });
+});
+
+describe("toVirtualKey", () => {
+  it.each([
+    ["KeyZ", { vk: 0x5a }],
+    ["Digit7", { vk: 0x37 }],
+    ["Numpad7", { vk: 0x67 }],
+    ["F1", { vk: 0x70 }],
+    ["F24", { vk: 0x87 }],
+    ["ControlRight", { vk: 0xa3, extended: true }],
+    ["Enter", { vk: 0x0d }]
+  ])("should map %s", (code, key) => {
+    expect(toVirtualKey(code)).toEqual(key);
+  });
+
+  it.each(["F25", "Key1", "Fn", ""])("should not map %s", (code) => {
+    expect(toVirtualKey(code)).toBeNull();
+  });
+});
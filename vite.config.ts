@@ -16,7 +16,7 @@ export default defineConfig({
           build: {
             outDir: path.resolve(__dirname, "dist-electron"),
             rollupOptions: {
-              external: ["electron"]
+              external: ["electron", "ws"]
             }
           }
         }
@@ -43,7 +43,14 @@ export default defineConfig({
   ],
   build: {
     outDir: path.resolve(__dirname, "dist"),
-    emptyOutDir: true
+    emptyOutDir: true,
+    rollupOptions: {
+      // Main window and the sharer's annotation overlay window
+      input: {
+        main: path.resolve(__dirname, "src/index.html"),
+        overlay: path.resolve(__dirname, "src/overlay.html")
+      }
+    }
   },
   server: {
     port: 5173